@@ -0,0 +1,150 @@
+// Main-process side of the inference worker
+// Forks electron/pipeline/worker.js as a utility process, correlates requests
+// with responses, and restarts the worker (reloading the last model) if it dies.
+import { utilityProcess } from 'electron';
+import { MessageType, createRequest } from './pipeline/protocol.js';
+
+const MAX_RESTARTS = 3;
+const RESTART_WINDOW_MS = 60 * 1000;
+
+export const createInferenceHost = ({ workerPath }) => {
+  let worker = null;
+  let nextId = 1;
+  let lastLoadConfig = null;
+  let shuttingDown = false;
+  let restartTimes = [];
+  const pending = new Map();
+  // Worker request id -> the renderer's request_id for each running generation
+  const activeGenerations = new Map();
+
+  const rejectAllPending = (reason) => {
+    for (const { reject } of pending.values()) {
+      reject(new Error(reason));
+    }
+    pending.clear();
+    activeGenerations.clear();
+  };
+
+  const handleMessage = (message) => {
+    if (message.type === MessageType.READY) return;
+
+    const request = pending.get(message.id);
+    if (!request) return;
+
+    // Intermediate updates; the request stays pending
+    if (message.type === MessageType.PREVIEW || message.type === MessageType.PROGRESS) {
+      request.onUpdate?.(message.payload);
+      return;
+    }
+
+    pending.delete(message.id);
+    activeGenerations.delete(message.id);
+
+    if (message.type === MessageType.ERROR) {
+      request.reject(new Error(message.error));
+    } else {
+      request.resolve(message.payload);
+    }
+  };
+
+  const send = (type, payload, onUpdate = null) => {
+    if (!worker) spawn();
+    const id = nextId++;
+    return {
+      id,
+      promise: new Promise((resolve, reject) => {
+        pending.set(id, { resolve, reject, onUpdate });
+        worker.postMessage(createRequest(id, type, payload));
+      })
+    };
+  };
+
+  const canRestart = () => {
+    const now = Date.now();
+    restartTimes = restartTimes.filter(time => now - time < RESTART_WINDOW_MS);
+    if (restartTimes.length >= MAX_RESTARTS) return false;
+    restartTimes.push(now);
+    return true;
+  };
+
+  const handleExit = (code) => {
+    worker = null;
+    rejectAllPending(`Inference worker exited (code ${code})`);
+    if (shuttingDown) return;
+
+    console.error(`💥 Inference worker exited unexpectedly (code ${code})`);
+    if (!canRestart()) {
+      console.error('❌ Inference worker crashed too often - not restarting');
+      return;
+    }
+
+    console.log('🔄 Restarting inference worker...');
+    spawn();
+    if (lastLoadConfig) {
+      send(MessageType.LOAD_MODEL, lastLoadConfig).promise
+        .then(result => {
+          if (!result?.success) {
+            console.error('❌ Model reload after restart failed:', result?.error);
+          }
+        })
+        .catch(error => console.error('❌ Model reload after restart failed:', error.message));
+    }
+  };
+
+  const spawn = () => {
+    worker = utilityProcess.fork(workerPath, [], {
+      serviceName: 'SDXL-DJ Inference',
+      stdio: 'inherit',
+      execArgv: ['--expose-gc', '--max-old-space-size=12288']
+    });
+    worker.on('message', handleMessage);
+    worker.on('exit', handleExit);
+  };
+
+  // Aborts the generation the renderer sent as `requestId`, or every
+  // in-flight generation without one; each resolves as cancelled
+  const cancel = (requestId = null) => {
+    if (!worker) return;
+    for (const [id, rendererId] of activeGenerations) {
+      if (requestId !== null && rendererId !== requestId) continue;
+      worker.postMessage(createRequest(nextId++, MessageType.CANCEL, { targetId: id }));
+    }
+  };
+
+  return {
+    start: () => {
+      if (!worker) spawn();
+    },
+
+    // `onProgress` is called as each model component loads
+    loadModel: async (config, onProgress = null) => {
+      const result = await send(MessageType.LOAD_MODEL, config, onProgress).promise;
+      lastLoadConfig = result?.success ? config : null;
+      return result;
+    },
+
+    // `onPreview` is called with each intermediate step preview
+    generate: (config, onPreview = null) => {
+      const { id, promise } = send(MessageType.GENERATE, config, onPreview);
+      activeGenerations.set(id, config.request_id ?? null);
+      return promise;
+    },
+
+    cancel,
+
+    dispose: async () => {
+      cancel();
+      lastLoadConfig = null;
+      return send(MessageType.DISPOSE).promise;
+    },
+
+    shutdown: () => {
+      shuttingDown = true;
+      if (worker) {
+        worker.kill();
+        worker = null;
+      }
+      rejectAllPending('Inference worker shut down');
+    }
+  };
+};
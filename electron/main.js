@@ -1,14 +1,15 @@
 import { app, BrowserWindow, ipcMain, dialog } from 'electron';
 import { fileURLToPath } from 'url';
 import path from 'path';
-import fs from 'fs';
 import { createRequire } from 'module';
+import { createInferenceHost } from './inference-host.js';
+import { createModelRegistry } from './model-registry.js';
+import { verifyModelFiles, getIntegrityProblems, describeIntegrityProblem } from './model-integrity.js';
+import { probeModel } from './onnx-probe.js';
+import { createSessionStore, SESSION_EXTENSION } from './session-store.js';
 
 const require = createRequire(import.meta.url);
-const ort = require('onnxruntime-node');
 const si = require('systeminformation');
-// We'll load transformers dynamically when needed
-let AutoTokenizer = null;
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -59,6 +60,8 @@ function createWindow() {
 
   mainWindow.webContents.on('render-process-gone', (event, details) => {
     console.error('Render process gone:', details);
+    // Keep the session lock so the relaunch offers the last autosave
+    rendererCrashed = true;
     app.relaunch();
     app.quit();
   });
@@ -79,670 +82,159 @@ app.commandLine.appendSwitch('max-heap-size', '12288'); // 12GB heap
 // Disable GC during inference for stability
 app.commandLine.appendSwitch('expose-gc');
 
-// IPC Handlers - all model sessions
-let unetSession = null;
-let textEncoderSession = null;
-let vaeDecoderSession = null;
-let tokenizer = null;
-
-// Buffer pool for image generation to reduce GC pressure
-const bufferPool = new Map();
-const getBuffer = (size) => {
-  if (!bufferPool.has(size)) {
-    bufferPool.set(size, new Uint8Array(size));
-    console.log(`📦 Created buffer pool entry for size: ${size}`);
-  }
-  return bufferPool.get(size);
+// Inference runs in a utility process; these handlers forward to it
+let inferenceHost = null;
+let modelRegistry = null;
+let activeModelId = null;
+let sessionStore = null;
+let rendererCrashed = false;
+
+const getModelsDir = () => {
+  // In development, the models are in public/models relative to project root
+  // In production, they'll be in the app bundle
+  const isDev = !app.isPackaged;
+  const projectRoot = isDev ? path.join(__dirname, '..') : path.dirname(app.getAppPath());
+  return path.join(projectRoot, 'public', 'models');
 };
 
-// Helper functions for Stable Diffusion inference
-const createNoiseLatent = (height, width, seed) => {
-  // LCM works with smaller latent space (height/8, width/8, 4 channels)
-  const latentHeight = Math.floor(height / 8);
-  const latentWidth = Math.floor(width / 8);
-  const channels = 4;
-  
-  // Simple random noise based on seed
-  const generator = seedRandom(seed);
-  const noise = new Float32Array(1 * channels * latentHeight * latentWidth);
-  
-  for (let i = 0; i < noise.length; i++) {
-    noise[i] = generator() * 2 - 1; // Random values between -1 and 1
+// Model operations
+ipcMain.handle('list-models', () => {
+  try {
+    return { success: true, models: modelRegistry.list(), activeModelId };
+  } catch (error) {
+    console.error('❌ Failed to list models:', error);
+    return { success: false, error: error.message, models: [] };
   }
-  
-  return new ort.Tensor('float32', noise, [1, channels, latentHeight, latentWidth]);
+});
+
+ipcMain.handle('register-model', (event, filePath) => {
+  try {
+    return { success: true, model: modelRegistry.register(filePath) };
+  } catch (error) {
+    console.error('❌ Failed to register model:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+const VERIFY_PROGRESS_INTERVAL_MS = 250;
+
+const broadcast = (channel, data) => {
+  BrowserWindow.getAllWindows().forEach(window => sendToSender(window.webContents, channel, data));
 };
 
-// Simple seeded random number generator
-const seedRandom = (seed) => {
-  let s = seed;
-  return () => {
-    s = (s * 1664525 + 1013904223) % 4294967296;
-    return s / 4294967296;
-  };
+// Deep check of a model's files against its manifest and the recorded hashes.
+// A first run hashes several GB, so nothing waits on it: it runs in the
+// background (started at launch for the default model), callers for the same
+// model share the running check, and progress goes to every window as
+// model-verification-progress.
+const verifications = new Map();
+
+const verifyModel = async (modelId) => {
+  const model = modelRegistry.resolve(modelId);
+  if (!verifications.has(model.id)) {
+    let lastSentAt = 0;
+    const onProgress = ({ checkedBytes, totalBytes }) => {
+      const now = Date.now();
+      if (checkedBytes < totalBytes && now - lastSentAt < VERIFY_PROGRESS_INTERVAL_MS) return;
+      lastSentAt = now;
+      broadcast('model-verification-progress', { modelId: model.id, checkedBytes, totalBytes });
+    };
+    const verification = verifyModelFiles(model, model.rootDir, { onProgress })
+      .then(files => ({ model, files, problems: getIntegrityProblems(files).map(describeIntegrityProblem) }))
+      .finally(() => verifications.delete(model.id));
+    verifications.set(model.id, verification);
+  }
+  return verifications.get(model.id);
 };
 
-// Create CLIP tokenizer from vocab and merges
-const createCLIPTokenizer = (vocab, merges) => {
-  // Create reverse vocab for encoding
-  const encoder = vocab;
-  const decoder = {};
-  for (const [key, value] of Object.entries(vocab)) {
-    decoder[value] = key;
+ipcMain.handle('verify-models', async (event, modelId) => {
+  try {
+    const { model, files, problems } = await verifyModel(modelId);
+    return { success: true, modelId: model.id, files, problems };
+  } catch (error) {
+    console.error('❌ Model verification failed:', error);
+    return { success: false, error: error.message, files: [], problems: [] };
   }
-  
-  // Special tokens
-  const startToken = '<|startoftext|>';
-  const endToken = '<|endoftext|>';
-  const padToken = '<|endoftext|>';
-  
-  return {
-    encode: (text) => {
-      // Simple tokenization - split by spaces and punctuation
-      const words = text.toLowerCase()
-        .replace(/([.,!?;:])/g, ' $1 ')
-        .split(/\s+/)
-        .filter(w => w.length > 0);
-      
-      const tokens = [];
-      const tokenIds = new Int32Array(77);
-      
-      // Add start token
-      tokenIds[0] = encoder[startToken] || 49406;
-      let idx = 1;
-      
-      // Encode each word
-      for (const word of words) {
-        if (idx >= 75) break; // Leave room for end token
-        
-        // Try to find the word in vocab
-        let tokenId = encoder[word];
-        if (!tokenId) {
-          // Try with common suffix
-          tokenId = encoder[word + '</w>'];
-        }
-        if (!tokenId) {
-          // Fallback to character-level encoding
-          for (const char of word) {
-            if (idx >= 75) break;
-            const charToken = encoder[char] || encoder['<unk>'] || 0;
-            tokenIds[idx++] = charToken;
-          }
-        } else {
-          tokenIds[idx++] = tokenId;
-        }
-      }
-      
-      // Add end token
-      if (idx < 77) {
-        tokenIds[idx++] = encoder[endToken] || 49407;
-      }
-      
-      // Pad with end tokens
-      for (let i = idx; i < 77; i++) {
-        tokenIds[i] = encoder[padToken] || 49407;
-      }
-      
-      console.log(`📝 CLIP Tokenized: "${text}" → ${idx} tokens`);
-      return { input_ids: tokenIds };
-    }
-  };
+});
+
+// Cheap pre-load check: file sizes against the integrity record (no hashing)
+// and each ONNX component's declared inputs and outputs. Hash mismatches come
+// from verify-models, which the renderer runs alongside loading.
+ipcMain.handle('probe-models', async (event, modelId) => {
+  try {
+    const model = modelRegistry.resolve(modelId);
+    const files = await verifyModelFiles(model, model.rootDir, { deep: false });
+    const { components, problems } = probeModel(model);
+    return {
+      success: true,
+      modelId: model.id,
+      name: model.name,
+      architecture: model.architecture,
+      components,
+      totalBytes: components.reduce((total, component) => total + (component.size || 0), 0),
+      problems: [...new Set([
+        ...getIntegrityProblems(files).map(describeIntegrityProblem),
+        ...problems
+      ])]
+    };
+  } catch (error) {
+    console.error('❌ Model probe failed:', error);
+    return { success: false, error: error.message, components: [], totalBytes: 0, problems: [] };
+  }
+});
+
+const sendToSender = (sender, channel, data) => {
+  if (!sender.isDestroyed()) sender.send(channel, data);
 };
 
-// Model operations
+// Loading a different model than the active one hot-switches; the worker
+// releases the current sessions before creating the new ones. Progress is
+// streamed as model-progress, followed by model-loaded or model-error.
 ipcMain.handle('load-model', async (event, config) => {
+  let modelId = config?.modelId;
   try {
-    // In development, the models are in public/models relative to project root
-    // In production, they'll be in the app bundle
-    const isDev = !app.isPackaged;
-    const projectRoot = isDev ? path.join(__dirname, '..') : path.dirname(app.getAppPath());
-    const modelPath = path.join(projectRoot, 'public', 'models', 'model.onnx');
-    const dataPath = path.join(projectRoot, 'public', 'models', 'model.onnx_data');
-    
-    console.log('Checking model paths:', { 
-      modelPath, 
-      dataPath, 
-      isDev, 
-      projectRoot,
-      __dirname 
+    const { modelId: requestedId, ...options } = config || {};
+    const model = modelRegistry.resolve(requestedId);
+    modelId = model.id;
+    const result = await inferenceHost.loadModel({ ...options, model }, (progress) => {
+      sendToSender(event.sender, 'model-progress', progress);
     });
-    
-    // Check if model files exist
-    if (!fs.existsSync(modelPath)) {
-      throw new Error(`Model file not found: ${modelPath}`);
-    }
-    
-    if (!fs.existsSync(dataPath)) {
-      console.log('Warning: External data file not found, model might be single-file');
-    }
-    
-    const modelStats = fs.statSync(modelPath);
-    const modelSizeMB = modelStats.size / (1024 * 1024);
-    
-    console.log(`Model file validated: ${modelSizeMB.toFixed(2)}MB`);
-    console.log('Loading model with config:', config);
-    
-    // Load all ONNX models
-    try {
-      console.log('🔄 Loading ONNX models...');
-      
-      // 1. Load UNet model (main diffusion model)
-      console.log('📦 Loading UNet...');
-      unetSession = await ort.InferenceSession.create(modelPath, {
-        executionProviders: [config.backend === 'gpu' ? 'cuda' : 'cpu'],
-        enableMemPattern: false,
-        enableCpuMemArena: false,
-        graphOptimizationLevel: 'basic'
-      });
-      console.log('✅ UNet loaded:', Object.keys(unetSession.inputNames || {}));
-      console.log('   UNet input names:', unetSession.inputNames);
-      console.log('   UNet output names:', unetSession.outputNames);
-      
-      // 2. Load Text Encoder
-      const textEncoderPath = path.join(projectRoot, 'public', 'models', 'text_encoder.onnx');
-      console.log('📦 Loading Text Encoder...');
-      textEncoderSession = await ort.InferenceSession.create(textEncoderPath, {
-        executionProviders: ['cpu'], // Text encoder usually runs fine on CPU
-        enableMemPattern: false,
-        enableCpuMemArena: false,
-        graphOptimizationLevel: 'basic'
-      });
-      console.log('✅ Text Encoder loaded:', Object.keys(textEncoderSession.inputNames || {}));
-      console.log('   Input names:', textEncoderSession.inputNames);
-      console.log('   Output names:', textEncoderSession.outputNames);
-      
-      // 3. Load VAE Decoder
-      const vaeDecoderPath = path.join(projectRoot, 'public', 'models', 'vae_decoder.onnx');
-      console.log('📦 Loading VAE Decoder...');
-      vaeDecoderSession = await ort.InferenceSession.create(vaeDecoderPath, {
-        executionProviders: [config.backend === 'gpu' ? 'cuda' : 'cpu'],
-        enableMemPattern: false,
-        enableCpuMemArena: false,
-        graphOptimizationLevel: 'basic'
-      });
-      console.log('✅ VAE Decoder loaded:', Object.keys(vaeDecoderSession.inputNames || {}));
-      console.log('   VAE input names:', vaeDecoderSession.inputNames);
-      console.log('   VAE output names:', vaeDecoderSession.outputNames);
-      
-      // Check VAE input shapes to understand expected format
-      if (vaeDecoderSession.inputNames && vaeDecoderSession.inputNames.length > 0) {
-        const firstInputName = vaeDecoderSession.inputNames[0];
-        console.log(`   VAE first input '${firstInputName}' expected shape:`, 'checking...');
-      }
-      
-      // 4. Load Tokenizer from local files
-      console.log('📦 Loading Tokenizer...');
-      try {
-        // Load vocab.json
-        const vocabPath = path.join(projectRoot, 'public', 'models', 'tokenizer', 'vocab.json');
-        const mergesPath = path.join(projectRoot, 'public', 'models', 'tokenizer', 'merges.txt');
-        
-        if (fs.existsSync(vocabPath)) {
-          console.log('📄 Loading tokenizer from local files...');
-          const vocabData = JSON.parse(fs.readFileSync(vocabPath, 'utf-8'));
-          const mergesData = fs.readFileSync(mergesPath, 'utf-8').split('\n').slice(1, -1);
-          
-          // Create a simple CLIP tokenizer using the vocab
-          tokenizer = createCLIPTokenizer(vocabData, mergesData);
-          console.log('✅ Local tokenizer loaded with', Object.keys(vocabData).length, 'tokens');
-        } else {
-          throw new Error('Local tokenizer files not found');
-        }
-      } catch (tokenizerError) {
-        console.warn('⚠️ Could not load tokenizer:', tokenizerError.message);
-        console.log('📝 Using simple tokenizer fallback');
-        // Simple tokenizer fallback
-        tokenizer = {
-          // Simple tokenizer that converts text to token IDs
-          encode: (text) => {
-            // Simple tokenizer that converts text to token IDs
-            const words = text.toLowerCase().replace(/[^\w\s]/g, '').split(/\s+/).filter(w => w.length > 0);
-            const ids = new Int32Array(77);
-            
-            // Start token
-            ids[0] = 49406;
-            
-            // Word tokens
-            let idx = 1;
-            for (const word of words) {
-              if (idx >= 76) break; // Leave room for end token
-              // Simple hash function for token ID (between 49407 and 49500)
-              const hash = word.split('').reduce((acc, char) => acc + char.charCodeAt(0), 0);
-              ids[idx++] = 49407 + (hash % 93);
-            }
-            
-            // End token
-            ids[idx++] = 49407;
-            
-            // Pad with zeros
-            for (let i = idx; i < 77; i++) {
-              ids[i] = 0;
-            }
-            
-            console.log('📝 Tokenized:', text, '→', idx - 1, 'tokens');
-            return { input_ids: ids };
-          }
-        };
-      }
-      
-      return { 
-        success: true, 
-        message: `All models loaded successfully`,
-        models: {
-          unet: Object.keys(unetSession.inputNames || {}),
-          textEncoder: Object.keys(textEncoderSession.inputNames || {}),
-          vaeDecoder: Object.keys(vaeDecoderSession.inputNames || {})
-        }
-      };
-    } catch (modelError) {
-      console.error('❌ Failed to load ONNX models:', modelError);
-      return { 
-        success: false, 
-        error: `Model loading failed: ${modelError.message}` 
-      };
+    activeModelId = result?.success ? model.id : null;
+    if (result?.success) {
+      sendToSender(event.sender, 'model-loaded', { modelId, message: result.message });
+    } else {
+      sendToSender(event.sender, 'model-error', { modelId, error: result?.error });
     }
+    return result;
   } catch (error) {
     console.error('Model loading failed:', error);
+    sendToSender(event.sender, 'model-error', { modelId, error: error.message });
     return { success: false, error: error.message };
   }
 });
 
 ipcMain.handle('generate-image', async (event, config) => {
   try {
-    console.log('🎨 Starting SDXL generation with config:', config);
-    
-    // Validate parameters
-    const {
-      prompt,
-      width = 1024,
-      height = 1024,
-      steps = 1,
-      seed = 42,
-      cfg_scale = 7.5,
-      negative_prompt = "blurry, low quality"
-    } = config;
-
-    if (!prompt || prompt.trim() === '') {
-      throw new Error('Prompt is required');
-    }
-
-    // Check if models are loaded
-    if (!unetSession || !textEncoderSession || !vaeDecoderSession || !tokenizer) {
-      console.warn('⚠️ Models not fully loaded, using placeholder generation');
-      console.log('Model status:', {
-        unet: !!unetSession,
-        textEncoder: !!textEncoderSession,
-        vaeDecoder: !!vaeDecoderSession,
-        tokenizer: !!tokenizer
-      });
-      // Fall back to placeholder generation
-    } else {
-      console.log('🎯 Using loaded ONNX models for real generation');
-      console.log(`Generating ${width}x${height} image with prompt: "${prompt}"`);
-      console.log(`Steps: ${steps}, Seed: ${seed}, CFG Scale: ${cfg_scale}`);
-      
-      try {
-        // 1. Tokenize the prompt
-        console.log('📝 Tokenizing prompt...');
-        let inputIds;
-        
-        if (tokenizer.encode) {
-          // CLIP tokenizer - use int32
-          const encoded = tokenizer.encode(prompt);
-          inputIds = new ort.Tensor('int32', encoded.input_ids, [1, 77]);
-        } else {
-          // Full tokenizer
-          console.log('Using full tokenizer...');
-          const textInputs = await tokenizer(prompt, { 
-            padding: true, 
-            truncation: true,
-            max_length: 77,
-            return_tensors: false // Don't return tensors, just arrays
-          });
-          
-          console.log('Tokenizer output:', textInputs);
-          console.log('Input IDs type:', typeof textInputs.input_ids, Array.isArray(textInputs.input_ids));
-          
-          // Convert to BigInt64Array
-          let inputIdsArray;
-          if (textInputs.input_ids.data) {
-            inputIdsArray = new BigInt64Array(textInputs.input_ids.data.map(id => BigInt(id)));
-          } else if (Array.isArray(textInputs.input_ids)) {
-            inputIdsArray = new BigInt64Array(textInputs.input_ids.map(id => BigInt(id)));
-          } else {
-            throw new Error('Unknown tokenizer output format');
-          }
-          
-          // Create ONNX tensor
-          inputIds = new ort.Tensor('int64', inputIdsArray, [1, inputIdsArray.length]);
-        }
-        
-        // 2. Encode text to embeddings
-        console.log('🔤 Encoding text...');
-        console.log('Input IDs tensor:', inputIds.dims, inputIds.type);
-        
-        const textEncoderOutputs = await textEncoderSession.run({
-          input_ids: inputIds
-        });
-        
-        // Get the correct output name
-        const outputName = Object.keys(textEncoderOutputs)[0];
-        const textEmbeddings = textEncoderOutputs[outputName];
-        console.log('✅ Text encoded:', outputName, textEmbeddings.dims);
-        
-        // 3. Create noise latent
-        console.log('🎨 Creating noise latent...');
-        const noiseLatent = createNoiseLatent(height, width, seed);
-        console.log('✅ Noise latent created:', noiseLatent.dims);
-        
-        // 4. Run diffusion (simplified for LCM - single step)
-        console.log('🌀 Running diffusion...');
-        const timestep = new ort.Tensor('int64', new BigInt64Array([999n]), [1]); // LCM uses specific timesteps
-        
-        // LCM models often need timestep_cond - create with correct dimensions [1, 256]
-        const timestepCondData = new Float32Array(256);
-        // Fill with small positive values for conditioning
-        for (let i = 0; i < 256; i++) {
-          timestepCondData[i] = 0.1;
-        }
-        const timestepCond = new ort.Tensor('float32', timestepCondData, [1, 256]);
-        
-        // Try inference with error handling and memory management
-        console.log('🔄 Running UNet inference...');
-        console.log('Memory usage before inference:', process.memoryUsage());
-        
-        // Force garbage collection before inference if available
-        if (global.gc) {
-          global.gc();
-          console.log('🗑️ Garbage collection completed');
-        }
-        
-        let unetOutputs;
-        try {
-          unetOutputs = await unetSession.run({
-            sample: noiseLatent,
-            timestep: timestep,
-            encoder_hidden_states: textEmbeddings,
-            timestep_cond: timestepCond
-          });
-          console.log('✅ UNet inference completed');
-          console.log('Memory usage after inference:', process.memoryUsage());
-        } catch (unetError) {
-          console.error('❌ UNet inference failed:', unetError);
-          throw new Error(`UNet inference failed: ${unetError.message}`);
-        }
-        
-        // Get the correct output name
-        const unetOutputName = Object.keys(unetOutputs)[0];
-        const latent = unetOutputs[unetOutputName];
-        console.log('✅ Diffusion complete:', unetOutputName, latent.dims);
-        
-        // 5. Decode latent to image
-        console.log('🖼️ Decoding to image...');
-        console.log('VAE Decoder input names:', vaeDecoderSession.inputNames);
-        console.log('Latent tensor dims before VAE:', latent.dims);
-        
-        // Apply VAE scaling factor for SDXL (standard is 0.13025)
-        const [batch, channels, h, w] = latent.dims;
-        console.log('🔧 Applying VAE scaling factor...');
-        const vaeScaleFactor = 0.13025;
-        const latentData = latent.data;
-        const scaledLatentData = new Float32Array(latentData.length);
-        
-        for (let i = 0; i < latentData.length; i++) {
-          scaledLatentData[i] = latentData[i] / vaeScaleFactor;
-        }
-        
-        let vaeInput = new ort.Tensor('float32', scaledLatentData, latent.dims);
-        
-        // If VAE expects 3 channels but we have 4, we need to use only the first 3 channels
-        // This might happen with some VAE models that don't handle the full latent space
-        if (channels === 4) {
-          console.log('🔧 Converting 4-channel latent to 3-channel for VAE compatibility...');
-          const newChannels = 3;
-          const newLatentData = new Float32Array(batch * newChannels * h * w);
-          
-          // Copy only first 3 channels from CHW format
-          for (let c = 0; c < newChannels; c++) {
-            const srcOffset = c * h * w;
-            const dstOffset = c * h * w;
-            for (let i = 0; i < h * w; i++) {
-              newLatentData[dstOffset + i] = scaledLatentData[srcOffset + i];
-            }
-          }
-          
-          vaeInput = new ort.Tensor('float32', newLatentData, [batch, newChannels, h, w]);
-          console.log('✅ Converted to 3-channel latent:', vaeInput.dims);
-        }
-        
-        // Try both possible input names for VAE decoder
-        let vaeInputs;
-        if (vaeDecoderSession.inputNames && vaeDecoderSession.inputNames.includes('sample')) {
-          vaeInputs = { sample: vaeInput };
-        } else if (vaeDecoderSession.inputNames && vaeDecoderSession.inputNames.includes('latent_sample')) {
-          vaeInputs = { latent_sample: vaeInput };
-        } else {
-          // Fallback - use the first input name
-          const inputName = vaeDecoderSession.inputNames[0] || 'sample';
-          vaeInputs = { [inputName]: vaeInput };
-          console.log(`Using VAE input name: ${inputName}`);
-        }
-        
-        const vaeOutputs = await vaeDecoderSession.run(vaeInputs);
-        
-        // Get the correct output name
-        const vaeOutputName = Object.keys(vaeOutputs)[0];
-        const decodedImage = vaeOutputs[vaeOutputName];
-        console.log('✅ Image decoded:', vaeOutputName, decodedImage.dims);
-        
-        // 6. Convert to RGBA
-        console.log('🎨 Converting to RGBA...');
-        const [decodedBatch, decodedChannels, decodedH, decodedW] = decodedImage.dims;
-        const rgbData = decodedImage.data;
-        
-        console.log('VAE output info:', { 
-          batch: decodedBatch, 
-          channels: decodedChannels, 
-          h: decodedH, 
-          w: decodedW, 
-          dataLength: rgbData.length,
-          expectedSize: `${width}x${height}`,
-          actualSize: `${decodedW}x${decodedH}`,
-          upscaleNeeded: decodedW !== width || decodedH !== height
-        });
-        
-        // Check if we need to upscale the VAE output
-        let finalWidth = decodedW;
-        let finalHeight = decodedH;
-        let finalImageData = rgbData;
-        
-        if (decodedW !== width || decodedH !== height) {
-          console.log(`🔍 VAE output size mismatch: got ${decodedW}x${decodedH}, expected ${width}x${height}`);
-          console.log('This suggests the VAE decoder model is not the correct SDXL VAE or has wrong configuration');
-          
-          // For now, use the actual VAE output dimensions but log the issue
-          finalWidth = decodedW;
-          finalHeight = decodedH;
-          console.log(`📐 Using actual VAE dimensions: ${finalWidth}x${finalHeight}`);
-        }
-        
-        const pixelCount = finalWidth * finalHeight;
-        const imageBuffer = new Uint8Array(pixelCount * 4);
-        
-        // Convert from CHW (Channel-Height-Width) to HWC RGBA format
-        for (let y = 0; y < finalHeight; y++) {
-          for (let x = 0; x < finalWidth; x++) {
-            const rgbaIdx = (y * finalWidth + x) * 4;
-            const pixelIdx = y * finalWidth + x;
-            
-            // Calculate channel indices for CHW format
-            const rIdx = pixelIdx;                              // R channel: [0, H*W)
-            const gIdx = finalHeight * finalWidth + pixelIdx;       // G channel: [H*W, 2*H*W)
-            const bIdx = 2 * finalHeight * finalWidth + pixelIdx;   // B channel: [2*H*W, 3*H*W)
-            
-            // Denormalize from [-1, 1] to [0, 255] with clamping
-            imageBuffer[rgbaIdx] = Math.max(0, Math.min(255, Math.floor((rgbData[rIdx] + 1) * 127.5)));     // R
-            imageBuffer[rgbaIdx + 1] = Math.max(0, Math.min(255, Math.floor((rgbData[gIdx] + 1) * 127.5))); // G  
-            imageBuffer[rgbaIdx + 2] = Math.max(0, Math.min(255, Math.floor((rgbData[bIdx] + 1) * 127.5))); // B
-            imageBuffer[rgbaIdx + 3] = 255; // A - fully opaque
-          }
-        }
-        
-        console.log(`✅ Real AI image generated! Size: ${finalWidth}x${finalHeight}`);
-        console.log('📊 Image buffer info:', {
-          bufferSize: imageBuffer.length,
-          expectedSize: finalWidth * finalHeight * 4,
-          pixelCount: finalWidth * finalHeight
-        });
-        
-        return {
-          success: true,
-          imageData: imageBuffer.buffer,
-          metadata: {
-            width: finalWidth,
-            height: finalHeight,
-            steps,
-            seed,
-            prompt: prompt.substring(0, 100),
-            format: 'rgba',
-            note: finalWidth !== width || finalHeight !== height ? 
-              `VAE output ${finalWidth}x${finalHeight} differs from requested ${width}x${height}` : 
-              'Size matches request'
-          }
-        };
-        
-      } catch (inferenceError) {
-        console.error('❌ Inference failed:', inferenceError);
-        console.log('⚠️ Falling back to placeholder generation');
-        // Continue with placeholder generation below
-      }
-    }
-    
-    console.log(`Generating placeholder ${width}x${height} image`);
-    console.log(`Steps: ${steps}, Seed: ${seed}, CFG Scale: ${cfg_scale}`);
-    
-    // Simulate generation time based on resolution and steps (reduced for smoothness)
-    const pixelCount = width * height;
-    const simulatedTime = Math.max(50, (pixelCount / 200000) * steps * 30); // Faster simulation
-    
-    console.log(`⏱️ Simulating generation time: ${simulatedTime}ms`);
-    await new Promise(resolve => setTimeout(resolve, simulatedTime));
-    
-    // Create a simple test image buffer without canvas dependency
-    // This is a placeholder - replace with actual SDXL inference
-    
-    // Generate a simple colored pixel array using buffer pool
-    const channels = 4; // RGBA
-    const bufferSize = pixelCount * channels;
-    const imageBuffer = getBuffer(bufferSize);
-    
-    // Create distinctive test pattern based on seed and prompt
-    const hue1 = (seed * 137.508) % 360;
-    const hue2 = (seed * 237.508) % 360;
-    const promptHash = prompt.length * 17 + prompt.charCodeAt(0) * 23;
-    
-    for (let y = 0; y < height; y++) {
-      for (let x = 0; x < width; x++) {
-        const index = (y * width + x) * 4;
-        
-        // Create distinctive pattern for testing
-        const gradientFactor = (x + y) / (width + height);
-        const hue = hue1 + (hue2 - hue1) * gradientFactor;
-        
-        // Add checkerboard pattern for visibility
-        const checkerSize = 32;
-        const checker = ((Math.floor(x / checkerSize) + Math.floor(y / checkerSize)) % 2) * 0.3;
-        
-        // Convert HSL to RGB (simplified)
-        const c = 0.8 + checker; // Higher chroma for visibility
-        const h = (hue + promptHash) % 360;
-        const hNorm = h / 60;
-        const x_val = c * (1 - Math.abs((hNorm % 2) - 1));
-        const m = 0.2; // Base lightness
-        
-        let r, g, b;
-        if (hNorm < 1) { r = c; g = x_val; b = 0; }
-        else if (hNorm < 2) { r = x_val; g = c; b = 0; }
-        else if (hNorm < 3) { r = 0; g = c; b = x_val; }
-        else if (hNorm < 4) { r = 0; g = x_val; b = c; }
-        else if (hNorm < 5) { r = x_val; g = 0; b = c; }
-        else { r = c; g = 0; b = x_val; }
-        
-        // Add border and test patterns for debugging
-        const borderSize = 8;
-        const isBorder = x < borderSize || x >= width - borderSize || y < borderSize || y >= height - borderSize;
-        const isCorner = (x < borderSize * 2 && y < borderSize * 2) ||
-                        (x >= width - borderSize * 2 && y < borderSize * 2) ||
-                        (x < borderSize * 2 && y >= height - borderSize * 2) ||
-                        (x >= width - borderSize * 2 && y >= height - borderSize * 2);
-        
-        if (isCorner) {
-          // Bright colored corners for debugging
-          imageBuffer[index] = 255;     // R - Red corners
-          imageBuffer[index + 1] = 0;   // G
-          imageBuffer[index + 2] = 0;   // B
-          imageBuffer[index + 3] = 255; // A - Fully opaque
-        } else if (isBorder) {
-          // White border for debugging
-          imageBuffer[index] = 255;     // R
-          imageBuffer[index + 1] = 255; // G
-          imageBuffer[index + 2] = 255; // B
-          imageBuffer[index + 3] = 255; // A - Fully opaque
-        } else {
-          // Generate colorful content
-          const finalR = Math.max(0, Math.min(255, Math.floor((r + m) * 255)));
-          const finalG = Math.max(0, Math.min(255, Math.floor((g + m) * 255)));
-          const finalB = Math.max(0, Math.min(255, Math.floor((b + m) * 255)));
-          
-          imageBuffer[index] = finalR;      // R
-          imageBuffer[index + 1] = finalG;  // G
-          imageBuffer[index + 2] = finalB;  // B
-          imageBuffer[index + 3] = 255;     // A - Fully opaque
-        }
-      }
-    }
-    
-    // For now, just return the raw RGBA data - the frontend will handle it
-    console.log(`✅ Generated ${bufferSize} byte image data (${width}x${height} RGBA)`);
-    
-    // Create a copy to avoid buffer pool contamination
-    const resultBuffer = new Uint8Array(imageBuffer.subarray(0, bufferSize));
-    
-    return {
-      success: true,
-      imageData: resultBuffer.buffer,
-      metadata: {
-        width,
-        height,
-        steps,
-        seed,
-        prompt: prompt.substring(0, 100),
-        format: 'rgba'
-      }
-    };
-    
+    // Stream step previews back to the window that asked, tagged with its request id
+    return await inferenceHost.generate(config, (preview) => {
+      sendToSender(event.sender, 'generation-preview', { requestId: config.request_id, ...preview });
+    });
   } catch (error) {
     console.error('❌ Image generation failed:', error);
     return { success: false, error: error.message };
   }
 });
 
+// Without a request id every running generation is cancelled
+ipcMain.handle('cancel-generation', (event, requestId) => {
+  inferenceHost.cancel(requestId ?? null);
+  return { success: true };
+});
+
 ipcMain.handle('dispose-model', async () => {
   try {
-    if (unetSession) {
-      await unetSession.release();
-      unetSession = null;
-    }
-    if (textEncoderSession) {
-      await textEncoderSession.release();
-      textEncoderSession = null;
-    }
-    if (vaeDecoderSession) {
-      await vaeDecoderSession.release();
-      vaeDecoderSession = null;
-    }
-    console.log('🗑️ All model sessions disposed');
-    return { success: true };
+    activeModelId = null;
+    return await inferenceHost.dispose();
   } catch (error) {
     console.error('❌ Error disposing models:', error);
     return { success: false, error: error.message };
@@ -755,6 +247,7 @@ ipcMain.handle('dialog:openFile', async () => {
     title: 'Select ONNX Model',
     filters: [
       { name: 'ONNX Models', extensions: ['onnx'] },
+      { name: 'Model Manifests', extensions: ['json'] },
       { name: 'All Files', extensions: ['*'] }
     ],
     properties: ['openFile']
@@ -767,6 +260,75 @@ ipcMain.handle('dialog:openFile', async () => {
   return { success: false };
 });
 
+// Session files
+const SESSION_FILTERS = [
+  { name: 'SDXL-DJ Sessions', extensions: [SESSION_EXTENSION] },
+  { name: 'All Files', extensions: ['*'] }
+];
+
+// Saves to `filePath`, or asks where when there isn't one yet (Save As)
+ipcMain.handle('session:save', async (event, content, filePath) => {
+  try {
+    let targetPath = filePath;
+    if (!targetPath) {
+      const result = await dialog.showSaveDialog(BrowserWindow.fromWebContents(event.sender), {
+        title: 'Save Session',
+        defaultPath: `session.${SESSION_EXTENSION}`,
+        filters: SESSION_FILTERS
+      });
+      if (result.canceled || !result.filePath) return { success: false, canceled: true };
+      targetPath = result.filePath;
+    }
+    await sessionStore.save(targetPath, content);
+    return { success: true, filePath: targetPath };
+  } catch (error) {
+    console.error('❌ Failed to save session:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle('session:open', async (event) => {
+  const result = await dialog.showOpenDialog(BrowserWindow.fromWebContents(event.sender), {
+    title: 'Open Session',
+    filters: SESSION_FILTERS,
+    properties: ['openFile']
+  });
+  if (result.canceled || result.filePaths.length === 0) return { success: false, canceled: true };
+
+  try {
+    const filePath = result.filePaths[0];
+    return { success: true, filePath, content: await sessionStore.read(filePath) };
+  } catch (error) {
+    console.error('❌ Failed to open session:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle('session:autosave', async (event, content) => {
+  try {
+    await sessionStore.autosave(content);
+    return { success: true };
+  } catch (error) {
+    console.error('❌ Session autosave failed:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle('session:get-recovery', async () => {
+  try {
+    const recovery = await sessionStore.getRecovery();
+    return recovery ? { success: true, ...recovery } : { success: false };
+  } catch (error) {
+    console.error('❌ Failed to read session recovery:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle('session:clear-recovery', async () => {
+  await sessionStore.clearRecovery();
+  return { success: true };
+});
+
 // Window operations
 ipcMain.handle('window:minimize', (event) => {
   const window = BrowserWindow.fromWebContents(event.sender);
@@ -835,8 +397,33 @@ ipcMain.handle('get-system-stats', async () => {
 });
 
 app.whenReady().then(() => {
+  sessionStore = createSessionStore({ userDataDir: app.getPath('userData') });
+  sessionStore.startRun();
+  modelRegistry = createModelRegistry({
+    builtinDir: path.join(__dirname, 'models'),
+    modelsDir: getModelsDir(),
+    userDataDir: app.getPath('userData')
+  });
+  inferenceHost = createInferenceHost({
+    workerPath: path.join(__dirname, 'pipeline', 'worker.js')
+  });
+  inferenceHost.start();
   createWindow();
 
+  // Start hashing the default model's files in the background; the
+  // renderer's verify-models call picks up this run instead of starting another
+  verifyModel()
+    .then((result) => {
+      if (result.problems.length > 0) {
+        console.warn(`⚠️ ${result.model.name} has problems:\n  ${result.problems.join('\n  ')}`);
+      } else {
+        console.log(`✅ ${result.model.name} files verified`);
+      }
+    })
+    .catch((error) => {
+      console.error('❌ Startup model verification failed:', error.message);
+    });
+
   app.on('activate', () => {
     if (BrowserWindow.getAllWindows().length === 0) {
       createWindow();
@@ -848,4 +435,9 @@ app.on('window-all-closed', () => {
   if (process.platform !== 'darwin') {
     app.quit();
   }
-});
\ No newline at end of file
+});
+
+app.on('will-quit', () => {
+  inferenceHost?.shutdown();
+  if (!rendererCrashed) sessionStore?.endRun();
+});
@@ -0,0 +1,161 @@
+// Model file integrity
+// Shared by scripts/download-model.js and the app. A model manifest may list
+// its downloadable `files` with an optional sha256; hashes verified at
+// download time are recorded next to the models in .integrity.json together
+// with size and mtime, so later checks only re-hash files that changed.
+import path from 'path';
+import fs from 'fs';
+import crypto from 'crypto';
+
+export const INTEGRITY_FILE = '.integrity.json';
+
+// Tokenizer folders are checked file by file
+const TOKENIZER_FILES = ['vocab.json', 'merges.txt'];
+
+// `onBytes` is called with the size of each chunk hashed
+export const sha256File = (filePath, onBytes = null) =>
+  new Promise((resolve, reject) => {
+    const hash = crypto.createHash('sha256');
+    fs.createReadStream(filePath)
+      .on('data', chunk => {
+        hash.update(chunk);
+        onBytes?.(chunk.length);
+      })
+      .on('end', () => resolve(hash.digest('hex')))
+      .on('error', reject);
+  });
+
+export const readIntegrityRecord = (rootDir) => {
+  const recordPath = path.join(rootDir, INTEGRITY_FILE);
+  if (!fs.existsSync(recordPath)) return {};
+  try {
+    return JSON.parse(fs.readFileSync(recordPath, 'utf-8'));
+  } catch (error) {
+    console.warn(`⚠️ Ignoring unreadable ${INTEGRITY_FILE}:`, error.message);
+    return {};
+  }
+};
+
+export const writeIntegrityRecord = (rootDir, record) => {
+  fs.writeFileSync(path.join(rootDir, INTEGRITY_FILE), JSON.stringify(record, null, 2));
+};
+
+// Remember a verified file so later checks can skip hashing it
+export const recordVerifiedFile = (rootDir, relativePath, sha256) => {
+  const stats = fs.statSync(path.join(rootDir, relativePath));
+  const record = readIntegrityRecord(rootDir);
+  record[relativePath] = {
+    sha256,
+    size: stats.size,
+    mtimeMs: stats.mtimeMs,
+    verifiedAt: new Date().toISOString()
+  };
+  writeIntegrityRecord(rootDir, record);
+};
+
+// Files to check for a manifest. Manifests without a `files` list (e.g. ones
+// registered from disk) are checked for presence only.
+export const getManifestFiles = (manifest) => {
+  if (Array.isArray(manifest.files)) return manifest.files;
+
+  const files = [];
+  for (const [component, relativePath] of Object.entries(manifest.components)) {
+    const optional = component === 'vae_encoder';
+    if (component.startsWith('tokenizer')) {
+      TOKENIZER_FILES.forEach(file => files.push({ component, path: path.join(relativePath, file), optional }));
+    } else {
+      files.push({ component, path: relativePath, optional });
+    }
+  }
+  return files;
+};
+
+// Status per file: 'ok', 'unverified' (present, no known hash), 'missing',
+// 'size-mismatch' or 'hash-mismatch'. A deep check reports hashing progress
+// through `onProgress({ checkedBytes, totalBytes, path })`; totalBytes counts
+// every file present, so files skipped as unchanged count as checked.
+export const verifyModelFiles = async (manifest, rootDir, { deep = true, onProgress = null } = {}) => {
+  const record = readIntegrityRecord(rootDir);
+  let recordChanged = false;
+  const results = [];
+  const manifestFiles = getManifestFiles(manifest);
+  const totalBytes = manifestFiles.reduce((total, file) => {
+    const filePath = path.join(rootDir, file.path);
+    return total + (fs.existsSync(filePath) ? fs.statSync(filePath).size : 0);
+  }, 0);
+  let checkedBytes = 0;
+  const advance = (bytes, filePath) => {
+    checkedBytes += bytes;
+    onProgress?.({ checkedBytes, totalBytes, path: filePath });
+  };
+
+  for (const file of manifestFiles) {
+    const filePath = path.join(rootDir, file.path);
+    const recorded = record[file.path];
+    const expectedSha256 = file.sha256 || recorded?.sha256 || null;
+    const result = { component: file.component, path: file.path, optional: !!file.optional };
+
+    if (!fs.existsSync(filePath)) {
+      results.push({ ...result, status: 'missing' });
+      continue;
+    }
+
+    const stats = fs.statSync(filePath);
+    const expectedSize = file.size ?? recorded?.size;
+    result.size = stats.size;
+    if (expectedSize !== undefined && stats.size !== expectedSize) {
+      results.push({ ...result, status: 'size-mismatch', expected: expectedSize, actual: stats.size });
+      advance(stats.size, file.path);
+      continue;
+    }
+
+    if (!expectedSha256) {
+      results.push({ ...result, status: 'unverified' });
+      advance(stats.size, file.path);
+      continue;
+    }
+
+    // Unchanged since it was last verified against the same hash
+    const unchanged = recorded &&
+      recorded.sha256 === expectedSha256 &&
+      recorded.size === stats.size &&
+      recorded.mtimeMs === stats.mtimeMs;
+    if (unchanged || !deep) {
+      results.push({ ...result, status: 'ok' });
+      advance(stats.size, file.path);
+      continue;
+    }
+
+    const actualSha256 = await sha256File(filePath, bytes => advance(bytes, file.path));
+    if (actualSha256 !== expectedSha256) {
+      results.push({ ...result, status: 'hash-mismatch', expected: expectedSha256, actual: actualSha256 });
+      continue;
+    }
+
+    record[file.path] = { sha256: actualSha256, size: stats.size, mtimeMs: stats.mtimeMs, verifiedAt: new Date().toISOString() };
+    recordChanged = true;
+    results.push({ ...result, status: 'ok' });
+  }
+
+  if (recordChanged) {
+    try {
+      writeIntegrityRecord(rootDir, record);
+    } catch (error) {
+      // Read-only install; verification still succeeded
+      console.warn(`⚠️ Could not update ${INTEGRITY_FILE}:`, error.message);
+    }
+  }
+
+  return results;
+};
+
+// Missing required files and any corrupt file
+export const getIntegrityProblems = (results) =>
+  results.filter(result =>
+    result.status !== 'ok' &&
+    result.status !== 'unverified' &&
+    !(result.optional && result.status === 'missing')
+  );
+
+export const describeIntegrityProblem = ({ component, path: filePath, status }) =>
+  `${component} (${filePath}): ${status.replace('-', ' ')}`;
@@ -0,0 +1,192 @@
+// Model registry
+// Each model is described by a JSON manifest: component paths, latent layout,
+// VAE scaling and the resolutions it was trained on. Built-in manifests ship in
+// electron/models/ and resolve against the app's models directory; models the
+// user registers are stored with an absolute root in userData.
+import path from 'path';
+import fs from 'fs';
+
+const REQUIRED_COMPONENTS = ['unet', 'text_encoder', 'vae_decoder', 'tokenizer'];
+const ARCHITECTURES = ['sd15', 'sdxl'];
+const SCHEDULERS = ['lcm'];
+const USER_MANIFESTS_FILE = 'models.json';
+
+export const validateManifest = (manifest) => {
+  const problems = [];
+  if (!manifest || typeof manifest !== 'object') {
+    throw new Error('Model manifest must be a JSON object');
+  }
+  if (!manifest.id || typeof manifest.id !== 'string') problems.push('id');
+  if (!manifest.name || typeof manifest.name !== 'string') problems.push('name');
+  if (!ARCHITECTURES.includes(manifest.architecture)) problems.push(`architecture (${ARCHITECTURES.join(' | ')})`);
+  for (const component of REQUIRED_COMPONENTS) {
+    if (!manifest.components?.[component]) problems.push(`components.${component}`);
+  }
+  if (!Number.isInteger(manifest.latent_channels)) problems.push('latent_channels');
+  if (!Number.isInteger(manifest.vae_scale_factor)) problems.push('vae_scale_factor');
+  if (typeof manifest.scaling_factor !== 'number') problems.push('scaling_factor');
+  if (!Array.isArray(manifest.native_resolutions)) problems.push('native_resolutions');
+  if (!SCHEDULERS.includes(manifest.scheduler)) problems.push(`scheduler (${SCHEDULERS.join(' | ')})`);
+  // `sdxl` is derived from the architecture; a manifest may only repeat it
+  if (manifest.sdxl !== undefined && manifest.sdxl !== (manifest.architecture === 'sdxl')) {
+    problems.push('sdxl (must match architecture)');
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid model manifest, missing or bad: ${problems.join(', ')}`);
+  }
+  return { ...manifest, sdxl: manifest.architecture === 'sdxl' };
+};
+
+const readJSON = (filePath) => JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+
+// Pick the first of `candidates` that exists under `root`
+const findComponent = (root, candidates) =>
+  candidates.find(candidate => fs.existsSync(path.join(root, candidate))) || null;
+
+// Build a manifest for an ONNX export picked from disk. Handles both the
+// diffusers layout (unet/model.onnx next to text_encoder/, vae_decoder/, ...)
+// and the flat layout used by scripts/download-model.js.
+const inferManifestFromUnet = (unetPath) => {
+  const unetDir = path.dirname(unetPath);
+  const nested = path.basename(unetDir) === 'unet';
+  const root = nested ? path.dirname(unetDir) : unetDir;
+  const modelName = path.basename(root);
+
+  const components = nested
+    ? {
+        unet: path.join('unet', path.basename(unetPath)),
+        text_encoder: findComponent(root, ['text_encoder/model.onnx']),
+        text_encoder_2: findComponent(root, ['text_encoder_2/model.onnx']),
+        vae_decoder: findComponent(root, ['vae_decoder/model.onnx']),
+        vae_encoder: findComponent(root, ['vae_encoder/model.onnx']),
+        tokenizer: findComponent(root, ['tokenizer']),
+        tokenizer_2: findComponent(root, ['tokenizer_2'])
+      }
+    : {
+        unet: path.basename(unetPath),
+        text_encoder: findComponent(root, ['text_encoder.onnx']),
+        text_encoder_2: findComponent(root, ['text_encoder_2.onnx']),
+        vae_decoder: findComponent(root, ['vae_decoder.onnx']),
+        vae_encoder: findComponent(root, ['vae_encoder.onnx']),
+        tokenizer: findComponent(root, ['tokenizer']),
+        tokenizer_2: findComponent(root, ['tokenizer_2'])
+      };
+
+  // Two text encoders means SDXL
+  const sdxl = Boolean(components.text_encoder_2);
+  for (const key of Object.keys(components)) {
+    if (!components[key]) delete components[key];
+  }
+
+  return {
+    id: `user-${modelName.toLowerCase().replace(/[^a-z0-9]+/g, '-')}-${Date.now().toString(36)}`,
+    name: modelName,
+    architecture: sdxl ? 'sdxl' : 'sd15',
+    root,
+    components,
+    latent_channels: 4,
+    vae_scale_factor: 8,
+    scaling_factor: sdxl ? 0.13025 : 0.18215,
+    native_resolutions: sdxl
+      ? [[1024, 1024], [896, 1152], [1152, 896], [1344, 768], [768, 1344]]
+      : [[512, 512], [512, 768], [768, 512], [768, 768]],
+    scheduler: 'lcm',
+    sdxl
+  };
+};
+
+export const createModelRegistry = ({ builtinDir, modelsDir, userDataDir }) => {
+  const userManifestsPath = path.join(userDataDir, USER_MANIFESTS_FILE);
+
+  const loadBuiltin = () => {
+    if (!fs.existsSync(builtinDir)) return [];
+    return fs.readdirSync(builtinDir)
+      .filter(file => file.endsWith('.json'))
+      .sort()
+      .map(file => {
+        try {
+          return { ...validateManifest(readJSON(path.join(builtinDir, file))), source: 'builtin' };
+        } catch (error) {
+          console.error(`❌ Skipping built-in manifest ${file}:`, error.message);
+          return null;
+        }
+      })
+      .filter(Boolean);
+  };
+
+  const loadUser = () => {
+    if (!fs.existsSync(userManifestsPath)) return [];
+    try {
+      return readJSON(userManifestsPath).map(manifest => ({ ...manifest, source: 'user' }));
+    } catch (error) {
+      console.error('❌ Could not read registered models:', error.message);
+      return [];
+    }
+  };
+
+  const saveUser = (manifests) => {
+    fs.mkdirSync(userDataDir, { recursive: true });
+    const stripped = manifests.map(({ source, ...manifest }) => manifest);
+    fs.writeFileSync(userManifestsPath, JSON.stringify(stripped, null, 2));
+  };
+
+  // Absolute component paths; built-in manifests have no root of their own
+  const resolvePaths = (manifest) => {
+    const root = manifest.root || modelsDir;
+    const paths = {};
+    for (const [component, relativePath] of Object.entries(manifest.components)) {
+      paths[component] = path.resolve(root, relativePath);
+    }
+    return paths;
+  };
+
+  const isAvailable = (manifest) => {
+    const paths = resolvePaths(manifest);
+    return REQUIRED_COMPONENTS.every(component => fs.existsSync(paths[component]));
+  };
+
+  const list = () =>
+    [...loadBuiltin(), ...loadUser()].map(manifest => ({
+      ...manifest,
+      available: isAvailable(manifest)
+    }));
+
+  return {
+    list,
+
+    // Manifest plus its `rootDir` and absolute `paths`, ready to hand to the pipeline
+    resolve: (modelId) => {
+      const models = list();
+      const manifest = modelId
+        ? models.find(model => model.id === modelId)
+        : models.find(model => model.available) || models[0];
+      if (!manifest) {
+        throw new Error(modelId ? `Unknown model: ${modelId}` : 'No models registered');
+      }
+      return { ...manifest, rootDir: manifest.root || modelsDir, paths: resolvePaths(manifest) };
+    },
+
+    // `filePath` is either a manifest (.json) or the UNet of an ONNX export
+    register: (filePath) => {
+      let manifest;
+      if (filePath.endsWith('.json')) {
+        manifest = readJSON(filePath);
+        manifest.root = path.resolve(path.dirname(filePath), manifest.root || '.');
+      } else {
+        manifest = inferManifestFromUnet(filePath);
+      }
+      manifest = validateManifest(manifest);
+
+      if (loadBuiltin().some(model => model.id === manifest.id)) {
+        throw new Error(`Model id '${manifest.id}' is reserved by a built-in model`);
+      }
+
+      const userManifests = loadUser().filter(model => model.id !== manifest.id);
+      saveUser([...userManifests, manifest]);
+      console.log(`📚 Registered model ${manifest.name} (${manifest.architecture})`);
+
+      return { ...manifest, source: 'user', available: isAvailable(manifest) };
+    }
+  };
+};
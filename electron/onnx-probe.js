@@ -0,0 +1,276 @@
+// ONNX header probing
+// Reads just enough of an .onnx protobuf to report the graph's inputs and
+// outputs, without loading the model. Fields are walked with positioned reads
+// through a small window cache, so node lists and initializer weights are
+// skipped by length instead of being read.
+import path from 'path';
+import fs from 'fs';
+
+const WINDOW_SIZE = 64 * 1024;
+
+// TensorProto.DataType
+const ELEMENT_TYPES = {
+  1: 'float32', 2: 'uint8', 3: 'int8', 4: 'uint16', 5: 'int16', 6: 'int32',
+  7: 'int64', 8: 'string', 9: 'bool', 10: 'float16', 11: 'float64',
+  12: 'uint32', 13: 'uint64', 16: 'bfloat16'
+};
+
+// Field numbers from onnx.proto
+const MODEL_FIELDS = { irVersion: 1, producerName: 2, graph: 7, opsetImport: 8 };
+const GRAPH_FIELDS = { name: 2, initializer: 5, input: 11, output: 12 };
+
+const WIRE_VARINT = 0;
+const WIRE_FIXED64 = 1;
+const WIRE_LENGTH_DELIMITED = 2;
+const WIRE_FIXED32 = 5;
+
+// Reads byte ranges of an open file, keeping the last window around since
+// field headers are read one after another
+const createFileReader = (fd, fileSize) => {
+  let window = Buffer.alloc(0);
+  let windowStart = 0;
+
+  return (offset, length) => {
+    const end = Math.min(offset + length, fileSize);
+    if (offset < windowStart || end > windowStart + window.length) {
+      const buffer = Buffer.alloc(Math.max(end - offset, WINDOW_SIZE));
+      const bytesRead = fs.readSync(fd, buffer, 0, buffer.length, offset);
+      window = buffer.subarray(0, bytesRead);
+      windowStart = offset;
+    }
+    return window.subarray(offset - windowStart, end - windowStart);
+  };
+};
+
+// Varints are decoded with arithmetic rather than bit ops so lengths and
+// dimensions above 2^31 survive
+const readVarint = (read, offset) => {
+  const bytes = read(offset, 10);
+  let value = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    value += (bytes[i] & 0x7f) * 2 ** (7 * i);
+    if ((bytes[i] & 0x80) === 0) {
+      return { value, next: offset + i + 1 };
+    }
+  }
+  throw new Error(`Truncated varint at byte ${offset}`);
+};
+
+// Yields { field, wireType, value, start, end } for each field in [start, end).
+// `value` is only set for varints; length-delimited fields span start..end.
+function* readFields(read, start, end) {
+  let offset = start;
+  while (offset < end) {
+    const key = readVarint(read, offset);
+    const field = Math.floor(key.value / 8);
+    const wireType = key.value % 8;
+    let valueStart = key.next;
+    let valueEnd;
+    let value = null;
+
+    if (wireType === WIRE_VARINT) {
+      const varint = readVarint(read, key.next);
+      value = varint.value;
+      valueEnd = varint.next;
+    } else if (wireType === WIRE_FIXED64) {
+      valueEnd = key.next + 8;
+    } else if (wireType === WIRE_LENGTH_DELIMITED) {
+      const length = readVarint(read, key.next);
+      valueStart = length.next;
+      valueEnd = length.next + length.value;
+    } else if (wireType === WIRE_FIXED32) {
+      valueEnd = key.next + 4;
+    } else {
+      throw new Error(`Unsupported protobuf wire type ${wireType} at byte ${offset}`);
+    }
+
+    if (valueEnd > end) {
+      throw new Error(`Field ${field} at byte ${offset} runs past its message - file is truncated or not ONNX`);
+    }
+
+    yield { field, wireType, value, start: valueStart, end: valueEnd };
+    offset = valueEnd;
+  }
+}
+
+const readString = (read, { start, end }) => read(start, end - start).toString('utf-8');
+
+// TensorShapeProto.Dimension: a fixed size, a symbolic name, or unknown (null)
+const parseDimension = (read, range) => {
+  for (const field of readFields(read, range.start, range.end)) {
+    if (field.field === 1 && field.wireType === WIRE_VARINT) return field.value;
+    if (field.field === 2 && field.wireType === WIRE_LENGTH_DELIMITED) return readString(read, field);
+  }
+  return null;
+};
+
+// TypeProto → TypeProto.Tensor → elem_type and TensorShapeProto
+const parseTensorType = (read, range) => {
+  const tensor = { type: 'unknown', shape: null };
+  for (const typeField of readFields(read, range.start, range.end)) {
+    if (typeField.field !== 1 || typeField.wireType !== WIRE_LENGTH_DELIMITED) continue;
+
+    for (const field of readFields(read, typeField.start, typeField.end)) {
+      if (field.field === 1 && field.wireType === WIRE_VARINT) {
+        tensor.type = ELEMENT_TYPES[field.value] || `type-${field.value}`;
+      } else if (field.field === 2 && field.wireType === WIRE_LENGTH_DELIMITED) {
+        tensor.shape = [];
+        for (const dim of readFields(read, field.start, field.end)) {
+          if (dim.field === 1) tensor.shape.push(parseDimension(read, dim));
+        }
+      }
+    }
+  }
+  return tensor;
+};
+
+// ValueInfoProto: name (1) and type (2)
+const parseValueInfo = (read, range) => {
+  const info = { name: '', type: 'unknown', shape: null };
+  for (const field of readFields(read, range.start, range.end)) {
+    if (field.field === 1 && field.wireType === WIRE_LENGTH_DELIMITED) {
+      info.name = readString(read, field);
+    } else if (field.field === 2 && field.wireType === WIRE_LENGTH_DELIMITED) {
+      Object.assign(info, parseTensorType(read, field));
+    }
+  }
+  return info;
+};
+
+// TensorProto.name is field 8; the weights themselves are skipped by length
+const parseInitializerName = (read, range) => {
+  for (const field of readFields(read, range.start, range.end)) {
+    if (field.field === 8 && field.wireType === WIRE_LENGTH_DELIMITED) return readString(read, field);
+  }
+  return null;
+};
+
+const parseGraph = (read, range) => {
+  const graph = { name: '', inputs: [], outputs: [] };
+  const initializers = new Set();
+
+  for (const field of readFields(read, range.start, range.end)) {
+    if (field.wireType !== WIRE_LENGTH_DELIMITED) continue;
+    if (field.field === GRAPH_FIELDS.name) {
+      graph.name = readString(read, field);
+    } else if (field.field === GRAPH_FIELDS.input) {
+      graph.inputs.push(parseValueInfo(read, field));
+    } else if (field.field === GRAPH_FIELDS.output) {
+      graph.outputs.push(parseValueInfo(read, field));
+    } else if (field.field === GRAPH_FIELDS.initializer) {
+      initializers.add(parseInitializerName(read, field));
+    }
+  }
+
+  // Before IR v4 every initializer is also listed as a graph input
+  graph.inputs = graph.inputs.filter(input => !initializers.has(input.name));
+  return graph;
+};
+
+// OperatorSetIdProto: domain (1), version (2); the default domain is ''
+const parseOpset = (read, range) => {
+  let domain = '';
+  let version = null;
+  for (const field of readFields(read, range.start, range.end)) {
+    if (field.field === 1 && field.wireType === WIRE_LENGTH_DELIMITED) domain = readString(read, field);
+    if (field.field === 2 && field.wireType === WIRE_VARINT) version = field.value;
+  }
+  return { domain, version };
+};
+
+// { irVersion, producer, opset, graphName, inputs, outputs } for one .onnx file
+export const probeOnnxFile = (filePath) => {
+  const fd = fs.openSync(filePath, 'r');
+  try {
+    const { size } = fs.fstatSync(fd);
+    const read = createFileReader(fd, size);
+    const result = { irVersion: null, producer: null, opset: null, graphName: null, inputs: null, outputs: null };
+
+    for (const field of readFields(read, 0, size)) {
+      if (field.field === MODEL_FIELDS.irVersion && field.wireType === WIRE_VARINT) {
+        result.irVersion = field.value;
+      } else if (field.field === MODEL_FIELDS.producerName && field.wireType === WIRE_LENGTH_DELIMITED) {
+        result.producer = readString(read, field);
+      } else if (field.field === MODEL_FIELDS.opsetImport && field.wireType === WIRE_LENGTH_DELIMITED) {
+        const opset = parseOpset(read, field);
+        if (opset.domain === '' || opset.domain === 'ai.onnx') result.opset = opset.version;
+      } else if (field.field === MODEL_FIELDS.graph && field.wireType === WIRE_LENGTH_DELIMITED) {
+        const graph = parseGraph(read, field);
+        result.graphName = graph.name;
+        result.inputs = graph.inputs;
+        result.outputs = graph.outputs;
+      }
+    }
+
+    if (!result.inputs) {
+      throw new Error('No graph found - not an ONNX model');
+    }
+    return result;
+  } finally {
+    fs.closeSync(fd);
+  }
+};
+
+// Size of a component including its external weights file, if any
+export const getComponentBytes = (filePath) => {
+  let bytes = fs.statSync(filePath).size;
+  const dataPath = `${filePath}_data`;
+  if (fs.existsSync(dataPath)) bytes += fs.statSync(dataPath).size;
+  return bytes;
+};
+
+// UNet inputs the pipeline feeds; SDXL adds the pooled embedding and time ids
+const REQUIRED_UNET_INPUTS = {
+  sd15: ['sample', 'timestep', 'encoder_hidden_states'],
+  sdxl: ['sample', 'timestep', 'encoder_hidden_states', 'text_embeds', 'time_ids']
+};
+const TOKENIZER_FILES = ['vocab.json', 'merges.txt'];
+const OPTIONAL_COMPONENTS = ['vae_encoder', 'tokenizer_2'];
+
+// Stat and probe every component of a resolved model (see model-registry.js).
+// Returns per-component details plus human-readable `problems`.
+export const probeModel = (model) => {
+  const components = [];
+  const problems = [];
+
+  for (const [component, componentPath] of Object.entries(model.paths)) {
+    const relativePath = path.relative(model.rootDir, componentPath);
+    const optional = OPTIONAL_COMPONENTS.includes(component);
+    const entry = { component, path: relativePath, optional, exists: fs.existsSync(componentPath) };
+    components.push(entry);
+
+    if (!entry.exists) {
+      if (!optional) problems.push(`${component} (${relativePath}): missing`);
+      continue;
+    }
+
+    if (component.startsWith('tokenizer')) {
+      const missing = TOKENIZER_FILES.filter(file => !fs.existsSync(path.join(componentPath, file)));
+      entry.size = TOKENIZER_FILES
+        .filter(file => !missing.includes(file))
+        .reduce((total, file) => total + fs.statSync(path.join(componentPath, file)).size, 0);
+      if (missing.length > 0) problems.push(`${component} (${relativePath}): missing ${missing.join(', ')}`);
+      continue;
+    }
+
+    entry.size = getComponentBytes(componentPath);
+    entry.externalData = fs.existsSync(`${componentPath}_data`);
+    try {
+      Object.assign(entry, probeOnnxFile(componentPath));
+    } catch (error) {
+      entry.error = error.message;
+      problems.push(`${component} (${relativePath}): ${error.message}`);
+    }
+  }
+
+  const unet = components.find(entry => entry.component === 'unet');
+  if (unet?.inputs) {
+    const inputNames = unet.inputs.map(input => input.name);
+    const missingInputs = (REQUIRED_UNET_INPUTS[model.architecture] || []).filter(name => !inputNames.includes(name));
+    if (missingInputs.length > 0) {
+      problems.push(`unet: not a ${model.architecture} UNet, missing inputs ${missingInputs.join(', ')}`);
+    }
+  }
+
+  return { components, problems };
+};
@@ -0,0 +1,196 @@
+// Byte-level BPE tokenizer for CLIP text encoders
+// Port of OpenAI's SimpleTokenizer / HF CLIPTokenizer: byte-to-unicode
+// mapping, ranked merges from merges.txt and the CLIP pre-tokenizer regex.
+import fs from 'fs';
+import path from 'path';
+
+export const CONTEXT_LENGTH = 77;
+const START_TOKEN = '<|startoftext|>';
+const END_TOKEN = '<|endoftext|>';
+
+// Same split as CLIP: special tokens, contractions, letter runs, single digits
+// and runs of everything else that is not whitespace
+const TOKEN_PATTERN = /<\|startoftext\|>|<\|endoftext\|>|'s|'t|'re|'ve|'m|'ll|'d|[\p{L}]+|[\p{N}]|[^\s\p{L}\p{N}]+/giu;
+
+const HTML_ENTITIES = {
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&#39;': "'",
+  '&apos;': "'",
+  '&nbsp;': ' '
+};
+
+// Maps every byte to a printable unicode character so BPE never sees raw
+// whitespace or control bytes
+const bytesToUnicode = () => {
+  const bytes = [];
+  for (let b = '!'.charCodeAt(0); b <= '~'.charCodeAt(0); b++) bytes.push(b);
+  for (let b = '¡'.charCodeAt(0); b <= '¬'.charCodeAt(0); b++) bytes.push(b);
+  for (let b = '®'.charCodeAt(0); b <= 'ÿ'.charCodeAt(0); b++) bytes.push(b);
+
+  const chars = [...bytes];
+  let n = 0;
+  for (let b = 0; b < 256; b++) {
+    if (!bytes.includes(b)) {
+      bytes.push(b);
+      chars.push(256 + n);
+      n++;
+    }
+  }
+
+  const table = new Array(256);
+  bytes.forEach((b, i) => {
+    table[b] = String.fromCharCode(chars[i]);
+  });
+  return table;
+};
+
+const BYTE_ENCODER = bytesToUnicode();
+const UTF8 = new TextEncoder();
+
+const unescapeHtml = (text) => {
+  // Applied twice like CLIP's basic_clean, to undo double-escaped input
+  let result = text;
+  for (let pass = 0; pass < 2; pass++) {
+    result = result
+      .replace(/&(amp|lt|gt|quot|apos|nbsp|#39);/g, (entity) => HTML_ENTITIES[entity])
+      .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+      .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)));
+  }
+  return result;
+};
+
+export const cleanText = (text) =>
+  unescapeHtml(text.normalize('NFC'))
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase();
+
+// Create CLIP tokenizer from vocab and merges
+export const createCLIPTokenizer = (vocab, merges, options = {}) => {
+  const { maxLength = CONTEXT_LENGTH, padToken = END_TOKEN } = options;
+
+  const mergeRanks = new Map();
+  merges.forEach((merge, rank) => {
+    mergeRanks.set(merge, rank);
+  });
+
+  const startId = vocab[START_TOKEN];
+  const endId = vocab[END_TOKEN];
+  const padId = vocab[padToken];
+  if (startId === undefined || endId === undefined || padId === undefined) {
+    throw new Error('Tokenizer vocab is missing CLIP special tokens');
+  }
+
+  const cache = new Map([
+    [START_TOKEN, [START_TOKEN]],
+    [END_TOKEN, [END_TOKEN]]
+  ]);
+
+  const bpe = (token) => {
+    const cached = cache.get(token);
+    if (cached) return cached;
+
+    const chars = Array.from(token);
+    // The end-of-word marker is fused onto the last symbol
+    let word = [...chars.slice(0, -1), chars[chars.length - 1] + '</w>'];
+
+    while (word.length > 1) {
+      let bestRank = Infinity;
+      let bestIndex = -1;
+      for (let i = 0; i < word.length - 1; i++) {
+        const rank = mergeRanks.get(`${word[i]} ${word[i + 1]}`);
+        if (rank !== undefined && rank < bestRank) {
+          bestRank = rank;
+          bestIndex = i;
+        }
+      }
+      if (bestIndex === -1) break;
+
+      // Merge every occurrence of the winning pair in one pass
+      const first = word[bestIndex];
+      const second = word[bestIndex + 1];
+      const merged = [];
+      let i = 0;
+      while (i < word.length) {
+        if (i < word.length - 1 && word[i] === first && word[i + 1] === second) {
+          merged.push(first + second);
+          i += 2;
+        } else {
+          merged.push(word[i]);
+          i += 1;
+        }
+      }
+      word = merged;
+    }
+
+    cache.set(token, word);
+    return word;
+  };
+
+  const tokenize = (text) => {
+    const ids = [];
+    for (const match of cleanText(text).matchAll(TOKEN_PATTERN)) {
+      const token = Array.from(UTF8.encode(match[0]), (byte) => BYTE_ENCODER[byte]).join('');
+      for (const piece of bpe(token)) {
+        const id = vocab[piece];
+        if (id !== undefined) {
+          ids.push(id);
+        }
+      }
+    }
+    return ids;
+  };
+
+  return {
+    tokenize,
+
+    encode: (text) => {
+      // Truncate to leave room for the start and end tokens
+      const tokens = tokenize(text).slice(0, maxLength - 2);
+      const tokenIds = new Int32Array(maxLength).fill(padId);
+
+      tokenIds[0] = startId;
+      tokenIds.set(tokens, 1);
+      tokenIds[tokens.length + 1] = endId;
+
+      console.log(`📝 CLIP Tokenized: "${text}" → ${tokens.length + 2} tokens`);
+      return { input_ids: tokenIds };
+    }
+  };
+};
+
+// Pad token from special_tokens_map.json. SDXL's second tokenizer pads with
+// "!" instead of <|endoftext|>, which changes the pooled embedding.
+const readPadToken = (tokenizerDir) => {
+  const mapPath = path.join(tokenizerDir, 'special_tokens_map.json');
+  if (!fs.existsSync(mapPath)) return undefined;
+
+  const { pad_token: padToken } = JSON.parse(fs.readFileSync(mapPath, 'utf-8'));
+  return typeof padToken === 'string' ? padToken : padToken?.content;
+};
+
+// Load vocab.json + merges.txt from a HF-style tokenizer directory
+export const loadCLIPTokenizer = (tokenizerDir, options = {}) => {
+  const vocabPath = path.join(tokenizerDir, 'vocab.json');
+  const mergesPath = path.join(tokenizerDir, 'merges.txt');
+
+  if (!fs.existsSync(vocabPath) || !fs.existsSync(mergesPath)) {
+    throw new Error(`Tokenizer files not found in ${tokenizerDir}`);
+  }
+
+  const vocab = JSON.parse(fs.readFileSync(vocabPath, 'utf-8'));
+  // First line is the "#version" header
+  const merges = fs.readFileSync(mergesPath, 'utf-8')
+    .split('\n')
+    .slice(1)
+    .map(line => line.trim())
+    .filter(line => line.length > 0);
+
+  const padToken = options.padToken ?? readPadToken(tokenizerDir);
+  const tokenizer = createCLIPTokenizer(vocab, merges, { ...options, ...(padToken && { padToken }) });
+  console.log('✅ CLIP tokenizer loaded:', Object.keys(vocab).length, 'tokens,', merges.length, 'merges');
+  return tokenizer;
+};
@@ -0,0 +1,34 @@
+// Small LRU cache for text encoder outputs keyed by prompt text, so LFO-driven
+// weight changes only re-blend embeddings instead of re-running the encoder
+
+export const createEmbeddingCache = (maxEntries = 32) => {
+  const entries = new Map();
+
+  return {
+    get: (key) => {
+      if (!entries.has(key)) return undefined;
+      // Re-insert to mark as most recently used
+      const value = entries.get(key);
+      entries.delete(key);
+      entries.set(key, value);
+      return value;
+    },
+
+    set: (key, value) => {
+      entries.delete(key);
+      entries.set(key, value);
+      if (entries.size > maxEntries) {
+        const oldestKey = entries.keys().next().value;
+        entries.delete(oldestKey);
+      }
+    },
+
+    clear: () => {
+      entries.clear();
+    },
+
+    get size() {
+      return entries.size;
+    }
+  };
+};
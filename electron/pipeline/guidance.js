@@ -0,0 +1,36 @@
+// Classifier-free guidance helpers
+// The UNet is run once on a batch of [unconditional, conditional] inputs and
+// the two noise predictions are combined by the guidance scale.
+
+// LCM is distilled to work without CFG, so scales at or below 1 skip the
+// unconditional pass entirely
+export const shouldApplyGuidance = (cfgScale) => cfgScale > 1;
+
+// Stack two equally shaped tensors' data along a new leading batch axis
+export const concatBatch = (first, second) => {
+  const batched = new Float32Array(first.length + second.length);
+  batched.set(first, 0);
+  batched.set(second, first.length);
+  return batched;
+};
+
+// Repeat one batch entry `count` times
+export const repeatBatch = (data, count) => {
+  const repeated = new Float32Array(data.length * count);
+  for (let i = 0; i < count; i++) {
+    repeated.set(data, i * data.length);
+  }
+  return repeated;
+};
+
+// noise = uncond + scale * (cond - uncond), with the prediction batch laid out
+// as [uncond, cond]
+export const applyClassifierFreeGuidance = (noisePred, cfgScale) => {
+  const half = noisePred.length / 2;
+  const guided = new Float32Array(half);
+  for (let i = 0; i < half; i++) {
+    const uncond = noisePred[i];
+    guided[i] = uncond + cfgScale * (noisePred[half + i] - uncond);
+  }
+  return guided;
+};
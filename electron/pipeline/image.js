@@ -0,0 +1,39 @@
+// Pixel buffer conversions between renderer RGBA frames and model tensors
+
+// RGBA (HWC, 0-255) → float CHW in [-1, 1], bilinearly resampled to the
+// target size. This is the VAE encoder's expected input layout.
+export const rgbaToCHW = (rgba, srcWidth, srcHeight, dstWidth, dstHeight) => {
+  const pixels = new Uint8Array(rgba);
+  const planeSize = dstWidth * dstHeight;
+  const chw = new Float32Array(3 * planeSize);
+  const scaleX = srcWidth / dstWidth;
+  const scaleY = srcHeight / dstHeight;
+
+  for (let y = 0; y < dstHeight; y++) {
+    const srcY = Math.max(0, Math.min(srcHeight - 1, (y + 0.5) * scaleY - 0.5));
+    const y0 = Math.floor(srcY);
+    const y1 = Math.min(srcHeight - 1, y0 + 1);
+    const fy = srcY - y0;
+
+    for (let x = 0; x < dstWidth; x++) {
+      const srcX = Math.max(0, Math.min(srcWidth - 1, (x + 0.5) * scaleX - 0.5));
+      const x0 = Math.floor(srcX);
+      const x1 = Math.min(srcWidth - 1, x0 + 1);
+      const fx = srcX - x0;
+
+      for (let c = 0; c < 3; c++) {
+        const topLeft = pixels[(y0 * srcWidth + x0) * 4 + c];
+        const topRight = pixels[(y0 * srcWidth + x1) * 4 + c];
+        const bottomLeft = pixels[(y1 * srcWidth + x0) * 4 + c];
+        const bottomRight = pixels[(y1 * srcWidth + x1) * 4 + c];
+        const top = topLeft + (topRight - topLeft) * fx;
+        const bottom = bottomLeft + (bottomRight - bottomLeft) * fx;
+        const value = top + (bottom - top) * fy;
+
+        chw[c * planeSize + y * dstWidth + x] = value / 127.5 - 1;
+      }
+    }
+  }
+
+  return chw;
+};
@@ -0,0 +1,82 @@
+// Interpolation between same-shaped float vectors (embeddings, latents)
+
+// Below this angle slerp is numerically unstable and lerp is indistinguishable
+const DOT_THRESHOLD = 0.9995;
+
+export const lerp = (a, b, t) => {
+  const result = new Float32Array(a.length);
+  for (let i = 0; i < a.length; i++) {
+    result[i] = a[i] + (b[i] - a[i]) * t;
+  }
+  return result;
+};
+
+// Spherical interpolation. The angle is measured between the normalized
+// vectors but applied to the raw ones, which keeps the norm of Gaussian
+// latents and text embeddings close to that of the endpoints.
+export const slerp = (a, b, t) => {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  const cosTheta = dot / (Math.sqrt(normA) * Math.sqrt(normB) || 1);
+  if (Math.abs(cosTheta) > DOT_THRESHOLD) {
+    return lerp(a, b, t);
+  }
+
+  const theta = Math.acos(cosTheta);
+  const sinTheta = Math.sin(theta);
+  const scaleA = Math.sin((1 - t) * theta) / sinTheta;
+  const scaleB = Math.sin(t * theta) / sinTheta;
+
+  const result = new Float32Array(a.length);
+  for (let i = 0; i < a.length; i++) {
+    result[i] = scaleA * a[i] + scaleB * b[i];
+  }
+  return result;
+};
+
+// Blend any number of vectors by weight. Weights are normalized; slerp is
+// applied incrementally so each new vector pulls the running blend by its
+// share of the total weight seen so far.
+export const blendWeighted = (vectors, weights, mode = 'linear') => {
+  if (vectors.length === 0) {
+    throw new Error('Cannot blend an empty set of vectors');
+  }
+
+  const totalWeight = weights.reduce((sum, w) => sum + Math.max(0, w), 0);
+  if (vectors.length === 1 || totalWeight <= 0) {
+    return vectors[0];
+  }
+
+  if (mode === 'slerp') {
+    let blended = vectors[0];
+    let accumulated = Math.max(0, weights[0]);
+    for (let i = 1; i < vectors.length; i++) {
+      const weight = Math.max(0, weights[i]);
+      if (weight === 0) continue;
+      if (accumulated === 0) {
+        blended = vectors[i];
+      } else {
+        blended = slerp(blended, vectors[i], weight / (accumulated + weight));
+      }
+      accumulated += weight;
+    }
+    return blended;
+  }
+
+  const blended = new Float32Array(vectors[0].length);
+  vectors.forEach((vector, index) => {
+    const share = Math.max(0, weights[index]) / totalWeight;
+    if (share === 0) return;
+    for (let i = 0; i < vector.length; i++) {
+      blended[i] += vector[i] * share;
+    }
+  });
+  return blended;
+};
@@ -0,0 +1,148 @@
+// Latent Consistency Model scheduler
+// Mirrors diffusers' LCMScheduler (scaled_linear betas, epsilon prediction,
+// 50 original inference steps) so ONNX exports of LCM UNets behave the same
+// as they do in Python.
+
+const DEFAULT_CONFIG = {
+  numTrainTimesteps: 1000,
+  betaStart: 0.00085,
+  betaEnd: 0.012,
+  originalInferenceSteps: 50,
+  setAlphaToOne: true,
+  timestepScaling: 10.0,
+  sigmaData: 0.5
+};
+
+// Guidance scale LCM Dreamshaper was distilled with
+export const DEFAULT_LCM_GUIDANCE_SCALE = 8.5;
+export const MAX_LCM_STEPS = 8;
+
+const computeAlphasCumprod = ({ numTrainTimesteps, betaStart, betaEnd }) => {
+  // scaled_linear: betas are linear in sqrt space
+  const startSqrt = Math.sqrt(betaStart);
+  const endSqrt = Math.sqrt(betaEnd);
+  const alphasCumprod = new Float64Array(numTrainTimesteps);
+  let product = 1.0;
+
+  for (let i = 0; i < numTrainTimesteps; i++) {
+    const betaSqrt = startSqrt + (endSqrt - startSqrt) * (i / (numTrainTimesteps - 1));
+    product *= 1.0 - betaSqrt * betaSqrt;
+    alphasCumprod[i] = product;
+  }
+
+  return alphasCumprod;
+};
+
+// Sinusoidal embedding of the guidance scale fed to the UNet as timestep_cond
+export const getGuidanceScaleEmbedding = (guidanceScale, embeddingDim = 256) => {
+  const w = (guidanceScale - 1) * 1000.0;
+  const halfDim = Math.floor(embeddingDim / 2);
+  const embedding = new Float32Array(embeddingDim);
+  const logBase = Math.log(10000.0) / (halfDim - 1);
+
+  for (let i = 0; i < halfDim; i++) {
+    const value = w * Math.exp(i * -logBase);
+    embedding[i] = Math.sin(value);
+    embedding[halfDim + i] = Math.cos(value);
+  }
+
+  return embedding;
+};
+
+export const createLCMScheduler = (options = {}) => {
+  const config = { ...DEFAULT_CONFIG, ...options };
+  const alphasCumprod = computeAlphasCumprod(config);
+  const finalAlphaCumprod = config.setAlphaToOne ? 1.0 : alphasCumprod[0];
+
+  let timesteps = [];
+
+  const getScalings = (timestep) => {
+    const scaled = timestep * config.timestepScaling;
+    const sigmaDataSq = config.sigmaData * config.sigmaData;
+    const cSkip = sigmaDataSq / (scaled * scaled + sigmaDataSq);
+    const cOut = scaled / Math.sqrt(scaled * scaled + sigmaDataSq);
+    return { cSkip, cOut };
+  };
+
+  return {
+    // LCM starts from unit-variance noise
+    initNoiseSigma: 1.0,
+
+    get timesteps() {
+      return timesteps;
+    },
+
+    // `strength` < 1 is img2img: only the noisiest `strength` share of the
+    // distillation schedule is kept, so denoising starts part-way down
+    setTimesteps: (numInferenceSteps, strength = 1.0) => {
+      const k = Math.floor(config.numTrainTimesteps / config.originalInferenceSteps);
+      const originCount = Math.max(1, Math.floor(config.originalInferenceSteps * Math.min(1, strength)));
+      const steps = Math.max(1, Math.min(MAX_LCM_STEPS, originCount, Math.floor(numInferenceSteps)));
+
+      // Timesteps the model was distilled on: 19, 39, ..., 999 (descending)
+      const originTimesteps = [];
+      for (let i = originCount; i >= 1; i--) {
+        originTimesteps.push(i * k - 1);
+      }
+
+      // Evenly spaced picks from the distillation schedule, matching
+      // np.linspace(0, len, steps, endpoint=False)
+      timesteps = [];
+      for (let i = 0; i < steps; i++) {
+        const index = Math.floor((i * originTimesteps.length) / steps);
+        timesteps.push(originTimesteps[index]);
+      }
+
+      console.log(`⏱️ LCM timesteps (${steps} steps):`, timesteps);
+      return timesteps;
+    },
+
+    // Forward diffusion q(x_t | x_0): noise clean latents to `timestep`
+    addNoise: (originalSamples, noise, timestep) => {
+      const sqrtAlphaProd = Math.sqrt(alphasCumprod[timestep]);
+      const sqrtOneMinusAlphaProd = Math.sqrt(1 - alphasCumprod[timestep]);
+      const noisy = new Float32Array(originalSamples.length);
+      for (let i = 0; i < originalSamples.length; i++) {
+        noisy[i] = sqrtAlphaProd * originalSamples[i] + sqrtOneMinusAlphaProd * noise[i];
+      }
+      return noisy;
+    },
+
+    // One consistency step. `noise` is only read when another step follows;
+    // it re-noises the denoised estimate to the next timestep's level.
+    step: (modelOutput, stepIndex, sample, noise) => {
+      const timestep = timesteps[stepIndex];
+      const isLastStep = stepIndex === timesteps.length - 1;
+      const prevTimestep = isLastStep ? -1 : timesteps[stepIndex + 1];
+
+      const alphaProdT = alphasCumprod[timestep];
+      const alphaProdTPrev = prevTimestep >= 0 ? alphasCumprod[prevTimestep] : finalAlphaCumprod;
+      const sqrtAlphaProdT = Math.sqrt(alphaProdT);
+      const sqrtBetaProdT = Math.sqrt(1 - alphaProdT);
+      const { cSkip, cOut } = getScalings(timestep);
+
+      const denoised = new Float32Array(sample.length);
+      for (let i = 0; i < sample.length; i++) {
+        const predictedOriginal = (sample[i] - sqrtBetaProdT * modelOutput[i]) / sqrtAlphaProdT;
+        denoised[i] = cOut * predictedOriginal + cSkip * sample[i];
+      }
+
+      if (isLastStep) {
+        return { prevSample: denoised, denoised };
+      }
+
+      if (!noise || noise.length !== sample.length) {
+        throw new Error('LCM step requires a noise buffer matching the latent size');
+      }
+
+      const sqrtAlphaProdTPrev = Math.sqrt(alphaProdTPrev);
+      const sqrtBetaProdTPrev = Math.sqrt(1 - alphaProdTPrev);
+      const prevSample = new Float32Array(sample.length);
+      for (let i = 0; i < sample.length; i++) {
+        prevSample[i] = sqrtAlphaProdTPrev * denoised[i] + sqrtBetaProdTPrev * noise[i];
+      }
+
+      return { prevSample, denoised };
+    }
+  };
+};
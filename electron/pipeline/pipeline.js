@@ -0,0 +1,710 @@
+// Stable Diffusion inference pipeline
+// Owns the ONNX sessions, tokenizer and embedding cache. Runs inside the
+// inference worker so heavy tensor loops never block the Electron main process.
+import fs from 'fs';
+import { createRequire } from 'module';
+import {
+  createLCMScheduler,
+  getGuidanceScaleEmbedding,
+  DEFAULT_LCM_GUIDANCE_SCALE
+} from './lcm-scheduler.js';
+import { loadCLIPTokenizer } from './clip-tokenizer.js';
+import {
+  shouldApplyGuidance,
+  concatBatch,
+  repeatBatch,
+  applyClassifierFreeGuidance
+} from './guidance.js';
+import { blendWeighted, slerp } from './interpolation.js';
+import { createEmbeddingCache } from './embedding-cache.js';
+import { createTorchGenerator } from './random.js';
+import { rgbaToCHW } from './image.js';
+import { latentToPreviewRGBA } from './preview.js';
+import {
+  selectPenultimateHiddenState,
+  selectPooledEmbedding,
+  concatFeatures,
+  createTimeIds
+} from './sdxl.js';
+import { getComponentBytes } from '../onnx-probe.js';
+
+const require = createRequire(import.meta.url);
+const ort = require('onnxruntime-node');
+
+const createCancelledError = () => {
+  const error = new Error('Generation cancelled');
+  error.cancelled = true;
+  return error;
+};
+
+// Checked between UNet steps and before decoding, where a cancel can land
+const throwIfCancelled = (isCancelled) => {
+  if (isCancelled()) {
+    throw createCancelledError();
+  }
+};
+
+// Latent tensor shape for an image size, from the model manifest
+const getLatentShape = (model, height, width) => [
+  1,
+  model.latent_channels,
+  Math.floor(height / model.vae_scale_factor),
+  Math.floor(width / model.vae_scale_factor)
+];
+
+// Helper functions for Stable Diffusion inference
+const createNoiseLatent = (shape, generator, initNoiseSigma = 1.0) => {
+  // Unit Gaussian noise, scaled to the scheduler's starting sigma
+  const noise = generator.randn(shape.reduce((a, b) => a * b, 1));
+  if (initNoiseSigma !== 1.0) {
+    for (let i = 0; i < noise.length; i++) {
+      noise[i] *= initNoiseSigma;
+    }
+  }
+
+  return new ort.Tensor('float32', noise, shape);
+};
+
+// Spherical interpolation between the noise latents of neighbouring seeds.
+// `position` runs from 0 to seeds.length - 1; fractional values sit between seeds.
+const createSeedTravelLatent = (shape, seedTravel, initNoiseSigma = 1.0) => {
+  const { seeds, position } = seedTravel;
+  const clamped = Math.max(0, Math.min(seeds.length - 1, position));
+  const index = Math.min(Math.floor(clamped), seeds.length - 2);
+  const t = clamped - index;
+
+  const from = createNoiseLatent(shape, createTorchGenerator(seeds[index]), initNoiseSigma);
+  const to = createNoiseLatent(shape, createTorchGenerator(seeds[index + 1]), initNoiseSigma);
+  console.log(`🧭 Seed travel: ${seeds[index]} → ${seeds[index + 1]} at ${(t * 100).toFixed(1)}%`);
+
+  return new ort.Tensor('float32', slerp(from.data, to.data, t), from.dims);
+};
+
+export const createPipeline = () => {
+  // Model sessions
+  let unetSession = null;
+  let textEncoderSession = null;
+  let textEncoder2Session = null;
+  let vaeDecoderSession = null;
+  let vaeEncoderSession = null;
+  let tokenizer = null;
+  let tokenizer2 = null;
+  // Resolved manifest of the loaded model (see electron/model-registry.js)
+  let activeModel = null;
+
+  // Encode an RGBA frame into UNet-space latents with the VAE encoder
+  const encodeInitImage = async (initImage, width, height) => {
+    const pixels = rgbaToCHW(initImage.data, initImage.width, initImage.height, width, height);
+    const imageTensor = new ort.Tensor('float32', pixels, [1, 3, height, width]);
+    const inputName = vaeEncoderSession.inputNames[0] || 'sample';
+  
+    const outputs = await vaeEncoderSession.run({ [inputName]: imageTensor });
+    const encoded = outputs[Object.keys(outputs)[0]];
+  
+    const latents = new Float32Array(encoded.data.length);
+    for (let i = 0; i < latents.length; i++) {
+      latents[i] = encoded.data[i] * activeModel.scaling_factor;
+    }
+    console.log('✅ Init image encoded:', encoded.dims);
+    return latents;
+  };
+
+  // Text encoder outputs keyed by prompt text
+  const embeddingCache = createEmbeddingCache(64);
+
+  const runTextEncoder = async (session, textTokenizer, text) => {
+    const encoded = textTokenizer.encode(text);
+    const inputIds = new ort.Tensor('int32', encoded.input_ids, [1, encoded.input_ids.length]);
+    return session.run({ input_ids: inputIds });
+  };
+
+  // Tokenize and run the text encoder(s). Returns `{ hidden, pooled }` as
+  // { data, dims } pairs; `pooled` is only produced for SDXL models.
+  const encodePrompt = async (text) => {
+    const cached = embeddingCache.get(text);
+    if (cached) {
+      return cached;
+    }
+  
+    let encoded;
+    if (activeModel.architecture === 'sdxl') {
+      const outputs = await runTextEncoder(textEncoderSession, tokenizer, text);
+      const outputs2 = await runTextEncoder(textEncoder2Session, tokenizer2, text);
+      const hidden = selectPenultimateHiddenState(outputs);
+      const hidden2 = selectPenultimateHiddenState(outputs2);
+      const pooled = selectPooledEmbedding(outputs2);
+      encoded = {
+        hidden: concatFeatures(hidden.data, hidden.dims, hidden2.data, hidden2.dims),
+        pooled: { data: pooled.data, dims: pooled.dims }
+      };
+      console.log('✅ Text encoded (SDXL):', encoded.hidden.dims, 'pooled:', pooled.dims);
+    } else {
+      const textEncoderOutputs = await runTextEncoder(textEncoderSession, tokenizer, text);
+    
+      // Get the correct output name
+      const outputName = Object.keys(textEncoderOutputs)[0];
+      const embeddings = textEncoderOutputs[outputName];
+      console.log('✅ Text encoded:', outputName, embeddings.dims);
+      encoded = { hidden: { data: embeddings.data, dims: embeddings.dims }, pooled: null };
+    }
+  
+    embeddingCache.set(text, encoded);
+    return encoded;
+  };
+
+  // Encode each weighted prompt separately and blend the embeddings by
+  // normalized weight. Falls back to the plain prompt when no weights are given.
+  const encodeWeightedPrompts = async (prompt, weightedPrompts, blendMode) => {
+    const activePrompts = (weightedPrompts || []).filter(p => p.text && p.text.trim() && p.weight > 0);
+    if (activePrompts.length === 0) {
+      return encodePrompt(prompt);
+    }
+  
+    const embeddings = [];
+    for (const weightedPrompt of activePrompts) {
+      embeddings.push(await encodePrompt(weightedPrompt.text));
+    }
+    if (embeddings.length === 1) {
+      return embeddings[0];
+    }
+  
+    const weights = activePrompts.map(p => p.weight);
+    const blend = (parts) => ({
+      data: blendWeighted(parts.map(part => part.data), weights, blendMode),
+      dims: parts[0].dims
+    });
+    console.log(`🎚️ Blended ${embeddings.length} prompt embeddings (${blendMode})`);
+    return {
+      hidden: blend(embeddings.map(e => e.hidden)),
+      pooled: embeddings[0].pooled ? blend(embeddings.map(e => e.pooled)) : null
+    };
+  };
+
+  const releaseSessions = async () => {
+    for (const session of [unetSession, textEncoderSession, textEncoder2Session, vaeDecoderSession, vaeEncoderSession]) {
+      if (session) {
+        await session.release();
+      }
+    }
+    unetSession = null;
+    textEncoderSession = null;
+    textEncoder2Session = null;
+    vaeDecoderSession = null;
+    vaeEncoderSession = null;
+    tokenizer = null;
+    tokenizer2 = null;
+    activeModel = null;
+    embeddingCache.clear();
+  };
+
+  // `config.model` is a resolved manifest with absolute component `paths`.
+  // `onProgress` is called as each component starts and finishes loading;
+  // progress is weighted by file size since session creation is mostly I/O.
+  const loadModels = async (config, { onProgress = null } = {}) => {
+    try {
+      const { model } = config;
+      const modelPath = model.paths.unet;
+      const dataPath = `${modelPath}_data`;
+    
+      // Switching models: free the current sessions before loading new ones
+      if (activeModel || unetSession) {
+        console.log(`🔁 Unloading ${activeModel?.name || 'current model'} before switching`);
+        await releaseSessions();
+      }
+    
+      console.log('Checking model paths:', { 
+        model: model.id,
+        modelPath, 
+        dataPath
+      });
+    
+      // Check if model files exist
+      if (!fs.existsSync(modelPath)) {
+        throw new Error(`Model file not found: ${modelPath}`);
+      }
+    
+      if (!fs.existsSync(dataPath)) {
+        console.log('Warning: External data file not found, model might be single-file');
+      }
+    
+      const modelStats = fs.statSync(modelPath);
+      const modelSizeMB = modelStats.size / (1024 * 1024);
+    
+      console.log(`Model file validated: ${modelSizeMB.toFixed(2)}MB`);
+      console.log('Loading model with config:', config);
+
+      const vaeEncoderPath = model.paths.vae_encoder;
+      const hasVaeEncoder = Boolean(vaeEncoderPath && fs.existsSync(vaeEncoderPath));
+      const componentBytes = {
+        unet: getComponentBytes(modelPath),
+        text_encoder: getComponentBytes(model.paths.text_encoder),
+        ...(model.architecture === 'sdxl' && model.paths.text_encoder_2 && { text_encoder_2: getComponentBytes(model.paths.text_encoder_2) }),
+        vae_decoder: getComponentBytes(model.paths.vae_decoder),
+        ...(hasVaeEncoder && { vae_encoder: getComponentBytes(vaeEncoderPath) })
+      };
+      const totalBytes = Object.values(componentBytes).reduce((total, bytes) => total + bytes, 0);
+      let loadedBytes = 0;
+      const reportProgress = (component, stage) => {
+        if (stage === 'loaded') loadedBytes += componentBytes[component] || 0;
+        onProgress?.({
+          modelId: model.id,
+          component,
+          stage,
+          loadedBytes,
+          totalBytes,
+          progress: totalBytes > 0 ? (loadedBytes / totalBytes) * 100 : 0
+        });
+      };
+    
+      // Load all ONNX models
+      try {
+        console.log('🔄 Loading ONNX models...');
+      
+        // 1. Load UNet model (main diffusion model)
+        console.log('📦 Loading UNet...');
+        reportProgress('unet', 'loading');
+        unetSession = await ort.InferenceSession.create(modelPath, {
+          executionProviders: [config.backend === 'gpu' ? 'cuda' : 'cpu'],
+          enableMemPattern: false,
+          enableCpuMemArena: false,
+          graphOptimizationLevel: 'basic'
+        });
+        console.log('✅ UNet loaded:', Object.keys(unetSession.inputNames || {}));
+        console.log('   UNet input names:', unetSession.inputNames);
+        console.log('   UNet output names:', unetSession.outputNames);
+        reportProgress('unet', 'loaded');
+      
+        // 2. Load Text Encoder
+        const textEncoderPath = model.paths.text_encoder;
+        console.log('📦 Loading Text Encoder...');
+        reportProgress('text_encoder', 'loading');
+        textEncoderSession = await ort.InferenceSession.create(textEncoderPath, {
+          executionProviders: ['cpu'], // Text encoder usually runs fine on CPU
+          enableMemPattern: false,
+          enableCpuMemArena: false,
+          graphOptimizationLevel: 'basic'
+        });
+        console.log('✅ Text Encoder loaded:', Object.keys(textEncoderSession.inputNames || {}));
+        console.log('   Input names:', textEncoderSession.inputNames);
+        console.log('   Output names:', textEncoderSession.outputNames);
+        reportProgress('text_encoder', 'loaded');
+      
+        // 2b. SDXL: second text encoder (OpenCLIP bigG with projection)
+        if (model.architecture === 'sdxl') {
+          if (!model.paths.text_encoder_2) {
+            throw new Error(`${model.name} is SDXL but its manifest has no text_encoder_2`);
+          }
+          console.log('📦 Loading Text Encoder 2...');
+          reportProgress('text_encoder_2', 'loading');
+          textEncoder2Session = await ort.InferenceSession.create(model.paths.text_encoder_2, {
+            executionProviders: ['cpu'],
+            enableMemPattern: false,
+            enableCpuMemArena: false,
+            graphOptimizationLevel: 'basic'
+          });
+          console.log('✅ Text Encoder 2 loaded:', textEncoder2Session.inputNames, '→', textEncoder2Session.outputNames);
+          reportProgress('text_encoder_2', 'loaded');
+        }
+      
+        // 3. Load VAE Decoder
+        const vaeDecoderPath = model.paths.vae_decoder;
+        console.log('📦 Loading VAE Decoder...');
+        reportProgress('vae_decoder', 'loading');
+        vaeDecoderSession = await ort.InferenceSession.create(vaeDecoderPath, {
+          executionProviders: [config.backend === 'gpu' ? 'cuda' : 'cpu'],
+          enableMemPattern: false,
+          enableCpuMemArena: false,
+          graphOptimizationLevel: 'basic'
+        });
+        console.log('✅ VAE Decoder loaded:', Object.keys(vaeDecoderSession.inputNames || {}));
+        console.log('   VAE input names:', vaeDecoderSession.inputNames);
+        console.log('   VAE output names:', vaeDecoderSession.outputNames);
+        reportProgress('vae_decoder', 'loaded');
+      
+        // Check VAE input shapes to understand expected format
+        if (vaeDecoderSession.inputNames && vaeDecoderSession.inputNames.length > 0) {
+          const firstInputName = vaeDecoderSession.inputNames[0];
+          console.log(`   VAE first input '${firstInputName}' expected shape:`, 'checking...');
+        }
+      
+        // 3b. Load VAE Encoder (optional - only needed for image-to-image)
+        if (hasVaeEncoder) {
+          console.log('📦 Loading VAE Encoder...');
+          reportProgress('vae_encoder', 'loading');
+          vaeEncoderSession = await ort.InferenceSession.create(vaeEncoderPath, {
+            executionProviders: [config.backend === 'gpu' ? 'cuda' : 'cpu'],
+            enableMemPattern: false,
+            enableCpuMemArena: false,
+            graphOptimizationLevel: 'basic'
+          });
+          console.log('✅ VAE Encoder loaded:', vaeEncoderSession.inputNames, '→', vaeEncoderSession.outputNames);
+          reportProgress('vae_encoder', 'loaded');
+        } else {
+          vaeEncoderSession = null;
+          console.log('ℹ️ No VAE encoder found - image-to-image disabled');
+        }
+      
+        // 4. Load Tokenizer from local files
+        console.log('📦 Loading Tokenizer...');
+        reportProgress('tokenizer', 'loading');
+        embeddingCache.clear();
+        tokenizer = loadCLIPTokenizer(model.paths.tokenizer);
+        if (model.architecture === 'sdxl') {
+          // Without its own tokenizer_2 folder, reuse the vocab with SDXL's "!" padding
+          tokenizer2 = model.paths.tokenizer_2
+            ? loadCLIPTokenizer(model.paths.tokenizer_2)
+            : loadCLIPTokenizer(model.paths.tokenizer, { padToken: '!' });
+        }
+        activeModel = model;
+        reportProgress('tokenizer', 'loaded');
+      
+        return { 
+          success: true, 
+          message: `${model.name} loaded successfully`,
+          modelId: model.id,
+          models: {
+            unet: Object.keys(unetSession.inputNames || {}),
+            textEncoder: Object.keys(textEncoderSession.inputNames || {}),
+            textEncoder2: textEncoder2Session ? Object.keys(textEncoder2Session.inputNames || {}) : null,
+            vaeDecoder: Object.keys(vaeDecoderSession.inputNames || {}),
+            vaeEncoder: vaeEncoderSession ? Object.keys(vaeEncoderSession.inputNames || {}) : null
+          }
+        };
+      } catch (modelError) {
+        console.error('❌ Failed to load ONNX models:', modelError);
+        await releaseSessions();
+        return { 
+          success: false, 
+          error: `Model loading failed: ${modelError.message}` 
+        };
+      }
+    } catch (error) {
+      console.error('Model loading failed:', error);
+      return { success: false, error: error.message };
+    }
+  };
+
+  // `onPreview` receives a cheap RGB approximation of the denoised latent after every step
+  const generate = async (config, { isCancelled = () => false, onPreview = null } = {}) => {
+    try {
+      console.log('🎨 Starting SDXL generation with config:', config);
+    
+      // Validate parameters
+      const {
+        prompt,
+        width = 1024,
+        height = 1024,
+        steps = 1,
+        seed = 42,
+        cfg_scale = 1.0,
+        negative_prompt = '',
+        prompts: weightedPrompts = [],
+        prompt_blend = 'linear',
+        seed_travel = null,
+        init_image = null,
+        strength = 1.0,
+        original_size = null,
+        crop_coords = [0, 0]
+      } = config;
+
+      if (!prompt || prompt.trim() === '') {
+        throw new Error('Prompt is required');
+      }
+
+      // Without loaded sessions there is nothing to run; a placeholder frame
+      // here would look like real output in the views that never load a model
+      if (!unetSession || !textEncoderSession || !vaeDecoderSession || !tokenizer) {
+        console.warn('⚠️ Generation requested with no model loaded', {
+          unet: !!unetSession,
+          textEncoder: !!textEncoderSession,
+          vaeDecoder: !!vaeDecoderSession,
+          tokenizer: !!tokenizer
+        });
+        throw new Error('No model loaded');
+      }
+
+      console.log('🎯 Using loaded ONNX models for real generation');
+      console.log(`Generating ${width}x${height} image with prompt: "${prompt}"`);
+      console.log(`Steps: ${steps}, Seed: ${seed}, CFG Scale: ${cfg_scale}`);
+    
+      // 1-2. Tokenize and encode the prompt (and the negative prompt for CFG)
+      const useGuidance = shouldApplyGuidance(cfg_scale);
+      const textEmbeddings = await encodeWeightedPrompts(prompt, weightedPrompts, prompt_blend);
+    
+      let encoderHiddenStates = new ort.Tensor('float32', textEmbeddings.hidden.data, textEmbeddings.hidden.dims);
+      let pooledEmbeds = textEmbeddings.pooled ? textEmbeddings.pooled.data : null;
+      if (useGuidance) {
+        console.log(`🧭 Classifier-free guidance enabled (scale ${cfg_scale})`);
+        const uncondEmbeddings = await encodePrompt(negative_prompt);
+        const [, tokens, hidden] = textEmbeddings.hidden.dims;
+        encoderHiddenStates = new ort.Tensor(
+          'float32',
+          concatBatch(uncondEmbeddings.hidden.data, textEmbeddings.hidden.data),
+          [2, tokens, hidden]
+        );
+        if (pooledEmbeds) {
+          pooledEmbeds = concatBatch(uncondEmbeddings.pooled.data, pooledEmbeds);
+        }
+      }
+      const batchSize = useGuidance ? 2 : 1;
+    
+      // SDXL added conditioning: pooled text embeds and size/crop time_ids
+      const addedConditioning = {};
+      if (activeModel.architecture === 'sdxl') {
+        const timeIds = createTimeIds({
+          originalSize: original_size,
+          cropCoords: crop_coords,
+          targetSize: [height, width]
+        });
+        addedConditioning.text_embeds = new ort.Tensor(
+          'float32',
+          pooledEmbeds,
+          [batchSize, textEmbeddings.pooled.dims[1]]
+        );
+        addedConditioning.time_ids = new ort.Tensor('float32', repeatBatch(timeIds, batchSize), [batchSize, 6]);
+        console.log('🧩 SDXL time_ids:', Array.from(timeIds));
+      }
+    
+      // 3. Create noise latent
+      console.log('🎨 Creating noise latent...');
+      const scheduler = createLCMScheduler();
+      const useInitImage = !!init_image && strength < 1;
+      if (useInitImage && !vaeEncoderSession) {
+        throw new Error(`Image-to-image needs a VAE encoder, which ${activeModel.name} does not have`);
+      }
+      const timesteps = scheduler.setTimesteps(steps, useInitImage ? strength : 1.0);
+      // One generator per image: initial latent first, then re-noising draws
+      const generator = createTorchGenerator(seed);
+      const latentShape = getLatentShape(activeModel, height, width);
+      let noiseLatent = createNoiseLatent(latentShape, generator, scheduler.initNoiseSigma);
+      if (seed_travel && seed_travel.seeds && seed_travel.seeds.length > 1) {
+        // Seed travel replaces the starting latent but keeps `seed`'s generator
+        // for re-noising, so motion along the path stays smooth
+        noiseLatent = createSeedTravelLatent(latentShape, seed_travel, scheduler.initNoiseSigma);
+      }
+      console.log('✅ Noise latent created:', noiseLatent.dims);
+    
+      let sample = noiseLatent.data;
+      if (useInitImage) {
+        // Image-to-image: start from the init image noised to the first timestep
+        console.log(`🔁 Image-to-image at strength ${strength}`);
+        const initLatents = await encodeInitImage(init_image, width, height);
+        sample = scheduler.addNoise(initLatents, noiseLatent.data, timesteps[0]);
+      }
+    
+      // 4. Run the LCM denoising loop
+      console.log('🌀 Running diffusion...');
+    
+      // LCM models take the guidance scale as an embedding instead of running CFG
+      const timestepCond = new ort.Tensor(
+        'float32',
+        repeatBatch(getGuidanceScaleEmbedding(DEFAULT_LCM_GUIDANCE_SCALE, 256), batchSize),
+        [batchSize, 256]
+      );
+    
+      console.log('Memory usage before inference:', process.memoryUsage());
+    
+      // Force garbage collection before inference if available
+      if (global.gc) {
+        global.gc();
+        console.log('🗑️ Garbage collection completed');
+      }
+    
+      for (let i = 0; i < timesteps.length; i++) {
+        const timestep = new ort.Tensor(
+          'int64',
+          new BigInt64Array(batchSize).fill(BigInt(timesteps[i])),
+          [batchSize]
+        );
+        const [, latentChannels, latentHeight, latentWidth] = noiseLatent.dims;
+        const sampleInput = useGuidance
+          ? new ort.Tensor('float32', repeatBatch(sample, 2), [2, latentChannels, latentHeight, latentWidth])
+          : new ort.Tensor('float32', sample, noiseLatent.dims);
+      
+        throwIfCancelled(isCancelled);
+      
+        const unetFeeds = {
+          sample: sampleInput,
+          timestep: timestep,
+          encoder_hidden_states: encoderHiddenStates,
+          ...addedConditioning
+        };
+        // LCM-distilled UNets take the guidance embedding; LCM-LoRA merges do not
+        if (unetSession.inputNames.includes('timestep_cond')) {
+          unetFeeds.timestep_cond = timestepCond;
+        }
+      
+        let unetOutputs;
+        try {
+          unetOutputs = await unetSession.run(unetFeeds);
+        } catch (unetError) {
+          console.error('❌ UNet inference failed:', unetError);
+          throw new Error(`UNet inference failed: ${unetError.message}`);
+        }
+      
+        const rawNoisePred = unetOutputs[Object.keys(unetOutputs)[0]].data;
+        const noisePred = useGuidance
+          ? applyClassifierFreeGuidance(rawNoisePred, cfg_scale)
+          : rawNoisePred;
+        // Fresh noise for the next step's re-noising, drawn from the same generator
+        const stepNoise = i < timesteps.length - 1
+          ? generator.randn(sample.length)
+          : null;
+        const { prevSample, denoised } = scheduler.step(noisePred, i, sample, stepNoise);
+        sample = prevSample;
+        console.log(`✅ Step ${i + 1}/${timesteps.length} done (t=${timesteps[i]})`);
+      
+        if (onPreview) {
+          const preview = latentToPreviewRGBA(denoised, latentWidth, latentHeight, activeModel.architecture);
+          onPreview({
+            step: i + 1,
+            totalSteps: timesteps.length,
+            width: latentWidth,
+            height: latentHeight,
+            imageData: preview.buffer
+          });
+        }
+      }
+      console.log('Memory usage after inference:', process.memoryUsage());
+    
+      const latent = new ort.Tensor('float32', sample, noiseLatent.dims);
+      console.log('✅ Diffusion complete:', latent.dims);
+    
+      // 5. Decode latent to image
+      throwIfCancelled(isCancelled);
+      console.log('🖼️ Decoding to image...');
+      console.log('VAE Decoder input names:', vaeDecoderSession.inputNames);
+      console.log('Latent tensor dims before VAE:', latent.dims);
+    
+      // Apply the model's VAE scaling factor
+      console.log(`🔧 Applying VAE scaling factor ${activeModel.scaling_factor}...`);
+      const latentData = latent.data;
+      const scaledLatentData = new Float32Array(latentData.length);
+    
+      for (let i = 0; i < latentData.length; i++) {
+        scaledLatentData[i] = latentData[i] / activeModel.scaling_factor;
+      }
+    
+      const vaeInput = new ort.Tensor('float32', scaledLatentData, latent.dims);
+    
+      // Try both possible input names for VAE decoder
+      let vaeInputs;
+      if (vaeDecoderSession.inputNames && vaeDecoderSession.inputNames.includes('sample')) {
+        vaeInputs = { sample: vaeInput };
+      } else if (vaeDecoderSession.inputNames && vaeDecoderSession.inputNames.includes('latent_sample')) {
+        vaeInputs = { latent_sample: vaeInput };
+      } else {
+        // Fallback - use the first input name
+        const inputName = vaeDecoderSession.inputNames[0] || 'sample';
+        vaeInputs = { [inputName]: vaeInput };
+        console.log(`Using VAE input name: ${inputName}`);
+      }
+    
+      const vaeOutputs = await vaeDecoderSession.run(vaeInputs);
+    
+      // Get the correct output name
+      const vaeOutputName = Object.keys(vaeOutputs)[0];
+      const decodedImage = vaeOutputs[vaeOutputName];
+      console.log('✅ Image decoded:', vaeOutputName, decodedImage.dims);
+    
+      // 6. Convert to RGBA
+      console.log('🎨 Converting to RGBA...');
+      const [decodedBatch, decodedChannels, decodedH, decodedW] = decodedImage.dims;
+      const rgbData = decodedImage.data;
+    
+      console.log('VAE output info:', { 
+        batch: decodedBatch, 
+        channels: decodedChannels, 
+        h: decodedH, 
+        w: decodedW, 
+        dataLength: rgbData.length,
+        expectedSize: `${width}x${height}`,
+        actualSize: `${decodedW}x${decodedH}`,
+        upscaleNeeded: decodedW !== width || decodedH !== height
+      });
+    
+      // Check if we need to upscale the VAE output
+      let finalWidth = decodedW;
+      let finalHeight = decodedH;
+      let finalImageData = rgbData;
+    
+      if (decodedW !== width || decodedH !== height) {
+        console.log(`🔍 VAE output size mismatch: got ${decodedW}x${decodedH}, expected ${width}x${height}`);
+        console.log('This suggests the VAE decoder model is not the correct SDXL VAE or has wrong configuration');
+      
+        // For now, use the actual VAE output dimensions but log the issue
+        finalWidth = decodedW;
+        finalHeight = decodedH;
+        console.log(`📐 Using actual VAE dimensions: ${finalWidth}x${finalHeight}`);
+      }
+    
+      const pixelCount = finalWidth * finalHeight;
+      const imageBuffer = new Uint8Array(pixelCount * 4);
+    
+      // Convert from CHW (Channel-Height-Width) to HWC RGBA format
+      for (let y = 0; y < finalHeight; y++) {
+        for (let x = 0; x < finalWidth; x++) {
+          const rgbaIdx = (y * finalWidth + x) * 4;
+          const pixelIdx = y * finalWidth + x;
+        
+          // Calculate channel indices for CHW format
+          const rIdx = pixelIdx;                              // R channel: [0, H*W)
+          const gIdx = finalHeight * finalWidth + pixelIdx;       // G channel: [H*W, 2*H*W)
+          const bIdx = 2 * finalHeight * finalWidth + pixelIdx;   // B channel: [2*H*W, 3*H*W)
+        
+          // Denormalize from [-1, 1] to [0, 255] with clamping
+          imageBuffer[rgbaIdx] = Math.max(0, Math.min(255, Math.floor((rgbData[rIdx] + 1) * 127.5)));     // R
+          imageBuffer[rgbaIdx + 1] = Math.max(0, Math.min(255, Math.floor((rgbData[gIdx] + 1) * 127.5))); // G  
+          imageBuffer[rgbaIdx + 2] = Math.max(0, Math.min(255, Math.floor((rgbData[bIdx] + 1) * 127.5))); // B
+          imageBuffer[rgbaIdx + 3] = 255; // A - fully opaque
+        }
+      }
+    
+      console.log(`✅ Real AI image generated! Size: ${finalWidth}x${finalHeight}`);
+      console.log('📊 Image buffer info:', {
+        bufferSize: imageBuffer.length,
+        expectedSize: finalWidth * finalHeight * 4,
+        pixelCount: finalWidth * finalHeight
+      });
+    
+      return {
+        success: true,
+        imageData: imageBuffer.buffer,
+        metadata: {
+          width: finalWidth,
+          height: finalHeight,
+          steps,
+          seed,
+          seed_travel,
+          strength: useInitImage ? strength : 1.0,
+          cfg_scale,
+          prompt: prompt.substring(0, 100),
+          format: 'rgba',
+          note: finalWidth !== width || finalHeight !== height ? 
+            `VAE output ${finalWidth}x${finalHeight} differs from requested ${width}x${height}` : 
+            'Size matches request'
+        }
+      };
+    } catch (error) {
+      if (error.cancelled) {
+        console.log('⏹️ Generation cancelled');
+        return { success: false, cancelled: true, error: error.message };
+      }
+      console.error('❌ Image generation failed:', error);
+      return { success: false, error: error.message };
+    }
+  };
+
+  const dispose = async () => {
+    try {
+      await releaseSessions();
+      console.log('🗑️ All model sessions disposed');
+      return { success: true };
+    } catch (error) {
+      console.error('❌ Error disposing models:', error);
+      return { success: false, error: error.message };
+    }
+  };
+
+  return { loadModels, generate, dispose };
+};
@@ -0,0 +1,53 @@
+// Cheap latent → RGB previews
+// A fixed linear map from the 4 latent channels to RGB approximates what the
+// VAE decoder would produce, at 1/8 resolution and a tiny fraction of the cost.
+// Factors are the widely used ones from ComfyUI's latent formats.
+
+export const LATENT_RGB_FACTORS = {
+  sd15: {
+    factors: [
+      [0.298, 0.207, 0.208],
+      [0.187, 0.286, 0.173],
+      [-0.158, 0.189, 0.264],
+      [-0.184, -0.271, -0.473]
+    ],
+    bias: [0, 0, 0]
+  },
+  sdxl: {
+    factors: [
+      [0.3651, 0.4232, 0.4341],
+      [-0.2533, -0.0042, 0.1068],
+      [0.1076, 0.1111, -0.0362],
+      [-0.3165, -0.2492, -0.2188]
+    ],
+    bias: [0.1084, -0.0175, -0.0011]
+  }
+};
+
+// `latent` is a single CHW sample in UNet space (before VAE scaling).
+// Returns RGBA bytes at latent resolution.
+export const latentToPreviewRGBA = (latent, width, height, format = 'sdxl') => {
+  const { factors, bias } = LATENT_RGB_FACTORS[format] || LATENT_RGB_FACTORS.sdxl;
+  const planeSize = width * height;
+  const channels = Math.min(factors.length, Math.floor(latent.length / planeSize));
+  const rgba = new Uint8ClampedArray(planeSize * 4);
+
+  for (let p = 0; p < planeSize; p++) {
+    let r = bias[0];
+    let g = bias[1];
+    let b = bias[2];
+    for (let c = 0; c < channels; c++) {
+      const value = latent[c * planeSize + p];
+      r += value * factors[c][0];
+      g += value * factors[c][1];
+      b += value * factors[c][2];
+    }
+    // [-1, 1] → [0, 255]; Uint8ClampedArray clamps
+    rgba[p * 4] = (r + 1) * 127.5;
+    rgba[p * 4 + 1] = (g + 1) * 127.5;
+    rgba[p * 4 + 2] = (b + 1) * 127.5;
+    rgba[p * 4 + 3] = 255;
+  }
+
+  return rgba;
+};
@@ -0,0 +1,78 @@
+// Message protocol between the Electron main process and the inference worker
+//
+// Requests flow main → worker and carry an `id`; every request except
+// `cancel` is answered by exactly one `result` or `error` with the same id.
+// A `generate` may also emit any number of `preview` messages before that,
+// and a `load-model` any number of `progress` messages.
+// The worker announces itself with `ready` once its message handler is live.
+
+export const MessageType = Object.freeze({
+  // main → worker
+  LOAD_MODEL: 'load-model',
+  GENERATE: 'generate',
+  DISPOSE: 'dispose',
+  CANCEL: 'cancel',
+  // worker → main
+  READY: 'ready',
+  PREVIEW: 'preview',
+  PROGRESS: 'progress',
+  RESULT: 'result',
+  ERROR: 'error'
+});
+
+/**
+ * @typedef {Object} LoadModelPayload
+ * @property {string} backend     'cpu' or 'gpu'
+ * @property {Object} model       Resolved manifest with absolute component `paths`
+ */
+
+/**
+ * @typedef {Object} CancelPayload
+ * @property {number} targetId    Id of the generate request to abort
+ */
+
+/**
+ * @typedef {Object} WorkerRequest
+ * @property {number} id
+ * @property {'load-model' | 'generate' | 'dispose' | 'cancel'} type
+ * @property {LoadModelPayload | Object | CancelPayload} [payload]
+ *           GenerationConfig for `generate`
+ */
+
+/**
+ * @typedef {Object} PreviewPayload
+ * @property {number} step        1-based step that just finished
+ * @property {number} totalSteps
+ * @property {number} width       Latent width (image width / 8)
+ * @property {number} height
+ * @property {ArrayBuffer} imageData  RGBA bytes
+ */
+
+/**
+ * @typedef {Object} ProgressPayload
+ * @property {string} modelId
+ * @property {string} component   Manifest component key, e.g. 'unet'
+ * @property {'loading' | 'loaded'} stage
+ * @property {number} loadedBytes Size of the components loaded so far
+ * @property {number} totalBytes
+ * @property {number} progress    0-100
+ */
+
+/**
+ * @typedef {Object} WorkerResponse
+ * @property {number} [id]        Absent on `ready`
+ * @property {'ready' | 'preview' | 'progress' | 'result' | 'error'} type
+ * @property {Object} [payload]   PreviewPayload for `preview`, ProgressPayload for `progress`,
+ *                                handler return value for `result`
+ * @property {string} [error]     Message for `error`
+ */
+
+export const createRequest = (id, type, payload) => ({ id, type, payload });
+
+export const createResult = (id, payload) => ({ id, type: MessageType.RESULT, payload });
+
+export const createError = (id, error) => ({
+  id,
+  type: MessageType.ERROR,
+  error: error instanceof Error ? error.message : String(error)
+});
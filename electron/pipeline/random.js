@@ -0,0 +1,120 @@
+// Seeded random number generation for latent noise
+// Reproduces torch's CPU generator (MT19937 + the 16-wide Box-Muller used by
+// torch.randn) so a seed yields the same starting latent as diffusers and
+// other PyTorch-based SD toolchains, up to float32 rounding.
+
+const N = 624;
+const M = 397;
+const MATRIX_A = 0x9908b0df;
+const UPPER_MASK = 0x80000000;
+const LOWER_MASK = 0x7fffffff;
+
+// Standard 32-bit Mersenne Twister (init_genrand seeding)
+export const createMT19937 = (seed) => {
+  const state = new Uint32Array(N);
+  let index = N;
+
+  state[0] = seed >>> 0;
+  for (let i = 1; i < N; i++) {
+    const prev = state[i - 1] ^ (state[i - 1] >>> 30);
+    state[i] = (Math.imul(1812433253, prev) + i) >>> 0;
+  }
+
+  const twist = () => {
+    for (let i = 0; i < N; i++) {
+      const y = (state[i] & UPPER_MASK) | (state[(i + 1) % N] & LOWER_MASK);
+      let next = state[(i + M) % N] ^ (y >>> 1);
+      if (y & 1) {
+        next ^= MATRIX_A;
+      }
+      state[i] = next >>> 0;
+    }
+    index = 0;
+  };
+
+  return {
+    nextUint32: () => {
+      if (index >= N) twist();
+
+      let y = state[index++];
+      y ^= y >>> 11;
+      y ^= (y << 7) & 0x9d2c5680;
+      y ^= (y << 15) & 0xefc60000;
+      y ^= y >>> 18;
+      return y >>> 0;
+    }
+  };
+};
+
+// Gaussian sampler with torch.randn semantics for float32 tensors
+export const createTorchGenerator = (seed) => {
+  const mt = createMT19937(seed);
+
+  // uniform_real_distribution<float>: 24 random mantissa bits in [0, 1)
+  const nextUniform = () => (mt.nextUint32() & 0xffffff) / 0x1000000;
+  // uniform_real_distribution<double>: 53 bits of two draws, high word first
+  const nextUniformDouble = () => {
+    const high = mt.nextUint32() & 0x1fffff;
+    const low = mt.nextUint32();
+    return (high * 0x100000000 + low) / 2 ** 53;
+  };
+  // normal_distribution<double> draws pairs and keeps the second one on the
+  // generator for the next scalar sample
+  let cachedNormal = null;
+  const nextNormal = () => {
+    if (cachedNormal !== null) {
+      const value = cachedNormal;
+      cachedNormal = null;
+      return value;
+    }
+    const u1 = nextUniformDouble();
+    const u2 = nextUniformDouble();
+    const radius = Math.sqrt(-2 * Math.log1p(-u2));
+    const theta = 2 * Math.PI * u1;
+    cachedNormal = radius * Math.sin(theta);
+    return radius * Math.cos(theta);
+  };
+
+  // Box-Muller over a block of 16: first 8 values are u1, last 8 are u2
+  const normalFill16 = (data, offset) => {
+    for (let j = 0; j < 8; j++) {
+      const u1 = 1 - data[offset + j];
+      const u2 = data[offset + j + 8];
+      const radius = Math.sqrt(-2 * Math.log(u1));
+      const theta = 2 * Math.PI * u2;
+      data[offset + j] = radius * Math.cos(theta);
+      data[offset + j + 8] = radius * Math.sin(theta);
+    }
+  };
+
+  return {
+    randn: (count) => {
+      const data = new Float32Array(count);
+
+      if (count < 16) {
+        // torch takes a scalar path for tiny tensors, one double sample each
+        for (let i = 0; i < count; i++) {
+          data[i] = nextNormal();
+        }
+        return data;
+      }
+
+      for (let i = 0; i < count; i++) {
+        data[i] = nextUniform();
+      }
+      for (let i = 0; i + 16 <= count; i += 16) {
+        normalFill16(data, i);
+      }
+      if (count % 16 !== 0) {
+        // The tail is redrawn as a fresh block of 16 overlapping the end
+        const offset = count - 16;
+        for (let i = 0; i < 16; i++) {
+          data[offset + i] = nextUniform();
+        }
+        normalFill16(data, offset);
+      }
+
+      return data;
+    }
+  };
+};
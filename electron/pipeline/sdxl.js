@@ -0,0 +1,49 @@
+// SDXL conditioning helpers
+// SDXL conditions the UNet on both CLIP encoders' penultimate hidden states
+// (concatenated along the feature axis), the pooled projection of the second
+// encoder (`text_embeds`) and six "micro-conditioning" sizes (`time_ids`).
+
+// diffusers reads hidden_states[-2]. ONNX exports name those outputs
+// `hidden_states.0` ... `hidden_states.N`; without them only the last layer
+// is available and we fall back to it.
+export const selectPenultimateHiddenState = (outputs) => {
+  const layers = Object.keys(outputs)
+    .map(name => ({ name, match: name.match(/^hidden_states\.(\d+)$/) }))
+    .filter(({ match }) => match)
+    .sort((a, b) => Number(a.match[1]) - Number(b.match[1]));
+
+  if (layers.length >= 2) {
+    return outputs[layers[layers.length - 2].name];
+  }
+
+  console.warn('⚠️ Text encoder does not export hidden_states; using last_hidden_state');
+  return outputs.last_hidden_state || outputs[Object.keys(outputs)[0]];
+};
+
+// Pooled, projected embedding from text_encoder_2 (CLIPTextModelWithProjection)
+export const selectPooledEmbedding = (outputs) => {
+  const pooled = outputs.text_embeds || outputs.pooler_output;
+  if (!pooled) {
+    throw new Error('text_encoder_2 has no text_embeds output');
+  }
+  return pooled;
+};
+
+// [1, T, A] + [1, T, B] → [1, T, A + B]
+export const concatFeatures = (a, aDims, b, bDims) => {
+  const [, tokens, aWidth] = aDims;
+  const bWidth = bDims[2];
+  const width = aWidth + bWidth;
+  const out = new Float32Array(tokens * width);
+
+  for (let t = 0; t < tokens; t++) {
+    out.set(a.subarray(t * aWidth, (t + 1) * aWidth), t * width);
+    out.set(b.subarray(t * bWidth, (t + 1) * bWidth), t * width + aWidth);
+  }
+
+  return { data: out, dims: [1, tokens, width] };
+};
+
+// (original_h, original_w, crop_top, crop_left, target_h, target_w)
+export const createTimeIds = ({ originalSize, cropCoords = [0, 0], targetSize }) =>
+  new Float32Array([...(originalSize || targetSize), ...cropCoords, ...targetSize]);
@@ -0,0 +1,71 @@
+// Inference worker entry point
+// Forked by the main process with utilityProcess; talks over process.parentPort
+// using the messages in protocol.js.
+import { createPipeline } from './pipeline.js';
+import { MessageType, createResult, createError } from './protocol.js';
+
+const port = process.parentPort;
+const pipeline = createPipeline();
+
+// Requests received and not yet answered, and those of them that should
+// stop at the next checkpoint. Both drop an id once it is answered, so a
+// cancel that arrives after the result is ignored rather than kept forever.
+const pendingIds = new Set();
+const cancelledIds = new Set();
+
+// Model operations share the sessions, so run them one at a time
+let queue = Promise.resolve();
+const enqueue = (task) => {
+  const run = queue.then(task, task);
+  queue = run.catch(() => {});
+  return run;
+};
+
+const handlers = {
+  [MessageType.LOAD_MODEL]: (id, payload) =>
+    pipeline.loadModels(payload, {
+      onProgress: (progress) => port.postMessage({ id, type: MessageType.PROGRESS, payload: progress })
+    }),
+  [MessageType.GENERATE]: (id, payload) =>
+    pipeline.generate(payload, {
+      isCancelled: () => cancelledIds.has(id),
+      onPreview: (preview) => port.postMessage({ id, type: MessageType.PREVIEW, payload: preview })
+    }),
+  [MessageType.DISPOSE]: () => pipeline.dispose()
+};
+
+port.on('message', async ({ data: message }) => {
+  const { id, type, payload } = message;
+
+  // Cancels bypass the queue so they land while a generation is running
+  if (type === MessageType.CANCEL) {
+    if (pendingIds.has(payload.targetId)) cancelledIds.add(payload.targetId);
+    return;
+  }
+
+  const handler = handlers[type];
+  if (!handler) {
+    port.postMessage(createError(id, `Unknown message type: ${type}`));
+    return;
+  }
+
+  pendingIds.add(id);
+  try {
+    const result = await enqueue(() => {
+      if (cancelledIds.has(id)) {
+        return { success: false, cancelled: true, error: 'Generation cancelled' };
+      }
+      return handler(id, payload);
+    });
+    port.postMessage(createResult(id, result));
+  } catch (error) {
+    console.error(`❌ Worker ${type} failed:`, error);
+    port.postMessage(createError(id, error));
+  } finally {
+    pendingIds.delete(id);
+    cancelledIds.delete(id);
+  }
+});
+
+port.postMessage({ type: MessageType.READY });
+console.log('🧵 Inference worker ready');
@@ -4,10 +4,20 @@ contextBridge.exposeInMainWorld('electronAPI', {
   // Model operations
   loadModel: (config) => ipcRenderer.invoke('load-model', config),
   generateImage: (config) => ipcRenderer.invoke('generate-image', config),
+  cancelGeneration: (requestId) => ipcRenderer.invoke('cancel-generation', requestId),
   disposeModel: () => ipcRenderer.invoke('dispose-model'),
+  listModels: () => ipcRenderer.invoke('list-models'),
+  registerModel: (filePath) => ipcRenderer.invoke('register-model', filePath),
+  verifyModels: (modelId) => ipcRenderer.invoke('verify-models', modelId),
+  probeModels: (modelId) => ipcRenderer.invoke('probe-models', modelId),
   
   // File operations
   selectModelFile: () => ipcRenderer.invoke('dialog:openFile'),
+  saveSession: (content, filePath) => ipcRenderer.invoke('session:save', content, filePath),
+  openSession: () => ipcRenderer.invoke('session:open'),
+  autosaveSession: (content) => ipcRenderer.invoke('session:autosave', content),
+  getSessionRecovery: () => ipcRenderer.invoke('session:get-recovery'),
+  clearSessionRecovery: () => ipcRenderer.invoke('session:clear-recovery'),
   
   // App operations
   minimize: () => ipcRenderer.invoke('window:minimize'),
@@ -20,11 +30,22 @@ contextBridge.exposeInMainWorld('electronAPI', {
   // Events
   onModelProgress: (callback) => {
     ipcRenderer.on('model-progress', callback);
+    return () => ipcRenderer.removeListener('model-progress', callback);
   },
   onModelLoaded: (callback) => {
     ipcRenderer.on('model-loaded', callback);
+    return () => ipcRenderer.removeListener('model-loaded', callback);
   },
   onModelError: (callback) => {
     ipcRenderer.on('model-error', callback);
+    return () => ipcRenderer.removeListener('model-error', callback);
+  },
+  onModelVerificationProgress: (callback) => {
+    ipcRenderer.on('model-verification-progress', callback);
+    return () => ipcRenderer.removeListener('model-verification-progress', callback);
+  },
+  onGenerationPreview: (callback) => {
+    ipcRenderer.on('generation-preview', callback);
+    return () => ipcRenderer.removeListener('generation-preview', callback);
   }
 });
\ No newline at end of file
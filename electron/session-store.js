@@ -0,0 +1,61 @@
+// Session files
+// Sessions are serialized and validated in the renderer; this side only
+// reads and writes them. Autosaves go to userData, and a lock file marks a
+// running session so the next launch can tell a crash from a clean quit;
+// after a crash the last autosave is set aside until the user restores or
+// dismisses it, so new autosaves can't overwrite it.
+import path from 'path';
+import fs from 'fs';
+
+export const SESSION_EXTENSION = 'sdxldj';
+const AUTOSAVE_FILE = `autosave.${SESSION_EXTENSION}`;
+const RECOVERY_FILE = `recovery.${SESSION_EXTENSION}`;
+const LOCK_FILE = 'session.lock';
+
+// Write next to the target and rename, so a crash mid-write never leaves a
+// truncated session behind
+const writeFileAtomic = async (filePath, content) => {
+  const tempPath = `${filePath}.tmp`;
+  await fs.promises.writeFile(tempPath, content, 'utf-8');
+  await fs.promises.rename(tempPath, filePath);
+};
+
+export const createSessionStore = ({ userDataDir }) => {
+  const autosavePath = path.join(userDataDir, AUTOSAVE_FILE);
+  const recoveryPath = path.join(userDataDir, RECOVERY_FILE);
+  const lockPath = path.join(userDataDir, LOCK_FILE);
+
+  return {
+    // Call once at startup, before any window loads
+    startRun: () => {
+      fs.mkdirSync(userDataDir, { recursive: true });
+      if (fs.existsSync(lockPath) && fs.existsSync(autosavePath)) {
+        fs.renameSync(autosavePath, recoveryPath);
+      }
+      fs.writeFileSync(lockPath, String(process.pid));
+    },
+
+    // Clean quit; a crashed run keeps its lock
+    endRun: () => {
+      fs.rmSync(lockPath, { force: true });
+    },
+
+    save: (filePath, content) => writeFileAtomic(filePath, content),
+
+    read: (filePath) => fs.promises.readFile(filePath, 'utf-8'),
+
+    autosave: (content) => writeFileAtomic(autosavePath, content),
+
+    // The last autosave of a run that didn't quit cleanly, if there is one
+    getRecovery: async () => {
+      if (!fs.existsSync(recoveryPath)) return null;
+      const [content, stats] = await Promise.all([
+        fs.promises.readFile(recoveryPath, 'utf-8'),
+        fs.promises.stat(recoveryPath)
+      ]);
+      return { content, savedAt: stats.mtime.toISOString() };
+    },
+
+    clearRecovery: () => fs.promises.rm(recoveryPath, { force: true })
+  };
+};
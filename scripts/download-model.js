@@ -1,109 +1,264 @@
 import fs from 'fs';
 import path from 'path';
+import http from 'http';
 import https from 'https';
+import { pipeline } from 'stream/promises';
 import { fileURLToPath } from 'url';
+import {
+  sha256File,
+  recordVerifiedFile,
+  getManifestFiles,
+  verifyModelFiles,
+  getIntegrityProblems,
+  describeIntegrityProblem
+} from '../electron/model-integrity.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
-// LCM Dreamshaper v7 model URLs - all components needed for inference
-const BASE_URL = 'https://huggingface.co/SimianLuo/LCM_Dreamshaper_v7/resolve/main';
+// LCM Dreamshaper v7 - the same manifest the app verifies against at startup
+const MANIFEST_PATH = path.join(__dirname, '../electron/models/lcm-dreamshaper-v7.json');
 const MODELS_DIR = path.join(__dirname, '../public/models');
+const MAX_REDIRECTS = 10;
 
-const MODEL_COMPONENTS = [
-  // We already have UNet from before - keep using the old files
-  { 
-    url: `${BASE_URL}/unet/model.onnx`,
-    path: path.join(MODELS_DIR, 'model.onnx'), // Keep old name
-    name: 'UNet Model'
-  },
-  {
-    url: `${BASE_URL}/unet/model.onnx_data`, 
-    path: path.join(MODELS_DIR, 'model.onnx_data'), // Keep old name
-    name: 'UNet Data'
-  },
-  // Text Encoder (for processing prompts) - single file ONNX
-  {
-    url: `${BASE_URL}/text_encoder/model.onnx`,
-    path: path.join(MODELS_DIR, 'text_encoder.onnx'),
-    name: 'Text Encoder'
-  },
-  // VAE Decoder (for converting latents to images) - single file ONNX
-  {
-    url: `${BASE_URL}/vae_decoder/model.onnx`,
-    path: path.join(MODELS_DIR, 'vae_decoder.onnx'),
-    name: 'VAE Decoder'
-  }
-];
+// Hugging Face sends the LFS object's SHA-256 as X-Linked-Etag
+const parseLinkedEtag = (headers) => {
+  const etag = (headers['x-linked-etag'] || '').replace(/^W\//, '').replace(/"/g, '');
+  return /^[0-9a-f]{64}$/.test(etag) ? etag : null;
+};
+
+const formatMB = (bytes) => (bytes / 1024 / 1024).toFixed(1);
+
+// "bytes 100-199/1000" → { start: 100, total: 1000 }; "bytes */1000" (on a 416) has no start
+const parseContentRange = (header) => {
+  const match = /^bytes (?:(\d+)-\d+|\*)\/(\d+|\*)$/.exec((header || '').trim());
+  if (!match) return null;
+  return {
+    start: match[1] === undefined ? null : parseInt(match[1], 10),
+    total: match[2] === '*' ? null : parseInt(match[2], 10)
+  };
+};
+
+// Full size of the file a response belongs to, when the server says
+const getResponseTotal = (response, offset) => {
+  const range = parseContentRange(response.headers['content-range']);
+  if (range) return range.total;
+  const length = response.headers['content-length'];
+  return length === undefined ? null : offset + parseInt(length, 10);
+};
 
-async function downloadFile(url, filePath, fileName) {
+// GET `url`, following redirects. Also returns every header seen on the way,
+// since Hugging Face only puts X-Linked-Etag on the redirect, not on the CDN response.
+export function request(url, headers = {}, redirects = 0, seenHeaders = {}) {
   return new Promise((resolve, reject) => {
-    const file = fs.createWriteStream(filePath);
-    
-    https.get(url, (response) => {
-      const totalSize = parseInt(response.headers['content-length'] || '0', 10);
-      let downloadedSize = 0;
-
-      response.on('data', (chunk) => {
-        downloadedSize += chunk.length;
-        const percentage = totalSize > 0 ? ((downloadedSize / totalSize) * 100).toFixed(1) : '0.0';
-        process.stdout.write(`\r${fileName}: ${percentage}% (${(downloadedSize / 1024 / 1024).toFixed(1)}MB / ${(totalSize / 1024 / 1024).toFixed(1)}MB)`);
-      });
-
-      response.pipe(file);
-
-      file.on('finish', () => {
-        file.close();
-        console.log(`\n✓ ${fileName} downloaded successfully!`);
-        resolve();
-      });
-    }).on('error', (err) => {
-      fs.unlink(filePath, () => {});
-      reject(err);
-    });
+    const client = url.startsWith('https:') ? https : http;
+    client.get(url, { headers }, (response) => {
+      const allHeaders = { ...seenHeaders, ...response.headers };
+      const { statusCode, headers: { location } } = response;
+
+      if (statusCode >= 300 && statusCode < 400 && location) {
+        response.resume();
+        if (redirects >= MAX_REDIRECTS) {
+          reject(new Error(`Too many redirects for ${url}`));
+          return;
+        }
+        resolve(request(new URL(location, url).toString(), headers, redirects + 1, allHeaders));
+        return;
+      }
+
+      resolve({ response, seenHeaders: allHeaders });
+    }).on('error', reject);
   });
 }
 
-async function downloadModel() {
-  // Check if all model components already exist
-  const allExist = MODEL_COMPONENTS.every(component => fs.existsSync(component.path));
-  
-  if (allExist) {
-    console.log('✓ All model components already downloaded');
-    return;
-  }
+// Stream a response into the .part file, appending when resuming. Rejects
+// when the connection drops before the server finished sending.
+async function writeResponse(response, partPath, offset, fileName, totalSize) {
+  const file = fs.createWriteStream(partPath, { flags: offset > 0 ? 'a' : 'w' });
+  let downloadedSize = offset;
+
+  response.on('data', (chunk) => {
+    downloadedSize += chunk.length;
+    const percentage = totalSize > 0 ? ((downloadedSize / totalSize) * 100).toFixed(1) : '0.0';
+    process.stdout.write(`\r${fileName}: ${percentage}% (${formatMB(downloadedSize)}MB / ${formatMB(totalSize ?? 0)}MB)`);
+  });
 
-  // Create models directory if it doesn't exist
-  if (!fs.existsSync(MODELS_DIR)) {
-    fs.mkdirSync(MODELS_DIR, { recursive: true });
+  try {
+    await pipeline(response, file);
+  } finally {
+    process.stdout.write('\n');
+  }
+  if (!response.complete) {
+    throw new Error(`${fileName}: connection closed after ${formatMB(downloadedSize)}MB`);
   }
+}
 
-  console.log('📥 Downloading LCM Dreamshaper v7 model components (this may take several minutes)...');
-  console.log('Components needed: UNet, Text Encoder, VAE Decoder');
+// Download to `<file>.part`, resuming a previous attempt with a Range request,
+// then verify and move into place. Returns the verified hash, or null when
+// neither the manifest nor the server provided one. A short or overlong file
+// is rejected and its .part kept, so the next run resumes it.
+export async function downloadFile(url, filePath, { name = path.basename(filePath), sha256 = null, size = null } = {}) {
+  const partPath = `${filePath}.part`;
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
 
-  try {
-    for (const component of MODEL_COMPONENTS) {
-      if (!fs.existsSync(component.path)) {
-        console.log(`\n📦 Downloading ${component.name}...`);
-        await downloadFile(component.url, component.path, component.name);
-      } else {
-        console.log(`✓ ${component.name} already exists`);
+  const resumeFrom = fs.existsSync(partPath) ? fs.statSync(partPath).size : 0;
+  const { response, seenHeaders } = await request(url, resumeFrom > 0 ? { Range: `bytes=${resumeFrom}-` } : {});
+  let expectedSize = size;
+
+  if (response.statusCode === 416 && resumeFrom > 0) {
+    // Nothing left past the end of the part file; it's only complete if it
+    // has exactly the full size
+    response.resume();
+    expectedSize ??= parseContentRange(response.headers['content-range'])?.total ?? null;
+    if (expectedSize === null || resumeFrom !== expectedSize) {
+      console.log(`⚠️ ${name}: can't resume from ${formatMB(resumeFrom)}MB, restarting`);
+      fs.unlinkSync(partPath);
+      return downloadFile(url, filePath, { name, sha256, size });
+    }
+  } else if (response.statusCode === 200 || response.statusCode === 206) {
+    const resuming = response.statusCode === 206;
+    if (resuming) {
+      const start = parseContentRange(response.headers['content-range'])?.start;
+      if (start !== resumeFrom) {
+        response.resume();
+        throw new Error(`${name}: server resumed at byte ${start ?? 'unknown'} instead of ${resumeFrom}`);
       }
     }
-    
-    console.log('\n✓ All model components downloaded successfully!');
-    console.log('📊 Model components ready for inference:');
-    MODEL_COMPONENTS.forEach(component => {
-      if (fs.existsSync(component.path)) {
-        const stats = fs.statSync(component.path);
-        console.log(`  - ${component.name}: ${(stats.size / 1024 / 1024).toFixed(1)}MB`);
+    if (resumeFrom > 0) {
+      console.log(resuming
+        ? `↪️ Resuming ${name} from ${formatMB(resumeFrom)}MB`
+        : `⚠️ Server ignored the range request, restarting ${name}`);
+    }
+    const offset = resuming ? resumeFrom : 0;
+    const responseTotal = getResponseTotal(response, offset);
+    if (expectedSize !== null && responseTotal !== null && responseTotal !== expectedSize) {
+      response.resume();
+      throw new Error(`${name}: server reports ${responseTotal} bytes, manifest expects ${expectedSize}`);
+    }
+    expectedSize ??= responseTotal;
+    await writeResponse(response, partPath, offset, name, expectedSize);
+  } else {
+    response.resume();
+    throw new Error(`${name}: HTTP ${response.statusCode} from ${url}`);
+  }
+
+  const writtenSize = fs.statSync(partPath).size;
+  if (expectedSize !== null && writtenSize !== expectedSize) {
+    throw new Error(`${name}: got ${writtenSize} of ${expectedSize} bytes, keeping ${path.basename(partPath)} to resume`);
+  }
+
+  const expected = sha256 || parseLinkedEtag(seenHeaders);
+  if (expected) {
+    const actual = await sha256File(partPath);
+    if (actual !== expected) {
+      fs.unlinkSync(partPath);
+      throw new Error(`${name}: SHA-256 mismatch (expected ${expected}, got ${actual})`);
+    }
+    console.log(`🔒 ${name} verified (sha256 ${expected.slice(0, 12)}...)`);
+  } else {
+    console.log(`ℹ️ No checksum available for ${name}, skipping verification`);
+  }
+
+  fs.renameSync(partPath, filePath);
+  console.log(`✓ ${name} downloaded successfully!`);
+  return expected;
+}
+
+// Write the size and SHA-256 of every downloaded file into the manifest, so
+// later downloads and the startup check compare against pinned values rather
+// than whatever hash the server sends. Run once against a trusted download.
+async function pinManifestFiles(manifest, manifestPath, modelsDir) {
+  for (const file of manifest.files) {
+    const filePath = path.join(modelsDir, file.path);
+    if (!fs.existsSync(filePath)) continue;
+    file.size = fs.statSync(filePath).size;
+    file.sha256 = await sha256File(filePath);
+  }
+  fs.writeFileSync(manifestPath, `${JSON.stringify(manifest, null, 2)}\n`);
+  console.log(`📌 Pinned sizes and hashes in ${path.relative(process.cwd(), manifestPath)}`);
+}
+
+export async function downloadModel({ baseUrl, modelsDir = MODELS_DIR, manifestPath = MANIFEST_PATH, updateManifest = false } = {}) {
+  const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf-8'));
+  const sourceUrl = (baseUrl || manifest.source_url).replace(/\/+$/, '');
+  fs.mkdirSync(modelsDir, { recursive: true });
+
+  // Files with no pinned or recorded hash are checked against the server too:
+  // they're resumed as part files, so a truncated one gets completed and a
+  // complete one costs a single 416 before its hash is checked
+  const statusByPath = new Map(
+    (await verifyModelFiles(manifest, modelsDir)).map(result => [result.path, result.status])
+  );
+  const pending = getManifestFiles(manifest).filter(file => statusByPath.get(file.path) !== 'ok');
+
+  if (pending.length === 0) {
+    console.log(`✓ All ${manifest.name} components already downloaded`);
+    if (updateManifest) await pinManifestFiles(manifest, manifestPath, modelsDir);
+    return;
+  }
+
+  console.log(`📥 Downloading ${manifest.name} from ${sourceUrl} (this may take several minutes)...`);
+
+  for (const file of pending) {
+    const filePath = path.join(modelsDir, file.path);
+    const label = `${file.component} (${file.path})`;
+    const partPath = `${filePath}.part`;
+    const status = statusByPath.get(file.path);
+    if (status === 'unverified') {
+      console.log(`🔎 ${label} has no known checksum, checking it against the server`);
+      fs.renameSync(filePath, partPath);
+    } else if (status !== 'missing') {
+      console.log(`⚠️ ${label} is corrupt (${status}), downloading again`);
+      fs.unlinkSync(filePath);
+    }
+
+    console.log(`\n📦 Downloading ${label}...`);
+    try {
+      const sha256 = await downloadFile(`${sourceUrl}/${file.url}`, filePath, { name: label, sha256: file.sha256, size: file.size });
+      if (sha256) {
+        recordVerifiedFile(modelsDir, file.path, sha256);
       }
-    });
-  } catch (error) {
-    console.error('Download failed:', error);
-    throw error;
+    } catch (error) {
+      // Offline or interrupted: put an unchecked file back rather than lose it
+      if (status === 'unverified' && fs.existsSync(partPath)) fs.renameSync(partPath, filePath);
+      if (!file.optional) throw error;
+      console.warn(`⚠️ Skipping optional ${label}: ${error.message}`);
+    }
+  }
+
+  const problems = getIntegrityProblems(await verifyModelFiles(manifest, modelsDir));
+  if (problems.length > 0) {
+    throw new Error(`Model files still not usable:\n  ${problems.map(describeIntegrityProblem).join('\n  ')}`);
+  }
+
+  console.log('\n✓ All model components downloaded successfully!');
+  console.log('📊 Model components ready for inference:');
+  getManifestFiles(manifest).forEach(file => {
+    const filePath = path.join(modelsDir, file.path);
+    if (fs.existsSync(filePath)) {
+      console.log(`  - ${file.path}: ${formatMB(fs.statSync(filePath).size)}MB`);
+    }
+  });
+
+  if (updateManifest) await pinManifestFiles(manifest, manifestPath, modelsDir);
+}
+
+// --base-url / MODEL_BASE_URL point the downloader at a mirror or a local test server
+function parseArgs(args) {
+  const options = { baseUrl: process.env.MODEL_BASE_URL };
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--base-url') options.baseUrl = args[++i];
+    else if (args[i] === '--models-dir') options.modelsDir = path.resolve(args[++i]);
+    else if (args[i] === '--manifest') options.manifestPath = path.resolve(args[++i]);
+    else if (args[i] === '--update-manifest') options.updateManifest = true;
   }
+  return options;
 }
 
-// Run the download
-downloadModel().catch(console.error);
\ No newline at end of file
+// Run the download when invoked directly (npm run download-model)
+if (process.argv[1] && path.resolve(process.argv[1]) === __filename) {
+  downloadModel(parseArgs(process.argv.slice(2))).catch((error) => {
+    console.error('Download failed:', error.message);
+    process.exitCode = 1;
+  });
+}
@@ -1,13 +1,19 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { SimpleWorkspace } from './components/SimpleWorkspace';
+import { DJWorkspace } from './components/DJWorkspace';
 import { useGPUAcceleration } from './hooks/useWebGPU';
 import { useModelLoader } from './hooks/useModelLoader';
+import { MidiProvider } from './lib/midi/MidiLearnContext';
+import { ModulationProvider } from './lib/modulation/ModulationContext';
 import './App.css';
 
+type View = 'workspace' | 'decks';
+
 function App() {
   const [showPerformance, setShowPerformance] = useState(false);
+  const [view, setView] = useState<View>('workspace');
   const { isSupported, backend, error } = useGPUAcceleration();
-  const { isLoaded, downloadInfo, error: modelError, loadModel } = useModelLoader();
+  const { isLoaded, downloadInfo, error: modelError, problems: modelProblems, verification, loadModel } = useModelLoader();
 
   // Auto-start model validation on app load
   useEffect(() => {
@@ -28,7 +34,7 @@ function App() {
 
   const getStatusText = (status: string): string => {
     switch (status) {
-      case 'checking': return 'Checking bundled model...';
+      case 'checking': return 'Checking model files...';
       case 'validating': return 'Validating model integrity...';
       case 'validated': return 'Model validation complete';
       case 'initializing': return 'Initializing AI engine...';
@@ -54,7 +60,16 @@ function App() {
       <div className="error-screen">
         <h1>Model Validation Failed</h1>
         <p>Error: {modelError}</p>
-        <p>Please reinstall the application or contact support.</p>
+        {modelProblems.length > 0 ? (
+          <>
+            <ul>
+              {modelProblems.map(problem => <li key={problem}>{problem}</li>)}
+            </ul>
+            <p>Run <code>npm run download-model</code> to fetch the missing or damaged files again.</p>
+          </>
+        ) : (
+          <p>Please reinstall the application or contact support.</p>
+        )}
       </div>
     );
   }
@@ -73,23 +88,54 @@ function App() {
             />
           </div>
           <span className="progress-text">{Math.round(downloadInfo.progress)}%</span>
+          {downloadInfo.component && (
+            <p className="progress-detail">
+              Loading {downloadInfo.component} · {downloadInfo.loadedMB.toFixed(0)} / {downloadInfo.totalMB.toFixed(0)} MB
+            </p>
+          )}
+          {verification.status === 'running' && (
+            <p className="progress-detail">
+              Verifying model files · {verification.checkedMB.toFixed(0)} / {verification.totalMB.toFixed(0)} MB
+            </p>
+          )}
         </div>
       </div>
     );
   }
 
   return (
-    <>
-      <SimpleWorkspace backend={backend} />
-      {showPerformance && (
-        <div className="performance-overlay">
-          <div>Backend: {backend}</div>
-          <div>FPS: 60</div>
-          <div>Latency: 180ms</div>
-          <div>GPU: {backend === 'webgl' ? 'Accelerated' : 'CPU'}</div>
-        </div>
-      )}
-    </>
+    <MidiProvider>
+      <ModulationProvider>
+        {view === 'workspace' ? <SimpleWorkspace backend={backend} /> : <DJWorkspace backend={backend} />}
+        <button
+          className="view-toggle"
+          onClick={() => setView(prev => (prev === 'workspace' ? 'decks' : 'workspace'))}
+        >
+          {view === 'workspace' ? 'DJ Decks' : 'Workspace'}
+        </button>
+        {verification.status === 'running' && (
+          <div className="model-verification">
+            Verifying model files · {verification.checkedMB.toFixed(0)} / {verification.totalMB.toFixed(0)} MB
+          </div>
+        )}
+        {verification.status === 'done' && modelProblems.length > 0 && (
+          <div className="model-verification model-verification-failed">
+            <ul>
+              {modelProblems.map(problem => <li key={problem}>{problem}</li>)}
+            </ul>
+            <p>Run <code>npm run download-model</code> to fetch the damaged files again.</p>
+          </div>
+        )}
+        {showPerformance && (
+          <div className="performance-overlay">
+            <div>Backend: {backend}</div>
+            <div>FPS: 60</div>
+            <div>Latency: 180ms</div>
+            <div>GPU: {backend === 'webgl' ? 'Accelerated' : 'CPU'}</div>
+          </div>
+        )}
+      </ModulationProvider>
+    </MidiProvider>
   );
 }
 
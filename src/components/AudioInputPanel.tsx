@@ -0,0 +1,84 @@
+import React from 'react';
+import { Mic, FileAudio, Square } from 'lucide-react';
+import type { AudioFeatures } from '../lib/audio/analysis';
+import type { AudioInputState } from '../lib/audio/audioInput';
+import './AudioInputPanel.css';
+
+interface AudioInputPanelProps {
+  state: AudioInputState;
+  features: AudioFeatures;
+  onStartMicrophone: () => void;
+  onStartFile: (file: File) => void;
+  onStop: () => void;
+  // Copies the detected tempo to the workspace BPM
+  onUseBpm: (bpm: number) => void;
+}
+
+const METERS: { key: 'level' | 'bass' | 'mid' | 'high'; label: string }[] = [
+  { key: 'level', label: 'Level' },
+  { key: 'bass', label: 'Bass' },
+  { key: 'mid', label: 'Mid' },
+  { key: 'high', label: 'High' }
+];
+
+export function AudioInputPanel({ state, features, onStartMicrophone, onStartFile, onStop, onUseBpm }: AudioInputPanelProps) {
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onStartFile(file);
+    e.target.value = '';
+  };
+
+  return (
+    <div className="section audio-input-panel">
+      <h3>Audio Input</h3>
+
+      <div className="audio-input-buttons">
+        <button
+          className={`audio-source-btn ${state.kind === 'microphone' ? 'active' : ''}`}
+          onClick={onStartMicrophone}
+        >
+          <Mic size={14} />
+          Live Input
+        </button>
+        <label className={`audio-source-btn ${state.kind === 'file' ? 'active' : ''}`}>
+          <FileAudio size={14} />
+          Audio File...
+          <input type="file" accept="audio/*" onChange={handleFile} hidden />
+        </label>
+        <button className="audio-source-btn" onClick={onStop} disabled={!state.kind} title="Stop audio input">
+          <Square size={14} />
+        </button>
+      </div>
+
+      <div className="audio-input-status">
+        {state.error
+          ? <span className="audio-input-error">{state.error}</span>
+          : state.name ?? 'No audio source - effects set to an audio source stay at rest'}
+      </div>
+
+      <div className="audio-meters">
+        {METERS.map(meter => (
+          <div key={meter.key} className="audio-meter">
+            <span className="audio-meter-label">{meter.label}</span>
+            <div className="audio-meter-track">
+              <div className="audio-meter-fill" style={{ width: `${features[meter.key] * 100}%` }} />
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="audio-tempo">
+        <span className="onset-light" style={{ opacity: 0.2 + features.onset * 0.8 }} />
+        <span>Detected: {features.bpm ? `${features.bpm.toFixed(1)} BPM` : '-'}</span>
+        <button
+          className="audio-source-btn"
+          onClick={() => features.bpm && onUseBpm(features.bpm)}
+          disabled={!features.bpm}
+          title="Set the workspace BPM to the detected tempo"
+        >
+          Use BPM
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import { Circle, Download, Upload, Trash2, Grid3x3, X } from 'lucide-react';
+import { QUANTIZE_OPTIONS, AutomationEngine, AutomationState } from '../lib/automation/engine';
+import { AUTOMATION_FILE_EXTENSION, parseAutomation, serializeAutomation } from '../lib/automation/format';
+import type { AutomationRecordMode } from '../lib/automation/types';
+import './AutomationPanel.css';
+
+interface AutomationPanelProps {
+  engine: AutomationEngine;
+  state: AutomationState;
+  // Beats since play started
+  position: number;
+  bpm: number;
+}
+
+const BEATS_PER_BAR = 4;
+
+const formatPosition = (beats: number) =>
+  `${Math.floor(beats / BEATS_PER_BAR) + 1}.${Math.floor(beats % BEATS_PER_BAR) + 1}`;
+
+export function AutomationPanel({ engine, state, position, bpm }: AutomationPanelProps) {
+  const [error, setError] = useState<string | null>(null);
+  const { recording } = state;
+
+  const handleSave = () => {
+    const blob = new Blob([serializeAutomation(recording)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `automation-${new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-')}${AUTOMATION_FILE_EXTENSION}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleLoad = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      engine.load(parseAutomation(await file.text()));
+      setError(null);
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : String(loadError));
+    }
+  };
+
+  return (
+    <div className="section automation-panel">
+      <h3>Automation</h3>
+
+      <div className="automation-transport">
+        <button
+          className={`automation-rec-btn ${state.isRecording ? 'recording' : ''}`}
+          onClick={() => engine.setRecording(!state.isRecording, bpm)}
+          title="Record parameter changes while playing"
+        >
+          <Circle size={12} />
+          Rec
+        </button>
+        <select
+          value={state.mode}
+          onChange={(e) => engine.setMode(e.target.value as AutomationRecordMode)}
+          title="Overdub adds to lanes; replace overwrites a lane from the first change on"
+        >
+          <option value="overdub">Overdub</option>
+          <option value="replace">Replace</option>
+        </select>
+        <select
+          value={state.quantizeBeats ?? ''}
+          onChange={(e) => engine.setQuantize(e.target.value ? Number(e.target.value) : null)}
+          title="Quantize recorded changes"
+        >
+          {QUANTIZE_OPTIONS.map(option => (
+            <option key={option.label} value={option.beats ?? ''}>Q: {option.label}</option>
+          ))}
+        </select>
+        <span className="automation-position">
+          {formatPosition(position)} / {formatPosition(recording.lengthBeats)}
+        </span>
+      </div>
+
+      <div className="automation-lanes">
+        {recording.lanes.length === 0 && (
+          <div className="automation-empty">Press Rec and Play, then move any control to record it.</div>
+        )}
+        {recording.lanes.map(lane => (
+          <div key={lane.parameterId} className={`automation-lane ${lane.muted ? 'muted' : ''}`}>
+            <span className="automation-lane-label" title={lane.parameterId}>{lane.label}</span>
+            <span className="automation-lane-count">{lane.events.length}</span>
+            <button
+              className={`automation-lane-btn ${lane.muted ? 'active' : ''}`}
+              onClick={() => engine.setLaneMuted(lane.parameterId, !lane.muted)}
+              title="Mute lane"
+            >
+              M
+            </button>
+            <button
+              className="automation-lane-btn"
+              onClick={() => engine.quantizeLane(lane.parameterId)}
+              disabled={!state.quantizeBeats}
+              title="Quantize lane to the grid"
+            >
+              <Grid3x3 size={12} />
+            </button>
+            <button
+              className="automation-lane-btn"
+              onClick={() => engine.removeLane(lane.parameterId)}
+              title="Delete lane"
+            >
+              <X size={12} />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="automation-files">
+        <button className="automation-file-btn" onClick={handleSave} disabled={recording.lanes.length === 0}>
+          <Download size={14} />
+          Save
+        </button>
+        <label className="automation-file-btn">
+          <Upload size={14} />
+          Load
+          <input type="file" accept=".json,application/json" onChange={handleLoad} hidden />
+        </label>
+        <button
+          className="automation-file-btn"
+          onClick={engine.clear}
+          disabled={recording.lanes.length === 0}
+          title="Clear all lanes"
+        >
+          <Trash2 size={14} />
+        </button>
+      </div>
+      {error && <div className="automation-error">{error}</div>}
+    </div>
+  );
+}
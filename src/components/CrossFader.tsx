@@ -1,24 +1,67 @@
 import React from 'react';
+import { MidiLearnable } from './MidiLearnable';
+import type { CrossfadeAssignment, CrossfadeCurve, CrossfadeMode } from '../lib/crossfade';
 import './CrossFader.css';
 
 interface CrossFaderProps {
   position: number;
   onChange: (position: number) => void;
+  deckCount: number;
+  assignment: CrossfadeAssignment;
+  onAssignmentChange: (assignment: CrossfadeAssignment) => void;
+  curve: CrossfadeCurve;
+  onCurveChange: (curve: CrossfadeCurve) => void;
+  mode: CrossfadeMode;
+  onModeChange: (mode: CrossfadeMode) => void;
 }
 
-export function CrossFader({ position, onChange }: CrossFaderProps) {
+const CURVES: { value: CrossfadeCurve; label: string }[] = [
+  { value: 'linear', label: 'Linear' },
+  { value: 'constant-power', label: 'Constant power' },
+  { value: 'cut', label: 'Cut' }
+];
+
+export function CrossFader({
+  position,
+  onChange,
+  deckCount,
+  assignment,
+  onAssignmentChange,
+  curve,
+  onCurveChange,
+  mode,
+  onModeChange
+}: CrossFaderProps) {
+  const deckSelect = (side: keyof CrossfadeAssignment) => (
+    <select
+      className="crossfader-assign"
+      value={assignment[side]}
+      onChange={(e) => onAssignmentChange({ ...assignment, [side]: Number(e.target.value) })}
+      title={`Deck on side ${side.toUpperCase()}`}
+    >
+      {Array.from({ length: deckCount }, (_, deckId) => (
+        <option key={deckId} value={deckId}>Deck {deckId + 1}</option>
+      ))}
+    </select>
+  );
+
   return (
     <div className="crossfader">
-      <div className="crossfader-label">A</div>
+      <div className="crossfader-side">
+        <div className="crossfader-label">A</div>
+        {deckSelect('a')}
+      </div>
       <div className="crossfader-track">
-        <input
-          type="range"
-          min="0"
-          max="100"
-          value={position}
-          onChange={(e) => onChange(Number(e.target.value))}
-          className="crossfader-slider"
-        />
+        <MidiLearnable id="crossfader" label="Crossfader" min={0} max={100} step={1} value={position} onChange={onChange}>
+          <input
+            type="range"
+            min="0"
+            max="100"
+            value={position}
+            onChange={(e) => onChange(Number(e.target.value))}
+            className="crossfader-slider"
+          />
+        </MidiLearnable>
         <div className="crossfader-markers">
           <div className="marker" style={{ left: '0%' }} />
           <div className="marker" style={{ left: '25%' }} />
@@ -27,8 +70,31 @@ export function CrossFader({ position, onChange }: CrossFaderProps) {
           <div className="marker" style={{ left: '100%' }} />
         </div>
       </div>
-      <div className="crossfader-label">B</div>
+      <div className="crossfader-side">
+        <div className="crossfader-label">B</div>
+        {deckSelect('b')}
+      </div>
       <div className="crossfader-value">{position}%</div>
+      <div className="crossfader-options">
+        <select
+          value={mode}
+          onChange={(e) => onModeChange(e.target.value as CrossfadeMode)}
+          title="Output blends rendered frames; AI mix renders between the decks' prompts and seeds"
+        >
+          <option value="output">Output</option>
+          <option value="ai">AI mix</option>
+        </select>
+        <select
+          value={curve}
+          onChange={(e) => onCurveChange(e.target.value as CrossfadeCurve)}
+          disabled={mode === 'ai'}
+          title="Crossfade curve (output mode)"
+        >
+          {CURVES.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      </div>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -1,22 +1,40 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect } from 'react';
 import { Deck } from './Deck';
 import { CrossFader } from './CrossFader';
+import { MasterOutput } from './MasterOutput';
 import { PresetBank } from './PresetBank';
 import { MIDIController } from './MIDIController';
+import { useModulation } from '../lib/modulation/ModulationContext';
+import { modulateValue } from '../lib/modulation/matrix';
+import { DECK_PRESETS_KEY } from '../lib/presets/storage';
+import { createFrameThumbnail } from '../lib/presets/thumbnail';
+import type { PresetState } from '../lib/presets/types';
+import type { CrossfadeAssignment, CrossfadeCurve, CrossfadeMode } from '../lib/crossfade';
+import type { InitImage } from '../types/electron.d.ts';
 import './DJWorkspace.css';
 
 interface DJWorkspaceProps {
   backend: string;
 }
 
+const CROSSFADER_MODULATION_INTERVAL_MS = 50;
+
 export function DJWorkspace({ backend }: DJWorkspaceProps) {
   const [activeDeck, setActiveDeck] = useState(0);
   const [crossfaderPosition, setCrossfaderPosition] = useState(50);
+  const [crossfadeAssignment, setCrossfadeAssignment] = useState<CrossfadeAssignment>({ a: 0, b: 1 });
+  const [crossfadeCurve, setCrossfadeCurve] = useState<CrossfadeCurve>('linear');
+  const [crossfadeMode, setCrossfadeMode] = useState<CrossfadeMode>('output');
+  const { matrix: modulationMatrix, state: modulationState } = useModulation();
+  const [modulatedPosition, setModulatedPosition] = useState(crossfaderPosition);
+  const isCrossfaderModulated = modulationState.routes.some(route => route.enabled && route.destination === 'crossfader');
+  // Latest frame per deck id
+  const [frames, setFrames] = useState<Record<number, InitImage>>({});
   const [decks, setDecks] = useState([
-    { id: 0, prompt: '', seed: 42, active: true },
-    { id: 1, prompt: '', seed: 123, active: false },
-    { id: 2, prompt: '', seed: 456, active: false },
-    { id: 3, prompt: '', seed: 789, active: false }
+    { id: 0, prompt: '', seed: 42, speedFader: 50, seedJitter: 0, active: true },
+    { id: 1, prompt: '', seed: 123, speedFader: 50, seedJitter: 0, active: false },
+    { id: 2, prompt: '', seed: 456, speedFader: 50, seedJitter: 0, active: false },
+    { id: 3, prompt: '', seed: 789, speedFader: 50, seedJitter: 0, active: false }
   ]);
 
   const handleDeckUpdate = useCallback((deckId: number, updates: any) => {
@@ -25,12 +43,42 @@ export function DJWorkspace({ backend }: DJWorkspaceProps) {
     ));
   }, []);
 
-  const handlePresetLoad = useCallback((preset: any) => {
-    if (activeDeck !== null) {
-      handleDeckUpdate(activeDeck, preset);
+  const handleDeckFrame = useCallback((deckId: number, frame: InitImage) => {
+    setFrames(prev => ({ ...prev, [deckId]: frame }));
+  }, []);
+
+  // Matrix routes move the mix around the fader's position
+  useEffect(() => {
+    if (!isCrossfaderModulated) {
+      setModulatedPosition(crossfaderPosition);
+      return;
     }
+    const timer = setInterval(() => {
+      setModulatedPosition(Math.round(modulateValue('crossfader', crossfaderPosition, modulationMatrix.evaluate())));
+    }, CROSSFADER_MODULATION_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [isCrossfaderModulated, crossfaderPosition, modulationMatrix]);
+
+  const deckA = decks[crossfadeAssignment.a];
+  const deckB = decks[crossfadeAssignment.b];
+
+  // Presets save and load the active deck
+  const handlePresetCapture = useCallback((): PresetState => {
+    const { prompt, seed, speedFader, seedJitter } = decks[activeDeck];
+    return { kind: 'deck', prompt, seed, speedFader, seedJitter };
+  }, [decks, activeDeck]);
+
+  const handlePresetLoad = useCallback((preset: PresetState) => {
+    if (preset.kind !== 'deck') return;
+    const { prompt, seed, speedFader, seedJitter } = preset;
+    handleDeckUpdate(activeDeck, { prompt, seed, speedFader, seedJitter });
   }, [activeDeck, handleDeckUpdate]);
 
+  const getPresetThumbnail = useCallback(() => {
+    const frame = frames[decks[activeDeck].id];
+    return frame ? createFrameThumbnail(frame) : null;
+  }, [frames, decks, activeDeck]);
+
   return (
     <div className="dj-workspace">
       <div className="workspace-header">
@@ -48,9 +96,12 @@ export function DJWorkspace({ backend }: DJWorkspaceProps) {
             id={deck.id}
             prompt={deck.prompt}
             seed={deck.seed}
+            speedFader={deck.speedFader}
+            seedJitter={deck.seedJitter}
             active={activeDeck === index}
             onActivate={() => setActiveDeck(index)}
             onUpdate={(updates) => handleDeckUpdate(deck.id, updates)}
+            onFrame={(frame) => handleDeckFrame(deck.id, frame)}
             backend={backend}
           />
         ))}
@@ -60,10 +111,32 @@ export function DJWorkspace({ backend }: DJWorkspaceProps) {
         <CrossFader
           position={crossfaderPosition}
           onChange={setCrossfaderPosition}
+          deckCount={decks.length}
+          assignment={crossfadeAssignment}
+          onAssignmentChange={setCrossfadeAssignment}
+          curve={crossfadeCurve}
+          onCurveChange={setCrossfadeCurve}
+          mode={crossfadeMode}
+          onModeChange={setCrossfadeMode}
+        />
+        <MasterOutput
+          frameA={frames[deckA.id] ?? null}
+          frameB={frames[deckB.id] ?? null}
+          sourceA={deckA}
+          sourceB={deckB}
+          position={modulatedPosition}
+          curve={crossfadeCurve}
+          mode={crossfadeMode}
+          backend={backend}
         />
       </div>
 
-      <PresetBank onPresetLoad={handlePresetLoad} />
+      <PresetBank
+        storageKey={DECK_PRESETS_KEY}
+        onCapture={handlePresetCapture}
+        onPresetLoad={handlePresetLoad}
+        getThumbnail={getPresetThumbnail}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -1,40 +1,95 @@
 import React, { useState, useCallback, useRef, useEffect } from 'react';
 import { Play, Pause, RefreshCw, Zap } from 'lucide-react';
+import { generationQueue, GenerationPriority } from '../lib/generationQueue';
+import { useGenerationQueueStatus } from '../hooks/useGenerationQueue';
+import { ensureModelLoaded } from '../lib/modelLoading';
+import type { GenerationResult, InitImage } from '../types/electron.d.ts';
+import { MidiLearnable } from './MidiLearnable';
 import './Deck.css';
 
+// Decks render small frames so four of them can share one worker
+const DECK_RESOLUTION = 512;
+const DECK_STEPS = 1;
+
 interface DeckProps {
   id: number;
   prompt: string;
   seed: number;
+  speedFader: number;
+  seedJitter: number;
   active: boolean;
   onActivate: () => void;
   onUpdate: (updates: any) => void;
+  // Latest rendered frame, for the crossfader's master output
+  onFrame?: (frame: InitImage) => void;
   backend: string;
 }
 
-export function Deck({ id, prompt, seed, active, onActivate, onUpdate, backend }: DeckProps) {
-  const [isGenerating, setIsGenerating] = useState(false);
+export function Deck({ id, prompt, seed, speedFader, seedJitter, active, onActivate, onUpdate, onFrame, backend }: DeckProps) {
   const [isPaused, setIsPaused] = useState(false);
-  const [speedFader, setSpeedFader] = useState(50);
-  const [seedJitter, setSeedJitter] = useState(0);
+  const [lastError, setLastError] = useState<string | null>(null);
+  const [travelPosition, setTravelPosition] = useState(0);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const animationRef = useRef<number>();
+  const travelPositionRef = useRef(0);
+  const channel = `deck-${id}`;
+  // Held in a ref so a new callback from the parent doesn't restart the tick loop
+  const onFrameRef = useRef(onFrame);
+  onFrameRef.current = onFrame;
+  const queueStatus = useGenerationQueueStatus();
+  const isGenerating = queueStatus.running?.channel === channel;
+
+  // Frames may come back at any size; scale them onto the deck canvas
+  const drawResult = useCallback((result: GenerationResult) => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !result.imageData || result.metadata?.format !== 'rgba') return;
+
+    const { width, height } = result.metadata;
+    const frame = document.createElement('canvas');
+    frame.width = width;
+    frame.height = height;
+    frame.getContext('2d')?.putImageData(new ImageData(new Uint8ClampedArray(result.imageData), width, height), 0, 0);
+    ctx.drawImage(frame, 0, 0, canvas.width, canvas.height);
+  }, []);
+
+  // Each deck has its own channel on the shared queue, so a slow frame on one
+  // deck is replaced by its next tick instead of holding up the others
+  const handleGenerate = useCallback(async (priority: GenerationPriority = 'live') => {
+    if (!backend || !canvasRef.current || !prompt.trim()) return;
 
-  const handleGenerate = useCallback(async () => {
-    if (!backend || !canvasRef.current) return;
-    
-    setIsGenerating(true);
-    // Simulate generation for now
-    setTimeout(() => {
-      setIsGenerating(false);
-      // Draw placeholder
-      const ctx = canvasRef.current?.getContext('2d');
-      if (ctx) {
-        ctx.fillStyle = `hsl(${Math.random() * 360}, 70%, 50%)`;
-        ctx.fillRect(0, 0, 512, 512);
+    try {
+      await ensureModelLoaded();
+    } catch (error) {
+      // Stop ticking until the user tries again, rather than reloading every frame
+      setLastError(error instanceof Error ? error.message : 'Failed to load model');
+      setIsPaused(true);
+      return;
+    }
+
+    const result = await generationQueue.enqueue({
+      prompt,
+      width: DECK_RESOLUTION,
+      height: DECK_RESOLUTION,
+      steps: DECK_STEPS,
+      seed,
+      // Jitter travels between `seed` and `seed + 1` rather than reseeding
+      seed_travel: seedJitter > 0
+        ? { seeds: [seed, seed + 1], position: travelPositionRef.current }
+        : undefined
+    }, { channel, priority });
+
+    if (result.dropped || result.cancelled) return;
+    if (result.success) {
+      setLastError(null);
+      drawResult(result);
+      if (result.imageData && result.metadata?.format === 'rgba') {
+        onFrameRef.current?.({ data: result.imageData, width: result.metadata.width, height: result.metadata.height });
       }
-    }, 200);
-  }, [backend]);
+    } else {
+      setLastError(result.error || 'Generation failed');
+    }
+  }, [backend, prompt, seed, seedJitter, channel, drawResult]);
 
   const handlePromptChange = useCallback((e: React.ChangeEvent<HTMLTextAreaElement>) => {
     onUpdate({ prompt: e.target.value });
@@ -50,8 +105,15 @@ export function Deck({ id, prompt, seed, active, onActivate, onUpdate, backend }
       
       const animate = () => {
         if (seedJitter > 0) {
-          const jitteredSeed = seed + Math.floor(Math.random() * seedJitter * 10);
-          onUpdate({ seed: jitteredSeed });
+          // Random walk between `seed` and `seed + 1` instead of jumping seeds,
+          // so jitter reads as motion rather than flicker
+          const stepSize = (seedJitter / 100) * 0.2;
+          let next = travelPositionRef.current + (Math.random() * 2 - 1) * stepSize;
+          // Reflect off the ends of the path
+          if (next < 0) next = -next;
+          if (next > 1) next = 2 - next;
+          travelPositionRef.current = next;
+          setTravelPosition(travelPositionRef.current);
         }
         handleGenerate();
         
@@ -66,7 +128,14 @@ export function Deck({ id, prompt, seed, active, onActivate, onUpdate, backend }
         }
       };
     }
-  }, [isPaused, speedFader, seedJitter, seed, prompt, backend, handleGenerate, onUpdate]);
+  }, [isPaused, speedFader, seedJitter, seed, prompt, backend, handleGenerate]);
+
+  // Drop this deck's frames when it is paused or unmounted
+  useEffect(() => {
+    if (isPaused) generationQueue.cancel(channel);
+  }, [isPaused, channel]);
+
+  useEffect(() => () => generationQueue.cancel(channel), [channel]);
 
   return (
     <div 
@@ -76,23 +145,36 @@ export function Deck({ id, prompt, seed, active, onActivate, onUpdate, backend }
       <div className="deck-header">
         <span className="deck-number">{id + 1}</span>
         <div className="deck-controls">
+          <MidiLearnable id={`deck.${id}.play`} label={`Deck ${id + 1} play/pause`} onTrigger={() => setIsPaused(paused => !paused)}>
+            <button 
+              className="control-btn"
+              onClick={(e) => {
+                e.stopPropagation();
+                setIsPaused(!isPaused);
+              }}
+            >
+              {isPaused ? <Play size={16} /> : <Pause size={16} />}
+            </button>
+          </MidiLearnable>
           <button 
             className="control-btn"
             onClick={(e) => {
               e.stopPropagation();
-              setIsPaused(!isPaused);
+              handleRandomizeSeed();
             }}
           >
-            {isPaused ? <Play size={16} /> : <Pause size={16} />}
+            <RefreshCw size={16} />
           </button>
-          <button 
+          <button
             className="control-btn"
+            title="Generate now"
+            disabled={!prompt.trim()}
             onClick={(e) => {
               e.stopPropagation();
-              handleRandomizeSeed();
+              handleGenerate('manual');
             }}
           >
-            <RefreshCw size={16} />
+            <Zap size={16} />
           </button>
         </div>
       </div>
@@ -129,7 +211,7 @@ export function Deck({ id, prompt, seed, active, onActivate, onUpdate, backend }
               min="1"
               max="100"
               value={speedFader}
-              onChange={(e) => setSpeedFader(Number(e.target.value))}
+              onChange={(e) => onUpdate({ speedFader: Number(e.target.value) })}
               onClick={(e) => e.stopPropagation()}
             />
             <span className="fader-value">{speedFader}%</span>
@@ -142,7 +224,7 @@ export function Deck({ id, prompt, seed, active, onActivate, onUpdate, backend }
               min="0"
               max="100"
               value={seedJitter}
-              onChange={(e) => setSeedJitter(Number(e.target.value))}
+              onChange={(e) => onUpdate({ seedJitter: Number(e.target.value) })}
               onClick={(e) => e.stopPropagation()}
             />
             <span className="fader-value">{seedJitter}%</span>
@@ -151,7 +233,9 @@ export function Deck({ id, prompt, seed, active, onActivate, onUpdate, backend }
 
         <div className="seed-display">
           Seed: {seed}
+          {seedJitter > 0 && ` → ${seed + 1} (${Math.round(travelPosition * 100)}%)`}
         </div>
+        {lastError && <div className="deck-error">{lastError}</div>}
       </div>
     </div>
   );
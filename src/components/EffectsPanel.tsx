@@ -1,5 +1,6 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Zap, Waves, RotateCcw, Shuffle, Target, TrendingUp, Activity, Wind } from 'lucide-react';
+import { Zap, Waves, RotateCcw, Shuffle, TrendingUp, Activity, Wind } from 'lucide-react';
+import { MidiLearnable } from './MidiLearnable';
 import './EffectsPanel.css';
 
 interface Effect {
@@ -10,23 +11,83 @@ interface Effect {
   enabled: boolean;
   intensity: number;
   speed: number;
-  target: 'seed' | 'prompt_weights' | 'selected_prompts';
-  targetPrompts: number[];
   params: Record<string, any>;
 }
 
 interface EffectsPanelProps {
   effects: Effect[];
   onEffectChange: (effectId: string, changes: Partial<Effect>) => void;
+  // A new effect from the add menu; the workspace routes it to a default target
+  onEffectAdd: (effect: Effect) => void;
   currentValues: {
     seed: number;
     promptWeights: number[];
     lfoValues: Record<string, number>;
   };
-  promptCount: number;
 }
 
-export function EffectsPanel({ effects, onEffectChange, currentValues, promptCount }: EffectsPanelProps) {
+const EFFECT_TYPES = [
+  {
+    id: 'wave_rider',
+    name: 'Wave Rider',
+    icon: <Waves size={20} />,
+    description: 'Smooth sine wave modulation',
+    defaultParams: { waveType: 'sine' }
+  },
+  {
+    id: 'pulse_storm',
+    name: 'Pulse Storm',
+    icon: <Zap size={20} />,
+    description: 'Rhythmic pulses with harmonics',
+    defaultParams: { pulseCount: 3 }
+  },
+  {
+    id: 'chaos_drift',
+    name: 'Chaos Drift',
+    icon: <Shuffle size={20} />,
+    description: 'Random organic movements',
+    defaultParams: { randomness: 0.5 }
+  },
+  {
+    id: 'rhythm_lock',
+    name: 'Rhythm Lock',
+    icon: <Activity size={20} />,
+    description: 'Hard beats and cuts',
+    defaultParams: { beatDivision: 4 }
+  },
+  {
+    id: 'morph_flow',
+    name: 'Morph Flow',
+    icon: <TrendingUp size={20} />,
+    description: 'Gradual transformations',
+    defaultParams: { morphSpeed: 1 }
+  },
+  {
+    id: 'dream_shift',
+    name: 'Dream Shift',
+    icon: <Wind size={20} />,
+    description: 'Ethereal drifting changes',
+    defaultParams: { dreaminess: 0.7 }
+  }
+];
+
+// A new effect of the given type with default settings; null for unknown types
+export function createEffect(typeId: string): Effect | null {
+  const effectType = EFFECT_TYPES.find(type => type.id === typeId);
+  if (!effectType) return null;
+  return {
+    id: effectType.id,
+    name: effectType.name,
+    icon: effectType.icon,
+    description: effectType.description,
+    enabled: true,
+    intensity: 50,
+    speed: 1,
+    params: effectType.defaultParams
+  };
+}
+
+export function EffectsPanel({ effects, onEffectChange, onEffectAdd, currentValues }: EffectsPanelProps) {
   const waveformRefs = useRef<Record<string, HTMLCanvasElement | null>>({});
 
   // Animation frames for waveforms
@@ -122,84 +183,10 @@ export function EffectsPanel({ effects, onEffectChange, currentValues, promptCou
     return colors[effectId as keyof typeof colors] || '#888';
   };
 
-  const effectTypes = [
-    {
-      id: 'wave_rider',
-      name: 'Wave Rider',
-      icon: <Waves size={20} />,
-      description: 'Smooth sine wave modulation',
-      defaultParams: { waveType: 'sine' }
-    },
-    {
-      id: 'pulse_storm',
-      name: 'Pulse Storm',
-      icon: <Zap size={20} />,
-      description: 'Rhythmic pulses with harmonics',
-      defaultParams: { pulseCount: 3 }
-    },
-    {
-      id: 'chaos_drift',
-      name: 'Chaos Drift',
-      icon: <Shuffle size={20} />,
-      description: 'Random organic movements',
-      defaultParams: { randomness: 0.5 }
-    },
-    {
-      id: 'rhythm_lock',
-      name: 'Rhythm Lock',
-      icon: <Activity size={20} />,
-      description: 'Hard beats and cuts',
-      defaultParams: { beatDivision: 4 }
-    },
-    {
-      id: 'morph_flow',
-      name: 'Morph Flow',
-      icon: <TrendingUp size={20} />,
-      description: 'Gradual transformations',
-      defaultParams: { morphSpeed: 1 }
-    },
-    {
-      id: 'dream_shift',
-      name: 'Dream Shift',
-      icon: <Wind size={20} />,
-      description: 'Ethereal drifting changes',
-      defaultParams: { dreaminess: 0.7 }
-    }
-  ];
-
-  const addEffect = (effectType: any) => {
-    const newEffect: Effect = {
-      id: effectType.id,
-      name: effectType.name,
-      icon: effectType.icon,
-      description: effectType.description,
-      enabled: true,
-      intensity: 50,
-      speed: 1,
-      target: 'seed',
-      targetPrompts: [],
-      params: effectType.defaultParams
-    };
-    
-    onEffectChange(effectType.id, newEffect);
-  };
-
   const removeEffect = (effectId: string) => {
     onEffectChange(effectId, { enabled: false });
   };
 
-  const togglePromptTarget = (effectId: string, promptIndex: number) => {
-    const effect = effects.find(e => e.id === effectId);
-    if (!effect) return;
-    
-    const currentTargets = effect.targetPrompts || [];
-    const newTargets = currentTargets.includes(promptIndex)
-      ? currentTargets.filter(i => i !== promptIndex)
-      : [...currentTargets, promptIndex];
-    
-    onEffectChange(effectId, { targetPrompts: newTargets });
-  };
-
   return (
     <div className="effects-panel">
       <div className="effects-header">
@@ -211,15 +198,15 @@ export function EffectsPanel({ effects, onEffectChange, currentValues, promptCou
           <select 
             onChange={(e) => {
               if (e.target.value) {
-                const effectType = effectTypes.find(t => t.id === e.target.value);
-                if (effectType) addEffect(effectType);
+                const effect = createEffect(e.target.value);
+                if (effect) onEffectAdd(effect);
                 e.target.value = '';
               }
             }}
             value=""
           >
             <option value="">+ Add Effect</option>
-            {effectTypes.map(type => (
+            {EFFECT_TYPES.map(type => (
               <option key={type.id} value={type.id}>
                 {type.name}
               </option>
@@ -282,15 +269,25 @@ export function EffectsPanel({ effects, onEffectChange, currentValues, promptCou
                       <div className="intensity-display">{effect.intensity}%</div>
                     </label>
                     <div className="slider-container">
-                      <input
-                        type="range"
-                        min="0"
-                        max="100"
+                      <MidiLearnable
+                        id={`effect.${effect.id}.intensity`}
+                        label={`${effect.name} intensity`}
+                        min={0}
+                        max={100}
+                        step={1}
                         value={effect.intensity}
-                        onChange={(e) => onEffectChange(effect.id, { intensity: Number(e.target.value) })}
-                        className="intensity-slider"
-                        style={{ '--color': getEffectColor(effect.id) } as React.CSSProperties}
-                      />
+                        onChange={(intensity) => onEffectChange(effect.id, { intensity })}
+                      >
+                        <input
+                          type="range"
+                          min="0"
+                          max="100"
+                          value={effect.intensity}
+                          onChange={(e) => onEffectChange(effect.id, { intensity: Number(e.target.value) })}
+                          className="intensity-slider"
+                          style={{ '--color': getEffectColor(effect.id) } as React.CSSProperties}
+                        />
+                      </MidiLearnable>
                     </div>
                   </div>
 
@@ -300,74 +297,30 @@ export function EffectsPanel({ effects, onEffectChange, currentValues, promptCou
                       <div className="speed-display">{effect.speed.toFixed(1)}x</div>
                     </label>
                     <div className="slider-container">
-                      <input
-                        type="range"
-                        min="0.1"
-                        max="4"
-                        step="0.1"
+                      <MidiLearnable
+                        id={`effect.${effect.id}.speed`}
+                        label={`${effect.name} speed`}
+                        min={0.1}
+                        max={4}
+                        step={0.1}
                         value={effect.speed}
-                        onChange={(e) => onEffectChange(effect.id, { speed: Number(e.target.value) })}
-                        className="speed-slider"
-                        style={{ '--color': getEffectColor(effect.id) } as React.CSSProperties}
-                      />
+                        onChange={(speed) => onEffectChange(effect.id, { speed })}
+                      >
+                        <input
+                          type="range"
+                          min="0.1"
+                          max="4"
+                          step="0.1"
+                          value={effect.speed}
+                          onChange={(e) => onEffectChange(effect.id, { speed: Number(e.target.value) })}
+                          className="speed-slider"
+                          style={{ '--color': getEffectColor(effect.id) } as React.CSSProperties}
+                        />
+                      </MidiLearnable>
                     </div>
                   </div>
                 </div>
 
-                {/* Target Selection */}
-                <div className="target-section">
-                  <label className="target-label">
-                    <Target size={16} />
-                    Effect Target:
-                  </label>
-                  
-                  <div className="target-options">
-                    <label className="radio-option">
-                      <input
-                        type="radio"
-                        name={`target-${effect.id}`}
-                        checked={effect.target === 'seed'}
-                        onChange={() => onEffectChange(effect.id, { target: 'seed' })}
-                      />
-                      <span>Seed</span>
-                    </label>
-                    
-                    <label className="radio-option">
-                      <input
-                        type="radio"
-                        name={`target-${effect.id}`}
-                        checked={effect.target === 'prompt_weights'}
-                        onChange={() => onEffectChange(effect.id, { target: 'prompt_weights' })}
-                      />
-                      <span>All Prompts</span>
-                    </label>
-                    
-                    <label className="radio-option">
-                      <input
-                        type="radio"
-                        name={`target-${effect.id}`}
-                        checked={effect.target === 'selected_prompts'}
-                        onChange={() => onEffectChange(effect.id, { target: 'selected_prompts' })}
-                      />
-                      <span>Selected</span>
-                    </label>
-                  </div>
-
-                  {effect.target === 'selected_prompts' && (
-                    <div className="prompt-targets">
-                      {Array.from({ length: promptCount }, (_, i) => (
-                        <button
-                          key={i}
-                          className={`prompt-target ${(effect.targetPrompts || []).includes(i) ? 'selected' : ''}`}
-                          onClick={() => togglePromptTarget(effect.id, i)}
-                        >
-                          P{i + 1}
-                        </button>
-                      ))}
-                    </div>
-                  )}
-                </div>
-
                 {/* Effect-specific parameters */}
                 {effect.id === 'chaos_drift' && (
                   <div className="effect-params">
@@ -1,59 +1,169 @@
-import React, { useState, useEffect } from 'react';
-import { Music } from 'lucide-react';
+import { useState } from 'react';
+import { Music, Trash2, X } from 'lucide-react';
+import { useMidi } from '../lib/midi/MidiLearnContext';
+import { describeMidiSource } from '../lib/midi/mappingEngine';
 import './MIDIController.css';
 
 export function MIDIController() {
-  const [isConnected, setIsConnected] = useState(false);
-  const [devices, setDevices] = useState<string[]>([]);
-
-  useEffect(() => {
-    const initMIDI = async () => {
-      try {
-        const midiAccess = await navigator.requestMIDIAccess();
-        
-        const updateDevices = () => {
-          const connectedDevices: string[] = [];
-          midiAccess.inputs.forEach((input) => {
-            connectedDevices.push(input.name || 'Unknown Device');
-            
-            input.onmidimessage = (event) => {
-              const [status, note, velocity] = event.data;
-              console.log('MIDI:', { status, note, velocity });
-              
-              // Handle MIDI messages
-              if (status === 144 && velocity > 0) { // Note On
-                // Map to deck selection, preset triggers, etc.
-              } else if (status === 176) { // CC
-                // Map to faders and knobs
-              }
-            };
-          });
-          
-          setDevices(connectedDevices);
-          setIsConnected(connectedDevices.length > 0);
-        };
-
-        updateDevices();
-        midiAccess.onstatechange = updateDevices;
-      } catch (error) {
-        console.error('MIDI initialization failed:', error);
-      }
-    };
-
-    if ('requestMIDIAccess' in navigator) {
-      initMIDI();
-    }
-  }, []);
+  const { engine, state, devices, profiles, activeProfile, loadProfile, saveProfileAs, deleteProfile } = useMidi();
+  const [isOpen, setIsOpen] = useState(false);
+  const [profileName, setProfileName] = useState('');
+  const isConnected = devices.length > 0;
+
+  const learnLabel = state.learnTarget
+    ? `Move a control for ${engine.getControl(state.learnTarget)?.label ?? state.learnTarget}...`
+    : 'Click a control to map it';
+
+  const handleSaveProfile = () => {
+    const name = profileName.trim();
+    if (!name) return;
+    saveProfileAs(name);
+    setProfileName('');
+  };
+
+  const percent = (value: number) => Math.round(value * 100);
 
   return (
     <div className="midi-controller">
-      <button 
-        className={`midi-status ${isConnected ? 'connected' : ''}`}
-        title={devices.length > 0 ? devices.join(', ') : 'No MIDI devices'}
-      >
-        <Music size={16} />
-        <span>{isConnected ? 'MIDI' : 'No MIDI'}</span>
-      </button>
+      <div className="midi-buttons">
+        <button
+          className={`midi-status ${isConnected ? 'connected' : ''}`}
+          title={devices.length > 0 ? devices.join(', ') : 'No MIDI devices'}
+          onClick={() => setIsOpen(!isOpen)}
+        >
+          <Music size={16} />
+          <span>{isConnected ? 'MIDI' : 'No MIDI'}</span>
+        </button>
+        <button
+          className={`midi-learn-btn ${state.learning ? 'active' : ''}`}
+          onClick={() => engine.setLearning(!state.learning)}
+          title="MIDI learn"
+        >
+          Learn
+        </button>
+      </div>
+
+      {state.learning && <div className="midi-learn-hint">{learnLabel}</div>}
+
+      {isOpen && (
+        <div className="midi-panel">
+          <div className="midi-panel-header">
+            <span>Controller profile</span>
+            <button className="midi-icon-btn" onClick={() => setIsOpen(false)}>
+              <X size={14} />
+            </button>
+          </div>
+
+          <div className="midi-profile-row">
+            <select value={activeProfile} onChange={(e) => loadProfile(e.target.value)}>
+              {!profiles.some(profile => profile.name === activeProfile) && (
+                <option value={activeProfile}>{activeProfile}</option>
+              )}
+              {profiles.map(profile => (
+                <option key={profile.name} value={profile.name}>{profile.name}</option>
+              ))}
+            </select>
+            <button
+              className="midi-icon-btn"
+              title="Delete profile"
+              onClick={() => deleteProfile(activeProfile)}
+            >
+              <Trash2 size={14} />
+            </button>
+          </div>
+          <div className="midi-profile-row">
+            <input
+              type="text"
+              value={profileName}
+              onChange={(e) => setProfileName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleSaveProfile()}
+              placeholder="Save as..."
+            />
+            <button className="midi-save-btn" onClick={handleSaveProfile} disabled={!profileName.trim()}>
+              Save
+            </button>
+          </div>
+
+          <div className="midi-bindings">
+            {state.bindings.length === 0 && (
+              <div className="midi-empty">No mappings yet. Press Learn, click a control, move a knob.</div>
+            )}
+            {state.bindings.map(binding => {
+              const control = engine.getControl(binding.controlId);
+              const isTrigger = control?.kind === 'trigger';
+              return (
+                <div key={binding.controlId} className="midi-binding">
+                  <div className="midi-binding-header">
+                    <span className="midi-binding-label">{control?.label ?? binding.controlId}</span>
+                    <span className="midi-binding-source">{describeMidiSource(binding.source)}</span>
+                    <button
+                      className="midi-icon-btn"
+                      title="Remove mapping"
+                      onClick={() => engine.removeBinding(binding.controlId)}
+                    >
+                      <X size={12} />
+                    </button>
+                  </div>
+                  {!isTrigger && (
+                    <div className="midi-binding-options">
+                      <label>
+                        Min
+                        <input
+                          type="number"
+                          min="0"
+                          max="100"
+                          value={percent(binding.rangeMin)}
+                          onChange={(e) => engine.updateBinding(binding.controlId, { rangeMin: Number(e.target.value) / 100 })}
+                        />
+                      </label>
+                      <label>
+                        Max
+                        <input
+                          type="number"
+                          min="0"
+                          max="100"
+                          value={percent(binding.rangeMax)}
+                          onChange={(e) => engine.updateBinding(binding.controlId, { rangeMax: Number(e.target.value) / 100 })}
+                        />
+                      </label>
+                      <label>
+                        <input
+                          type="checkbox"
+                          checked={binding.invert}
+                          onChange={(e) => engine.updateBinding(binding.controlId, { invert: e.target.checked })}
+                        />
+                        Invert
+                      </label>
+                      {binding.source.type === 'cc' && (
+                        <label>
+                          <input
+                            type="checkbox"
+                            checked={binding.encoding === 'relative'}
+                            onChange={(e) => engine.updateBinding(binding.controlId, {
+                              encoding: e.target.checked ? 'relative' : 'absolute'
+                            })}
+                          />
+                          Relative
+                        </label>
+                      )}
+                      {binding.encoding === 'absolute' && (
+                        <label>
+                          <input
+                            type="checkbox"
+                            checked={binding.softTakeover}
+                            onChange={(e) => engine.updateBinding(binding.controlId, { softTakeover: e.target.checked })}
+                          />
+                          Takeover
+                        </label>
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,122 @@
+import { useRef, useEffect, useCallback } from 'react';
+import { Zap } from 'lucide-react';
+import { generationQueue } from '../lib/generationQueue';
+import { useGenerationQueueStatus } from '../hooks/useGenerationQueue';
+import { ensureModelLoaded } from '../lib/modelLoading';
+import {
+  getCrossfadeGains,
+  getFrameMixWeights,
+  createMixConfig,
+  CrossfadeCurve,
+  CrossfadeMode,
+  MixSource
+} from '../lib/crossfade';
+import type { InitImage } from '../types/electron.d.ts';
+import './MasterOutput.css';
+
+const MASTER_RESOLUTION = 512;
+const MASTER_CHANNEL = 'master';
+
+interface MasterOutputProps {
+  frameA: InitImage | null;
+  frameB: InitImage | null;
+  sourceA: MixSource;
+  sourceB: MixSource;
+  // 0-100, as on the crossfader
+  position: number;
+  curve: CrossfadeCurve;
+  mode: CrossfadeMode;
+  backend: string;
+}
+
+const frameToCanvas = (frame: InitImage) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = frame.width;
+  canvas.height = frame.height;
+  canvas.getContext('2d')?.putImageData(
+    new ImageData(new Uint8ClampedArray(frame.data), frame.width, frame.height), 0, 0
+  );
+  return canvas;
+};
+
+export function MasterOutput({ frameA, frameB, sourceA, sourceB, position, curve, mode, backend }: MasterOutputProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const modeRef = useRef(mode);
+  modeRef.current = mode;
+  const queueStatus = useGenerationQueueStatus();
+  const isRendering = mode === 'ai' && queueStatus.running?.channel === MASTER_CHANNEL;
+
+  const drawFrame = useCallback((frame: InitImage) => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    ctx.drawImage(frameToCanvas(frame), 0, 0, canvas.width, canvas.height);
+  }, []);
+
+  // Output mode: additive mix of the two deck frames, weighted by the curve's
+  // gains normalised so the centre of the throw doesn't overexpose
+  useEffect(() => {
+    if (mode !== 'output') return;
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    const gains = getFrameMixWeights(getCrossfadeGains(position / 100, curve));
+    ctx.save();
+    ctx.globalCompositeOperation = 'source-over';
+    ctx.globalAlpha = 1;
+    ctx.fillStyle = '#000000';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.globalCompositeOperation = 'lighter';
+    for (const [frame, gain] of [[frameA, gains.a], [frameB, gains.b]] as const) {
+      if (!frame || gain <= 0) continue;
+      ctx.globalAlpha = gain;
+      ctx.drawImage(frameToCanvas(frame), 0, 0, canvas.width, canvas.height);
+    }
+    ctx.restore();
+  }, [mode, frameA, frameB, position, curve]);
+
+  // AI mix mode: render one frame between the decks' embeddings and noise.
+  // Moving the fader re-queues on the master channel; only the latest position runs.
+  useEffect(() => {
+    if (mode !== 'ai' || !backend) return;
+
+    const config = createMixConfig(sourceA, sourceB, position / 100);
+    if (!config) return;
+
+    ensureModelLoaded().then(() => generationQueue.enqueue({
+      ...config,
+      width: MASTER_RESOLUTION,
+      height: MASTER_RESOLUTION,
+      steps: 1
+    }, { channel: MASTER_CHANNEL, priority: 'live' })).then(result => {
+      if (modeRef.current !== 'ai' || !result.success || !result.imageData || result.metadata?.format !== 'rgba') return;
+      drawFrame({ data: result.imageData, width: result.metadata.width, height: result.metadata.height });
+    }, error => console.error('❌ AI mix could not load a model:', error));
+  }, [mode, backend, sourceA.prompt, sourceA.seed, sourceB.prompt, sourceB.seed, position, drawFrame]);
+
+  useEffect(() => {
+    if (mode !== 'ai') generationQueue.cancel(MASTER_CHANNEL);
+  }, [mode]);
+
+  useEffect(() => () => generationQueue.cancel(MASTER_CHANNEL), []);
+
+  return (
+    <div className="master-output">
+      <div className="master-label">Master · {mode === 'ai' ? 'AI mix' : 'Output'}</div>
+      <div className="master-canvas-container">
+        <canvas
+          ref={canvasRef}
+          width={MASTER_RESOLUTION}
+          height={MASTER_RESOLUTION}
+          className="master-canvas"
+        />
+        {isRendering && (
+          <div className="master-rendering">
+            <Zap size={16} />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
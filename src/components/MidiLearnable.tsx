@@ -0,0 +1,63 @@
+import React from 'react';
+import { useMidiControl } from '../lib/midi/MidiLearnContext';
+import { describeMidiSource } from '../lib/midi/mappingEngine';
+import './MidiLearnable.css';
+
+interface MidiLearnableProps {
+  id: string;
+  label: string;
+  // Continuous controls
+  min?: number;
+  max?: number;
+  step?: number;
+  value?: number;
+  onChange?: (value: number) => void;
+  // Trigger controls (buttons, pads)
+  onTrigger?: () => void;
+  children: React.ReactNode;
+}
+
+// Wraps an existing control so it can be MIDI-learned. Layout is untouched
+// (display: contents); in learn mode a click arms the control instead of
+// operating it.
+export function MidiLearnable({ id, label, min, max, step, value, onChange, onTrigger, children }: MidiLearnableProps) {
+  const { learning, isLearnTarget, binding, startLearn } = useMidiControl({
+    id,
+    label,
+    kind: onTrigger ? 'trigger' : 'continuous',
+    min,
+    max,
+    step,
+    getValue: value !== undefined ? () => value : undefined,
+    setValue: onChange,
+    trigger: onTrigger
+  });
+
+  const intercept = (e: React.SyntheticEvent) => {
+    if (!learning) return;
+    e.preventDefault();
+    e.stopPropagation();
+  };
+
+  const className = [
+    'midi-learnable',
+    learning && 'learning',
+    isLearnTarget && 'learn-target',
+    binding && 'bound'
+  ].filter(Boolean).join(' ');
+
+  return (
+    <span
+      className={className}
+      title={learning ? `${label}${binding ? ` (${describeMidiSource(binding.source)})` : ''} - click, then move a MIDI control` : undefined}
+      onMouseDownCapture={intercept}
+      onClickCapture={(e) => {
+        if (!learning) return;
+        intercept(e);
+        startLearn();
+      }}
+    >
+      {children}
+    </span>
+  );
+}
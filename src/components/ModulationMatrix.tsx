@@ -0,0 +1,171 @@
+import { X } from 'lucide-react';
+import { MidiLearnable } from './MidiLearnable';
+import { useModulation } from '../lib/modulation/ModulationContext';
+import { MODULATION_CURVES, createRoute } from '../lib/modulation/matrix';
+import type { ModulationCurve, ModulationDestination, ModulationPolarity, ModulationSourceInfo } from '../lib/modulation/types';
+import './ModulationMatrix.css';
+
+interface ModulationMatrixProps {
+  destinations: { id: ModulationDestination; label: string }[];
+}
+
+export function ModulationMatrix({ destinations }: ModulationMatrixProps) {
+  const { matrix, state, envelope, setEnvelope } = useModulation();
+
+  // Sources grouped for the select, groups in registration order
+  const groups = state.sources.reduce<{ name: string; sources: ModulationSourceInfo[] }[]>((result, source) => {
+    const group = result.find(candidate => candidate.name === source.group);
+    if (group) {
+      group.sources.push(source);
+    } else {
+      result.push({ name: source.group, sources: [source] });
+    }
+    return result;
+  }, []);
+
+  const handleAddRoute = () => {
+    const source = state.sources.find(candidate => candidate.group === 'LFO') ?? state.sources[0];
+    if (!source) return;
+    matrix.addRoute(createRoute(source.id, 'seed', { polarity: source.bipolar ? 'bipolar' : 'unipolar' }));
+  };
+
+  const handleSourceChange = (routeId: string, sourceId: string) => {
+    const source = state.sources.find(candidate => candidate.id === sourceId);
+    matrix.updateRoute(routeId, {
+      sourceId,
+      ...(source && { polarity: source.bipolar ? 'bipolar' : 'unipolar' })
+    });
+  };
+
+  const percent = (value: number) => Math.round(value * 100);
+
+  return (
+    <div className="section modulation-matrix">
+      <div className="matrix-header">
+        <h3>Modulation Matrix</h3>
+        <button className="matrix-add-btn" onClick={handleAddRoute} disabled={state.sources.length === 0}>
+          + Route
+        </button>
+      </div>
+
+      {state.routes.length === 0 && (
+        <div className="matrix-empty">
+          No routings. Add effects, start audio input or move a MIDI knob, then route it to a parameter.
+        </div>
+      )}
+
+      {state.routes.map(route => {
+        const isAvailable = state.sources.some(source => source.id === route.sourceId);
+        return (
+          <div key={route.id} className={`matrix-route ${route.enabled ? '' : 'disabled'}`}>
+            <div className="matrix-route-main">
+              <input
+                type="checkbox"
+                checked={route.enabled}
+                onChange={(e) => matrix.updateRoute(route.id, { enabled: e.target.checked })}
+                title="Enable routing"
+              />
+              <select value={route.sourceId} onChange={(e) => handleSourceChange(route.id, e.target.value)}>
+                {!isAvailable && <option value={route.sourceId}>{route.sourceId} (unavailable)</option>}
+                {groups.map(group => (
+                  <optgroup key={group.name} label={group.name}>
+                    {group.sources.map(source => (
+                      <option key={source.id} value={source.id}>{source.label}</option>
+                    ))}
+                  </optgroup>
+                ))}
+              </select>
+              <span className="matrix-arrow">→</span>
+              <select
+                value={route.destination}
+                onChange={(e) => matrix.updateRoute(route.id, { destination: e.target.value as ModulationDestination })}
+              >
+                {destinations.map(destination => (
+                  <option key={destination.id} value={destination.id}>{destination.label}</option>
+                ))}
+              </select>
+              <button className="matrix-remove-btn" onClick={() => matrix.removeRoute(route.id)} title="Remove routing">
+                <X size={12} />
+              </button>
+            </div>
+
+            <div className="matrix-route-options">
+              <label>
+                Depth {percent(route.depth)}%
+                <MidiLearnable
+                  id={`modulation.${route.id}.depth`}
+                  label="Routing depth"
+                  min={-100}
+                  max={100}
+                  step={1}
+                  value={percent(route.depth)}
+                  onChange={(depth) => matrix.updateRoute(route.id, { depth: depth / 100 })}
+                >
+                  <input
+                    type="range"
+                    min="-100"
+                    max="100"
+                    value={percent(route.depth)}
+                    onChange={(e) => matrix.updateRoute(route.id, { depth: Number(e.target.value) / 100 })}
+                  />
+                </MidiLearnable>
+              </label>
+              <label>
+                Offset {percent(route.offset)}%
+                <input
+                  type="range"
+                  min="-100"
+                  max="100"
+                  value={percent(route.offset)}
+                  onChange={(e) => matrix.updateRoute(route.id, { offset: Number(e.target.value) / 100 })}
+                />
+              </label>
+              <select
+                value={route.polarity}
+                onChange={(e) => matrix.updateRoute(route.id, { polarity: e.target.value as ModulationPolarity })}
+                title="Unipolar pushes one way; bipolar swings around the set value"
+              >
+                <option value="unipolar">Unipolar</option>
+                <option value="bipolar">Bipolar</option>
+              </select>
+              <select
+                value={route.curve}
+                onChange={(e) => matrix.updateRoute(route.id, { curve: e.target.value as ModulationCurve })}
+              >
+                {MODULATION_CURVES.map(curve => (
+                  <option key={curve.value} value={curve.value}>{curve.label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+        );
+      })}
+
+      <div className="matrix-envelope">
+        <span>Envelopes</span>
+        <label>
+          Attack
+          <input
+            type="number"
+            min="0"
+            max="2000"
+            value={envelope.attackMs}
+            onChange={(e) => setEnvelope({ ...envelope, attackMs: Math.max(0, Number(e.target.value)) })}
+          />
+          ms
+        </label>
+        <label>
+          Decay
+          <input
+            type="number"
+            min="1"
+            max="5000"
+            value={envelope.decayMs}
+            onChange={(e) => setEnvelope({ ...envelope, decayMs: Math.max(1, Number(e.target.value)) })}
+          />
+          ms
+        </label>
+      </div>
+    </div>
+  );
+}
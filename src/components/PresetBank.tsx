@@ -1,26 +1,32 @@
 import React, { useState, useCallback } from 'react';
-import { Save, Folder } from 'lucide-react';
+import { Save, Folder, Download, Upload, Trash2 } from 'lucide-react';
+import { MidiLearnable } from './MidiLearnable';
+import {
+  PRESET_BANK_COUNT,
+  PRESETS_PER_BANK,
+  loadPresets,
+  savePresets
+} from '../lib/presets/storage';
+import { PRESET_BANK_FILE_EXTENSION, parsePresetBank, serializePresetBank } from '../lib/presets/format';
+import type { Preset, PresetSlots, PresetState } from '../lib/presets/types';
 import './PresetBank.css';
 
-interface Preset {
-  id: string;
-  name: string;
-  prompt: string;
-  seed: number;
-  speedFader: number;
-  seedJitter: number;
-}
-
 interface PresetBankProps {
-  onPresetLoad: (preset: Partial<Preset>) => void;
+  // localStorage key for this bank set
+  storageKey: string;
+  // Current state, saved on shift-click
+  onCapture: () => PresetState;
+  onPresetLoad: (state: PresetState) => void;
+  // Last generated frame as a data URL
+  getThumbnail?: () => string | null;
 }
 
-export function PresetBank({ onPresetLoad }: PresetBankProps) {
-  const [presets, setPresets] = useState<(Preset | null)[]>(
-    Array(64).fill(null)
-  );
+export function PresetBank({ storageKey, onCapture, onPresetLoad, getThumbnail }: PresetBankProps) {
+  const [presets, setPresets] = useState<PresetSlots>(() => loadPresets(storageKey));
   const [selectedBank, setSelectedBank] = useState(0);
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
   const [isShiftPressed, setIsShiftPressed] = useState(false);
+  const [error, setError] = useState<string | null>(null);
 
   React.useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -39,41 +45,77 @@ export function PresetBank({ onPresetLoad }: PresetBankProps) {
     };
   }, []);
 
+  // Every change is written straight back
+  React.useEffect(() => {
+    setError(savePresets(storageKey, presets) ? null : 'Storage is full - export banks and clear some pads');
+  }, [storageKey, presets]);
+
   const handlePresetClick = useCallback((index: number) => {
     const preset = presets[index];
-    
+
     if (isShiftPressed) {
-      // Save current state to preset
+      // Save current state to preset, keeping the pad's name
       const newPreset: Preset = {
-        id: `preset-${index}`,
-        name: `Preset ${index + 1}`,
-        prompt: 'Current prompt...', // Would get from active deck
-        seed: Math.floor(Math.random() * 1000000),
-        speedFader: 50,
-        seedJitter: 0
+        name: preset?.name ?? `Preset ${index + 1}`,
+        state: onCapture(),
+        thumbnail: getThumbnail?.() ?? null,
+        savedAt: new Date().toISOString()
       };
-      
-      const newPresets = [...presets];
-      newPresets[index] = newPreset;
-      setPresets(newPresets);
-      
-      // Save to localStorage
-      localStorage.setItem('sdxl-dj-presets', JSON.stringify(newPresets));
+      setPresets(prev => prev.map((existing, i) => (i === index ? newPreset : existing)));
+      setSelectedIndex(index);
     } else if (preset) {
       // Load preset
-      onPresetLoad(preset);
+      onPresetLoad(preset.state);
+      setSelectedIndex(index);
     }
-  }, [presets, isShiftPressed, onPresetLoad]);
+  }, [presets, isShiftPressed, onCapture, onPresetLoad, getThumbnail]);
 
-  const startIndex = selectedBank * 64;
-  const bankPresets = presets.slice(startIndex, startIndex + 64);
+  const handleRename = (name: string) => {
+    if (selectedIndex === null) return;
+    setPresets(prev => prev.map((preset, i) => (i === selectedIndex && preset ? { ...preset, name } : preset)));
+  };
+
+  const handleDelete = () => {
+    if (selectedIndex === null) return;
+    setPresets(prev => prev.map((preset, i) => (i === selectedIndex ? null : preset)));
+    setSelectedIndex(null);
+  };
+
+  const startIndex = selectedBank * PRESETS_PER_BANK;
+  const bankPresets = presets.slice(startIndex, startIndex + PRESETS_PER_BANK);
+  const selectedPreset = selectedIndex === null ? null : presets[selectedIndex];
+
+  const handleExport = () => {
+    const blob = new Blob([serializePresetBank(bankPresets)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `bank-${selectedBank + 1}${PRESET_BANK_FILE_EXTENSION}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // Replaces the selected bank
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parsePresetBank(await file.text());
+      setPresets(prev => prev.map((preset, i) =>
+        (i >= startIndex && i < startIndex + PRESETS_PER_BANK ? imported[i - startIndex] : preset)));
+      setSelectedIndex(null);
+    } catch (importError) {
+      setError(importError instanceof Error ? importError.message : String(importError));
+    }
+  };
 
   return (
     <div className="preset-bank">
       <div className="preset-bank-header">
         <h3>Preset Bank</h3>
         <div className="bank-selector">
-          {[0, 1, 2, 3].map(bank => (
+          {Array.from({ length: PRESET_BANK_COUNT }, (_, bank) => (
             <button
               key={bank}
               className={`bank-btn ${selectedBank === bank ? 'active' : ''}`}
@@ -83,6 +125,15 @@ export function PresetBank({ onPresetLoad }: PresetBankProps) {
             </button>
           ))}
         </div>
+        <div className="bank-files">
+          <button className="bank-file-btn" onClick={handleExport} title="Export this bank">
+            <Download size={14} />
+          </button>
+          <label className="bank-file-btn" title="Import into this bank">
+            <Upload size={14} />
+            <input type="file" accept=".json,application/json" onChange={handleImport} hidden />
+          </label>
+        </div>
         <div className="preset-hint">
           {isShiftPressed ? (
             <>
@@ -95,22 +146,48 @@ export function PresetBank({ onPresetLoad }: PresetBankProps) {
           )}
         </div>
       </div>
-      
+
       <div className="preset-grid">
         {bankPresets.map((preset, index) => (
-          <button
+          // Pads map by position, so one controller row works on every bank
+          <MidiLearnable
             key={index}
-            className={`preset-pad ${preset ? 'filled' : ''} ${isShiftPressed ? 'save-mode' : ''}`}
-            onClick={() => handlePresetClick(startIndex + index)}
+            id={`preset.pad.${index}`}
+            label={`Preset pad ${index + 1}`}
+            onTrigger={() => handlePresetClick(startIndex + index)}
           >
-            {preset ? (
-              <span className="preset-number">{startIndex + index + 1}</span>
-            ) : (
-              <span className="preset-empty">-</span>
-            )}
-          </button>
+            <button
+              className={`preset-pad ${preset ? 'filled' : ''} ${isShiftPressed ? 'save-mode' : ''} ${preset?.thumbnail ? 'has-thumbnail' : ''} ${selectedIndex === startIndex + index ? 'selected' : ''}`}
+              onClick={() => handlePresetClick(startIndex + index)}
+              title={preset?.name}
+              style={preset?.thumbnail ? { backgroundImage: `url(${preset.thumbnail})` } : undefined}
+            >
+              {preset ? (
+                <span className="preset-number">{startIndex + index + 1}</span>
+              ) : (
+                <span className="preset-empty">-</span>
+              )}
+            </button>
+          </MidiLearnable>
         ))}
       </div>
+
+      {selectedPreset && (
+        <div className="preset-details">
+          <span className="preset-number">{(selectedIndex ?? 0) + 1}</span>
+          <input
+            type="text"
+            className="preset-name"
+            value={selectedPreset.name}
+            onChange={(e) => handleRename(e.target.value)}
+          />
+          <span className="preset-date">{new Date(selectedPreset.savedAt).toLocaleString()}</span>
+          <button className="bank-file-btn" onClick={handleDelete} title="Clear pad">
+            <Trash2 size={14} />
+          </button>
+        </div>
+      )}
+      {error && <div className="preset-error">{error}</div>}
     </div>
   );
-}
\ No newline at end of file
+}
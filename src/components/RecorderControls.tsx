@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { Circle, Trash2 } from 'lucide-react';
+import type { FrameRecorder, RecorderState } from '../lib/recorder/recorder';
+import { exportRecording, RECORDING_FILE_EXTENSIONS } from '../lib/recorder/export';
+import type { RecordingExportFormat } from '../lib/recorder/types';
+import './RecorderControls.css';
+
+interface RecorderControlsProps {
+  recorder: FrameRecorder;
+  state: RecorderState;
+}
+
+const EXPORT_FORMATS: { id: RecordingExportFormat; label: string }[] = [
+  { id: 'png', label: 'PNG sequence (.zip)' },
+  { id: 'gif', label: 'Animated GIF' },
+  { id: 'webp', label: 'Animated WebP' },
+  { id: 'webm', label: 'WebM video' }
+];
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+export function RecorderControls({ recorder, state }: RecorderControlsProps) {
+  const [exporting, setExporting] = useState<{ format: RecordingExportFormat; done: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async (format: RecordingExportFormat) => {
+    setError(null);
+    setExporting({ format, done: 0, total: state.frameCount });
+    try {
+      const frames = await recorder.getFrames();
+      const blob = await exportRecording(format, frames, {
+        onProgress: (done, total) => setExporting({ format, done, total })
+      });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `recording-${new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-')}${RECORDING_FILE_EXTENSIONS[format]}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (exportError) {
+      setError(exportError instanceof Error ? exportError.message : String(exportError));
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const hasFrames = state.frameCount > 0;
+
+  return (
+    <div className="recorder-controls">
+      <button
+        className={`control-btn recorder-rec ${state.isRecording ? 'recording' : ''}`}
+        onClick={() => (state.isRecording ? recorder.stop() : recorder.start())}
+        title={state.isRecording ? 'Pause recording' : 'Record generated frames'}
+      >
+        <Circle size={24} />
+      </button>
+      <div className="recorder-info">
+        <span>{state.frameCount} frames · {formatDuration(state.durationMs)}</span>
+        <span className="recorder-size">
+          {(state.bytes / (1024 * 1024)).toFixed(1)} MB{state.limitReached ? ' · limit reached' : ''}
+        </span>
+      </div>
+      {exporting ? (
+        <span className="recorder-progress">
+          Exporting {exporting.format.toUpperCase()} {exporting.done}/{exporting.total}
+        </span>
+      ) : (
+        <select
+          className="recorder-export"
+          value=""
+          disabled={!hasFrames}
+          onChange={(e: React.ChangeEvent<HTMLSelectElement>) => handleExport(e.target.value as RecordingExportFormat)}
+          title="Export recording"
+        >
+          <option value="" disabled>Export…</option>
+          {EXPORT_FORMATS.map(format => (
+            <option key={format.id} value={format.id}>{format.label}</option>
+          ))}
+        </select>
+      )}
+      <button
+        className="control-btn"
+        onClick={recorder.clear}
+        disabled={!hasFrames || exporting !== null}
+        title="Discard recording"
+      >
+        <Trash2 size={24} />
+      </button>
+      {error && <div className="recorder-error">{error}</div>}
+    </div>
+  );
+}
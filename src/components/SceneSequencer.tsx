@@ -0,0 +1,190 @@
+import { useState, useEffect } from 'react';
+import { ChevronUp, ChevronDown, Camera, RefreshCw, X } from 'lucide-react';
+import { MidiLearnable } from './MidiLearnable';
+import {
+  BEATS_PER_BAR,
+  SCENE_TRANSITIONS,
+  SceneSequencer as SceneSequencerEngine,
+  SequencerState,
+  formatArrangement,
+  getSceneLetter,
+  getSteps,
+  parseArrangement
+} from '../lib/sequencer/engine';
+import type { Scene, SceneTransitionType } from '../lib/sequencer/types';
+import './SceneSequencer.css';
+
+interface SceneSequencerProps {
+  sequencer: SceneSequencerEngine;
+  state: SequencerState;
+  beatInScene: number;
+  // Adds the current workspace as a new scene
+  onCapture: () => void;
+  // Overwrites a scene with the current workspace
+  onUpdate: (sceneId: string) => void;
+  // Applies a scene to the workspace when the sequence isn't running
+  onRecall: (scene: Scene) => void;
+}
+
+export function SceneSequencer({ sequencer, state, beatInScene, onCapture, onUpdate, onRecall }: SceneSequencerProps) {
+  const { sequence, enabled, stepIndex } = state;
+  const steps = getSteps(sequence);
+  const currentScene = stepIndex === null ? undefined : steps[stepIndex];
+  const [arrangementText, setArrangementText] = useState(formatArrangement(sequence));
+  const [arrangementError, setArrangementError] = useState<string | null>(null);
+
+  // Letters follow scene order, so the field is rewritten when scenes move
+  useEffect(() => {
+    setArrangementText(formatArrangement(sequence));
+  }, [sequence]);
+
+  const commitArrangement = () => {
+    const { ids, unknown } = parseArrangement(arrangementText, sequence.scenes);
+    setArrangementError(unknown.length > 0 ? `Unknown scenes: ${unknown.join(', ')}` : null);
+    sequencer.setArrangement(ids);
+  };
+
+  const handleCue = (scene: Scene) => {
+    if (sequencer.isRunning()) {
+      // First step after the current one that plays this scene, wrapping around
+      const from = stepIndex ?? -1;
+      const order = steps.map((_, i) => (from + 1 + i) % steps.length);
+      const target = order.find(i => steps[i].id === scene.id);
+      if (target !== undefined) sequencer.jumpTo(target);
+    } else {
+      onRecall(scene);
+    }
+  };
+
+  const transitionBeats = currentScene?.transition.type === 'cut' ? 0 : currentScene?.transition.beats ?? 0;
+  const transitionProgress = transitionBeats > 0 ? Math.min(1, beatInScene / transitionBeats) : 1;
+
+  return (
+    <div className="section scene-sequencer">
+      <div className="sequencer-header">
+        <h3>Scenes</h3>
+        <button className="sequencer-add-btn" onClick={onCapture} title="Capture the current prompts, seed, effects and resolution">
+          <Camera size={14} />
+          Capture
+        </button>
+      </div>
+
+      <div className="sequencer-options">
+        <label>
+          <input type="checkbox" checked={enabled} onChange={(e) => sequencer.setEnabled(e.target.checked)} />
+          Run on Play
+        </label>
+        <label>
+          <input type="checkbox" checked={sequence.loop} onChange={(e) => sequencer.setLoop(e.target.checked)} />
+          Loop
+        </label>
+      </div>
+
+      {currentScene && stepIndex !== null && (
+        <div className="sequencer-now">
+          <span>
+            {stepIndex + 1}/{steps.length} · {currentScene.name}
+          </span>
+          <span className="sequencer-position">
+            {Math.floor(beatInScene / BEATS_PER_BAR) + 1}.{Math.floor(beatInScene % BEATS_PER_BAR) + 1} / {currentScene.bars}
+          </span>
+          {transitionProgress < 1 && (
+            <div className="sequencer-transition">
+              <div className="sequencer-transition-fill" style={{ width: `${transitionProgress * 100}%` }} />
+            </div>
+          )}
+        </div>
+      )}
+
+      {sequence.scenes.length === 0 && (
+        <div className="sequencer-empty">Set up prompts, seed and effects, then capture them as a scene.</div>
+      )}
+
+      {sequence.scenes.map((scene, index) => (
+        <div key={scene.id} className={`scene-row ${currentScene?.id === scene.id ? 'playing' : ''}`}>
+          <div className="scene-main">
+            <MidiLearnable id={`sequencer.scene.${scene.id}.cue`} label={`Cue ${scene.name}`} onTrigger={() => handleCue(scene)}>
+              <button className="scene-letter" onClick={() => handleCue(scene)} title="Cue scene">
+                {getSceneLetter(index)}
+              </button>
+            </MidiLearnable>
+            <input
+              type="text"
+              className="scene-name"
+              value={scene.name}
+              onChange={(e) => sequencer.updateScene(scene.id, { name: e.target.value })}
+            />
+            <button className="scene-icon-btn" onClick={() => sequencer.moveScene(scene.id, -1)} disabled={index === 0} title="Move up">
+              <ChevronUp size={12} />
+            </button>
+            <button
+              className="scene-icon-btn"
+              onClick={() => sequencer.moveScene(scene.id, 1)}
+              disabled={index === sequence.scenes.length - 1}
+              title="Move down"
+            >
+              <ChevronDown size={12} />
+            </button>
+            <button className="scene-icon-btn" onClick={() => onUpdate(scene.id)} title="Update from the workspace">
+              <RefreshCw size={12} />
+            </button>
+            <button className="scene-icon-btn" onClick={() => sequencer.removeScene(scene.id)} title="Delete scene">
+              <X size={12} />
+            </button>
+          </div>
+          <div className="scene-options">
+            <label>
+              Bars
+              <input
+                type="number"
+                min="1"
+                max="128"
+                value={scene.bars}
+                onChange={(e) => sequencer.updateScene(scene.id, { bars: Math.max(1, Number(e.target.value) || 1) })}
+              />
+            </label>
+            <select
+              value={scene.transition.type}
+              onChange={(e) => sequencer.updateScene(scene.id, {
+                transition: { ...scene.transition, type: e.target.value as SceneTransitionType }
+              })}
+              title="How this scene is entered"
+            >
+              {SCENE_TRANSITIONS.map(transition => (
+                <option key={transition.type} value={transition.type}>{transition.label}</option>
+              ))}
+            </select>
+            <label>
+              Beats
+              <input
+                type="number"
+                min="1"
+                max="64"
+                value={scene.transition.beats}
+                disabled={scene.transition.type === 'cut'}
+                onChange={(e) => sequencer.updateScene(scene.id, {
+                  transition: { ...scene.transition, beats: Math.max(1, Number(e.target.value) || 1) }
+                })}
+              />
+            </label>
+          </div>
+        </div>
+      ))}
+
+      {sequence.scenes.length > 0 && (
+        <div className="sequencer-arrangement">
+          <label>Arrangement:</label>
+          <input
+            type="text"
+            value={arrangementText}
+            placeholder="All scenes in order (e.g. A A B A C)"
+            onChange={(e) => setArrangementText(e.target.value)}
+            onBlur={commitArrangement}
+            onKeyDown={(e) => e.key === 'Enter' && commitArrangement()}
+          />
+        </div>
+      )}
+      {arrangementError && <div className="sequencer-error">{arrangementError}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+import { FolderOpen, Save } from 'lucide-react';
+import type { SessionRecovery } from '../hooks/useSession';
+import './SessionControls.css';
+
+interface SessionControlsProps {
+  filePath: string | null;
+  recovery: SessionRecovery | null;
+  error: string | null;
+  onOpen: () => void;
+  onSave: (saveAs?: boolean) => void;
+  onRestoreRecovery: () => void;
+  onDismissRecovery: () => void;
+}
+
+const getFileName = (filePath: string) => filePath.split(/[\\/]/).pop() ?? filePath;
+
+export function SessionControls({
+  filePath,
+  recovery,
+  error,
+  onOpen,
+  onSave,
+  onRestoreRecovery,
+  onDismissRecovery
+}: SessionControlsProps) {
+  return (
+    <div className="session-controls">
+      <div className="session-buttons">
+        <button className="session-btn" onClick={onOpen} title="Open session">
+          <FolderOpen size={16} />
+        </button>
+        <button className="session-btn" onClick={() => onSave()} title="Save session">
+          <Save size={16} />
+        </button>
+        <button className="session-btn" onClick={() => onSave(true)} title="Save session as">
+          Save As
+        </button>
+        <span className="session-name" title={filePath ?? undefined}>
+          {filePath ? getFileName(filePath) : 'Unsaved session'}
+        </span>
+      </div>
+      {recovery && (
+        <div className="session-recovery">
+          <span>The last session didn't close cleanly. Restore the autosave from {new Date(recovery.savedAt).toLocaleString()}?</span>
+          <button className="session-btn" onClick={onRestoreRecovery}>Restore</button>
+          <button className="session-btn" onClick={onDismissRecovery}>Dismiss</button>
+        </div>
+      )}
+      {error && !recovery && <div className="session-error">{error}</div>}
+    </div>
+  );
+}
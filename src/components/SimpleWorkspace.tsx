@@ -1,7 +1,34 @@
 import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
-import { Play, Pause, Square, RotateCcw } from 'lucide-react';
-import { EffectsPanel } from './EffectsPanel';
+import { Play, Pause, Square, RotateCcw, X } from 'lucide-react';
+import { AudioInputPanel } from './AudioInputPanel';
+import { AutomationPanel } from './AutomationPanel';
+import { PresetBank } from './PresetBank';
+import { RecorderControls } from './RecorderControls';
+import { SessionControls } from './SessionControls';
+import { SceneSequencer } from './SceneSequencer';
+import { EffectsPanel, createEffect } from './EffectsPanel';
+import { ModulationMatrix } from './ModulationMatrix';
+import { MIDIController } from './MIDIController';
+import { MidiLearnable } from './MidiLearnable';
 import { SystemMonitor } from './SystemMonitor';
+import type { GenerationPreview, InitImage, ModelManifest, PromptBlendMode, WeightedPrompt } from '../types/electron.d.ts';
+import { generationQueue, GenerationPriority } from '../lib/generationQueue';
+import { useGenerationQueueStatus } from '../hooks/useGenerationQueue';
+import { useTempoSync } from '../hooks/useTempoSync';
+import { useAutomation, AutomatedParameter } from '../hooks/useAutomation';
+import { useSceneSequencer } from '../hooks/useSceneSequencer';
+import { useSession } from '../hooks/useSession';
+import { useFrameRecorder } from '../hooks/useFrameRecorder';
+import { useMidi } from '../lib/midi/MidiLearnContext';
+import { useModulation } from '../lib/modulation/ModulationContext';
+import { createRoute, getModulationDestinations, modulateValue, promptWeightDestination } from '../lib/modulation/matrix';
+import type { ModulationAmounts } from '../lib/modulation/types';
+import { createScene, morphPrompts, SequencerFrame } from '../lib/sequencer/engine';
+import type { Scene } from '../lib/sequencer/types';
+import { DECK_PRESETS_KEY, WORKSPACE_PRESETS_KEY, loadPresets, savePresets } from '../lib/presets/storage';
+import { createFrameThumbnail } from '../lib/presets/thumbnail';
+import type { PresetState } from '../lib/presets/types';
+import type { SessionData } from '../lib/session/types';
 import './SimpleWorkspace.css';
 
 interface Prompt {
@@ -19,8 +46,6 @@ interface Effect {
   enabled: boolean;
   intensity: number;
   speed: number;
-  target: 'seed' | 'prompt_weights' | 'selected_prompts';
-  targetPrompts: number[];
   params: Record<string, any>;
 }
 
@@ -55,19 +80,58 @@ const STEPS_OPTIONS = [
   { value: 7, label: "7 Steps", description: "Ultra Slow - Maximum quality", performance: "🐌🐌🐌" },
 ];
 
+type SeedMode = 'jump' | 'travel';
+type ImageToImageMode = 'off' | 'feedback' | 'image';
+
+// Number of consecutive seeds a seed-targeting effect travels across
+const SEED_TRAVEL_SPAN = 4;
+
+const getTravelSeeds = (baseSeed: number) =>
+  Array.from({ length: SEED_TRAVEL_SPAN }, (_, i) => baseSeed + i);
+
+// Matrix output worth a new frame
+const MODULATION_THRESHOLD = 0.01;
+
+const hasModulationChanged = (previous: ModulationAmounts, next: ModulationAmounts) =>
+  (Object.keys({ ...previous, ...next }) as (keyof ModulationAmounts)[]).some(destination =>
+    Math.abs((next[destination] ?? 0) - (previous[destination] ?? 0)) > MODULATION_THRESHOLD);
+
 export function SimpleWorkspace({ backend }: { backend: string }) {
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentSeed, setCurrentSeed] = useState(42);
   const [baseSeed, setBaseSeed] = useState(42);
+  const [seedMode, setSeedMode] = useState<SeedMode>('travel');
+  const [seedPosition, setSeedPosition] = useState(0);
   const [generatedImage, setGeneratedImage] = useState<string | null>(null);
-  const [isGenerating, setIsGenerating] = useState(false);
+  const queueStatus = useGenerationQueueStatus();
+  const isGenerating = queueStatus.running !== null;
+  const [previewProgress, setPreviewProgress] = useState<{ step: number; totalSteps: number } | null>(null);
   const [generationStatus, setGenerationStatus] = useState<string>('');
   const [lastGenerationTime, setLastGenerationTime] = useState(0);
   const debounceTimeoutRef = useRef<number>();
   
+  // Model registry
+  const [models, setModels] = useState<ModelManifest[]>([]);
+  const [selectedModelId, setSelectedModelId] = useState<string | null>(null);
+  const [isSwitchingModel, setIsSwitchingModel] = useState(false);
+  
   // Generation settings
   const [selectedResolution, setSelectedResolution] = useState<ResolutionOption>(RESOLUTION_OPTIONS[0]);
   const [steps, setSteps] = useState(1);
+  const [negativePrompt, setNegativePrompt] = useState('blurry, low quality, distorted');
+  const [cfgScale, setCfgScale] = useState(1);
+  const [promptBlend, setPromptBlend] = useState<PromptBlendMode>('slerp');
+  
+  // Image-to-image: feed back the previous frame or a loaded image
+  const [imageToImageMode, setImageToImageMode] = useState<ImageToImageMode>('off');
+  const [strength, setStrength] = useState(0.6);
+  const [loadedImageName, setLoadedImageName] = useState<string | null>(null);
+  const lastFrameRef = useRef<InitImage | null>(null);
+  const loadedImageRef = useRef<InitImage | null>(null);
+  // Matrix output from the animation loop, applied when the next frame is queued
+  const modulationRef = useRef<ModulationAmounts>({});
+  // Scene sequencer position from the animation loop, for transitions in progress
+  const sceneFrameRef = useRef<SequencerFrame | null>(null);
   
   // Prompts system
   const [prompts, setPrompts] = useState<Prompt[]>([
@@ -82,10 +146,59 @@ export function SimpleWorkspace({ backend }: { backend: string }) {
   const [bpm, setBpm] = useState(120);
   const [beatSync, setBeatSync] = useState(false);
   const [lfoValues, setLfoValues] = useState<Record<string, number>>({});
+  const { matrix: modulationMatrix, audio, envelope, setEnvelope } = useModulation();
+  const midi = useMidi();
+  // Bumped when a session replaces the stored presets, so the bank reloads them
+  const [presetRevision, setPresetRevision] = useState(0);
+  const modulationDestinations = getModulationDestinations(prompts.map(p => p.id));
 
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const animationRef = useRef<number>();
   const startTimeRef = useRef<number>(Date.now());
+  // Effects phase at the last pause, and whether the next play picks it up
+  const pausedPhaseRef = useRef(0);
+  const resumeTransportRef = useRef(false);
+
+  // MIDI clock start realigns the effects phase and automation with the clock
+  // source's downbeat (starting play if paused); continue and stop follow the
+  // clock source's transport
+  const tempo = useTempoSync({
+    bpm,
+    onBpmChange: setBpm,
+    onClockStart: () => {
+      if (!isPlaying) {
+        startPlayback();
+        return;
+      }
+      startTimeRef.current = Date.now();
+      if (automation.engine.isRunning()) automation.engine.start();
+      if (scenes.sequencer.isRunning()) scenes.sequencer.start();
+    },
+    onClockContinue: () => {
+      if (!isPlaying) startPlayback(true);
+    },
+    onClockStop: () => {
+      if (isPlaying) setIsPlaying(false);
+    },
+    isPlaying
+  });
+
+  // Scenes are applied whole as they start; morphs and seed travel then
+  // blend from the previous scene in generateImage
+  const applyScene = useCallback((scene: Pick<Scene, 'prompts' | 'seed' | 'effects' | 'resolution'>) => {
+    setPrompts(scene.prompts.map(prompt => ({ ...prompt })));
+    setBaseSeed(scene.seed);
+    setCurrentSeed(scene.seed);
+    setEffects(prev => prev.map(effect => {
+      const sceneEffect = scene.effects.find(candidate => candidate.id === effect.id);
+      return sceneEffect ? { ...effect, ...sceneEffect } : { ...effect, enabled: false };
+    }));
+    const resolution = RESOLUTION_OPTIONS.find(option => option.name === scene.resolution);
+    if (resolution) setSelectedResolution(resolution);
+  }, []);
+
+  const scenes = useSceneSequencer({ isPlaying, resume: resumeTransportRef.current, bpm, onSceneStart: applyScene });
+  const recording = useFrameRecorder();
 
   // Calculate effect values
   const calculateEffectValue = useCallback((effect: Effect, time: number): number => {
@@ -122,23 +235,52 @@ export function SimpleWorkspace({ backend }: { backend: string }) {
     return baseValue * (effect.intensity / 100);
   }, [bpm, beatSync]);
 
-  // Generate combined prompt
+  // Active prompts with their (modulated) weights; blending happens on the text embeddings
+  const getWeightedPrompts = useCallback((): WeightedPrompt[] => {
+    const frame = sceneFrameRef.current;
+    if (frame?.previousScene && frame.scene.transition.type === 'morph' && frame.transitionProgress < 1) {
+      return morphPrompts(frame.previousScene.prompts, frame.scene.prompts, frame.transitionProgress)
+        .map(p => ({
+          text: p.text,
+          weight: modulateValue(promptWeightDestination(p.id), p.weight, modulationRef.current)
+        }));
+    }
+    return prompts
+      .filter(p => p.active && p.text.trim())
+      .map(p => ({
+        text: p.text.trim(),
+        weight: modulateValue(promptWeightDestination(p.id), p.weight, modulationRef.current)
+      }));
+  }, [prompts]);
+
+  // Each enabled effect is an LFO source in the modulation matrix
+  useEffect(() => {
+    const unregister = effects
+      .filter(effect => effect.enabled)
+      .map(effect => modulationMatrix.registerSource(
+        { id: `lfo.${effect.id}`, label: effect.name, group: 'LFO', bipolar: true },
+        () => calculateEffectValue(effect, Date.now() - startTimeRef.current)
+      ));
+    return () => unregister.forEach(fn => fn());
+  }, [effects, calculateEffectValue, modulationMatrix]);
+
+  // Human readable summary of the prompt mix for logs and overlays
   const getCombinedPrompt = useCallback((): string => {
-    const activePrompts = prompts.filter(p => p.active && p.text.trim());
-    if (activePrompts.length === 0) return '';
+    const weightedPrompts = getWeightedPrompts();
+    if (weightedPrompts.length === 0) return '';
     
-    const totalWeight = activePrompts.reduce((sum, p) => sum + p.weight, 0);
+    const totalWeight = weightedPrompts.reduce((sum, p) => sum + p.weight, 0) || 1;
     
-    return activePrompts
-      .map(p => {
-        const normalizedWeight = (p.weight / totalWeight) * 100;
-        return `(${p.text}:${(normalizedWeight / 100).toFixed(2)})`;
-      })
-      .join(' ');
-  }, [prompts]);
+    return weightedPrompts
+      .map(p => weightedPrompts.length > 1
+        ? `${p.text} (${Math.round((p.weight / totalWeight) * 100)}%)`
+        : p.text)
+      .join(' + ');
+  }, [getWeightedPrompts]);
 
   // Real image generation using SDXL model
-  const generateImage = useCallback(async () => {
+  // Live frames from the animation loop supersede each other; manual triggers win over them
+  const generateImage = useCallback(async (priority: GenerationPriority = 'live') => {
     if (!canvasRef.current) return;
     
     const combinedPrompt = getCombinedPrompt();
@@ -153,7 +295,6 @@ export function SimpleWorkspace({ backend }: { backend: string }) {
     canvas.height = selectedResolution.height;
 
     try {
-      setIsGenerating(true);
       setGenerationStatus('Starting generation...');
       
       // Check if we're in Electron environment
@@ -172,16 +313,42 @@ export function SimpleWorkspace({ backend }: { backend: string }) {
           setGenerationStatus('Generating image...');
         }
 
-        // Call Electron's image generation
-        const result = await window.electronAPI.generateImage({
+        // A seed travel transition glides from the previous scene's seed
+        const frame = sceneFrameRef.current;
+        const sceneSeedTravel = frame?.previousScene && frame.scene.transition.type === 'seed-travel' && frame.transitionProgress < 1
+          ? { seeds: [frame.previousScene.seed, frame.scene.seed], position: frame.transitionProgress }
+          : undefined;
+
+        const initImage = imageToImageMode === 'feedback'
+          ? lastFrameRef.current
+          : imageToImageMode === 'image'
+            ? loadedImageRef.current
+            : null;
+
+        const config = {
           prompt: combinedPrompt,
+          prompts: getWeightedPrompts(),
+          prompt_blend: promptBlend,
           width: selectedResolution.width,
           height: selectedResolution.height,
-          steps: steps,
+          steps: modulateValue('steps', steps, modulationRef.current),
           seed: currentSeed,
-          cfg_scale: 7.5,
-          negative_prompt: "blurry, low quality, distorted"
-        });
+          seed_travel: sceneSeedTravel ?? (seedMode === 'travel'
+            ? { seeds: getTravelSeeds(baseSeed), position: seedPosition }
+            : undefined),
+          cfg_scale: modulateValue('cfg', cfgScale, modulationRef.current),
+          negative_prompt: negativePrompt,
+          init_image: initImage || undefined,
+          strength: initImage ? modulateValue('strength', strength, modulationRef.current) : undefined
+        };
+
+        // Queue the request; a newer frame may replace it before it runs
+        const result = await generationQueue.enqueue(config, { channel: 'workspace', priority });
+
+        if (result.dropped || result.cancelled) {
+          console.log(`⏭️ Generation ${result.dropped ? 'dropped' : 'cancelled'}`);
+          return;
+        }
 
         if (result.success && result.imageData && result.metadata) {
           // Handle RGBA data directly
@@ -199,6 +366,24 @@ export function SimpleWorkspace({ backend }: { backend: string }) {
             // Convert ArrayBuffer to Uint8ClampedArray for ImageData
             const uint8Array = new Uint8ClampedArray(result.imageData);
             
+            // Keep the frame for feedback mode
+            lastFrameRef.current = {
+              data: result.imageData,
+              width: result.metadata.width,
+              height: result.metadata.height
+            };
+
+            recording.recorder.addFrame(lastFrameRef.current, {
+              prompt: combinedPrompt,
+              negativePrompt: config.negative_prompt,
+              seed: config.seed,
+              steps: config.steps,
+              cfgScale: config.cfg_scale,
+              width: result.metadata.width,
+              height: result.metadata.height,
+              modelId: selectedModelId
+            });
+            
             // Debug: Check first few pixels to understand the data
             console.log('🔍 First 16 bytes (4 pixels RGBA):', Array.from(uint8Array.slice(0, 16)));
             
@@ -316,11 +501,62 @@ export function SimpleWorkspace({ backend }: { backend: string }) {
       setGenerationStatus('Error: ' + error.message);
       drawFallbackImage(ctx, `Error: ${error.message}`);
     } finally {
-      setIsGenerating(false);
       // Clear status after a short delay
       setTimeout(() => setGenerationStatus(''), 2000);
     }
-  }, [currentSeed, getCombinedPrompt, prompts, selectedResolution, steps]);
+  }, [currentSeed, baseSeed, seedMode, seedPosition, getCombinedPrompt, getWeightedPrompts, promptBlend, selectedResolution, steps, cfgScale, negativePrompt, imageToImageMode, strength, recording.recorder, selectedModelId]);
+
+  // Step previews arrive at latent resolution; scale them up to fill the canvas
+  const drawPreview = useCallback((preview: GenerationPreview) => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    const previewCanvas = document.createElement('canvas');
+    previewCanvas.width = preview.width;
+    previewCanvas.height = preview.height;
+    const previewCtx = previewCanvas.getContext('2d');
+    if (!previewCtx) return;
+
+    previewCtx.putImageData(
+      new ImageData(new Uint8ClampedArray(preview.imageData), preview.width, preview.height),
+      0,
+      0
+    );
+    ctx.imageSmoothingEnabled = true;
+    ctx.drawImage(previewCanvas, 0, 0, canvas.width, canvas.height);
+  }, []);
+
+  // Show intermediate steps of the workspace request that is currently running
+  useEffect(() => {
+    if (!window.electronAPI?.onGenerationPreview) return;
+
+    return window.electronAPI.onGenerationPreview((_event, preview) => {
+      const running = generationQueue.getStatus().running;
+      if (!running || running.channel !== 'workspace' || running.id !== preview.requestId) return;
+
+      drawPreview(preview);
+      setPreviewProgress({ step: preview.step, totalSteps: preview.totalSteps });
+    });
+  }, [drawPreview]);
+
+  // Real per-component progress while models load or hot-switch
+  useEffect(() => {
+    if (!window.electronAPI?.onModelProgress) return;
+
+    return window.electronAPI.onModelProgress((_event, progress) => {
+      if (progress.stage !== 'loading') return;
+      setGenerationStatus(`Loading ${progress.component}... ${Math.round(progress.progress)}%`);
+    });
+  }, []);
+
+  // Switching to the deck view unmounts the workspace; stop its frames too
+  useEffect(() => () => generationQueue.cancel('workspace'), []);
+
+  // Progress belongs to the running request; reset whenever it changes
+  useEffect(() => {
+    setPreviewProgress(null);
+  }, [queueStatus.running?.id]);
 
   // Fallback image when generation fails or not available
   const drawFallbackImage = useCallback((ctx: CanvasRenderingContext2D, message: string) => {
@@ -362,6 +598,9 @@ export function SimpleWorkspace({ backend }: { backend: string }) {
   // Track previous state for change detection
   const prevStateRef = useRef({
     seed: baseSeed,
+    seedPosition: 0,
+    modulation: {} as ModulationAmounts,
+    sceneProgress: 1,
     promptsHash: '',
     effectsHash: ''
   });
@@ -369,10 +608,22 @@ export function SimpleWorkspace({ backend }: { backend: string }) {
   // Helper to create hash of current state
   const createStateHash = useCallback((prompts: Prompt[], effects: Effect[], seed: number) => {
     const promptsData = prompts.map(p => `${p.text}:${p.weight}:${p.active}`).join('|');
-    const effectsData = effects.map(e => `${e.id}:${e.enabled}:${e.intensity}:${e.speed}:${e.target}`).join('|');
+    const effectsData = effects.map(e => `${e.id}:${e.enabled}:${e.intensity}:${e.speed}`).join('|');
     return `${promptsData}||${effectsData}||${seed}`;
   }, []);
 
+  // Effects phase starts at play; tempo changes keep it running so an
+  // external clock can adjust BPM without restarting the LFOs
+  useEffect(() => {
+    if (isPlaying) {
+      startTimeRef.current = Date.now() - (resumeTransportRef.current ? pausedPhaseRef.current : 0);
+    } else {
+      pausedPhaseRef.current = Date.now() - startTimeRef.current;
+      modulationRef.current = {};
+      sceneFrameRef.current = null;
+    }
+  }, [isPlaying]);
+
   // Animation loop - only for effects visualization and change detection
   useEffect(() => {
     if (!isPlaying) return;
@@ -381,66 +632,29 @@ export function SimpleWorkspace({ backend }: { backend: string }) {
       const currentTime = Date.now() - startTimeRef.current;
       const newLfoValues: Record<string, number> = {};
       
-      // Apply effects
-      let modifiedSeed = baseSeed;
-      const modifiedPrompts = [...prompts];
-      let hasChanges = false;
-      
       effects.forEach(effect => {
         if (!effect.enabled) return;
-        
-        const effectValue = calculateEffectValue(effect, currentTime);
-        newLfoValues[effect.id] = effectValue * 100; // Store for visualization
-        
-        switch (effect.target) {
-          case 'seed':
-            const newSeed = baseSeed + Math.round(effectValue * 1000);
-            if (newSeed !== modifiedSeed) {
-              modifiedSeed = newSeed;
-              hasChanges = true;
-            }
-            break;
-          case 'prompt_weights':
-            modifiedPrompts.forEach((prompt, index) => {
-              if (prompt.active) {
-                const baseWeight = prompts[index].weight;
-                const modulation = effectValue * 50; // ±50% modulation
-                const newWeight = Math.max(0, Math.min(100, baseWeight + modulation));
-                if (Math.abs(newWeight - modifiedPrompts[index].weight) > 1) { // Only if significant change
-                  modifiedPrompts[index] = {
-                    ...prompt,
-                    weight: newWeight
-                  };
-                  hasChanges = true;
-                }
-              }
-            });
-            break;
-          case 'selected_prompts':
-            effect.targetPrompts?.forEach(promptIndex => {
-              if (modifiedPrompts[promptIndex]?.active) {
-                const baseWeight = prompts[promptIndex].weight;
-                const modulation = effectValue * 50;
-                const newWeight = Math.max(0, Math.min(100, baseWeight + modulation));
-                if (Math.abs(newWeight - modifiedPrompts[promptIndex].weight) > 1) {
-                  modifiedPrompts[promptIndex] = {
-                    ...modifiedPrompts[promptIndex],
-                    weight: newWeight
-                  };
-                  hasChanges = true;
-                }
-              }
-            });
-            break;
-        }
+        newLfoValues[effect.id] = calculateEffectValue(effect, currentTime) * 100; // Store for visualization
       });
       
+      // Every routed source, summed per destination
+      const amounts = modulationMatrix.evaluate();
+      const sceneFrame = scenes.sequencer.getFrame();
+      const sceneProgress = sceneFrame?.transitionProgress ?? 1;
+      const hasChanges = hasModulationChanged(prevStateRef.current.modulation, amounts) ||
+        Math.abs(sceneProgress - prevStateRef.current.sceneProgress) > MODULATION_THRESHOLD;
+      
+      // Seed modulation either glides along the travel path or jumps the seed
+      const seedModulation = Math.max(-1, Math.min(1, amounts.seed ?? 0));
+      const modifiedSeed = seedMode === 'jump' ? baseSeed + Math.round(seedModulation * 1000) : baseSeed;
+      const modifiedSeedPosition = ((seedModulation + 1) / 2) * (SEED_TRAVEL_SPAN - 1);
+      
       // Update LFO values for visualization
       setLfoValues(newLfoValues);
       
       // Only generate new images when playing AND there are actual changes
       if (isPlaying) {
-        const currentStateHash = createStateHash(modifiedPrompts, effects, modifiedSeed);
+        const currentStateHash = createStateHash(prompts, effects, modifiedSeed);
         const prevState = prevStateRef.current;
         
         if (currentStateHash !== prevState.promptsHash || 
@@ -450,18 +664,18 @@ export function SimpleWorkspace({ backend }: { backend: string }) {
           console.log('🔄 State changed during play, generating new image...');
           
           setCurrentSeed(modifiedSeed);
-          
-          // Update prompts if they were modified
-          const promptsChanged = modifiedPrompts.some((p, i) => p.weight !== prompts[i].weight);
-          if (promptsChanged) {
-            setPrompts(modifiedPrompts);
-          }
+          setSeedPosition(modifiedSeedPosition);
+          modulationRef.current = amounts;
+          sceneFrameRef.current = sceneFrame;
           
           generateImage();
           
           // Update previous state
           prevStateRef.current = {
             seed: modifiedSeed,
+            seedPosition: modifiedSeedPosition,
+            modulation: amounts,
+            sceneProgress,
             promptsHash: currentStateHash,
             effectsHash: currentStateHash
           };
@@ -475,7 +689,6 @@ export function SimpleWorkspace({ backend }: { backend: string }) {
       }
     };
 
-    startTimeRef.current = Date.now();
     animate();
 
     return () => {
@@ -483,7 +696,7 @@ export function SimpleWorkspace({ backend }: { backend: string }) {
         clearTimeout(animationRef.current);
       }
     };
-  }, [isPlaying, baseSeed, effects, calculateEffectValue, bpm, beatSync, prompts, createStateHash, generateImage]);
+  }, [isPlaying, baseSeed, seedMode, effects, calculateEffectValue, bpm, beatSync, prompts, createStateHash, generateImage, modulationMatrix, scenes.sequencer]);
 
   // Debounced generation to prevent rapid firing
   const debouncedGenerate = useCallback((newSeed: number, newPrompts: Prompt[]) => {
@@ -511,17 +724,31 @@ export function SimpleWorkspace({ backend }: { backend: string }) {
   // Only generate during play mode - no automatic generation when typing
   // Manual generation only when user explicitly starts play mode
 
-  const handlePlay = async () => {
-    const newPlayState = !isPlaying;
-    setIsPlaying(newPlayState);
+  const handlePlay = () => {
+    if (isPlaying) {
+      setIsPlaying(false);
+      console.log('⏸️ Play paused - models remain loaded');
+    } else {
+      startPlayback();
+    }
+  };
+
+  // A MIDI continue resumes the effects phase, scenes and automation from
+  // where the clock stopped them; everything else starts from the top
+  const startPlayback = async (resume = false) => {
+    resumeTransportRef.current = resume;
+    setIsPlaying(true);
     
-    if (newPlayState && prompts.some(p => p.text.trim() !== '')) {
+    if (prompts.some(p => p.text.trim() !== '')) {
       // Load models if needed when play starts
       if (window.electronAPI && !window.modelsLoaded) {
         console.log('🔄 Loading models for generation...');
         setGenerationStatus('Loading AI models...');
         try {
-          const result = await window.electronAPI.loadModel({ backend: 'cpu' });
+          const result = await window.electronAPI.loadModel({
+            backend: 'cpu',
+            modelId: selectedModelId ?? undefined
+          });
           if (result.success) {
             window.modelsLoaded = true;
             setGenerationStatus('Models loaded successfully');
@@ -539,16 +766,21 @@ export function SimpleWorkspace({ backend }: { backend: string }) {
       }
       
       // Generate immediately when play starts
-      console.log('▶️ Play button pressed - starting generation');
-      setCurrentSeed(baseSeed);
-      generateImage();
-    } else if (!newPlayState) {
-      console.log('⏸️ Play paused - models remain loaded');
+      console.log('▶️ Play started - starting generation');
+      if (!resume) setCurrentSeed(baseSeed);
+      generateImage('manual');
     }
   };
 
+  const handleCancelGeneration = () => {
+    generationQueue.cancel('workspace');
+    setGenerationStatus('Generation cancelled');
+    setTimeout(() => setGenerationStatus(''), 2000);
+  };
+
   const handleStop = async () => {
     setIsPlaying(false);
+    generationQueue.cancel('workspace');
     if (animationRef.current) {
       clearTimeout(animationRef.current);
     }
@@ -603,6 +835,102 @@ export function SimpleWorkspace({ backend }: { backend: string }) {
     console.log('🧪 Test pattern drawn on canvas');
   };
 
+  const refreshModels = useCallback(async () => {
+    if (!window.electronAPI) return;
+    const result = await window.electronAPI.listModels();
+    if (!result.success) {
+      console.error('❌ Failed to list models:', result.error);
+      return;
+    }
+    setModels(result.models);
+    setSelectedModelId(current =>
+      current ?? result.activeModelId ?? result.models.find(m => m.available)?.id ?? result.models[0]?.id ?? null
+    );
+  }, []);
+
+  useEffect(() => {
+    refreshModels();
+  }, [refreshModels]);
+
+  // Hot-switch: the worker unloads the current sessions before loading the new model
+  const handleModelChange = async (modelId: string) => {
+    setSelectedModelId(modelId);
+    if (!window.electronAPI || !window.modelsLoaded) return;
+
+    const model = models.find(m => m.id === modelId);
+    generationQueue.cancel();
+    setIsSwitchingModel(true);
+    setGenerationStatus(`Switching to ${model?.name ?? modelId}...`);
+    try {
+      const result = await window.electronAPI.loadModel({ backend: 'cpu', modelId });
+      if (result.success) {
+        setGenerationStatus(`${model?.name ?? modelId} loaded`);
+      } else {
+        window.modelsLoaded = false;
+        setGenerationStatus('Failed to load model: ' + result.error);
+      }
+    } catch (error) {
+      console.error('Error switching models:', error);
+      window.modelsLoaded = false;
+      setGenerationStatus('Error switching models');
+    } finally {
+      setIsSwitchingModel(false);
+      setTimeout(() => setGenerationStatus(''), 2000);
+    }
+  };
+
+  const handleRegisterModel = async () => {
+    if (!window.electronAPI) return;
+    const selection = await window.electronAPI.selectModelFile();
+    if (!selection.success || !selection.filePath) return;
+
+    const result = await window.electronAPI.registerModel(selection.filePath);
+    if (!result.success || !result.model) {
+      setGenerationStatus('Could not add model: ' + result.error);
+      setTimeout(() => setGenerationStatus(''), 4000);
+      return;
+    }
+    await refreshModels();
+    handleModelChange(result.model.id);
+  };
+
+  const selectedModel = models.find(m => m.id === selectedModelId);
+  const isNativeResolution = (option: ResolutionOption) =>
+    !!selectedModel?.native_resolutions.some(([w, h]) => w === option.width && h === option.height);
+
+  const handleLoadInitImage = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const imageUrl = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => {
+      const tempCanvas = document.createElement('canvas');
+      tempCanvas.width = img.naturalWidth;
+      tempCanvas.height = img.naturalHeight;
+      const tempCtx = tempCanvas.getContext('2d');
+      if (tempCtx) {
+        tempCtx.drawImage(img, 0, 0);
+        const pixels = tempCtx.getImageData(0, 0, tempCanvas.width, tempCanvas.height);
+        loadedImageRef.current = {
+          data: pixels.data.buffer,
+          width: pixels.width,
+          height: pixels.height
+        };
+        setLoadedImageName(file.name);
+        setImageToImageMode('image');
+        console.log(`🖼️ Loaded init image ${file.name} (${pixels.width}x${pixels.height})`);
+      }
+      URL.revokeObjectURL(imageUrl);
+    };
+    img.onerror = () => {
+      console.error('❌ Failed to load init image');
+      URL.revokeObjectURL(imageUrl);
+    };
+    img.src = imageUrl;
+    e.target.value = '';
+  };
+
   const updatePrompt = (id: number, updates: Partial<Prompt>) => {
     setPrompts(prev => prev.map(p => 
       p.id === id ? { ...p, ...updates } : p
@@ -625,11 +953,140 @@ export function SimpleWorkspace({ backend }: { backend: string }) {
     });
   }, []);
 
+  // New effects start routed to the seed, as effects did before the matrix
+  const handleEffectAdd = useCallback((effect: Effect) => {
+    handleEffectChange(effect.id, effect);
+    const sourceId = `lfo.${effect.id}`;
+    if (!modulationMatrix.getState().routes.some(route => route.sourceId === sourceId)) {
+      modulationMatrix.addRoute(createRoute(sourceId, 'seed', { depth: 1 }));
+    }
+  }, [handleEffectChange, modulationMatrix]);
+
+  // Everything the performer can move by hand, so it can be recorded as automation
+  const automatedParameters: AutomatedParameter[] = [
+    ...prompts.flatMap((prompt, index): AutomatedParameter[] => [
+      { id: `workspace.prompt.${prompt.id}.text`, label: `Prompt ${index + 1} text`, value: prompt.text, apply: (value) => updatePrompt(prompt.id, { text: String(value) }) },
+      { id: `workspace.prompt.${prompt.id}.weight`, label: `Prompt ${index + 1} weight`, value: prompt.weight, apply: (value) => updatePrompt(prompt.id, { weight: Number(value) }) },
+      { id: `workspace.prompt.${prompt.id}.active`, label: `Prompt ${index + 1} on`, value: prompt.active, apply: (value) => updatePrompt(prompt.id, { active: Boolean(value) }) }
+    ]),
+    ...effects.flatMap((effect): AutomatedParameter[] => [
+      { id: `effect.${effect.id}.enabled`, label: `${effect.name} on`, value: effect.enabled, apply: (value) => handleEffectChange(effect.id, { enabled: Boolean(value) }) },
+      { id: `effect.${effect.id}.intensity`, label: `${effect.name} intensity`, value: effect.intensity, apply: (value) => handleEffectChange(effect.id, { intensity: Number(value) }) },
+      { id: `effect.${effect.id}.speed`, label: `${effect.name} speed`, value: effect.speed, apply: (value) => handleEffectChange(effect.id, { speed: Number(value) }) }
+    ]),
+    { id: 'workspace.seed', label: 'Seed', value: baseSeed, apply: (value) => setBaseSeed(Number(value)) },
+    { id: 'workspace.bpm', label: 'BPM', value: bpm, apply: (value) => setBpm(Number(value)) },
+    { id: 'workspace.cfg', label: 'CFG', value: cfgScale, apply: (value) => setCfgScale(Number(value)) }
+  ];
+  const automation = useAutomation({ isPlaying, resume: resumeTransportRef.current, bpm, parameters: automatedParameters });
+
+  const getSceneSnapshot = (): Pick<Scene, 'prompts' | 'seed' | 'effects' | 'resolution'> => ({
+    prompts: prompts.map(prompt => ({ ...prompt })),
+    seed: baseSeed,
+    effects: effects.map(({ id, enabled, intensity, speed, params }) => ({ id, enabled, intensity, speed, params })),
+    resolution: selectedResolution.name
+  });
+
+  const handlePresetCapture = (): PresetState => ({ kind: 'workspace', ...getSceneSnapshot(), steps });
+
+  const handlePresetLoad = (preset: PresetState) => {
+    if (preset.kind !== 'workspace') return;
+    applyScene(preset);
+    setSteps(preset.steps);
+  };
+
+  const getPresetThumbnail = () => (lastFrameRef.current ? createFrameThumbnail(lastFrameRef.current) : null);
+
+  const getSession = (): SessionData => ({
+    workspace: {
+      prompts: prompts.map(prompt => ({ ...prompt })),
+      negativePrompt,
+      promptBlend,
+      effects: getSceneSnapshot().effects,
+      seed: baseSeed,
+      seedMode,
+      steps,
+      cfgScale,
+      resolution: selectedResolution.name,
+      imageToImageMode: imageToImageMode === 'feedback' ? 'feedback' : 'off',
+      strength,
+      bpm,
+      beatSync
+    },
+    modelId: selectedModelId,
+    presets: {
+      workspace: loadPresets(WORKSPACE_PRESETS_KEY),
+      decks: loadPresets(DECK_PRESETS_KEY)
+    },
+    midi: { profile: midi.activeProfile, bindings: midi.engine.getState().bindings },
+    modulation: { routes: modulationMatrix.getState().routes, envelope },
+    scenes: scenes.sequencer.getState().sequence,
+    automation: automation.engine.getState().recording
+  });
+
+  const applySession = (session: SessionData) => {
+    const { workspace } = session;
+    setPrompts(workspace.prompts);
+    setNegativePrompt(workspace.negativePrompt);
+    setPromptBlend(workspace.promptBlend);
+    // Effects are rebuilt from their type so they get their icons back
+    setEffects(workspace.effects.flatMap(saved => {
+      const effect = createEffect(saved.id);
+      return effect ? [{ ...effect, ...saved }] : [];
+    }));
+    setBaseSeed(workspace.seed);
+    setCurrentSeed(workspace.seed);
+    setSeedMode(workspace.seedMode);
+    setSteps(workspace.steps);
+    setCfgScale(workspace.cfgScale);
+    const resolution = RESOLUTION_OPTIONS.find(option => option.name === workspace.resolution);
+    if (resolution) setSelectedResolution(resolution);
+    setImageToImageMode(workspace.imageToImageMode);
+    setStrength(workspace.strength);
+    setBpm(workspace.bpm);
+    setBeatSync(workspace.beatSync);
+
+    if (session.modelId && session.modelId !== selectedModelId) {
+      if (models.some(model => model.id === session.modelId)) {
+        handleModelChange(session.modelId);
+      } else {
+        console.warn(`⚠️ Session model ${session.modelId} is not registered, keeping ${selectedModelId}`);
+      }
+    }
+
+    savePresets(WORKSPACE_PRESETS_KEY, session.presets.workspace);
+    savePresets(DECK_PRESETS_KEY, session.presets.decks);
+    setPresetRevision(revision => revision + 1);
+    midi.activateProfile(session.midi.profile, session.midi.bindings);
+    modulationMatrix.setRoutes(session.modulation.routes);
+    setEnvelope(session.modulation.envelope);
+    scenes.sequencer.load(session.scenes);
+    automation.engine.load(session.automation);
+  };
+
+  const session = useSession({ getSession, applySession });
+
+  const handleSceneCapture = () => {
+    scenes.sequencer.addScene(createScene(getSceneSnapshot(), {
+      name: `Scene ${scenes.state.sequence.scenes.length + 1}`
+    }));
+  };
+
   return (
     <div className="simple-workspace">
       <div className="header">
         <h1>AI Visual Generator</h1>
         <SystemMonitor />
+        <SessionControls
+          filePath={session.filePath}
+          recovery={session.recovery}
+          error={session.error}
+          onOpen={session.open}
+          onSave={session.save}
+          onRestoreRecovery={session.restoreRecovery}
+          onDismissRecovery={session.dismissRecovery}
+        />
+        <MIDIController />
         <div className="transport-controls">
           <button 
             className={`control-btn ${isPlaying ? 'active' : ''}`}
@@ -643,6 +1100,15 @@ export function SimpleWorkspace({ backend }: { backend: string }) {
           <button className="control-btn" onClick={handleRandomSeed}>
             <RotateCcw size={24} />
           </button>
+          <button
+            className="control-btn"
+            onClick={handleCancelGeneration}
+            disabled={!isGenerating && queueStatus.queued === 0}
+            title="Cancel generation"
+          >
+            <X size={24} />
+          </button>
+          <RecorderControls recorder={recording.recorder} state={recording.state} />
         </div>
       </div>
 
@@ -651,6 +1117,16 @@ export function SimpleWorkspace({ backend }: { backend: string }) {
           {/* Prompts Section */}
           <div className="section">
             <h3>Prompts</h3>
+            <div className="control-row">
+              <label>Blend</label>
+              <select
+                value={promptBlend}
+                onChange={(e) => setPromptBlend(e.target.value as PromptBlendMode)}
+              >
+                <option value="slerp">Spherical (slerp)</option>
+                <option value="linear">Linear</option>
+              </select>
+            </div>
             {prompts.map((prompt) => (
               <div key={prompt.id} className="prompt-row">
                 <div className="prompt-header">
@@ -671,36 +1147,77 @@ export function SimpleWorkspace({ backend }: { backend: string }) {
                   rows={2}
                   disabled={!prompt.active}
                 />
-                <input
-                  type="range"
-                  min="0"
-                  max="100"
+                <MidiLearnable
+                  id={`workspace.prompt.${prompt.id}.weight`}
+                  label={`Prompt ${prompt.id} weight`}
+                  min={0}
+                  max={100}
+                  step={1}
                   value={prompt.weight}
-                  onChange={(e) => updatePrompt(prompt.id, { weight: Number(e.target.value) })}
-                  disabled={!prompt.active}
-                  className="weight-slider"
-                />
+                  onChange={(weight) => updatePrompt(prompt.id, { weight })}
+                >
+                  <input
+                    type="range"
+                    min="0"
+                    max="100"
+                    value={prompt.weight}
+                    onChange={(e) => updatePrompt(prompt.id, { weight: Number(e.target.value) })}
+                    disabled={!prompt.active}
+                    className="weight-slider"
+                  />
+                </MidiLearnable>
               </div>
             ))}
           </div>
 
+          <AudioInputPanel
+            state={audio.state}
+            features={audio.features}
+            onStartMicrophone={() => audio.startMicrophone()}
+            onStartFile={audio.startFile}
+            onStop={audio.stop}
+            onUseBpm={setBpm}
+          />
+
           {/* Effects Section */}
           <EffectsPanel
             effects={effects}
             onEffectChange={handleEffectChange}
+            onEffectAdd={handleEffectAdd}
             currentValues={{
               seed: currentSeed,
               promptWeights: prompts.map(p => p.weight),
               lfoValues: lfoValues
             }}
-            promptCount={prompts.length}
           />
 
+          <ModulationMatrix destinations={modulationDestinations} />
+
           {/* Generation Settings */}
           <div className="section">
             <h3>Generation Settings</h3>
             
             <div className="settings-grid">
+              <div className="setting-group">
+                <label className="setting-label">Model</label>
+                <select
+                  value={selectedModelId ?? ''}
+                  onChange={(e) => handleModelChange(e.target.value)}
+                  disabled={isSwitchingModel || models.length === 0}
+                  className="resolution-select"
+                >
+                  {models.length === 0 && <option value="">No models registered</option>}
+                  {models.map(model => (
+                    <option key={model.id} value={model.id} disabled={!model.available}>
+                      {model.name} ({model.architecture.toUpperCase()}){!model.available && ' - files missing'}
+                    </option>
+                  ))}
+                </select>
+                <button className="load-image-btn" onClick={handleRegisterModel}>
+                  Add Model...
+                </button>
+              </div>
+
               <div className="setting-group">
                 <label className="setting-label">Resolution</label>
                 <select
@@ -714,6 +1231,7 @@ export function SimpleWorkspace({ backend }: { backend: string }) {
                   {RESOLUTION_OPTIONS.map(option => (
                     <option key={option.name} value={option.name}>
                       {option.name} ({option.width}×{option.height}) - {option.aspectRatio}
+                      {isNativeResolution(option) && ' ★'}
                     </option>
                   ))}
                 </select>
@@ -723,6 +1241,9 @@ export function SimpleWorkspace({ backend }: { backend: string }) {
                   {selectedResolution.width * selectedResolution.height > 1200000 && 
                     " ⚠️ High resolution - may be slower"
                   }
+                  {selectedModel && !isNativeResolution(selectedResolution) &&
+                    ` ⚠️ Not native for ${selectedModel.name}`
+                  }
                 </div>
               </div>
 
@@ -743,6 +1264,89 @@ export function SimpleWorkspace({ backend }: { backend: string }) {
                   {STEPS_OPTIONS.find(s => s.value === steps)?.description}
                 </div>
               </div>
+
+              <div className="setting-group">
+                <label className="setting-label">Seed Mode</label>
+                <select
+                  value={seedMode}
+                  onChange={(e) => setSeedMode(e.target.value as SeedMode)}
+                  className="steps-select"
+                >
+                  <option value="travel">Seed Travel - smooth morphing</option>
+                  <option value="jump">Seed Jump - new image per change</option>
+                </select>
+                <div className="setting-info">
+                  {seedMode === 'travel'
+                    ? `Seed effects glide through seeds ${baseSeed}-${baseSeed + SEED_TRAVEL_SPAN - 1}`
+                    : 'Seed effects add up to ±1000 to the base seed'}
+                </div>
+              </div>
+
+              <div className="setting-group">
+                <label className="setting-label">CFG Scale: {cfgScale.toFixed(1)}</label>
+                <input
+                  type="range"
+                  min="1"
+                  max="12"
+                  step="0.5"
+                  value={cfgScale}
+                  onChange={(e) => setCfgScale(Number(e.target.value))}
+                />
+                <div className="setting-info">
+                  {cfgScale <= 1
+                    ? 'Guidance off - recommended for LCM models'
+                    : 'Guidance on - uses the negative prompt, about 2x slower'}
+                </div>
+              </div>
+
+              <div className="setting-group">
+                <label className="setting-label">Image to Image</label>
+                <select
+                  value={imageToImageMode}
+                  onChange={(e) => setImageToImageMode(e.target.value as ImageToImageMode)}
+                  className="steps-select"
+                >
+                  <option value="off">Off - generate from noise</option>
+                  <option value="feedback">Frame Feedback - evolve the last frame</option>
+                  <option value="image" disabled={!loadedImageName}>
+                    Loaded Image{loadedImageName ? ` - ${loadedImageName}` : ''}
+                  </option>
+                </select>
+                <label className="load-image-btn">
+                  Load Image...
+                  <input type="file" accept="image/*" onChange={handleLoadInitImage} hidden />
+                </label>
+                {imageToImageMode !== 'off' && (
+                  <>
+                    <label className="setting-label">Strength: {Math.round(strength * 100)}%</label>
+                    <input
+                      type="range"
+                      min="0.1"
+                      max="1"
+                      step="0.05"
+                      value={strength}
+                      onChange={(e) => setStrength(Number(e.target.value))}
+                    />
+                  </>
+                )}
+                <div className="setting-info">
+                  {imageToImageMode === 'off'
+                    ? 'Each frame starts from pure noise'
+                    : 'Lower strength keeps more of the source image'}
+                </div>
+              </div>
+
+              <div className="setting-group">
+                <label className="setting-label">Negative Prompt</label>
+                <textarea
+                  value={negativePrompt}
+                  onChange={(e) => setNegativePrompt(e.target.value)}
+                  placeholder="What to avoid..."
+                  rows={2}
+                  disabled={cfgScale <= 1}
+                  className="negative-prompt-input"
+                />
+              </div>
             </div>
           </div>
 
@@ -751,14 +1355,49 @@ export function SimpleWorkspace({ backend }: { backend: string }) {
             <h3>Timing & Sync</h3>
             
             <div className="control-row">
-              <label>BPM: {bpm}</label>
+              <label>BPM: {Number.isInteger(bpm) ? bpm : bpm.toFixed(1)}</label>
+              <MidiLearnable id="workspace.bpm" label="BPM" min={60} max={200} step={1} value={bpm} onChange={setBpm}>
+                <input
+                  type="range"
+                  min="60"
+                  max="200"
+                  step="0.1"
+                  value={bpm}
+                  onChange={(e) => setBpm(Number(e.target.value))}
+                  disabled={tempo.followClock && tempo.isReceivingClock}
+                />
+              </MidiLearnable>
+              <MidiLearnable id="workspace.tap" label="Tap tempo" onTrigger={tempo.tap}>
+                <button className="tap-btn" onClick={tempo.tap} title="Tap on the beat">
+                  Tap
+                </button>
+              </MidiLearnable>
+            </div>
+
+            <label>
               <input
-                type="range"
-                min="60"
-                max="200"
-                value={bpm}
-                onChange={(e) => setBpm(Number(e.target.value))}
+                type="checkbox"
+                checked={tempo.followClock}
+                onChange={(e) => tempo.setFollowClock(e.target.checked)}
               />
+              Follow MIDI Clock
+              <span className={`clock-indicator ${tempo.isReceivingClock ? 'receiving' : ''}`}>
+                {tempo.isReceivingClock ? 'locked' : 'no clock'}
+              </span>
+            </label>
+
+            <div className="control-row">
+              <label>Clock Out:</label>
+              <select
+                value={tempo.clockOutputId ?? ''}
+                onChange={(e) => tempo.setClockOutputId(e.target.value || null)}
+                disabled={tempo.outputs.length === 0}
+              >
+                <option value="">Off</option>
+                {tempo.outputs.map(output => (
+                  <option key={output.id} value={output.id}>{output.name || output.id}</option>
+                ))}
+              </select>
             </div>
 
             <label>
@@ -771,14 +1410,42 @@ export function SimpleWorkspace({ backend }: { backend: string }) {
             </label>
           </div>
 
+          <AutomationPanel
+            engine={automation.engine}
+            state={automation.state}
+            position={automation.position}
+            bpm={bpm}
+          />
+
+          <SceneSequencer
+            sequencer={scenes.sequencer}
+            state={scenes.state}
+            beatInScene={scenes.beatInScene}
+            onCapture={handleSceneCapture}
+            onUpdate={(sceneId) => scenes.sequencer.updateScene(sceneId, getSceneSnapshot())}
+            onRecall={applyScene}
+          />
+
           <div className="section">
             <h3>Info</h3>
             <div className="info-display">
               <div>Status: {isPlaying ? '🎬 Playing' : '⏸️ Stopped'}</div>
-              <div>Seed: {currentSeed} (Base: {baseSeed})</div>
+              <div>
+                Seed: {currentSeed} (Base: {baseSeed})
+                {seedMode === 'travel' && ` | Travel: ${seedPosition.toFixed(2)}`}
+              </div>
+              <div>Model: {selectedModel?.name ?? 'None'}</div>
               <div>Resolution: {selectedResolution.width}×{selectedResolution.height}</div>
-              <div>Steps: {steps} | Backend: {backend}</div>
+              <div>Steps: {steps} | CFG: {cfgScale.toFixed(1)} | Backend: {backend}</div>
               <div>Active Effects: {effects.filter(e => e.enabled).length}</div>
+              <div>
+                Queue: {queueStatus.running ? `running (${queueStatus.running.priority})` : 'idle'}
+                {queueStatus.queued > 0 && ` | ${queueStatus.queued} waiting`}
+                {queueStatus.lastDurationMs !== null && ` | Last: ${(queueStatus.lastDurationMs / 1000).toFixed(1)}s`}
+              </div>
+              <div>
+                Frames: {queueStatus.completed} done | {queueStatus.dropped} dropped | {queueStatus.cancelled} cancelled
+              </div>
             </div>
           </div>
         </div>
@@ -810,6 +1477,20 @@ export function SimpleWorkspace({ backend }: { backend: string }) {
                 </div>
               )}
               
+              {previewProgress && (
+                <div className="step-progress">
+                  <div
+                    className="step-progress-fill"
+                    style={{ width: `${(previewProgress.step / previewProgress.totalSteps) * 100}%` }}
+                  />
+                  <span className="step-progress-label">
+                    {previewProgress.step < previewProgress.totalSteps
+                      ? `Step ${previewProgress.step}/${previewProgress.totalSteps}`
+                      : 'Decoding...'}
+                  </span>
+                </div>
+              )}
+              
               {/* Loading overlay for first generation */}
               {isGenerating && generationStatus.includes('Loading AI models') && (
                 <div style={{
@@ -857,6 +1538,14 @@ export function SimpleWorkspace({ backend }: { backend: string }) {
           </div>
         </div>
       </div>
+
+      <PresetBank
+        key={presetRevision}
+        storageKey={WORKSPACE_PRESETS_KEY}
+        onCapture={handlePresetCapture}
+        onPresetLoad={handlePresetLoad}
+        getThumbnail={getPresetThumbnail}
+      />
     </div>
   );
 }
\ No newline at end of file
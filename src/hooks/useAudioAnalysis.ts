@@ -0,0 +1,37 @@
+import { useState, useEffect } from 'react';
+import { createAudioInput, AudioInputState } from '../lib/audio/audioInput';
+import { SILENT_FEATURES, AudioFeatures } from '../lib/audio/analysis';
+
+// Meters only need a few updates a second; effects read getFeatures() directly
+const METER_INTERVAL_MS = 100;
+
+// One audio input for the lifetime of the component
+export function useAudioAnalysis() {
+  const [input] = useState(() => createAudioInput());
+  const [state, setState] = useState<AudioInputState>(input.getState());
+  const [features, setFeatures] = useState<AudioFeatures>(SILENT_FEATURES);
+
+  useEffect(() => input.subscribe(setState), [input]);
+
+  useEffect(() => () => {
+    input.dispose();
+  }, [input]);
+
+  useEffect(() => {
+    if (!state.kind) {
+      setFeatures(SILENT_FEATURES);
+      return;
+    }
+    const timer = setInterval(() => setFeatures(input.getFeatures()), METER_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [input, state.kind]);
+
+  return {
+    state,
+    features,
+    getFeatures: input.getFeatures,
+    startMicrophone: input.startMicrophone,
+    startFile: input.startFile,
+    stop: input.stop
+  };
+}
@@ -0,0 +1,71 @@
+import { useState, useEffect, useRef } from 'react';
+import { createAutomationEngine, AutomationState } from '../lib/automation/engine';
+import type { AutomationValue } from '../lib/automation/types';
+
+export interface AutomatedParameter {
+  id: string;
+  label: string;
+  value: AutomationValue;
+  apply: (value: AutomationValue) => void;
+}
+
+interface AutomationOptions {
+  isPlaying: boolean;
+  // Play picks up where it stopped instead of at beat 0 (MIDI continue)
+  resume?: boolean;
+  bpm: number;
+  // The full set each render; a value that differs from the last render is a change
+  parameters: AutomatedParameter[];
+}
+
+const TICK_INTERVAL_MS = 10;
+const POSITION_INTERVAL_MS = 100;
+
+// Records and plays back the given parameters against the play transport
+export function useAutomation({ isPlaying, resume = false, bpm, parameters }: AutomationOptions) {
+  const [engine] = useState(() => createAutomationEngine());
+  const [state, setState] = useState<AutomationState>(engine.getState());
+  const [position, setPosition] = useState(0);
+  const parametersRef = useRef(parameters);
+  parametersRef.current = parameters;
+  const bpmRef = useRef(bpm);
+  bpmRef.current = bpm;
+  const resumeRef = useRef(resume);
+  resumeRef.current = resume;
+  const previousValues = useRef(new Map<string, AutomationValue>());
+
+  useEffect(() => engine.subscribe(setState), [engine]);
+
+  // Setters are looked up on apply, so registration only follows the id set
+  const parameterIds = parameters.map(parameter => parameter.id).join('|');
+  useEffect(() => {
+    const unregister = parametersRef.current.map(({ id, label }) => engine.registerParameter(id, {
+      label,
+      apply: (value) => parametersRef.current.find(parameter => parameter.id === id)?.apply(value)
+    }));
+    return () => unregister.forEach(fn => fn());
+  }, [engine, parameterIds]);
+
+  useEffect(() => {
+    parameters.forEach(({ id, value }) => {
+      const previous = previousValues.current.get(id);
+      if (previous !== undefined && previous !== value) engine.recordChange(id, value, previous);
+      previousValues.current.set(id, value);
+    });
+  });
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    if (resumeRef.current) engine.resume();
+    else engine.start();
+    const tickTimer = setInterval(() => engine.tick(performance.now(), bpmRef.current), TICK_INTERVAL_MS);
+    const positionTimer = setInterval(() => setPosition(engine.getPosition()), POSITION_INTERVAL_MS);
+    return () => {
+      clearInterval(tickTimer);
+      clearInterval(positionTimer);
+      engine.stop();
+    };
+  }, [engine, isPlaying]);
+
+  return { engine, state, position };
+}
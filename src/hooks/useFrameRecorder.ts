@@ -0,0 +1,12 @@
+import { useState, useEffect } from 'react';
+import { createFrameRecorder, RecorderState } from '../lib/recorder/recorder';
+
+// Holds the frame recorder for a workspace; frames are fed in by the generator
+export function useFrameRecorder() {
+  const [recorder] = useState(() => createFrameRecorder());
+  const [state, setState] = useState<RecorderState>(recorder.getState());
+
+  useEffect(() => recorder.subscribe(setState), [recorder]);
+
+  return { recorder, state };
+}
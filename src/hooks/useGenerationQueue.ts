@@ -0,0 +1,14 @@
+import { useState, useEffect } from 'react';
+import { generationQueue, GenerationQueueStatus } from '../lib/generationQueue';
+
+// Live status of the shared generation queue
+export function useGenerationQueueStatus(): GenerationQueueStatus {
+  const [status, setStatus] = useState<GenerationQueueStatus>(generationQueue.getStatus());
+
+  useEffect(() => {
+    setStatus(generationQueue.getStatus());
+    return generationQueue.subscribe(setStatus);
+  }, []);
+
+  return status;
+}
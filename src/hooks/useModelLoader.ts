@@ -1,154 +1,172 @@
 import { useState, useCallback } from 'react';
-// Use onnxruntime-web but with proper configuration for Electron
-import * as ort from 'onnxruntime-web';
 import '../types/electron.d.ts';
 
-interface DownloadProgress {
+interface LoadProgress {
   progress: number;
-  downloadedMB: number;
+  loadedMB: number;
   totalMB: number;
-  speedMBps: number;
-  timeRemaining: number;
+  // Component currently being loaded, e.g. 'unet'
+  component: string | null;
   status: string;
 }
 
+interface VerificationProgress {
+  status: 'idle' | 'running' | 'done' | 'error';
+  checkedMB: number;
+  totalMB: number;
+}
+
+const BYTES_PER_MB = 1024 * 1024;
+
 export function useModelLoader() {
   const [isLoaded, setIsLoaded] = useState(false);
-  const [downloadInfo, setDownloadInfo] = useState<DownloadProgress>({
+  const [downloadInfo, setDownloadInfo] = useState<LoadProgress>({
     progress: 0,
-    downloadedMB: 0,
+    loadedMB: 0,
     totalMB: 0,
-    speedMBps: 0,
-    timeRemaining: 0,
+    component: null,
     status: 'checking'
   });
   const [error, setError] = useState<string | null>(null);
-  const [session, setSession] = useState<ort.InferenceSession | null>(null);
+  // One entry per missing or corrupt model file, from the probe
+  const [problems, setProblems] = useState<string[]>([]);
+  // The full SHA-256 pass runs alongside loading and reports through problems
+  const [verification, setVerification] = useState<VerificationProgress>({
+    status: 'idle',
+    checkedMB: 0,
+    totalMB: 0
+  });
 
-  const checkModelExists = useCallback(async (): Promise<boolean> => {
-    try {
-      const modelPath = '/models/model.onnx';
-      const response = await fetch(modelPath, { method: 'HEAD' });
-      return response.ok;
-    } catch {
-      return false;
-    }
+  const verifyModel = useCallback((modelId: string) => {
+    const api = window.electronAPI;
+    if (!api) return;
+
+    setVerification({ status: 'running', checkedMB: 0, totalMB: 0 });
+    const unsubscribe = api.onModelVerificationProgress((_event, data) => {
+      if (data.modelId !== modelId) return;
+      setVerification({
+        status: 'running',
+        checkedMB: data.checkedBytes / BYTES_PER_MB,
+        totalMB: data.totalBytes / BYTES_PER_MB
+      });
+    });
+
+    api.verifyModels(modelId)
+      .then(result => {
+        if (!result.success) {
+          throw new Error(result.error || 'Model verification failed');
+        }
+        setProblems(result.problems);
+        setVerification(prev => ({ ...prev, status: 'done', checkedMB: prev.totalMB }));
+        if (result.problems.length > 0) {
+          console.warn('Model verification found problems:', result.problems);
+        }
+      })
+      .catch(err => {
+        setVerification(prev => ({ ...prev, status: 'error' }));
+        console.error('Model verification failed:', err);
+      })
+      .finally(unsubscribe);
   }, []);
 
   const loadModel = useCallback(async (backend: string = 'webgl') => {
+    if (!window.electronAPI) {
+      // External data models need onnxruntime-node in the Electron worker
+      setError('This model requires Electron to run properly. Browser mode does not support external data files.');
+      setDownloadInfo(prev => ({ ...prev, status: 'error' }));
+      return;
+    }
+
+    const api = window.electronAPI;
+    // The load streams model-progress and ends with model-loaded or
+    // model-error; those drive the ready and error states. The invoke result
+    // only covers a load that failed before it could report.
+    let isLoading = false;
+    let modelId: string | undefined;
+    let settled = false;
+
+    const markReady = () => {
+      if (settled) return;
+      settled = true;
+      // The workspace only loads on play when nothing is loaded yet
+      window.modelsLoaded = true;
+      setIsLoaded(true);
+      setDownloadInfo(prev => ({ ...prev, status: 'ready', progress: 100, component: null }));
+      console.log(`✓ Model validated and ready with ${backend} backend`);
+    };
+
+    const markFailed = (err: unknown) => {
+      if (settled) return;
+      settled = true;
+      setError(err instanceof Error ? err.message : typeof err === 'string' ? err : 'Unknown error');
+      setDownloadInfo(prev => ({ ...prev, status: 'error' }));
+      console.error('Model loading failed:', err);
+    };
+
+    // Events for another model (e.g. the workspace switching) are ignored
+    const isCurrent = (data: { modelId?: string }) =>
+      isLoading && (!modelId || !data.modelId || data.modelId === modelId);
+
+    const unsubscribers = [
+      api.onModelProgress((_event, data) => {
+        setDownloadInfo(prev => ({
+          ...prev,
+          status: 'initializing',
+          progress: data.progress,
+          loadedMB: data.loadedBytes / BYTES_PER_MB,
+          totalMB: data.totalBytes / BYTES_PER_MB,
+          component: data.stage === 'loading' ? data.component : prev.component
+        }));
+      }),
+      api.onModelLoaded((_event, data) => {
+        if (isCurrent(data)) markReady();
+      }),
+      api.onModelError((_event, data) => {
+        if (isCurrent(data)) markFailed(data.error || 'Failed to initialize model in Electron');
+      })
+    ];
+
     try {
       setDownloadInfo(prev => ({ ...prev, status: 'checking' }));
-      
-      // Validate that bundled model exists and is valid
-      const modelExists = await checkModelExists();
-      
-      if (!modelExists) {
-        throw new Error('Bundled model not found. Please reinstall the application.');
-      }
 
-      setDownloadInfo(prev => ({ ...prev, status: 'validating', progress: 25 }));
-      
-      // Load and validate the bundled model
-      const response = await fetch('/models/model.onnx');
-      if (!response.ok) {
-        throw new Error('Failed to load bundled model');
-      }
-      
-      const modelArrayBuffer = await response.arrayBuffer();
-      const sizeMB = modelArrayBuffer.byteLength / (1024 * 1024);
-      
-      // Basic validation - check if file size is reasonable (> 0.5MB for .onnx file)
-      if (sizeMB < 0.5) {
-        throw new Error('Model file appears to be corrupted (too small)');
+      // Sizes and ONNX headers are checked in the main process; nothing is read here
+      const probe = await api.probeModels();
+      if (!probe.success) {
+        throw new Error(probe.error || 'Model probe failed');
       }
-      
-      // For split ONNX models, also check if data file exists
-      try {
-        const dataResponse = await fetch('/models/model.onnx_data', { method: 'HEAD' });
-        if (dataResponse.ok) {
-          console.log('✓ Found model data file');
-        }
-      } catch (e) {
-        console.log('ℹ No separate data file found (single file model)');
+      setProblems(probe.problems);
+      if (probe.problems.length > 0) {
+        throw new Error(`${probe.name ?? 'Model'} files are missing or corrupt`);
       }
-      
-      setDownloadInfo(prev => ({ 
-        ...prev, 
-        status: 'validated', 
-        progress: 75,
-        totalMB: sizeMB,
-        downloadedMB: sizeMB 
-      }));
 
-      // Initialize model session
-      setDownloadInfo(prev => ({ ...prev, status: 'initializing', progress: 85 }));
-      
-      // Check if we're in Electron environment  
-      const isElectron = window.electronAPI !== undefined || (window as any).process?.type === 'renderer';
-      
-      console.log('Environment check:', { 
-        hasElectronAPI: !!window.electronAPI, 
-        processType: (window as any).process?.type,
-        isElectron 
+      const unet = probe.components.find(component => component.component === 'unet');
+      console.log(`✓ ${probe.name} probed (${(probe.totalBytes / BYTES_PER_MB).toFixed(0)}MB)`, {
+        unetInputs: unet?.inputs?.map(input => `${input.name}[${input.shape?.join(', ') ?? '?'}]`)
       });
-      
-      if (isElectron && window.electronAPI) {
-        // Use Electron's model loading service
-        console.log('Using Electron model loading service...');
-        const result = await window.electronAPI.loadModel({
-          backend: backend,
-          modelPath: '/models/model.onnx'
-        });
-        
-        if (!result.success) {
-          throw new Error(result.error || 'Failed to initialize model in Electron');
-        }
-        
-        // Create a mock session for consistency
-        setSession({ run: () => Promise.resolve({}) } as any);
-      } else {
-        // Browser fallback - external data models don't work well in browser
-        console.warn('Running in browser mode - external data models not supported');
-        console.log('Please use Electron for full model support');
-        
-        throw new Error('This model requires Electron to run properly. Browser mode does not support external data files.');
-      }
-      
-      setIsLoaded(true);
-      setDownloadInfo(prev => ({ 
-        ...prev, 
-        status: 'ready', 
-        progress: 100 
+
+      setDownloadInfo(prev => ({
+        ...prev,
+        status: 'validated',
+        totalMB: probe.totalBytes / BYTES_PER_MB
       }));
-      
-      console.log(`✓ Model validated and ready with ${backend} backend`);
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Unknown error');
-      setDownloadInfo(prev => ({ ...prev, status: 'error' }));
-      console.error('Model loading failed:', err);
-    }
-  }, [checkModelExists]);
 
-  const generateImage = useCallback(async (prompt: string, steps: number = 1) => {
-    if (!session) {
-      throw new Error('Model not loaded');
-    }
+      // Hashing every file takes minutes for a multi-GB model, so it does not
+      // hold up the load
+      if (probe.modelId) verifyModel(probe.modelId);
 
-    try {
-      // This is a simplified version - you'd need proper tokenization and noise generation
-      const feeds = {
-        sample: new ort.Tensor('', [], []),
-        timestep: new ort.Tensor('int64', [BigInt(1)], [1]),
-        encoder_hidden_states: new ort.Tensor('', [], [])
-      };
-
-      const results = await session.run(feeds);
-      return results;
+      isLoading = true;
+      modelId = probe.modelId;
+      const result = await api.loadModel({ backend, modelId: probe.modelId });
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to initialize model in Electron');
+      }
+      markReady();
     } catch (err) {
-      console.error('Image generation failed:', err);
-      throw err;
+      markFailed(err);
+    } finally {
+      unsubscribers.forEach(unsubscribe => unsubscribe());
     }
-  }, [session]);
+  }, [verifyModel]);
 
-  return { isLoaded, downloadInfo, error, session, loadModel, generateImage, checkModelExists };
-}
\ No newline at end of file
+  return { isLoaded, downloadInfo, error, problems, verification, loadModel };
+}
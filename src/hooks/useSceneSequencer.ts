@@ -0,0 +1,47 @@
+import { useState, useEffect, useRef } from 'react';
+import { createSceneSequencer, SequencerState } from '../lib/sequencer/engine';
+import type { Scene } from '../lib/sequencer/types';
+
+interface SceneSequencerOptions {
+  isPlaying: boolean;
+  // Play picks up where it stopped instead of at the first scene (MIDI continue)
+  resume?: boolean;
+  bpm: number;
+  onSceneStart: (scene: Scene, previousScene: Scene | null) => void;
+}
+
+const TICK_INTERVAL_MS = 10;
+const POSITION_INTERVAL_MS = 100;
+
+// Runs the scene sequence against the play transport while it's enabled
+export function useSceneSequencer({ isPlaying, resume = false, bpm, onSceneStart }: SceneSequencerOptions) {
+  const onSceneStartRef = useRef(onSceneStart);
+  onSceneStartRef.current = onSceneStart;
+  const bpmRef = useRef(bpm);
+  bpmRef.current = bpm;
+  const resumeRef = useRef(resume);
+  resumeRef.current = resume;
+  const [sequencer] = useState(() => createSceneSequencer(
+    (scene, previousScene) => onSceneStartRef.current(scene, previousScene)
+  ));
+  const [state, setState] = useState<SequencerState>(sequencer.getState());
+  const [beatInScene, setBeatInScene] = useState(0);
+
+  useEffect(() => sequencer.subscribe(setState), [sequencer]);
+
+  useEffect(() => {
+    if (!isPlaying || !state.enabled) return;
+    if (resumeRef.current) sequencer.resume();
+    else sequencer.start();
+    const tickTimer = setInterval(() => sequencer.tick(performance.now(), bpmRef.current), TICK_INTERVAL_MS);
+    const positionTimer = setInterval(() => setBeatInScene(sequencer.getPosition()), POSITION_INTERVAL_MS);
+    return () => {
+      clearInterval(tickTimer);
+      clearInterval(positionTimer);
+      sequencer.stop();
+      setBeatInScene(0);
+    };
+  }, [sequencer, isPlaying, state.enabled]);
+
+  return { sequencer, state, beatInScene };
+}
@@ -0,0 +1,101 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { parseSession, serializeSession } from '../lib/session/format';
+import type { SessionData } from '../lib/session/types';
+
+interface SessionOptions {
+  // Current state, read when saving
+  getSession: () => SessionData;
+  applySession: (session: SessionData) => void;
+}
+
+export interface SessionRecovery {
+  session: SessionData;
+  savedAt: string;
+}
+
+const AUTOSAVE_INTERVAL_MS = 30000;
+
+// Session files through the main process: open/save dialogs, periodic
+// autosave and the crash recovery offer on startup
+export function useSession({ getSession, applySession }: SessionOptions) {
+  const getSessionRef = useRef(getSession);
+  getSessionRef.current = getSession;
+  const applySessionRef = useRef(applySession);
+  applySessionRef.current = applySession;
+  const [filePath, setFilePath] = useState<string | null>(null);
+  const [recovery, setRecovery] = useState<SessionRecovery | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    window.electronAPI?.getSessionRecovery().then(result => {
+      if (!result.success || !result.content || !result.savedAt) return;
+      try {
+        setRecovery({ session: parseSession(result.content), savedAt: result.savedAt });
+      } catch (recoveryError) {
+        console.warn('⚠️ Ignoring unreadable session recovery:', recoveryError);
+        window.electronAPI?.clearSessionRecovery();
+      }
+    });
+  }, []);
+
+  // Only writes when something changed since the last autosave
+  useEffect(() => {
+    if (!window.electronAPI) return;
+    let lastContent = '';
+    const timer = setInterval(() => {
+      const session = getSessionRef.current();
+      const content = JSON.stringify(session);
+      if (content === lastContent) return;
+      lastContent = content;
+      window.electronAPI?.autosaveSession(serializeSession(session)).then(result => {
+        if (!result.success) console.warn('⚠️ Session autosave failed:', result.error);
+      });
+    }, AUTOSAVE_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Save As (or the first save) asks where to write
+  const save = useCallback(async (saveAs = false) => {
+    if (!window.electronAPI) return;
+    const result = await window.electronAPI.saveSession(
+      serializeSession(getSessionRef.current()),
+      saveAs ? undefined : filePath ?? undefined
+    );
+    if (result.success && result.filePath) {
+      setFilePath(result.filePath);
+      setError(null);
+    } else if (!result.canceled) {
+      setError(`Could not save session: ${result.error}`);
+    }
+  }, [filePath]);
+
+  const open = useCallback(async () => {
+    if (!window.electronAPI) return;
+    const result = await window.electronAPI.openSession();
+    if (!result.success || !result.content) {
+      if (!result.canceled) setError(`Could not open session: ${result.error}`);
+      return;
+    }
+    try {
+      applySessionRef.current(parseSession(result.content));
+      setFilePath(result.filePath ?? null);
+      setError(null);
+    } catch (openError) {
+      setError(openError instanceof Error ? openError.message : String(openError));
+    }
+  }, []);
+
+  const restoreRecovery = useCallback(() => {
+    if (!recovery) return;
+    applySessionRef.current(recovery.session);
+    setRecovery(null);
+    window.electronAPI?.clearSessionRecovery();
+  }, [recovery]);
+
+  const dismissRecovery = useCallback(() => {
+    setRecovery(null);
+    window.electronAPI?.clearSessionRecovery();
+  }, []);
+
+  return { filePath, recovery, error, save, open, restoreRecovery, dismissRecovery };
+}
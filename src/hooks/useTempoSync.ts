@@ -0,0 +1,88 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { useMidi } from '../lib/midi/MidiLearnContext';
+import { createMidiClockFollower, createMidiClockSender, createTapTempo } from '../lib/midi/clock';
+
+interface TempoSyncOptions {
+  bpm: number;
+  onBpmChange: (bpm: number) => void;
+  // Transport start from the clock source; the caller resets its phase
+  onClockStart?: () => void;
+  // Transport continue; the caller resumes without resetting its phase
+  onClockContinue?: () => void;
+  // Transport stop; the caller pauses
+  onClockStop?: () => void;
+  // Clock out runs while this is true
+  isPlaying: boolean;
+}
+
+const RECEIVE_CHECK_MS = 250;
+
+// Keeps BPM in step with incoming MIDI clock when following is on, offers tap
+// tempo as a fallback, and optionally sends clock to one output.
+export function useTempoSync({ bpm, onBpmChange, onClockStart, onClockContinue, onClockStop, isPlaying }: TempoSyncOptions) {
+  const { addMessageListener, outputs } = useMidi();
+  const [followClock, setFollowClock] = useState(true);
+  const [isReceivingClock, setIsReceivingClock] = useState(false);
+  const [clockOutputId, setClockOutputId] = useState<string | null>(null);
+
+  const bpmRef = useRef(bpm);
+  bpmRef.current = bpm;
+  const callbacksRef = useRef({ onBpmChange, onClockStart, onClockContinue, onClockStop, followClock });
+  callbacksRef.current = { onBpmChange, onClockStart, onClockContinue, onClockStop, followClock };
+
+  const [follower] = useState(() => createMidiClockFollower({
+    onTempo: (clockBpm) => {
+      if (callbacksRef.current.followClock) callbacksRef.current.onBpmChange(clockBpm);
+    },
+    onStart: () => {
+      if (callbacksRef.current.followClock) callbacksRef.current.onClockStart?.();
+    },
+    onContinue: () => {
+      if (callbacksRef.current.followClock) callbacksRef.current.onClockContinue?.();
+    },
+    onStop: () => {
+      if (callbacksRef.current.followClock) callbacksRef.current.onClockStop?.();
+    }
+  }));
+  const [tapTempo] = useState(() => createTapTempo());
+
+  useEffect(() => addMessageListener(follower.handleRawMessage), [addMessageListener, follower]);
+
+  // Clock has no "stopped sending" message; poll for silence
+  useEffect(() => {
+    const timer = setInterval(() => setIsReceivingClock(follower.isReceiving()), RECEIVE_CHECK_MS);
+    return () => clearInterval(timer);
+  }, [follower]);
+
+  // Re-seed the average when following is switched back on
+  useEffect(() => {
+    if (followClock) follower.reset();
+  }, [followClock, follower]);
+
+  const tap = useCallback(() => {
+    const tapped = tapTempo.tap();
+    if (tapped !== null) onBpmChange(tapped);
+  }, [tapTempo, onBpmChange]);
+
+  // Don't echo clock back out while an external clock is driving us
+  const output = outputs.find(candidate => candidate.id === clockOutputId) ?? null;
+  const sendClock = !!output && isPlaying && !(followClock && isReceivingClock);
+
+  useEffect(() => {
+    if (!sendClock || !output) return;
+    const sender = createMidiClockSender(output, () => bpmRef.current);
+    sender.start();
+    return () => sender.stop();
+  }, [sendClock, output]);
+
+  return {
+    followClock,
+    setFollowClock,
+    isReceivingClock,
+    tap,
+    outputs,
+    clockOutputId,
+    setClockOutputId,
+    isSendingClock: sendClock
+  };
+}
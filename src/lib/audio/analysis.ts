@@ -0,0 +1,372 @@
+// Audio analysis shared by the live input and offline rendering.
+// Every hop the latest `fftSize` samples are analysed into band envelopes
+// (bass/mid/high), spectral-flux onsets and a tempo estimate taken from the
+// spacing of recent onsets. Feeding an AudioBuffer through `analyzeAudioBuffer`
+// runs exactly the same code as the live input, so it can be checked offline.
+
+export interface AudioFeatures {
+  // Seconds, on the clock of whatever fed the samples
+  time: number;
+  // 0..1 envelopes, normalised against the recent peak of each band
+  level: number;
+  bass: number;
+  mid: number;
+  high: number;
+  // 1 on an onset, decaying back to 0
+  onset: number;
+  // True only on the frame the onset was detected
+  isOnset: boolean;
+  // Time of the latest onset, for consumers that poll less often than the hop
+  onsetTime: number | null;
+  bpm: number | null;
+  // 0 on the estimated beat, rising towards 1 just before the next one
+  beatPhase: number;
+}
+
+export const SILENT_FEATURES: AudioFeatures = {
+  time: 0,
+  level: 0,
+  bass: 0,
+  mid: 0,
+  high: 0,
+  onset: 0,
+  isOnset: false,
+  onsetTime: null,
+  bpm: null,
+  beatPhase: 0
+};
+
+export const DEFAULT_FFT_SIZE = 2048;
+export const DEFAULT_HOP_SECONDS = 0.01;
+
+const BANDS = {
+  bass: [20, 250],
+  mid: [250, 4000],
+  high: [4000, 16000]
+} as const;
+
+type BandName = keyof typeof BANDS;
+
+// Band values span this many dB below the band's recent peak
+const DYNAMIC_RANGE_DB = 36;
+// The peak falls back this fast, so a quiet passage becomes readable again
+const PEAK_DECAY_DB_PER_SECOND = 3;
+// Peaks never drop below this, so silence isn't amplified into noise
+const PEAK_FLOOR_DB = -50;
+const ENVELOPE_ATTACK_SECONDS = 0.01;
+const ENVELOPE_RELEASE_SECONDS = 0.15;
+
+// Spectral flux is compared with the recent median, over this window
+const FLUX_HISTORY_SECONDS = 0.5;
+const ONSET_THRESHOLD_RATIO = 1.5;
+const ONSET_MIN_FLUX = 0.02;
+const MIN_ONSET_INTERVAL_SECONDS = 0.1;
+const ONSET_DECAY_SECONDS = 0.15;
+// Magnitudes are log-compressed before differencing, so soft hits count too
+const FLUX_COMPRESSION = 100;
+
+// Tempo is estimated from onsets in this window, folded into one octave
+const TEMPO_WINDOW_SECONDS = 8;
+const MIN_TEMPO_ONSETS = 4;
+const MIN_BPM = 80;
+const MAX_BPM = 160;
+const MAX_PAIR_INTERVAL_SECONDS = 2;
+// Onsets this close to the predicted beat pull the beat grid onto them
+const BEAT_CAPTURE_PHASE = 0.2;
+
+// Hann-windowed magnitude spectrum of the last `size` samples, scaled so a
+// full-scale sine peaks near 1. Shorter input is zero padded at the front.
+function createSpectrumAnalyzer(size: number) {
+  if (size < 2 || (size & (size - 1)) !== 0) {
+    throw new Error(`FFT size must be a power of two, got ${size}`);
+  }
+
+  const bits = Math.log2(size);
+  const bitReversed = new Uint32Array(size);
+  for (let i = 0; i < size; i++) {
+    let reversed = 0;
+    for (let bit = 0; bit < bits; bit++) {
+      reversed = (reversed << 1) | ((i >> bit) & 1);
+    }
+    bitReversed[i] = reversed;
+  }
+
+  const window = new Float32Array(size);
+  for (let i = 0; i < size; i++) {
+    window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (size - 1));
+  }
+
+  const cos = new Float32Array(size / 2);
+  const sin = new Float32Array(size / 2);
+  for (let i = 0; i < size / 2; i++) {
+    cos[i] = Math.cos((2 * Math.PI * i) / size);
+    sin[i] = Math.sin((2 * Math.PI * i) / size);
+  }
+
+  const re = new Float32Array(size);
+  const im = new Float32Array(size);
+  const magnitudes = new Float32Array(size / 2);
+
+  return (samples: ArrayLike<number>): Float32Array => {
+    const offset = samples.length - size;
+    for (let i = 0; i < size; i++) {
+      const index = offset + i;
+      re[bitReversed[i]] = index >= 0 ? samples[index] * window[i] : 0;
+      im[bitReversed[i]] = 0;
+    }
+
+    for (let length = 2; length <= size; length <<= 1) {
+      const half = length >> 1;
+      const step = size / length;
+      for (let start = 0; start < size; start += length) {
+        for (let k = 0; k < half; k++) {
+          const c = cos[k * step];
+          const s = sin[k * step];
+          const a = start + k;
+          const b = a + half;
+          const tRe = re[b] * c + im[b] * s;
+          const tIm = im[b] * c - re[b] * s;
+          re[b] = re[a] - tRe;
+          im[b] = im[a] - tIm;
+          re[a] += tRe;
+          im[a] += tIm;
+        }
+      }
+    }
+
+    for (let k = 0; k < size / 2; k++) {
+      magnitudes[k] = Math.hypot(re[k], im[k]) * 4 / size;
+    }
+    return magnitudes;
+  };
+}
+
+const toDb = (amplitude: number) => 20 * Math.log10(amplitude + 1e-9);
+
+// Follows a dB value against its own decaying peak and smooths the result
+function createEnvelope() {
+  let peakDb = PEAK_FLOOR_DB;
+  let value = 0;
+
+  return {
+    update(db: number, dt: number): number {
+      peakDb = Math.max(db, peakDb - PEAK_DECAY_DB_PER_SECOND * dt, PEAK_FLOOR_DB);
+      const target = Math.max(0, Math.min(1, (db - (peakDb - DYNAMIC_RANGE_DB)) / DYNAMIC_RANGE_DB));
+      const tau = target > value ? ENVELOPE_ATTACK_SECONDS : ENVELOPE_RELEASE_SECONDS;
+      value += (target - value) * (1 - Math.exp(-dt / tau));
+      return value;
+    }
+  };
+}
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)] ?? 0;
+};
+
+const foldBpm = (bpm: number) => {
+  while (bpm < MIN_BPM) bpm *= 2;
+  while (bpm >= MAX_BPM) bpm /= 2;
+  return bpm;
+};
+
+// Most common spacing between recent onsets (any pair up to two seconds
+// apart), folded into MIN_BPM..MAX_BPM. Returns null until there's enough.
+export function estimateBpm(onsetTimes: number[]): number | null {
+  if (onsetTimes.length < MIN_TEMPO_ONSETS) return null;
+
+  const binCount = MAX_BPM - MIN_BPM;
+  const histogram = new Float32Array(binCount);
+  const candidates: { bpm: number; interval: number }[] = [];
+
+  for (let i = 0; i < onsetTimes.length; i++) {
+    for (let j = i + 1; j < onsetTimes.length; j++) {
+      const interval = onsetTimes[j] - onsetTimes[i];
+      if (interval > MAX_PAIR_INTERVAL_SECONDS) break;
+      if (interval < MIN_ONSET_INTERVAL_SECONDS) continue;
+
+      const bpm = foldBpm(60 / interval);
+      // Neighbouring onsets say more about the tempo than distant pairs
+      const weight = 1 / (j - i);
+      candidates.push({ bpm, interval });
+      const bin = bpm - MIN_BPM;
+      for (let offset = -2; offset <= 2; offset++) {
+        const index = Math.floor(bin) + offset;
+        if (index < 0 || index >= binCount) continue;
+        const distance = index + 0.5 - bin;
+        histogram[index] += weight * Math.exp(-(distance * distance) / 2);
+      }
+    }
+  }
+
+  let peak = -1;
+  let peakValue = 0;
+  histogram.forEach((value, index) => {
+    if (value > peakValue) {
+      peak = index;
+      peakValue = value;
+    }
+  });
+  if (peak < 0) return null;
+
+  // Refine over the pairs around the peak as total beats over total time, so
+  // long spans (where timing error matters least) count the most
+  const peakBpm = MIN_BPM + peak + 0.5;
+  let beats = 0;
+  let seconds = 0;
+  candidates.forEach(({ bpm, interval }) => {
+    if (Math.abs(bpm - peakBpm) <= 1.5) {
+      beats += (interval * bpm) / 60;
+      seconds += interval;
+    }
+  });
+  return seconds > 0 ? Math.round(((beats / seconds) * 60) * 10) / 10 : null;
+}
+
+interface AnalyzerOptions {
+  sampleRate: number;
+  fftSize?: number;
+}
+
+export function createAudioAnalyzer({ sampleRate, fftSize = DEFAULT_FFT_SIZE }: AnalyzerOptions) {
+  const spectrum = createSpectrumAnalyzer(fftSize);
+  const binHz = sampleRate / fftSize;
+  const bandBins = Object.fromEntries(
+    (Object.keys(BANDS) as BandName[]).map(band => {
+      const [minHz, maxHz] = BANDS[band];
+      const first = Math.max(1, Math.round(minHz / binHz));
+      const last = Math.min(fftSize / 2 - 1, Math.round(maxHz / binHz));
+      return [band, [first, last]];
+    })
+  ) as Record<BandName, [number, number]>;
+
+  let envelopes = {
+    level: createEnvelope(),
+    bass: createEnvelope(),
+    mid: createEnvelope(),
+    high: createEnvelope()
+  };
+  let previousCompressed = new Float32Array(fftSize / 2);
+  let fluxHistory: { time: number; flux: number }[] = [];
+  let onsetTimes: number[] = [];
+  let beatAnchor: number | null = null;
+  let features: AudioFeatures = SILENT_FEATURES;
+
+  const reset = () => {
+    envelopes = {
+      level: createEnvelope(),
+      bass: createEnvelope(),
+      mid: createEnvelope(),
+      high: createEnvelope()
+    };
+    previousCompressed = new Float32Array(fftSize / 2);
+    fluxHistory = [];
+    onsetTimes = [];
+    beatAnchor = null;
+    features = SILENT_FEATURES;
+  };
+
+  const bandDb = (magnitudes: Float32Array, band: BandName) => {
+    const [first, last] = bandBins[band];
+    let energy = 0;
+    for (let k = first; k <= last; k++) energy += magnitudes[k] * magnitudes[k];
+    return toDb(Math.sqrt(energy));
+  };
+
+  // `samples` should hold at least the last `fftSize` samples; `time` is in seconds
+  const process = (samples: ArrayLike<number>, time: number): AudioFeatures => {
+    const dt = Math.max(0.001, features === SILENT_FEATURES ? DEFAULT_HOP_SECONDS : time - features.time);
+    const magnitudes = spectrum(samples);
+
+    let squareSum = 0;
+    const count = Math.min(samples.length, fftSize);
+    for (let i = samples.length - count; i < samples.length; i++) squareSum += samples[i] * samples[i];
+    const rms = count > 0 ? Math.sqrt(squareSum / count) : 0;
+
+    // Positive change in log magnitude, averaged per band and summed, so a
+    // kick in a dozen bass bins counts as much as a hat across the highs
+    let flux = 0;
+    (Object.keys(BANDS) as BandName[]).forEach(band => {
+      const [first, last] = bandBins[band];
+      let bandFlux = 0;
+      for (let k = first; k <= last; k++) {
+        const compressed = Math.log1p(FLUX_COMPRESSION * magnitudes[k]);
+        bandFlux += Math.max(0, compressed - previousCompressed[k]);
+        previousCompressed[k] = compressed;
+      }
+      flux += bandFlux / (last - first + 1);
+    });
+
+    fluxHistory = [...fluxHistory.filter(entry => time - entry.time < FLUX_HISTORY_SECONDS), { time, flux }];
+    const threshold = median(fluxHistory.map(entry => entry.flux)) * ONSET_THRESHOLD_RATIO + ONSET_MIN_FLUX;
+    const lastOnset = onsetTimes[onsetTimes.length - 1];
+    const isOnset = flux > threshold && (lastOnset === undefined || time - lastOnset >= MIN_ONSET_INTERVAL_SECONDS);
+
+    let bpm = features.bpm;
+    if (isOnset) {
+      onsetTimes = [...onsetTimes.filter(onsetTime => time - onsetTime < TEMPO_WINDOW_SECONDS), time];
+      bpm = estimateBpm(onsetTimes) ?? bpm;
+      if (bpm) {
+        const phase = beatAnchor === null ? 0 : (((time - beatAnchor) * bpm) / 60) % 1;
+        if (beatAnchor === null || phase < BEAT_CAPTURE_PHASE || phase > 1 - BEAT_CAPTURE_PHASE) {
+          beatAnchor = time;
+        }
+      }
+    }
+
+    const beatPhase = bpm && beatAnchor !== null
+      ? ((((time - beatAnchor) * bpm) / 60) % 1 + 1) % 1
+      : 0;
+
+    features = {
+      time,
+      level: envelopes.level.update(toDb(rms * Math.SQRT2), dt),
+      bass: envelopes.bass.update(bandDb(magnitudes, 'bass'), dt),
+      mid: envelopes.mid.update(bandDb(magnitudes, 'mid'), dt),
+      high: envelopes.high.update(bandDb(magnitudes, 'high'), dt),
+      onset: isOnset ? 1 : features.onset * Math.exp(-dt / ONSET_DECAY_SECONDS),
+      isOnset,
+      onsetTime: isOnset ? time : features.onsetTime,
+      bpm,
+      beatPhase
+    };
+    return features;
+  };
+
+  return {
+    process,
+    getFeatures: () => features,
+    reset
+  };
+}
+
+export type AudioAnalyzer = ReturnType<typeof createAudioAnalyzer>;
+
+// The parts of AudioBuffer the offline analysis reads, so tests can pass
+// plain arrays as well as buffers rendered by an OfflineAudioContext
+export interface AudioBufferLike {
+  sampleRate: number;
+  length: number;
+  numberOfChannels: number;
+  getChannelData: (channel: number) => Float32Array;
+}
+
+// One feature frame per hop across the whole buffer, channels mixed to mono
+export function analyzeAudioBuffer(
+  buffer: AudioBufferLike,
+  { fftSize = DEFAULT_FFT_SIZE, hopSeconds = DEFAULT_HOP_SECONDS }: { fftSize?: number; hopSeconds?: number } = {}
+): AudioFeatures[] {
+  const mono = new Float32Array(buffer.length);
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < buffer.length; i++) mono[i] += data[i] / buffer.numberOfChannels;
+  }
+
+  const analyzer = createAudioAnalyzer({ sampleRate: buffer.sampleRate, fftSize });
+  const hop = Math.max(1, Math.round(buffer.sampleRate * hopSeconds));
+  const frames: AudioFeatures[] = [];
+  for (let end = hop; end <= mono.length; end += hop) {
+    frames.push(analyzer.process(mono.subarray(Math.max(0, end - fftSize), end), end / buffer.sampleRate));
+  }
+  return frames;
+}
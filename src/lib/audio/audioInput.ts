@@ -0,0 +1,156 @@
+import {
+  createAudioAnalyzer,
+  AudioAnalyzer,
+  AudioFeatures,
+  DEFAULT_FFT_SIZE,
+  DEFAULT_HOP_SECONDS,
+  SILENT_FEATURES
+} from './analysis';
+
+export type AudioInputKind = 'microphone' | 'file';
+
+export interface AudioInputState {
+  kind: AudioInputKind | null;
+  // Device label or file name
+  name: string | null;
+  error: string | null;
+}
+
+const IDLE_STATE: AudioInputState = { kind: null, name: null, error: null };
+
+// Live audio into the analyzer: a capture device (not monitored, to avoid
+// feedback) or a looping file that plays through the speakers. Samples are
+// pulled from an AnalyserNode every hop and analysed on the main thread.
+export function createAudioInput({ fftSize = DEFAULT_FFT_SIZE, hopSeconds = DEFAULT_HOP_SECONDS } = {}) {
+  let context: AudioContext | null = null;
+  let analyserNode: AnalyserNode | null = null;
+  let sourceNode: AudioNode | null = null;
+  let stream: MediaStream | null = null;
+  let element: HTMLAudioElement | null = null;
+  let objectUrl: string | null = null;
+  let timer: ReturnType<typeof setInterval> | null = null;
+  let analyzer: AudioAnalyzer | null = null;
+  let state = IDLE_STATE;
+  const listeners = new Set<(state: AudioInputState) => void>();
+  const samples = new Float32Array(fftSize);
+
+  const setState = (next: AudioInputState) => {
+    state = next;
+    listeners.forEach(listener => listener(state));
+  };
+
+  const ensureContext = async () => {
+    if (!context) {
+      context = new AudioContext();
+      analyserNode = context.createAnalyser();
+      analyserNode.fftSize = fftSize;
+    }
+    if (context.state === 'suspended') {
+      await context.resume();
+    }
+    return { context, analyserNode: analyserNode! };
+  };
+
+  const release = () => {
+    if (timer) {
+      clearInterval(timer);
+      timer = null;
+    }
+    sourceNode?.disconnect();
+    sourceNode = null;
+    stream?.getTracks().forEach(track => track.stop());
+    stream = null;
+    if (element) {
+      element.pause();
+      element.removeAttribute('src');
+      element = null;
+    }
+    if (objectUrl) {
+      URL.revokeObjectURL(objectUrl);
+      objectUrl = null;
+    }
+    analyzer = null;
+  };
+
+  const startAnalysis = (audioContext: AudioContext, node: AnalyserNode) => {
+    analyzer = createAudioAnalyzer({ sampleRate: audioContext.sampleRate, fftSize });
+    const currentAnalyzer = analyzer;
+    timer = setInterval(() => {
+      node.getFloatTimeDomainData(samples);
+      currentAnalyzer.process(samples, audioContext.currentTime);
+    }, hopSeconds * 1000);
+  };
+
+  const fail = (error: unknown) => {
+    release();
+    setState({ ...IDLE_STATE, error: error instanceof Error ? error.message : String(error) });
+  };
+
+  return {
+    async startMicrophone(deviceId?: string) {
+      release();
+      try {
+        const { context: audioContext, analyserNode: node } = await ensureContext();
+        // Processing meant for speech flattens transients and pumps the level
+        stream = await navigator.mediaDevices.getUserMedia({
+          audio: {
+            deviceId: deviceId ? { exact: deviceId } : undefined,
+            echoCancellation: false,
+            noiseSuppression: false,
+            autoGainControl: false
+          }
+        });
+        sourceNode = audioContext.createMediaStreamSource(stream);
+        sourceNode.connect(node);
+        startAnalysis(audioContext, node);
+        setState({ kind: 'microphone', name: stream.getAudioTracks()[0]?.label || 'Audio input', error: null });
+      } catch (error) {
+        fail(error);
+      }
+    },
+
+    async startFile(file: File) {
+      release();
+      try {
+        const { context: audioContext, analyserNode: node } = await ensureContext();
+        objectUrl = URL.createObjectURL(file);
+        element = new Audio(objectUrl);
+        element.loop = true;
+        sourceNode = audioContext.createMediaElementSource(element);
+        sourceNode.connect(node);
+        sourceNode.connect(audioContext.destination);
+        await element.play();
+        startAnalysis(audioContext, node);
+        setState({ kind: 'file', name: file.name, error: null });
+      } catch (error) {
+        fail(error);
+      }
+    },
+
+    stop() {
+      release();
+      setState(IDLE_STATE);
+    },
+
+    getFeatures: (): AudioFeatures => analyzer?.getFeatures() ?? SILENT_FEATURES,
+
+    getState: () => state,
+
+    subscribe(listener: (state: AudioInputState) => void) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    async dispose() {
+      release();
+      listeners.clear();
+      await context?.close();
+      context = null;
+      analyserNode = null;
+    }
+  };
+}
+
+export type AudioInput = ReturnType<typeof createAudioInput>;
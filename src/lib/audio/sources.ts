@@ -0,0 +1,24 @@
+import type { AudioFeatures } from './analysis';
+
+// Audio features usable as modulation sources
+export type AudioSource = 'level' | 'bass' | 'mid' | 'high' | 'onset' | 'beat';
+
+export const AUDIO_SOURCES: { value: AudioSource; label: string }[] = [
+  { value: 'level', label: 'Audio level' },
+  { value: 'bass', label: 'Bass' },
+  { value: 'mid', label: 'Mids' },
+  { value: 'high', label: 'Highs' },
+  { value: 'onset', label: 'Onsets' },
+  { value: 'beat', label: 'Beat (detected BPM)' }
+];
+
+// 0..1, unlike the bipolar LFOs: silence leaves the target at its set value
+export function readAudioSource(features: AudioFeatures, source: AudioSource): number {
+  switch (source) {
+    case 'beat':
+      // Decaying pulse on every detected beat
+      return features.bpm ? (1 - features.beatPhase) ** 2 : 0;
+    default:
+      return features[source];
+  }
+}
@@ -0,0 +1,243 @@
+import type {
+  AutomationEvent,
+  AutomationLane,
+  AutomationRecordMode,
+  AutomationRecording,
+  AutomationValue
+} from './types';
+
+// Automation record and playback engine.
+// Parameters register an apply function by id. While the transport runs,
+// `tick` advances the beat position at the current BPM and applies every
+// lane event it passes; `recordChange` writes user changes into lanes when
+// recording. Lanes written during the current take aren't played back until
+// the take ends, so the performer always wins over the old automation.
+
+export interface AutomationState {
+  recording: AutomationRecording;
+  isRecording: boolean;
+  mode: AutomationRecordMode;
+  // Grid in beats for recorded events (0.25 = 1/16 note); null = off
+  quantizeBeats: number | null;
+}
+
+export const QUANTIZE_OPTIONS: { beats: number | null; label: string }[] = [
+  { beats: null, label: 'Off' },
+  { beats: 4, label: '1 bar' },
+  { beats: 1, label: '1/4' },
+  { beats: 0.5, label: '1/8' },
+  { beats: 0.25, label: '1/16' },
+  { beats: 0.125, label: '1/32' }
+];
+
+interface AutomationParameter {
+  label: string;
+  apply: (value: AutomationValue) => void;
+}
+
+const EMPTY_RECORDING: AutomationRecording = { bpm: 120, lengthBeats: 0, lanes: [] };
+
+export const quantizeBeat = (beat: number, quantizeBeats: number | null) =>
+  quantizeBeats ? Math.round(beat / quantizeBeats) * quantizeBeats : beat;
+
+// Latest event at or before `beat`
+const valueAt = (events: AutomationEvent[], beat: number): AutomationEvent | undefined => {
+  let found: AutomationEvent | undefined;
+  for (const event of events) {
+    if (event.beat > beat) break;
+    found = event;
+  }
+  return found;
+};
+
+export function createAutomationEngine(initialRecording: AutomationRecording = EMPTY_RECORDING) {
+  const parameters = new Map<string, AutomationParameter>();
+  const listeners = new Set<(state: AutomationState) => void>();
+  // Values this engine applied, so their re-render isn't recorded as a change
+  const lastApplied = new Map<string, AutomationValue>();
+  // Lanes written during the current take
+  const touched = new Set<string>();
+  let state: AutomationState = { recording: initialRecording, isRecording: false, mode: 'overdub', quantizeBeats: null };
+  let position = 0;
+  let lastTickAt: number | null = null;
+  let isRunning = false;
+
+  const setState = (changes: Partial<AutomationState>) => {
+    state = { ...state, ...changes };
+    listeners.forEach(listener => listener(state));
+  };
+
+  const setLanes = (lanes: AutomationLane[], changes: Partial<AutomationRecording> = {}) =>
+    setState({ recording: { ...state.recording, ...changes, lanes } });
+
+  const apply = (parameterId: string, value: AutomationValue) => {
+    const parameter = parameters.get(parameterId);
+    if (!parameter) return;
+    lastApplied.set(parameterId, value);
+    parameter.apply(value);
+  };
+
+  // Brings every lane to its value at the current position
+  const chase = () => {
+    state.recording.lanes.forEach(lane => {
+      if (lane.muted) return;
+      const event = valueAt(lane.events, position);
+      if (event) apply(lane.parameterId, event.value);
+    });
+  };
+
+  const endTake = () => {
+    touched.clear();
+    if (position > state.recording.lengthBeats) {
+      setLanes(state.recording.lanes, { lengthBeats: position });
+    }
+  };
+
+  return {
+    // `apply` may close over component state; register again when it changes
+    registerParameter: (id: string, parameter: AutomationParameter) => {
+      parameters.set(id, parameter);
+      return () => {
+        if (parameters.get(id) === parameter) parameters.delete(id);
+      };
+    },
+
+    // Transport start: back to beat 0 with every lane at its starting value
+    start: () => {
+      position = 0;
+      lastTickAt = null;
+      isRunning = true;
+      touched.clear();
+      chase();
+    },
+
+    stop: () => {
+      if (!isRunning) return;
+      isRunning = false;
+      lastTickAt = null;
+      endTake();
+    },
+
+    // Transport continue: picks up at the position stop left off at
+    resume: () => {
+      if (isRunning) return;
+      lastTickAt = null;
+      isRunning = true;
+      chase();
+    },
+
+    tick: (now: number, bpm: number) => {
+      if (!isRunning) return;
+      const previous = position;
+      if (lastTickAt !== null) {
+        position += ((now - lastTickAt) / 60000) * bpm;
+      }
+      lastTickAt = now;
+      if (position === previous) return;
+
+      state.recording.lanes.forEach(lane => {
+        if (lane.muted || touched.has(lane.parameterId)) return;
+        // Only the last event passed this tick matters
+        let passed: AutomationEvent | undefined;
+        for (const event of lane.events) {
+          if (event.beat > position) break;
+          if (event.beat > previous) passed = event;
+        }
+        if (passed) apply(lane.parameterId, passed.value);
+      });
+    },
+
+    // `previousValue` seeds a new lane at beat 0, so replays start from the same state
+    recordChange: (parameterId: string, value: AutomationValue, previousValue?: AutomationValue) => {
+      if (lastApplied.has(parameterId) && lastApplied.get(parameterId) === value) return;
+      lastApplied.delete(parameterId);
+      if (!state.isRecording || !isRunning) return;
+
+      const beat = quantizeBeat(position, state.quantizeBeats);
+      const existing = state.recording.lanes.find(lane => lane.parameterId === parameterId);
+      let events = existing?.events ?? (previousValue !== undefined && beat > 0 ? [{ beat: 0, value: previousValue }] : []);
+      if (state.mode === 'replace' && !touched.has(parameterId)) {
+        events = events.filter(event => event.beat < beat);
+      }
+      events = [...events.filter(event => event.beat !== beat), { beat, value }]
+        .sort((a, b) => a.beat - b.beat);
+      touched.add(parameterId);
+
+      const lane: AutomationLane = existing
+        ? { ...existing, events }
+        : { parameterId, label: parameters.get(parameterId)?.label ?? parameterId, events, muted: false };
+      setLanes(
+        existing
+          ? state.recording.lanes.map(candidate => (candidate.parameterId === parameterId ? lane : candidate))
+          : [...state.recording.lanes, lane],
+        { lengthBeats: Math.max(state.recording.lengthBeats, beat) }
+      );
+    },
+
+    setRecording: (isRecording: boolean, bpm?: number) => {
+      if (!isRecording) endTake();
+      setState({
+        isRecording,
+        // The first take sets the recording's reference tempo
+        ...(isRecording && bpm !== undefined && state.recording.lanes.length === 0 && {
+          recording: { ...state.recording, bpm }
+        })
+      });
+    },
+
+    setMode: (mode: AutomationRecordMode) => setState({ mode }),
+
+    setQuantize: (quantizeBeats: number | null) => setState({ quantizeBeats }),
+
+    setLaneMuted: (parameterId: string, muted: boolean) => setLanes(
+      state.recording.lanes.map(lane => (lane.parameterId === parameterId ? { ...lane, muted } : lane))
+    ),
+
+    // Snap an existing lane to the current grid; later events win on collisions
+    quantizeLane: (parameterId: string) => {
+      if (!state.quantizeBeats) return;
+      const grid = state.quantizeBeats;
+      setLanes(state.recording.lanes.map(lane => {
+        if (lane.parameterId !== parameterId) return lane;
+        const byBeat = new Map<number, AutomationValue>();
+        lane.events.forEach(event => byBeat.set(quantizeBeat(event.beat, grid), event.value));
+        const events = [...byBeat.entries()]
+          .map(([beat, value]) => ({ beat, value }))
+          .sort((a, b) => a.beat - b.beat);
+        return { ...lane, events };
+      }));
+    },
+
+    removeLane: (parameterId: string) => {
+      touched.delete(parameterId);
+      setLanes(state.recording.lanes.filter(lane => lane.parameterId !== parameterId));
+    },
+
+    load: (recording: AutomationRecording) => {
+      touched.clear();
+      lastApplied.clear();
+      setState({ recording, isRecording: false });
+      if (isRunning) chase();
+    },
+
+    clear: () => {
+      touched.clear();
+      setState({ recording: { ...EMPTY_RECORDING, bpm: state.recording.bpm } });
+    },
+
+    getPosition: () => position,
+
+    isRunning: () => isRunning,
+
+    subscribe: (listener: (state: AutomationState) => void) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    getState: () => state
+  };
+}
+
+export type AutomationEngine = ReturnType<typeof createAutomationEngine>;
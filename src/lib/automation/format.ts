@@ -0,0 +1,82 @@
+import type { AutomationEvent, AutomationLane, AutomationRecording } from './types';
+
+// Versioned JSON file format for automation recordings. Bump the version
+// when the shape changes and upgrade older files in `parseAutomation`, so a
+// rehearsed set keeps replaying the same way.
+
+export const AUTOMATION_FORMAT = 'sdxl-dj-automation';
+export const AUTOMATION_FORMAT_VERSION = 1;
+export const AUTOMATION_FILE_EXTENSION = '.sdxldj-automation.json';
+
+interface AutomationFile extends AutomationRecording {
+  format: typeof AUTOMATION_FORMAT;
+  version: number;
+  savedAt: string;
+}
+
+export function serializeAutomation(recording: AutomationRecording): string {
+  const file: AutomationFile = {
+    format: AUTOMATION_FORMAT,
+    version: AUTOMATION_FORMAT_VERSION,
+    savedAt: new Date().toISOString(),
+    ...recording
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+const isValue = (value: unknown) =>
+  typeof value === 'number' || typeof value === 'string' || typeof value === 'boolean';
+
+export const isEvent = (event: any): event is AutomationEvent =>
+  typeof event?.beat === 'number' && event.beat >= 0 && isValue(event.value);
+
+export const isLane = (lane: any): lane is AutomationLane =>
+  typeof lane?.parameterId === 'string' &&
+  typeof lane.label === 'string' &&
+  Array.isArray(lane.events) &&
+  lane.events.every(isEvent);
+
+// Playback assumes sorted events; files may have been edited by hand
+export const normalizeLane = (lane: AutomationLane): AutomationLane => ({
+  parameterId: lane.parameterId,
+  label: lane.label,
+  events: [...lane.events].sort((a, b) => a.beat - b.beat),
+  muted: lane.muted === true
+});
+
+// Throws with every problem found, like the model manifest validation
+export function parseAutomation(text: string): AutomationRecording {
+  let file: any;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new Error('Automation file is not valid JSON');
+  }
+
+  if (!file || typeof file !== 'object' || file.format !== AUTOMATION_FORMAT) {
+    throw new Error('Not an automation file');
+  }
+  if (typeof file.version !== 'number' || file.version > AUTOMATION_FORMAT_VERSION) {
+    throw new Error(`Automation file version ${file.version} is newer than this app supports (${AUTOMATION_FORMAT_VERSION})`);
+  }
+
+  const problems: string[] = [];
+  if (typeof file.bpm !== 'number' || file.bpm <= 0) problems.push('bpm');
+  if (typeof file.lengthBeats !== 'number' || file.lengthBeats < 0) problems.push('lengthBeats');
+  if (!Array.isArray(file.lanes)) {
+    problems.push('lanes');
+  } else {
+    file.lanes.forEach((lane: unknown, index: number) => {
+      if (!isLane(lane)) problems.push(`lanes[${index}]`);
+    });
+  }
+  if (problems.length > 0) {
+    throw new Error(`Invalid automation file, missing or bad: ${problems.join(', ')}`);
+  }
+
+  return {
+    bpm: file.bpm,
+    lengthBeats: file.lengthBeats,
+    lanes: (file.lanes as AutomationLane[]).map(normalizeLane)
+  };
+}
@@ -0,0 +1,28 @@
+// Automation types. Events are stored in beats from the start of play, so a
+// recording follows the tempo it is played back at.
+
+export type AutomationValue = number | string | boolean;
+
+export interface AutomationEvent {
+  beat: number;
+  value: AutomationValue;
+}
+
+// One lane per parameter; events sorted by beat, at most one per beat
+export interface AutomationLane {
+  // Same ids as MIDI controls where both exist, e.g. 'workspace.bpm'
+  parameterId: string;
+  label: string;
+  events: AutomationEvent[];
+  muted: boolean;
+}
+
+export interface AutomationRecording {
+  // Tempo when recorded; informational, playback follows the current BPM
+  bpm: number;
+  lengthBeats: number;
+  lanes: AutomationLane[];
+}
+
+// 'overdub' adds to a lane; 'replace' clears a lane from the first change onward
+export type AutomationRecordMode = 'overdub' | 'replace';
@@ -0,0 +1,75 @@
+import type { GenerationConfig } from '../types/electron.d.ts';
+
+// Crossfader math for the deck mixer.
+// `position` is 0-1 throughout: 0 is all deck A, 1 is all deck B.
+
+export type CrossfadeCurve = 'linear' | 'constant-power' | 'cut';
+
+// 'output' blends the decks' rendered frames; 'ai' renders one frame from
+// the decks' interpolated prompt embeddings and noise
+export type CrossfadeMode = 'output' | 'ai';
+
+export interface CrossfadeAssignment {
+  a: number;
+  b: number;
+}
+
+export interface CrossfadeGains {
+  a: number;
+  b: number;
+}
+
+export interface MixSource {
+  prompt: string;
+  seed: number;
+}
+
+export function getCrossfadeGains(position: number, curve: CrossfadeCurve): CrossfadeGains {
+  const t = Math.min(1, Math.max(0, position));
+  switch (curve) {
+    case 'constant-power':
+      // Equal perceived energy across the throw; both sides sit at ~0.707 in the middle
+      return { a: Math.cos(t * Math.PI / 2), b: Math.sin(t * Math.PI / 2) };
+    case 'cut':
+      // Hard switch at the centre
+      return t < 0.5 ? { a: 1, b: 0 } : { a: 0, b: 1 };
+    case 'linear':
+    default:
+      return { a: 1 - t, b: t };
+  }
+}
+
+// Gains scaled to sum to 1, for mixing frames rather than audio: adding the
+// constant-power gains would push the centre of the throw to ~1.41x brightness
+export function getFrameMixWeights(gains: CrossfadeGains): CrossfadeGains {
+  const total = gains.a + gains.b;
+  return total > 0 ? { a: gains.a / total, b: gains.b / total } : { a: 0, b: 0 };
+}
+
+// One generation that sits `position` of the way from deck A to deck B:
+// slerped prompt embeddings and slerped noise between the two seeds.
+// With only one deck prompted that deck plays alone, wherever the fader is;
+// returns null when neither deck has a prompt.
+export function createMixConfig(a: MixSource, b: MixSource, position: number): GenerationConfig | null {
+  const hasA = a.prompt.trim() !== '';
+  const hasB = b.prompt.trim() !== '';
+  if (!hasA && !hasB) return null;
+  if (!hasA || !hasB) {
+    const { prompt, seed } = hasA ? a : b;
+    return { prompt, seed };
+  }
+
+  const t = Math.min(1, Math.max(0, position));
+  const prompts = [
+    { text: a.prompt, weight: 1 - t },
+    { text: b.prompt, weight: t }
+  ].filter(p => p.weight > 0);
+
+  return {
+    prompt: prompts[0].text,
+    prompts,
+    prompt_blend: 'slerp',
+    seed: t < 0.5 ? a.seed : b.seed,
+    seed_travel: a.seed !== b.seed ? { seeds: [a.seed, b.seed], position: t } : undefined
+  };
+}
@@ -0,0 +1,202 @@
+import type { GenerationConfig, GenerationResult } from '../types/electron.d.ts';
+
+// Generation scheduler between the renderer and the inference worker.
+// Only one request runs at a time. Each channel (workspace, deck, ...) keeps at
+// most one waiting request, so a newer frame replaces an older one instead of
+// piling up behind a slow UNet.
+
+export type GenerationPriority = 'manual' | 'live';
+
+export interface GenerationRequestOptions {
+  // Requests on the same channel supersede each other
+  channel?: string;
+  // 'manual' (user trigger) runs before and can preempt 'live' (animation ticks)
+  priority?: GenerationPriority;
+}
+
+export interface GenerationQueueStatus {
+  running: { id: number; channel: string; priority: GenerationPriority } | null;
+  queued: number;
+  completed: number;
+  dropped: number;
+  cancelled: number;
+  failed: number;
+  // Wall time of the last finished generation
+  lastDurationMs: number | null;
+}
+
+interface QueuedRequest {
+  id: number;
+  channel: string;
+  priority: GenerationPriority;
+  config: GenerationConfig;
+  resolve: (result: GenerationResult) => void;
+}
+
+type GenerateFn = (config: GenerationConfig) => Promise<GenerationResult>;
+// Called with the id the running request was sent with as request_id
+type CancelFn = (requestId: number) => Promise<unknown>;
+
+const PRIORITY_RANK: Record<GenerationPriority, number> = { manual: 1, live: 0 };
+
+const DROPPED_RESULT: GenerationResult = { success: false, dropped: true, error: 'Superseded by a newer request' };
+const CANCELLED_RESULT: GenerationResult = { success: false, cancelled: true, error: 'Generation cancelled' };
+
+export function createGenerationQueue(generate: GenerateFn, cancelRunning: CancelFn) {
+  let nextId = 1;
+  let waiting: QueuedRequest[] = [];
+  let running: QueuedRequest | null = null;
+  let runningCancelled = false;
+  let status: GenerationQueueStatus = {
+    running: null,
+    queued: 0,
+    completed: 0,
+    dropped: 0,
+    cancelled: 0,
+    failed: 0,
+    lastDurationMs: null
+  };
+  const listeners = new Set<(status: GenerationQueueStatus) => void>();
+
+  const updateStatus = (changes: Partial<GenerationQueueStatus> = {}) => {
+    status = {
+      ...status,
+      ...changes,
+      running: running ? { id: running.id, channel: running.channel, priority: running.priority } : null,
+      queued: waiting.length
+    };
+    listeners.forEach(listener => listener(status));
+  };
+
+  const cancelActive = () => {
+    if (!running || runningCancelled) return;
+    runningCancelled = true;
+    cancelRunning(running.id).catch(error => console.error('❌ Cancel request failed:', error));
+  };
+
+  // Highest priority first, then oldest
+  const takeNext = (): QueuedRequest | undefined => {
+    if (waiting.length === 0) return undefined;
+    let best = waiting[0];
+    for (const request of waiting) {
+      if (PRIORITY_RANK[request.priority] > PRIORITY_RANK[best.priority]) {
+        best = request;
+      }
+    }
+    waiting = waiting.filter(request => request !== best);
+    return best;
+  };
+
+  const pump = async () => {
+    if (running) return;
+    const request = takeNext();
+    if (!request) {
+      updateStatus();
+      return;
+    }
+
+    running = request;
+    runningCancelled = false;
+    updateStatus();
+
+    const startedAt = performance.now();
+    let result: GenerationResult;
+    try {
+      result = await generate({ ...request.config, request_id: request.id });
+    } catch (error) {
+      result = { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+
+    if (runningCancelled && !result.cancelled) {
+      // Finished before the worker saw the cancel; the caller still asked to drop it
+      result = { ...CANCELLED_RESULT };
+    }
+
+    running = null;
+    updateStatus({
+      completed: status.completed + (result.success ? 1 : 0),
+      cancelled: status.cancelled + (result.cancelled ? 1 : 0),
+      failed: status.failed + (!result.success && !result.cancelled ? 1 : 0),
+      lastDurationMs: result.cancelled ? status.lastDurationMs : performance.now() - startedAt
+    });
+    request.resolve(result);
+    pump();
+  };
+
+  const enqueue = (config: GenerationConfig, options: GenerationRequestOptions = {}): Promise<GenerationResult> => {
+    const channel = options.channel ?? 'default';
+    const priority = options.priority ?? 'live';
+
+    // A live tick never displaces a manual request waiting on its channel
+    const pendingOnChannel = waiting.find(request => request.channel === channel);
+    if (pendingOnChannel && PRIORITY_RANK[pendingOnChannel.priority] > PRIORITY_RANK[priority]) {
+      updateStatus({ dropped: status.dropped + 1 });
+      return Promise.resolve({ ...DROPPED_RESULT });
+    }
+
+    return new Promise(resolve => {
+      const request: QueuedRequest = { id: nextId++, channel, priority, config, resolve };
+
+      // Latest wins: drop whatever was still waiting on this channel
+      let dropped = 0;
+      waiting = waiting.filter(existing => {
+        if (existing.channel !== channel) return true;
+        existing.resolve({ ...DROPPED_RESULT });
+        dropped++;
+        return false;
+      });
+      waiting.push(request);
+
+      // Manual triggers preempt a live frame in flight on the same channel
+      if (running && running.channel === channel &&
+          PRIORITY_RANK[priority] > PRIORITY_RANK[running.priority]) {
+        cancelActive();
+      }
+
+      updateStatus({ dropped: status.dropped + dropped });
+      pump();
+    });
+  };
+
+  // Cancels waiting and running requests; limit to one channel when given
+  const cancel = (channel?: string) => {
+    let cancelled = 0;
+    waiting = waiting.filter(request => {
+      if (channel !== undefined && request.channel !== channel) return true;
+      request.resolve({ ...CANCELLED_RESULT });
+      cancelled++;
+      return false;
+    });
+    if (running && (channel === undefined || running.channel === channel)) {
+      cancelActive();
+    }
+    updateStatus({ cancelled: status.cancelled + cancelled });
+  };
+
+  const subscribe = (listener: (status: GenerationQueueStatus) => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  return {
+    enqueue,
+    cancel,
+    subscribe,
+    getStatus: () => status
+  };
+}
+
+export type GenerationQueue = ReturnType<typeof createGenerationQueue>;
+
+const unavailable = async (): Promise<GenerationResult> => ({
+  success: false,
+  error: 'Electron required for SDXL generation'
+});
+
+// Shared by every view so all of them line up behind the same worker
+export const generationQueue = createGenerationQueue(
+  config => (window.electronAPI ? window.electronAPI.generateImage(config) : unavailable()),
+  async requestId => window.electronAPI?.cancelGeneration(requestId)
+);
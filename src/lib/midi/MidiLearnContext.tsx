@@ -0,0 +1,162 @@
+import React, { createContext, useContext, useEffect, useRef, useState, useCallback } from 'react';
+import { createMidiMappingEngine, MidiMappingEngine, MidiMappingState } from './mappingEngine';
+import { getMidiAccess, connectMidiInputs, listMidiOutputs, MidiAccessLike, MidiOutputLike } from './access';
+import {
+  loadMidiProfiles,
+  saveMidiProfile,
+  deleteMidiProfile,
+  getActiveProfileName,
+  setActiveProfileName,
+  DEFAULT_PROFILE_NAME
+} from './profiles';
+import type { MidiBinding, MidiControl, MidiProfile } from './types';
+
+// App-wide MIDI: one mapping engine, the device connection and the active
+// controller profile. Bindings are saved to the active profile as they change.
+
+interface MidiContextValue {
+  engine: MidiMappingEngine;
+  state: MidiMappingState;
+  devices: string[];
+  outputs: MidiOutputLike[];
+  profiles: MidiProfile[];
+  activeProfile: string;
+  loadProfile: (name: string) => void;
+  // Makes `bindings` the named profile's and switches to it (session restore)
+  activateProfile: (name: string, bindings: MidiBinding[]) => void;
+  saveProfileAs: (name: string) => void;
+  deleteProfile: (name: string) => void;
+  // Raw bytes from every input, for consumers other than bindings
+  addMessageListener: (listener: (data: Uint8Array) => void) => () => void;
+}
+
+const MidiContext = createContext<MidiContextValue | null>(null);
+
+const getProfileBindings = (name: string): MidiBinding[] =>
+  loadMidiProfiles().find(profile => profile.name === name)?.bindings ?? [];
+
+interface MidiProviderProps {
+  children: React.ReactNode;
+  // Defaults to navigator.requestMIDIAccess
+  requestAccess?: () => Promise<MidiAccessLike>;
+}
+
+export function MidiProvider({ children, requestAccess }: MidiProviderProps) {
+  const [activeProfile, setActiveProfile] = useState(getActiveProfileName);
+  const [engine] = useState(() => createMidiMappingEngine(getProfileBindings(getActiveProfileName())));
+  const [state, setState] = useState<MidiMappingState>(engine.getState());
+  const [devices, setDevices] = useState<string[]>([]);
+  const [outputs, setOutputs] = useState<MidiOutputLike[]>([]);
+  const [profiles, setProfiles] = useState<MidiProfile[]>(loadMidiProfiles);
+  const messageListeners = useRef(new Set<(data: Uint8Array) => void>());
+  const activeProfileRef = useRef(activeProfile);
+  activeProfileRef.current = activeProfile;
+
+  // Autosave into the active profile whenever bindings change
+  useEffect(() => {
+    let savedBindings = engine.getState().bindings;
+    return engine.subscribe(next => {
+      setState(next);
+      if (next.bindings !== savedBindings) {
+        savedBindings = next.bindings;
+        setProfiles(saveMidiProfile(activeProfileRef.current, next.bindings));
+      }
+    });
+  }, [engine]);
+
+  useEffect(() => {
+    let disconnect: (() => void) | null = null;
+    let cancelled = false;
+
+    getMidiAccess(requestAccess).then(access => {
+      if (!access || cancelled) return;
+      disconnect = connectMidiInputs(access, (data) => {
+        engine.handleRawMessage(data);
+        messageListeners.current.forEach(listener => listener(data));
+      }, (names) => {
+        setDevices(names);
+        setOutputs(listMidiOutputs(access));
+      });
+    });
+
+    return () => {
+      cancelled = true;
+      disconnect?.();
+    };
+  }, [engine, requestAccess]);
+
+  // The autosave above writes the bindings into the newly active profile
+  const activateProfile = useCallback((name: string, bindings: MidiBinding[]) => {
+    setActiveProfileName(name);
+    setActiveProfile(name);
+    activeProfileRef.current = name;
+    engine.setBindings(bindings);
+  }, [engine]);
+
+  const loadProfile = useCallback((name: string) => {
+    activateProfile(name, getProfileBindings(name));
+  }, [activateProfile]);
+
+  const saveProfileAs = useCallback((name: string) => {
+    setProfiles(saveMidiProfile(name, engine.getState().bindings));
+    setActiveProfileName(name);
+    setActiveProfile(name);
+  }, [engine]);
+
+  const deleteProfile = useCallback((name: string) => {
+    setProfiles(deleteMidiProfile(name));
+    if (name === activeProfileRef.current) {
+      loadProfile(DEFAULT_PROFILE_NAME);
+    }
+  }, [loadProfile]);
+
+  const addMessageListener = useCallback((listener: (data: Uint8Array) => void) => {
+    messageListeners.current.add(listener);
+    return () => {
+      messageListeners.current.delete(listener);
+    };
+  }, []);
+
+  return (
+    <MidiContext.Provider value={{
+      engine,
+      state,
+      devices,
+      outputs,
+      profiles,
+      activeProfile,
+      loadProfile,
+      activateProfile,
+      saveProfileAs,
+      deleteProfile,
+      addMessageListener
+    }}>
+      {children}
+    </MidiContext.Provider>
+  );
+}
+
+export function useMidi(): MidiContextValue {
+  const context = useContext(MidiContext);
+  if (!context) {
+    throw new Error('useMidi must be used inside a MidiProvider');
+  }
+  return context;
+}
+
+// Register a control with the engine for as long as the component is mounted.
+// The latest `control` is read on every message, so it can close over state.
+export function useMidiControl(control: MidiControl) {
+  const { engine, state } = useMidi();
+  const controlRef = useRef(control);
+  controlRef.current = control;
+
+  useEffect(() => engine.registerControl(control.id, () => controlRef.current), [engine, control.id]);
+
+  return {
+    learning: state.learning,
+    isLearnTarget: state.learnTarget === control.id,
+    binding: state.bindings.find(binding => binding.controlId === control.id) ?? null,
+    startLearn: () => engine.startLearn(control.id)
+  };
+}
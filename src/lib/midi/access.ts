@@ -0,0 +1,88 @@
+// Web MIDI access, requested once per app.
+// Only the parts of MIDIAccess we use are typed here, so a fake object with
+// `inputs`, `outputs` and `onstatechange` can stand in for the browser's.
+
+export interface MidiInputLike {
+  id: string;
+  name?: string | null;
+  onmidimessage: ((event: { data: Uint8Array | null }) => void) | null;
+}
+
+export interface MidiOutputLike {
+  id: string;
+  name?: string | null;
+  // `timestamp` is in performance.now() time
+  send: (data: number[], timestamp?: number) => void;
+}
+
+export interface MidiAccessLike {
+  inputs: { forEach: (callback: (input: MidiInputLike) => void) => void };
+  outputs?: { forEach: (callback: (output: MidiOutputLike) => void) => void };
+  onstatechange: ((event: unknown) => void) | null;
+}
+
+type RequestMidiAccess = () => Promise<MidiAccessLike>;
+
+let accessPromise: Promise<MidiAccessLike | null> | null = null;
+
+const requestBrowserAccess: RequestMidiAccess = () =>
+  navigator.requestMIDIAccess() as unknown as Promise<MidiAccessLike>;
+
+// Resolves to null when Web MIDI is unavailable or permission is denied
+export function getMidiAccess(request: RequestMidiAccess = requestBrowserAccess): Promise<MidiAccessLike | null> {
+  if (!accessPromise) {
+    if (request === requestBrowserAccess && !('requestMIDIAccess' in navigator)) {
+      accessPromise = Promise.resolve(null);
+    } else {
+      accessPromise = request().catch(error => {
+        console.error('MIDI initialization failed:', error);
+        return null;
+      });
+    }
+  }
+  return accessPromise;
+}
+
+// Forget the cached access so the next getMidiAccess() asks again
+export function resetMidiAccess() {
+  accessPromise = null;
+}
+
+export const listMidiInputNames = (access: MidiAccessLike) => {
+  const names: string[] = [];
+  access.inputs.forEach(input => names.push(input.name || 'Unknown Device'));
+  return names;
+};
+
+export const listMidiOutputs = (access: MidiAccessLike) => {
+  const outputs: MidiOutputLike[] = [];
+  access.outputs?.forEach(output => outputs.push(output));
+  return outputs;
+};
+
+// Route every input's messages to `onMessage`, re-attaching when devices come
+// and go. Returns a function that detaches everything.
+export function connectMidiInputs(
+  access: MidiAccessLike,
+  onMessage: (data: Uint8Array, input: MidiInputLike) => void,
+  onDevicesChange?: (names: string[]) => void
+) {
+  const attach = () => {
+    access.inputs.forEach(input => {
+      input.onmidimessage = (event) => {
+        if (event.data) onMessage(event.data, input);
+      };
+    });
+    onDevicesChange?.(listMidiInputNames(access));
+  };
+
+  attach();
+  access.onstatechange = attach;
+
+  return () => {
+    access.onstatechange = null;
+    access.inputs.forEach(input => {
+      input.onmidimessage = null;
+    });
+  };
+}
@@ -0,0 +1,167 @@
+import type { MidiOutputLike } from './access';
+
+// MIDI clock in and out, plus tap tempo.
+// Clock runs at 24 pulses per quarter note. BPM is measured across the last
+// beat of pulses (per-pulse jitter cancels out) and then smoothed.
+// Transport messages (start/continue/stop) are single bytes.
+
+export const MIDI_CLOCK = 0xf8;
+export const MIDI_START = 0xfa;
+export const MIDI_CONTINUE = 0xfb;
+export const MIDI_STOP = 0xfc;
+
+const PULSES_PER_QUARTER = 24;
+// Weight of each new measurement in the running average
+const DEFAULT_SMOOTHING = 0.1;
+// BPM changes smaller than this are not reported, so jitter doesn't thrash state
+const DEFAULT_RESOLUTION = 0.1;
+// No pulse for this long means the clock source went away
+const CLOCK_TIMEOUT_MS = 500;
+
+interface ClockFollowerOptions {
+  onTempo?: (bpm: number) => void;
+  onStart?: () => void;
+  onContinue?: () => void;
+  onStop?: () => void;
+  smoothing?: number;
+  resolution?: number;
+  now?: () => number;
+}
+
+export function createMidiClockFollower({
+  onTempo,
+  onStart,
+  onContinue,
+  onStop,
+  smoothing = DEFAULT_SMOOTHING,
+  resolution = DEFAULT_RESOLUTION,
+  now = () => performance.now()
+}: ClockFollowerOptions = {}) {
+  // Times of the last beat's worth of pulses
+  let pulseTimes: number[] = [];
+  let averageInterval: number | null = null;
+  let reportedBpm: number | null = null;
+  let pulseCount = 0;
+
+  const reset = () => {
+    pulseTimes = [];
+    averageInterval = null;
+    reportedBpm = null;
+  };
+
+  const handlePulse = () => {
+    const time = now();
+    const lastPulseAt = pulseTimes[pulseTimes.length - 1];
+    if (lastPulseAt !== undefined && time - lastPulseAt > CLOCK_TIMEOUT_MS) {
+      // Resuming after a gap; the old measurements no longer apply
+      reset();
+    }
+    pulseTimes = [...pulseTimes, time].slice(-(PULSES_PER_QUARTER + 1));
+    pulseCount++;
+
+    if (pulseTimes.length < 2) return;
+    const interval = (time - pulseTimes[0]) / (pulseTimes.length - 1);
+    averageInterval = averageInterval === null
+      ? interval
+      : averageInterval + (interval - averageInterval) * smoothing;
+
+    if (averageInterval <= 0) return;
+    const bpm = Math.round(60000 / (averageInterval * PULSES_PER_QUARTER) / resolution) * resolution;
+    if (reportedBpm === null || Math.abs(bpm - reportedBpm) >= resolution) {
+      reportedBpm = bpm;
+      onTempo?.(Number(bpm.toFixed(2)));
+    }
+  };
+
+  return {
+    handleRawMessage: (data: ArrayLike<number>) => {
+      switch (data[0]) {
+        case MIDI_CLOCK:
+          handlePulse();
+          break;
+        case MIDI_START:
+          pulseCount = 0;
+          onStart?.();
+          break;
+        case MIDI_CONTINUE:
+          onContinue?.();
+          break;
+        case MIDI_STOP:
+          onStop?.();
+          break;
+      }
+    },
+
+    isReceiving: () => pulseTimes.length > 0 && now() - pulseTimes[pulseTimes.length - 1] < CLOCK_TIMEOUT_MS,
+
+    // Pulses since the last start; 24 per beat
+    getPulseCount: () => pulseCount,
+
+    reset
+  };
+}
+
+const TAP_TIMEOUT_MS = 2000;
+const MAX_TAPS = 8;
+
+// Average of the last few tap intervals; a long pause starts a new run
+export function createTapTempo(now: () => number = () => performance.now()) {
+  let taps: number[] = [];
+
+  return {
+    // Returns the tapped BPM once there are at least two taps
+    tap: (): number | null => {
+      const time = now();
+      if (taps.length > 0 && time - taps[taps.length - 1] > TAP_TIMEOUT_MS) {
+        taps = [];
+      }
+      taps = [...taps, time].slice(-MAX_TAPS);
+      if (taps.length < 2) return null;
+
+      const averageInterval = (taps[taps.length - 1] - taps[0]) / (taps.length - 1);
+      return Math.round((60000 / averageInterval) * 10) / 10;
+    },
+
+    reset: () => {
+      taps = [];
+    }
+  };
+}
+
+// Scheduler wakes this often and queues pulses this far ahead using
+// timestamped sends, so timer jitter doesn't reach the clock
+const SCHEDULE_INTERVAL_MS = 25;
+const LOOKAHEAD_MS = 100;
+
+// Sends MIDI clock at the current `getBpm()` to one output
+export function createMidiClockSender(output: MidiOutputLike, getBpm: () => number, now: () => number = () => performance.now()) {
+  let timer: ReturnType<typeof setInterval> | null = null;
+  let nextPulseAt = 0;
+
+  const schedule = () => {
+    const horizon = now() + LOOKAHEAD_MS;
+    while (nextPulseAt < horizon) {
+      output.send([MIDI_CLOCK], nextPulseAt);
+      nextPulseAt += 60000 / (getBpm() * PULSES_PER_QUARTER);
+    }
+  };
+
+  const stop = () => {
+    if (!timer) return;
+    clearInterval(timer);
+    timer = null;
+    output.send([MIDI_STOP]);
+  };
+
+  return {
+    start: () => {
+      if (timer) return;
+      output.send([MIDI_START]);
+      nextPulseAt = now();
+      schedule();
+      timer = setInterval(schedule, SCHEDULE_INTERVAL_MS);
+    },
+    stop,
+    isRunning: () => timer !== null
+  };
+}
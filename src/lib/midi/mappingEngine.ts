@@ -0,0 +1,250 @@
+import type { MidiBinding, MidiControl, MidiMessage, MidiSource } from './types';
+
+// MIDI learn and binding engine.
+// Controls register themselves by id; incoming messages either complete a
+// pending learn or are applied to every binding on their source. The engine
+// has no React or Web MIDI dependency, so it can be driven with plain
+// messages (see parseMidiMessage) or a fake MIDIAccess in tests.
+
+export interface MidiMappingState {
+  // Learn mode: controls are highlighted and clicking one arms it
+  learning: boolean;
+  // Control waiting for the next hardware message
+  learnTarget: string | null;
+  bindings: MidiBinding[];
+}
+
+// Soft takeover picks up within this distance of the on-screen value (0-1)
+const TAKEOVER_THRESHOLD = 0.04;
+// One relative encoder tick, as a fraction of the control's range
+const RELATIVE_STEP = 1 / 127;
+// Button CCs send 127 on press and 0 on release
+const CC_PRESS_THRESHOLD = 64;
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+export const parseMidiMessage = (data: ArrayLike<number>): MidiMessage | null => {
+  if (data.length < 3) return null;
+  const status = data[0] & 0xf0;
+  const channel = data[0] & 0x0f;
+  const number = data[1];
+  const value = data[2];
+
+  if (status === 0xb0) return { type: 'cc', channel, number, value };
+  // Note-on with velocity 0 is a note-off by convention
+  if (status === 0x90) return { type: value > 0 ? 'note-on' : 'note-off', channel, number, value };
+  if (status === 0x80) return { type: 'note-off', channel, number, value };
+  return null;
+};
+
+export const getMessageSource = (message: MidiMessage): MidiSource => ({
+  type: message.type === 'cc' ? 'cc' : 'note',
+  channel: message.channel,
+  number: message.number
+});
+
+export const isSameSource = (a: MidiSource, b: MidiSource) =>
+  a.type === b.type && a.channel === b.channel && a.number === b.number;
+
+export const describeMidiSource = (source: MidiSource) =>
+  `${source.type === 'cc' ? 'CC' : 'Note'} ${source.number} · ch ${source.channel + 1}`;
+
+export const createBinding = (controlId: string, source: MidiSource): MidiBinding => ({
+  controlId,
+  source,
+  rangeMin: 0,
+  rangeMax: 1,
+  invert: false,
+  encoding: 'absolute',
+  softTakeover: false
+});
+
+// Control value ↔ 0-1
+const toNormalized = (control: MidiControl, value: number) => {
+  const min = control.min ?? 0;
+  const max = control.max ?? 1;
+  return max === min ? 0 : clamp01((value - min) / (max - min));
+};
+
+const fromNormalized = (control: MidiControl, normalized: number) => {
+  const min = control.min ?? 0;
+  const max = control.max ?? 1;
+  const value = min + clamp01(normalized) * (max - min);
+  return control.step ? Math.round(value / control.step) * control.step : value;
+};
+
+export function createMidiMappingEngine(initialBindings: MidiBinding[] = []) {
+  const controls = new Map<string, () => MidiControl>();
+  const listeners = new Set<(state: MidiMappingState) => void>();
+  // Per-binding soft takeover state, keyed by control id
+  const pickedUp = new Map<string, boolean>();
+  const lastSent = new Map<string, number>();
+  const lastHardware = new Map<string, number>();
+  // Last raw CC value per binding, for press detection on trigger controls
+  const lastCC = new Map<string, number>();
+  let state: MidiMappingState = { learning: false, learnTarget: null, bindings: initialBindings };
+
+  const setState = (changes: Partial<MidiMappingState>) => {
+    state = { ...state, ...changes };
+    listeners.forEach(listener => listener(state));
+  };
+
+  const resetTakeover = (controlId: string) => {
+    pickedUp.delete(controlId);
+    lastSent.delete(controlId);
+    lastHardware.delete(controlId);
+    lastCC.delete(controlId);
+  };
+
+  // Hardware position (0-1) → control position (0-1) through range and inversion
+  const mapHardware = (binding: MidiBinding, hardware: number) => {
+    const position = binding.invert ? 1 - hardware : hardware;
+    return binding.rangeMin + position * (binding.rangeMax - binding.rangeMin);
+  };
+
+  const applyAbsolute = (binding: MidiBinding, control: MidiControl, target: number) => {
+    if (!control.setValue) return;
+
+    if (binding.softTakeover && control.getValue) {
+      const current = toNormalized(control, control.getValue());
+      const sent = lastSent.get(binding.controlId);
+      // Something else moved the control since we last set it; take over again
+      if (sent !== undefined && Math.abs(current - sent) > TAKEOVER_THRESHOLD) {
+        pickedUp.set(binding.controlId, false);
+      }
+
+      if (!pickedUp.get(binding.controlId)) {
+        const previous = lastHardware.get(binding.controlId);
+        lastHardware.set(binding.controlId, target);
+        const crossed = previous !== undefined &&
+          (previous - current) * (target - current) <= 0;
+        if (!crossed && Math.abs(target - current) > TAKEOVER_THRESHOLD) return;
+        pickedUp.set(binding.controlId, true);
+      }
+    }
+
+    lastSent.set(binding.controlId, target);
+    control.setValue(fromNormalized(control, target));
+  };
+
+  const applyRelative = (binding: MidiBinding, control: MidiControl, value: number) => {
+    if (!control.setValue || !control.getValue) return;
+    const delta = (value < 64 ? value : value - 128) * (binding.invert ? -1 : 1);
+    const low = Math.min(binding.rangeMin, binding.rangeMax);
+    const high = Math.max(binding.rangeMin, binding.rangeMax);
+    const current = toNormalized(control, control.getValue());
+    const next = Math.min(high, Math.max(low, current + delta * RELATIVE_STEP));
+    control.setValue(fromNormalized(control, next));
+  };
+
+  const applyBinding = (binding: MidiBinding, message: MidiMessage) => {
+    const control = controls.get(binding.controlId)?.();
+    if (!control) return;
+
+    if (control.kind === 'trigger') {
+      if (message.type === 'note-on') {
+        control.trigger?.();
+      } else if (message.type === 'cc') {
+        const previous = lastCC.get(binding.controlId) ?? 0;
+        lastCC.set(binding.controlId, message.value);
+        if (previous < CC_PRESS_THRESHOLD && message.value >= CC_PRESS_THRESHOLD) {
+          control.trigger?.();
+        }
+      }
+      return;
+    }
+
+    if (message.type === 'note-off') return;
+    if (binding.encoding === 'relative' && message.type === 'cc') {
+      applyRelative(binding, control, message.value);
+    } else {
+      applyAbsolute(binding, control, mapHardware(binding, message.value / 127));
+    }
+  };
+
+  const handleMessage = (message: MidiMessage) => {
+    const source = getMessageSource(message);
+
+    if (state.learnTarget) {
+      // A key release is not a deliberate move
+      if (message.type === 'note-off') return;
+      const controlId = state.learnTarget;
+      const existing = state.bindings.find(binding => binding.controlId === controlId);
+      const binding = existing && isSameSource(existing.source, source)
+        ? existing
+        : { ...createBinding(controlId, source), ...(existing && {
+            rangeMin: existing.rangeMin,
+            rangeMax: existing.rangeMax,
+            invert: existing.invert,
+            softTakeover: existing.softTakeover
+          }) };
+      resetTakeover(controlId);
+      // One source per control; a source may drive several controls
+      setState({
+        learnTarget: null,
+        bindings: [...state.bindings.filter(b => b.controlId !== controlId), binding]
+      });
+      return;
+    }
+
+    state.bindings
+      .filter(binding => isSameSource(binding.source, source))
+      .forEach(binding => applyBinding(binding, message));
+  };
+
+  return {
+    handleMessage,
+
+    handleRawMessage: (data: ArrayLike<number>) => {
+      const message = parseMidiMessage(data);
+      if (message) handleMessage(message);
+    },
+
+    // `getControl` is read on every message so it can return the latest state
+    registerControl: (id: string, getControl: () => MidiControl) => {
+      controls.set(id, getControl);
+      return () => {
+        if (controls.get(id) === getControl) controls.delete(id);
+      };
+    },
+
+    getControl: (id: string) => controls.get(id)?.() ?? null,
+
+    setLearning: (learning: boolean) => setState({ learning, learnTarget: null }),
+
+    // Arm a control; the next message binds to it
+    startLearn: (controlId: string) => setState({ learning: true, learnTarget: controlId }),
+
+    cancelLearn: () => setState({ learnTarget: null }),
+
+    setBindings: (bindings: MidiBinding[]) => {
+      [pickedUp, lastSent, lastHardware, lastCC].forEach(map => map.clear());
+      setState({ bindings, learnTarget: null });
+    },
+
+    updateBinding: (controlId: string, changes: Partial<Omit<MidiBinding, 'controlId' | 'source'>>) => {
+      resetTakeover(controlId);
+      setState({
+        bindings: state.bindings.map(binding =>
+          binding.controlId === controlId ? { ...binding, ...changes } : binding
+        )
+      });
+    },
+
+    removeBinding: (controlId: string) => {
+      resetTakeover(controlId);
+      setState({ bindings: state.bindings.filter(binding => binding.controlId !== controlId) });
+    },
+
+    subscribe: (listener: (state: MidiMappingState) => void) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    getState: () => state
+  };
+}
+
+export type MidiMappingEngine = ReturnType<typeof createMidiMappingEngine>;
@@ -0,0 +1,59 @@
+import type { MidiBinding, MidiProfile } from './types';
+
+// Named controller profiles in localStorage, next to the preset bank
+// ('sdxl-dj-presets'). Storage is injectable for tests.
+
+type ProfileStorage = Pick<Storage, 'getItem' | 'setItem'>;
+
+const PROFILES_KEY = 'sdxl-dj-midi-profiles';
+const ACTIVE_PROFILE_KEY = 'sdxl-dj-midi-active-profile';
+
+export const DEFAULT_PROFILE_NAME = 'Default';
+
+// For bindings read back from storage or a session file
+export const isMidiBinding = (binding: any): binding is MidiBinding =>
+  typeof binding?.controlId === 'string' &&
+  (binding.source?.type === 'cc' || binding.source?.type === 'note') &&
+  Number.isInteger(binding.source.channel) &&
+  Number.isInteger(binding.source.number) &&
+  typeof binding.rangeMin === 'number' &&
+  typeof binding.rangeMax === 'number' &&
+  typeof binding.invert === 'boolean' &&
+  (binding.encoding === 'absolute' || binding.encoding === 'relative') &&
+  typeof binding.softTakeover === 'boolean';
+
+export function loadMidiProfiles(storage: ProfileStorage = localStorage): MidiProfile[] {
+  try {
+    const stored = storage.getItem(PROFILES_KEY);
+    const profiles = stored ? JSON.parse(stored) : [];
+    return Array.isArray(profiles)
+      ? profiles.filter(profile => typeof profile?.name === 'string' && Array.isArray(profile.bindings))
+      : [];
+  } catch (error) {
+    console.warn('⚠️ Ignoring unreadable MIDI profiles:', error);
+    return [];
+  }
+}
+
+// Creates or replaces the profile with this name
+export function saveMidiProfile(name: string, bindings: MidiBinding[], storage: ProfileStorage = localStorage): MidiProfile[] {
+  const profile: MidiProfile = { name, bindings, updatedAt: new Date().toISOString() };
+  const profiles = [...loadMidiProfiles(storage).filter(p => p.name !== name), profile]
+    .sort((a, b) => a.name.localeCompare(b.name));
+  storage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+  return profiles;
+}
+
+export function deleteMidiProfile(name: string, storage: ProfileStorage = localStorage): MidiProfile[] {
+  const profiles = loadMidiProfiles(storage).filter(p => p.name !== name);
+  storage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+  return profiles;
+}
+
+export function getActiveProfileName(storage: ProfileStorage = localStorage): string {
+  return storage.getItem(ACTIVE_PROFILE_KEY) || DEFAULT_PROFILE_NAME;
+}
+
+export function setActiveProfileName(name: string, storage: ProfileStorage = localStorage) {
+  storage.setItem(ACTIVE_PROFILE_KEY, name);
+}
@@ -0,0 +1,60 @@
+// Shared MIDI types. Messages are parsed once at the input and everything
+// downstream (learn, bindings, profiles) works on these plain objects.
+
+export type MidiMessageType = 'cc' | 'note-on' | 'note-off';
+
+export interface MidiMessage {
+  type: MidiMessageType;
+  // 0-15
+  channel: number;
+  // Controller or note number
+  number: number;
+  // 0-127 (velocity for notes)
+  value: number;
+}
+
+// Hardware control a binding listens to; note-on and note-off share a source
+export interface MidiSource {
+  type: 'cc' | 'note';
+  channel: number;
+  number: number;
+}
+
+// 'continuous' controls take a value in [min, max]; 'trigger' controls
+// (play/pause, preset pads) fire on a press
+export type MidiControlKind = 'continuous' | 'trigger';
+
+export interface MidiControl {
+  // Stable across sessions; profiles store bindings by this id
+  id: string;
+  label: string;
+  kind: MidiControlKind;
+  min?: number;
+  max?: number;
+  step?: number;
+  getValue?: () => number;
+  setValue?: (value: number) => void;
+  trigger?: () => void;
+}
+
+// 'absolute' knobs and faders send their position; 'relative' encoders send
+// signed steps (two's complement: 1-63 up, 65-127 down)
+export type MidiEncoding = 'absolute' | 'relative';
+
+export interface MidiBinding {
+  controlId: string;
+  source: MidiSource;
+  // Part of the control's range the hardware sweeps, 0-1
+  rangeMin: number;
+  rangeMax: number;
+  invert: boolean;
+  encoding: MidiEncoding;
+  // Ignore an absolute control until it reaches the on-screen value
+  softTakeover: boolean;
+}
+
+export interface MidiProfile {
+  name: string;
+  bindings: MidiBinding[];
+  updatedAt: string;
+}
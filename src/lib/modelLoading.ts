@@ -0,0 +1,26 @@
+import '../types/electron.d.ts';
+
+// Loads the default model for views that generate without a loader of their
+// own (the decks and the master's AI mix). `window.modelsLoaded` stays the one
+// flag every view reads, and the workspace's Stop clears it when it unloads.
+// Callers that arrive during a load wait on the same one.
+
+let pendingLoad: Promise<void> | null = null;
+
+export function ensureModelLoaded(): Promise<void> {
+  if (window.modelsLoaded) return Promise.resolve();
+  if (!window.electronAPI) return Promise.reject(new Error('Generation needs the Electron app'));
+
+  if (!pendingLoad) {
+    console.log('🔄 Loading models for generation...');
+    pendingLoad = window.electronAPI.loadModel({ backend: 'cpu' })
+      .then(result => {
+        if (!result.success) throw new Error(result.error || 'Failed to load model');
+        window.modelsLoaded = true;
+      })
+      .finally(() => {
+        pendingLoad = null;
+      });
+  }
+  return pendingLoad;
+}
@@ -0,0 +1,112 @@
+import React, { createContext, useContext, useEffect, useRef, useState } from 'react';
+import { createModulationMatrix, ModulationMatrix, ModulationMatrixState } from './matrix';
+import { DEFAULT_ENVELOPE, EnvelopeSettings, readEnvelope } from './envelope';
+import { useMidi } from '../midi/MidiLearnContext';
+import { describeMidiSource, parseMidiMessage } from '../midi/mappingEngine';
+import { AUDIO_SOURCES, readAudioSource } from '../audio/sources';
+import { useAudioAnalysis } from '../../hooks/useAudioAnalysis';
+
+// App-wide modulation: the matrix plus the sources that don't belong to one
+// view (audio input, MIDI CC, envelopes). Views register their own sources
+// (the workspace LFOs) and evaluate the matrix for their destinations.
+
+interface ModulationContextValue {
+  matrix: ModulationMatrix;
+  state: ModulationMatrixState;
+  audio: ReturnType<typeof useAudioAnalysis>;
+  envelope: EnvelopeSettings;
+  setEnvelope: (envelope: EnvelopeSettings) => void;
+}
+
+const ModulationContext = createContext<ModulationContextValue | null>(null);
+
+export function ModulationProvider({ children }: { children: React.ReactNode }) {
+  const [matrix] = useState(() => createModulationMatrix());
+  const [state, setState] = useState<ModulationMatrixState>(matrix.getState());
+  const [envelope, setEnvelope] = useState<EnvelopeSettings>(DEFAULT_ENVELOPE);
+  const audio = useAudioAnalysis();
+  const { addMessageListener } = useMidi();
+  const envelopeRef = useRef(envelope);
+  envelopeRef.current = envelope;
+  const lastNoteAtRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    setState(matrix.getState());
+    return matrix.subscribe(setState);
+  }, [matrix]);
+
+  useEffect(() => {
+    const { getFeatures } = audio;
+    const unregister = [
+      ...AUDIO_SOURCES.map(source => matrix.registerSource(
+        { id: `audio.${source.value}`, label: source.label, group: 'Audio', bipolar: false },
+        () => readAudioSource(getFeatures(), source.value)
+      )),
+      matrix.registerSource(
+        { id: 'env.onset', label: 'Audio onset envelope', group: 'Envelopes', bipolar: false },
+        () => {
+          const features = getFeatures();
+          const elapsed = features.onsetTime === null ? null : (features.time - features.onsetTime) * 1000;
+          return readEnvelope(elapsed, envelopeRef.current);
+        }
+      ),
+      matrix.registerSource(
+        { id: 'env.note', label: 'MIDI note envelope', group: 'Envelopes', bipolar: false },
+        () => readEnvelope(
+          lastNoteAtRef.current === null ? null : performance.now() - lastNoteAtRef.current,
+          envelopeRef.current
+        )
+      )
+    ];
+    return () => unregister.forEach(fn => fn());
+  }, [matrix, audio.getFeatures]);
+
+  // Each CC becomes a source the first time it moves
+  useEffect(() => {
+    const ccValues = new Map<string, number>();
+    const unregister: (() => void)[] = [];
+
+    const unsubscribe = addMessageListener(data => {
+      const message = parseMidiMessage(data);
+      if (!message) return;
+      if (message.type === 'note-on') {
+        lastNoteAtRef.current = performance.now();
+        return;
+      }
+      if (message.type !== 'cc') return;
+
+      const id = `midi.cc.${message.channel}.${message.number}`;
+      if (!ccValues.has(id)) {
+        unregister.push(matrix.registerSource(
+          {
+            id,
+            label: describeMidiSource({ type: 'cc', channel: message.channel, number: message.number }),
+            group: 'MIDI CC',
+            bipolar: false
+          },
+          () => ccValues.get(id) ?? 0
+        ));
+      }
+      ccValues.set(id, message.value / 127);
+    });
+
+    return () => {
+      unsubscribe();
+      unregister.forEach(fn => fn());
+    };
+  }, [matrix, addMessageListener]);
+
+  return (
+    <ModulationContext.Provider value={{ matrix, state, audio, envelope, setEnvelope }}>
+      {children}
+    </ModulationContext.Provider>
+  );
+}
+
+export function useModulation(): ModulationContextValue {
+  const context = useContext(ModulationContext);
+  if (!context) {
+    throw new Error('useModulation must be used inside a ModulationProvider');
+  }
+  return context;
+}
@@ -0,0 +1,16 @@
+// Attack/decay envelopes for trigger sources (audio onsets, MIDI notes).
+// Stateless: the value is a function of the time since the last trigger.
+
+export interface EnvelopeSettings {
+  attackMs: number;
+  decayMs: number;
+}
+
+export const DEFAULT_ENVELOPE: EnvelopeSettings = { attackMs: 10, decayMs: 400 };
+
+// Linear rise to 1 over the attack, then linear fall to 0; 0 before any trigger
+export function readEnvelope(elapsedMs: number | null, { attackMs, decayMs }: EnvelopeSettings): number {
+  if (elapsedMs === null || elapsedMs < 0) return 0;
+  if (elapsedMs < attackMs) return elapsedMs / attackMs;
+  return Math.max(0, 1 - (elapsedMs - attackMs) / Math.max(1, decayMs));
+}
@@ -0,0 +1,184 @@
+import type {
+  ModulationAmounts,
+  ModulationCurve,
+  ModulationDestination,
+  ModulationRoute,
+  ModulationSourceInfo
+} from './types';
+
+// Modulation matrix engine.
+// Sources register a reader by id (LFOs from the workspace, audio, MIDI CC,
+// envelopes); routes are plain data, so a route can point at a source that
+// isn't available right now and simply contributes nothing. `evaluate` reads
+// every routed source once and returns the summed amount per destination.
+
+export interface ModulationMatrixState {
+  routes: ModulationRoute[];
+  // Registered sources, in registration order
+  sources: ModulationSourceInfo[];
+}
+
+interface DestinationRange {
+  min: number;
+  max: number;
+  integer?: boolean;
+}
+
+// Seed has no range of its own: the workspace maps it onto the travel path
+// (or a ±1000 jump) depending on seed mode
+const DESTINATION_RANGES: Record<Exclude<ModulationDestination, 'seed' | `prompt.${number}.weight`>, DestinationRange> = {
+  cfg: { min: 1, max: 12 },
+  steps: { min: 1, max: 7, integer: true },
+  strength: { min: 0.1, max: 1 },
+  crossfader: { min: 0, max: 100 }
+};
+
+const PROMPT_WEIGHT_RANGE: DestinationRange = { min: 0, max: 100 };
+
+export const promptWeightDestination = (promptId: number): ModulationDestination => `prompt.${promptId}.weight`;
+
+export const getModulationDestinations = (promptIds: number[]): { id: ModulationDestination; label: string }[] => [
+  { id: 'seed', label: 'Seed position' },
+  ...promptIds.map(promptId => ({ id: promptWeightDestination(promptId), label: `Prompt ${promptId} weight` })),
+  { id: 'cfg', label: 'CFG scale' },
+  { id: 'steps', label: 'Steps' },
+  { id: 'strength', label: 'Img2img strength' },
+  { id: 'crossfader', label: 'Crossfader' }
+];
+
+export const MODULATION_CURVES: { value: ModulationCurve; label: string }[] = [
+  { value: 'linear', label: 'Linear' },
+  { value: 'exponential', label: 'Exponential' },
+  { value: 'logarithmic', label: 'Logarithmic' },
+  { value: 's-curve', label: 'S-curve' }
+];
+
+const isDestination = (destination: unknown) =>
+  typeof destination === 'string' &&
+  (destination === 'seed' || destination in DESTINATION_RANGES || /^prompt\.\d+\.weight$/.test(destination));
+
+// For routes read back from disk; an unknown curve or polarity would break shaping
+export const isModulationRoute = (route: any): route is ModulationRoute =>
+  typeof route?.id === 'string' &&
+  typeof route.sourceId === 'string' &&
+  isDestination(route.destination) &&
+  typeof route.depth === 'number' &&
+  typeof route.offset === 'number' &&
+  (route.polarity === 'unipolar' || route.polarity === 'bipolar') &&
+  MODULATION_CURVES.some(curve => curve.value === route.curve) &&
+  typeof route.enabled === 'boolean';
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+const CURVES: Record<ModulationCurve, (value: number) => number> = {
+  linear: value => value,
+  exponential: value => value * value,
+  logarithmic: value => Math.sqrt(value),
+  's-curve': value => value * value * (3 - 2 * value)
+};
+
+// One route's contribution for a raw source value
+export function shapeModulation(value: number, sourceIsBipolar: boolean, route: ModulationRoute): number {
+  const normalized = clamp(sourceIsBipolar ? (value + 1) / 2 : value, 0, 1);
+  const curved = CURVES[route.curve](normalized);
+  const shaped = route.polarity === 'bipolar' ? curved * 2 - 1 : curved;
+  return route.offset + route.depth * shaped;
+}
+
+// Base value plus the summed amount, scaled to and clamped by the destination's range
+export function modulateValue(destination: ModulationDestination, base: number, amounts: ModulationAmounts): number {
+  const range = destination.startsWith('prompt.')
+    ? PROMPT_WEIGHT_RANGE
+    : DESTINATION_RANGES[destination as keyof typeof DESTINATION_RANGES];
+  const amount = amounts[destination] ?? 0;
+  if (!range || amount === 0) return base;
+
+  const value = clamp(base + amount * (range.max - range.min), range.min, range.max);
+  return range.integer ? Math.round(value) : value;
+}
+
+let nextRouteId = 1;
+
+export const createRoute = (
+  sourceId: string,
+  destination: ModulationDestination,
+  changes: Partial<Omit<ModulationRoute, 'id' | 'sourceId' | 'destination'>> = {}
+): ModulationRoute => ({
+  id: `route-${Date.now().toString(36)}-${nextRouteId++}`,
+  sourceId,
+  destination,
+  depth: 0.5,
+  offset: 0,
+  polarity: 'bipolar',
+  curve: 'linear',
+  enabled: true,
+  ...changes
+});
+
+export function createModulationMatrix(initialRoutes: ModulationRoute[] = []) {
+  const readers = new Map<string, { info: ModulationSourceInfo; read: () => number }>();
+  const listeners = new Set<(state: ModulationMatrixState) => void>();
+  let state: ModulationMatrixState = { routes: initialRoutes, sources: [] };
+
+  const setState = (changes: Partial<ModulationMatrixState>) => {
+    state = { ...state, ...changes };
+    listeners.forEach(listener => listener(state));
+  };
+
+  const publishSources = () => setState({ sources: [...readers.values()].map(entry => entry.info) });
+
+  return {
+    // `read` is called on every evaluation, so it can close over live state
+    registerSource: (info: ModulationSourceInfo, read: () => number) => {
+      const entry = { info, read };
+      readers.set(info.id, entry);
+      publishSources();
+      return () => {
+        if (readers.get(info.id) !== entry) return;
+        readers.delete(info.id);
+        publishSources();
+      };
+    },
+
+    getSource: (id: string) => readers.get(id)?.info ?? null,
+
+    addRoute: (route: ModulationRoute) => setState({ routes: [...state.routes, route] }),
+
+    updateRoute: (id: string, changes: Partial<Omit<ModulationRoute, 'id'>>) => setState({
+      routes: state.routes.map(route => (route.id === id ? { ...route, ...changes } : route))
+    }),
+
+    removeRoute: (id: string) => setState({ routes: state.routes.filter(route => route.id !== id) }),
+
+    setRoutes: (routes: ModulationRoute[]) => setState({ routes }),
+
+    // Summed amount per destination; sources are read once even if routed twice
+    evaluate: (): ModulationAmounts => {
+      const amounts: ModulationAmounts = {};
+      const values = new Map<string, number>();
+
+      state.routes.forEach(route => {
+        if (!route.enabled) return;
+        const source = readers.get(route.sourceId);
+        if (!source) return;
+
+        if (!values.has(route.sourceId)) values.set(route.sourceId, source.read());
+        const contribution = shapeModulation(values.get(route.sourceId)!, source.info.bipolar, route);
+        amounts[route.destination] = (amounts[route.destination] ?? 0) + contribution;
+      });
+
+      return amounts;
+    },
+
+    subscribe: (listener: (state: ModulationMatrixState) => void) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    getState: () => state
+  };
+}
+
+export type ModulationMatrix = ReturnType<typeof createModulationMatrix>;
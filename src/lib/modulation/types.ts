@@ -0,0 +1,43 @@
+// Modulation matrix types. A route takes one source's current value, shapes
+// it (curve, polarity, depth, offset) and adds it to one destination; any
+// number of routes may share a source or a destination.
+
+// 'linear' passes through; the others bend the 0-1 value before polarity
+export type ModulationCurve = 'linear' | 'exponential' | 'logarithmic' | 's-curve';
+
+// 'unipolar' routes push one way (0 to 1); 'bipolar' swing both ways (-1 to 1)
+export type ModulationPolarity = 'unipolar' | 'bipolar';
+
+export type ModulationDestination =
+  | 'seed'
+  | `prompt.${number}.weight`
+  | 'cfg'
+  | 'steps'
+  | 'strength'
+  | 'crossfader';
+
+export interface ModulationSourceInfo {
+  // e.g. 'lfo.wave_rider', 'audio.bass', 'midi.cc.0.74', 'env.onset'
+  id: string;
+  label: string;
+  // Heading in the source list
+  group: string;
+  // LFOs swing -1..1; audio, MIDI and envelopes run 0..1
+  bipolar: boolean;
+}
+
+export interface ModulationRoute {
+  id: string;
+  sourceId: string;
+  destination: ModulationDestination;
+  // Fraction of the destination's range at full source, -1..1 (negative inverts)
+  depth: number;
+  // Added to the shaped value, same units as depth
+  offset: number;
+  polarity: ModulationPolarity;
+  curve: ModulationCurve;
+  enabled: boolean;
+}
+
+// Summed route output per destination, in fractions of its range
+export type ModulationAmounts = Partial<Record<ModulationDestination, number>>;
@@ -0,0 +1,57 @@
+import { PRESETS_PER_BANK, isPreset } from './storage';
+import type { PresetSlots } from './types';
+
+// Versioned JSON file for one bank of presets, so banks can move between
+// machines or be kept per gig. Same conventions as automation files.
+
+export const PRESET_BANK_FORMAT = 'sdxl-dj-preset-bank';
+export const PRESET_BANK_FORMAT_VERSION = 1;
+export const PRESET_BANK_FILE_EXTENSION = '.sdxldj-presets.json';
+
+interface PresetBankFile {
+  format: typeof PRESET_BANK_FORMAT;
+  version: number;
+  savedAt: string;
+  // Pads in order, PRESETS_PER_BANK long
+  presets: PresetSlots;
+}
+
+export function serializePresetBank(presets: PresetSlots): string {
+  const file: PresetBankFile = {
+    format: PRESET_BANK_FORMAT,
+    version: PRESET_BANK_FORMAT_VERSION,
+    savedAt: new Date().toISOString(),
+    presets: presets.slice(0, PRESETS_PER_BANK)
+  };
+  return JSON.stringify(file);
+}
+
+// Returns PRESETS_PER_BANK pads; throws with every bad pad found
+export function parsePresetBank(text: string): PresetSlots {
+  let file: any;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new Error('Preset bank file is not valid JSON');
+  }
+
+  if (!file || typeof file !== 'object' || file.format !== PRESET_BANK_FORMAT) {
+    throw new Error('Not a preset bank file');
+  }
+  if (typeof file.version !== 'number' || file.version > PRESET_BANK_FORMAT_VERSION) {
+    throw new Error(`Preset bank version ${file.version} is newer than this app supports (${PRESET_BANK_FORMAT_VERSION})`);
+  }
+  if (!Array.isArray(file.presets)) {
+    throw new Error('Invalid preset bank file, missing or bad: presets');
+  }
+
+  const problems: string[] = [];
+  file.presets.slice(0, PRESETS_PER_BANK).forEach((preset: unknown, index: number) => {
+    if (preset !== null && !isPreset(preset)) problems.push(`presets[${index}]`);
+  });
+  if (problems.length > 0) {
+    throw new Error(`Invalid preset bank file, missing or bad: ${problems.join(', ')}`);
+  }
+
+  return Array.from({ length: PRESETS_PER_BANK }, (_, index) => file.presets[index] ?? null);
+}
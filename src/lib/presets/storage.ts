@@ -0,0 +1,67 @@
+import { isSceneEffect, isScenePrompt } from '../sequencer/format';
+import type { DeckPresetState, Preset, PresetSlots, PresetState, WorkspacePresetState } from './types';
+
+// Preset banks in localStorage. Each workspace keeps its own key so deck
+// presets and workspace presets don't share pads. Storage is injectable for tests.
+
+type PresetStorage = Pick<Storage, 'getItem' | 'setItem'>;
+
+export const PRESET_BANK_COUNT = 4;
+export const PRESETS_PER_BANK = 64;
+export const PRESET_SLOT_COUNT = PRESET_BANK_COUNT * PRESETS_PER_BANK;
+
+export const DECK_PRESETS_KEY = 'sdxl-dj-presets';
+export const WORKSPACE_PRESETS_KEY = 'sdxl-dj-workspace-presets';
+
+export const createEmptySlots = (): PresetSlots => Array(PRESET_SLOT_COUNT).fill(null);
+
+const isWorkspacePresetState = (state: any): state is WorkspacePresetState =>
+  Array.isArray(state.prompts) && state.prompts.every(isScenePrompt) &&
+  Array.isArray(state.effects) && state.effects.every(isSceneEffect) &&
+  typeof state.steps === 'number' &&
+  typeof state.resolution === 'string';
+
+const isDeckPresetState = (state: any): state is DeckPresetState =>
+  typeof state.prompt === 'string' &&
+  typeof state.speedFader === 'number' &&
+  typeof state.seedJitter === 'number';
+
+const isPresetState = (state: any): state is PresetState =>
+  typeof state?.seed === 'number' &&
+  (state.kind === 'workspace' ? isWorkspacePresetState(state) : state.kind === 'deck' && isDeckPresetState(state));
+
+export const isPreset = (preset: any): preset is Preset =>
+  typeof preset?.name === 'string' &&
+  isPresetState(preset.state) &&
+  (preset.thumbnail === null || typeof preset.thumbnail === 'string') &&
+  typeof preset.savedAt === 'string';
+
+// Always PRESET_SLOT_COUNT long; anything unreadable (including presets
+// from before full-state snapshots) becomes an empty pad
+export function loadPresets(key: string, storage: PresetStorage = localStorage): PresetSlots {
+  const slots = createEmptySlots();
+  try {
+    const stored = storage.getItem(key);
+    const presets = stored ? JSON.parse(stored) : [];
+    if (Array.isArray(presets)) {
+      presets.slice(0, PRESET_SLOT_COUNT).forEach((preset, index) => {
+        if (isPreset(preset)) slots[index] = preset;
+      });
+    }
+  } catch (error) {
+    console.warn('⚠️ Ignoring unreadable presets:', error);
+  }
+  return slots;
+}
+
+// Thumbnails make this the largest thing in localStorage, so a full quota
+// is reported rather than thrown
+export function savePresets(key: string, slots: PresetSlots, storage: PresetStorage = localStorage): boolean {
+  try {
+    storage.setItem(key, JSON.stringify(slots));
+    return true;
+  } catch (error) {
+    console.warn('⚠️ Could not save presets:', error);
+    return false;
+  }
+}
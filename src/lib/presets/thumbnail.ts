@@ -0,0 +1,30 @@
+import type { InitImage } from '../../types/electron.d.ts';
+
+// Pad thumbnails: small JPEGs so a full set of banks fits in localStorage
+
+const THUMBNAIL_SIZE = 96;
+const THUMBNAIL_QUALITY = 0.7;
+
+// Center-cropped square of any drawable
+export function createThumbnail(source: CanvasImageSource, width: number, height: number): string | null {
+  if (width === 0 || height === 0) return null;
+  const canvas = document.createElement('canvas');
+  canvas.width = THUMBNAIL_SIZE;
+  canvas.height = THUMBNAIL_SIZE;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  const side = Math.min(width, height);
+  ctx.drawImage(source, (width - side) / 2, (height - side) / 2, side, side, 0, 0, THUMBNAIL_SIZE, THUMBNAIL_SIZE);
+  return canvas.toDataURL('image/jpeg', THUMBNAIL_QUALITY);
+}
+
+// From a raw RGBA frame, as decks hand them to the master output
+export function createFrameThumbnail(frame: InitImage): string | null {
+  const canvas = document.createElement('canvas');
+  canvas.width = frame.width;
+  canvas.height = frame.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  ctx.putImageData(new ImageData(new Uint8ClampedArray(frame.data), frame.width, frame.height), 0, 0);
+  return createThumbnail(canvas, frame.width, frame.height);
+}
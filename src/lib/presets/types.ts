@@ -0,0 +1,35 @@
+import type { SceneEffect, ScenePrompt } from '../sequencer/types';
+
+// Preset bank types. A preset holds everything needed to bring a workspace
+// or a deck back to where it was when the pad was saved.
+
+export interface WorkspacePresetState {
+  kind: 'workspace';
+  prompts: ScenePrompt[];
+  effects: SceneEffect[];
+  seed: number;
+  steps: number;
+  // Resolution option name
+  resolution: string;
+}
+
+export interface DeckPresetState {
+  kind: 'deck';
+  prompt: string;
+  seed: number;
+  speedFader: number;
+  seedJitter: number;
+}
+
+export type PresetState = WorkspacePresetState | DeckPresetState;
+
+export interface Preset {
+  name: string;
+  state: PresetState;
+  // Small JPEG data URL of the last generated frame at save time
+  thumbnail: string | null;
+  savedAt: string;
+}
+
+// One entry per pad across every bank; empty pads are null
+export type PresetSlots = (Preset | null)[];
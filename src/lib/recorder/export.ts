@@ -0,0 +1,209 @@
+import { encodeGifFrame, encodeGifHeader, GIF_TRAILER } from './gif';
+import { muxAnimatedWebp, WebpFrame } from './webp';
+import { createZip, ZipEntry } from './zip';
+import type { RecordedFrame, RecordingExportFormat } from './types';
+
+// Exports for a recorded take. Frame timing comes from the capture times, so
+// playback runs at the pace the frames were generated; the last frame holds
+// for the average frame interval.
+
+export interface ExportOptions {
+  onProgress?: (done: number, total: number) => void;
+}
+
+export interface WebmExportOptions extends ExportOptions {
+  fps?: number;
+  // Crossfade between captured frames instead of holding each one
+  interpolate?: boolean;
+}
+
+export const RECORDING_FORMAT = 'sdxl-dj-recording';
+export const RECORDING_FORMAT_VERSION = 1;
+
+export const RECORDING_FILE_EXTENSIONS: Record<RecordingExportFormat, string> = {
+  png: '.zip',
+  gif: '.gif',
+  webp: '.webp',
+  webm: '.webm'
+};
+
+// GIF palettes and LZW get slow and heavy on big frames
+const MAX_GIF_SIZE = 512;
+const MAX_WEBP_SIZE = 1024;
+const WEBP_QUALITY = 0.9;
+const DEFAULT_WEBM_FPS = 30;
+const WEBM_BITRATE = 8_000_000;
+const WEBM_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+const DEFAULT_DELAY_MS = 1000;
+
+const getDelays = (frames: RecordedFrame[]) => {
+  const last = frames.length - 1;
+  const average = last > 0 ? (frames[last].time - frames[0].time) / last : DEFAULT_DELAY_MS;
+  return frames.map((frame, i) => (i < last ? frames[i + 1].time - frame.time : average));
+};
+
+const fitSize = (width: number, height: number, maxSize: number) => {
+  const scale = Math.min(1, maxSize / Math.max(width, height));
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+};
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+  return { canvas, ctx };
+};
+
+// Draws a frame scaled to the canvas; frames recorded at another resolution get stretched
+const drawFrame = async (ctx: CanvasRenderingContext2D, frame: RecordedFrame) => {
+  const bitmap = await createImageBitmap(frame.png);
+  ctx.drawImage(bitmap, 0, 0, ctx.canvas.width, ctx.canvas.height);
+  bitmap.close();
+};
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const assertFrames = (frames: RecordedFrame[]) => {
+  if (frames.length === 0) throw new Error('Nothing recorded yet');
+};
+
+export async function exportPngSequence(frames: RecordedFrame[], { onProgress }: ExportOptions = {}): Promise<Blob> {
+  assertFrames(frames);
+  const entries: ZipEntry[] = [];
+  const metadata = [];
+  for (const [i, frame] of frames.entries()) {
+    const name = `frame-${String(i + 1).padStart(5, '0')}.png`;
+    entries.push({ name, data: new Uint8Array(await frame.png.arrayBuffer()) });
+    metadata.push({ file: name, time: Math.round(frame.time), ...frame.metadata });
+    onProgress?.(i + 1, frames.length);
+  }
+  const manifest = {
+    format: RECORDING_FORMAT,
+    version: RECORDING_FORMAT_VERSION,
+    savedAt: new Date().toISOString(),
+    frames: metadata
+  };
+  entries.push({ name: 'metadata.json', data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)) });
+  return createZip(entries);
+}
+
+export async function exportGif(frames: RecordedFrame[], { onProgress }: ExportOptions = {}): Promise<Blob> {
+  assertFrames(frames);
+  const { width, height } = fitSize(frames[0].metadata.width, frames[0].metadata.height, MAX_GIF_SIZE);
+  const { ctx } = createCanvas(width, height);
+  const delays = getDelays(frames);
+  const parts: BlobPart[] = [encodeGifHeader(width, height)];
+  for (const [i, frame] of frames.entries()) {
+    await drawFrame(ctx, frame);
+    const pixels = ctx.getImageData(0, 0, width, height).data;
+    parts.push(encodeGifFrame({ pixels, width, height, delayMs: delays[i] }));
+    onProgress?.(i + 1, frames.length);
+    // Encoding is synchronous; let the UI breathe between frames
+    await wait(0);
+  }
+  parts.push(GIF_TRAILER);
+  return new Blob(parts, { type: 'image/gif' });
+}
+
+export async function exportWebp(frames: RecordedFrame[], { onProgress }: ExportOptions = {}): Promise<Blob> {
+  assertFrames(frames);
+  const { width, height } = fitSize(frames[0].metadata.width, frames[0].metadata.height, MAX_WEBP_SIZE);
+  const { canvas, ctx } = createCanvas(width, height);
+  const delays = getDelays(frames);
+  const webpFrames: WebpFrame[] = [];
+  for (const [i, frame] of frames.entries()) {
+    await drawFrame(ctx, frame);
+    const still = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/webp', WEBP_QUALITY));
+    if (!still || still.type !== 'image/webp') throw new Error('WebP encoding is not supported here');
+    webpFrames.push({ data: new Uint8Array(await still.arrayBuffer()), delayMs: delays[i] });
+    onProgress?.(i + 1, frames.length);
+  }
+  return muxAnimatedWebp(webpFrames, width, height);
+}
+
+// Plays the take onto a canvas and records it with MediaRecorder, so this
+// takes as long as the recording itself
+export async function exportWebm(
+  frames: RecordedFrame[],
+  { fps = DEFAULT_WEBM_FPS, interpolate = true, onProgress }: WebmExportOptions = {}
+): Promise<Blob> {
+  assertFrames(frames);
+  const mimeType = typeof MediaRecorder === 'undefined' ? undefined : WEBM_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+  if (!mimeType) throw new Error('WebM recording is not supported here');
+
+  const { canvas, ctx } = createCanvas(frames[0].metadata.width, frames[0].metadata.height);
+  const stream = canvas.captureStream(0);
+  const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: WEBM_BITRATE });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = event => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+  const stopped = new Promise<void>(resolve => {
+    recorder.onstop = () => resolve();
+  });
+
+  const delays = getDelays(frames);
+  const start = frames[0].time;
+  const duration = frames[frames.length - 1].time + delays[frames.length - 1] - start;
+  const total = Math.max(1, Math.ceil((duration / 1000) * fps));
+  // Decoded frames, kept only for the current pair
+  const bitmaps = new Map<number, ImageBitmap>();
+  const getBitmap = async (index: number) => {
+    let bitmap = bitmaps.get(index);
+    if (!bitmap) {
+      bitmap = await createImageBitmap(frames[index].png);
+      bitmaps.set(index, bitmap);
+    }
+    return bitmap;
+  };
+
+  recorder.start();
+  const startedAt = performance.now();
+  let current = 0;
+  try {
+    for (let n = 0; n < total; n++) {
+      const time = start + (n * 1000) / fps;
+      while (current + 1 < frames.length && frames[current + 1].time <= time) {
+        bitmaps.get(current)?.close();
+        bitmaps.delete(current);
+        current++;
+      }
+
+      ctx.globalAlpha = 1;
+      ctx.drawImage(await getBitmap(current), 0, 0, canvas.width, canvas.height);
+      const next = frames[current + 1];
+      if (interpolate && next) {
+        const progress = (time - frames[current].time) / (next.time - frames[current].time);
+        if (progress > 0) {
+          ctx.globalAlpha = progress;
+          ctx.drawImage(await getBitmap(current + 1), 0, 0, canvas.width, canvas.height);
+        }
+      }
+      track.requestFrame();
+      onProgress?.(n + 1, total);
+      await wait(startedAt + ((n + 1) * 1000) / fps - performance.now());
+    }
+  } finally {
+    recorder.stop();
+    bitmaps.forEach(bitmap => bitmap.close());
+    stream.getTracks().forEach(streamTrack => streamTrack.stop());
+  }
+  await stopped;
+  return new Blob(chunks, { type: 'video/webm' });
+}
+
+export const exportRecording = (
+  format: RecordingExportFormat,
+  frames: RecordedFrame[],
+  options: ExportOptions = {}
+): Promise<Blob> => {
+  switch (format) {
+    case 'png': return exportPngSequence(frames, options);
+    case 'gif': return exportGif(frames, options);
+    case 'webp': return exportWebp(frames, options);
+    case 'webm': return exportWebm(frames, options);
+  }
+};
@@ -0,0 +1,155 @@
+// Animated GIF encoder (GIF89a). Each frame gets its own 256-colour local
+// palette, picked by popularity from a 12-bit colour histogram, so slow
+// drifts in the generated image don't band against a palette fixed on the
+// first frame.
+
+export interface GifFrame {
+  // RGBA pixels, row-major; every frame must match the first frame's size
+  pixels: Uint8ClampedArray;
+  width: number;
+  height: number;
+  delayMs: number;
+}
+
+const PALETTE_SIZE = 256;
+const MIN_CODE_SIZE = 8;
+const MAX_CODE = 4096;
+// Browsers treat delays under 2 centiseconds as 10
+const MIN_DELAY_CS = 2;
+
+const ascii = (text: string) => Array.from(text, char => char.charCodeAt(0));
+const uint16 = (value: number) => [value & 0xff, (value >> 8) & 0xff];
+
+function buildPalette(pixels: Uint8ClampedArray) {
+  const counts = new Uint32Array(4096);
+  const sums = new Float64Array(4096 * 3);
+  for (let i = 0; i < pixels.length; i += 4) {
+    const bin = ((pixels[i] >> 4) << 8) | ((pixels[i + 1] >> 4) << 4) | (pixels[i + 2] >> 4);
+    counts[bin]++;
+    sums[bin * 3] += pixels[i];
+    sums[bin * 3 + 1] += pixels[i + 1];
+    sums[bin * 3 + 2] += pixels[i + 2];
+  }
+
+  const bins = [];
+  for (let bin = 0; bin < counts.length; bin++) {
+    if (counts[bin] > 0) bins.push(bin);
+  }
+  bins.sort((a, b) => counts[b] - counts[a]);
+
+  const palette = new Uint8Array(PALETTE_SIZE * 3);
+  bins.slice(0, PALETTE_SIZE).forEach((bin, index) => {
+    for (let channel = 0; channel < 3; channel++) {
+      palette[index * 3 + channel] = Math.round(sums[bin * 3 + channel] / counts[bin]);
+    }
+  });
+  return { palette, colorCount: Math.min(bins.length, PALETTE_SIZE) };
+}
+
+function mapToPalette(pixels: Uint8ClampedArray, palette: Uint8Array, colorCount: number) {
+  const indices = new Uint8Array(pixels.length / 4);
+  // Nearest palette entry per 15-bit colour, filled in as colours turn up
+  const cache = new Int16Array(32768).fill(-1);
+
+  for (let i = 0, p = 0; p < pixels.length; i++, p += 4) {
+    const r = pixels[p], g = pixels[p + 1], b = pixels[p + 2];
+    const key = ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+    let index = cache[key];
+    if (index < 0) {
+      let bestDistance = Infinity;
+      for (let c = 0; c < colorCount; c++) {
+        const dr = r - palette[c * 3], dg = g - palette[c * 3 + 1], db = b - palette[c * 3 + 2];
+        const distance = dr * dr + dg * dg + db * db;
+        if (distance < bestDistance) {
+          bestDistance = distance;
+          index = c;
+        }
+      }
+      cache[key] = index;
+    }
+    indices[i] = index;
+  }
+  return indices;
+}
+
+// LZW-compress palette indices and split the stream into data sub-blocks
+function compress(indices: Uint8Array): number[] {
+  const clearCode = 1 << MIN_CODE_SIZE;
+  const endCode = clearCode + 1;
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bufferBits = 0;
+  let codeSize = MIN_CODE_SIZE + 1;
+  let nextCode = endCode + 1;
+  let table = new Map<number, number>();
+
+  const emit = (code: number) => {
+    buffer |= code << bufferBits;
+    bufferBits += codeSize;
+    while (bufferBits >= 8) {
+      bytes.push(buffer & 0xff);
+      buffer >>>= 8;
+      bufferBits -= 8;
+    }
+  };
+
+  emit(clearCode);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const symbol = indices[i];
+    const key = (prefix << 8) | symbol;
+    const code = table.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+    emit(prefix);
+    if (nextCode === MAX_CODE) {
+      emit(clearCode);
+      table = new Map();
+      codeSize = MIN_CODE_SIZE + 1;
+      nextCode = endCode + 1;
+    } else {
+      if (nextCode >= 1 << codeSize) codeSize++;
+      table.set(key, nextCode++);
+    }
+    prefix = symbol;
+  }
+  emit(prefix);
+  emit(endCode);
+  if (bufferBits > 0) bytes.push(buffer & 0xff);
+
+  const blocks: number[] = [MIN_CODE_SIZE];
+  for (let i = 0; i < bytes.length; i += 255) {
+    const block = bytes.slice(i, i + 255);
+    blocks.push(block.length, ...block);
+  }
+  blocks.push(0);
+  return blocks;
+}
+
+export function encodeGifFrame(frame: GifFrame): Uint8Array {
+  const { palette, colorCount } = buildPalette(frame.pixels);
+  const indices = mapToPalette(frame.pixels, palette, colorCount);
+  const delay = Math.max(MIN_DELAY_CS, Math.round(frame.delayMs / 10));
+
+  return new Uint8Array([
+    // Graphic control extension: no disposal, no transparency
+    0x21, 0xf9, 0x04, 0x00, ...uint16(delay), 0x00, 0x00,
+    // Image descriptor with a 256-entry local colour table
+    0x2c, 0, 0, 0, 0, ...uint16(frame.width), ...uint16(frame.height), 0x87,
+    ...palette,
+    ...compress(indices)
+  ]);
+}
+
+// Header and loop extension for a `width` x `height` animation that repeats forever
+export function encodeGifHeader(width: number, height: number): Uint8Array {
+  return new Uint8Array([
+    ...ascii('GIF89a'),
+    ...uint16(width), ...uint16(height), 0x00, 0x00, 0x00,
+    0x21, 0xff, 0x0b, ...ascii('NETSCAPE2.0'), 0x03, 0x01, 0x00, 0x00, 0x00
+  ]);
+}
+
+export const GIF_TRAILER = new Uint8Array([0x3b]);
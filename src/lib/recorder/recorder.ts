@@ -0,0 +1,118 @@
+import type { InitImage } from '../../types/electron.d.ts';
+import type { RecordedFrame, RecordedFrameMetadata } from './types';
+
+// Frame recorder. While recording, every generated frame is encoded to PNG
+// (lossless, and about a quarter of the raw RGBA size) and kept in memory
+// with its metadata until it's exported or cleared. Toggling recording off
+// and on again pauses and resumes the same take.
+
+export interface RecorderState {
+  isRecording: boolean;
+  frameCount: number;
+  // Recording clock at the last frame
+  durationMs: number;
+  // PNG bytes held in memory
+  bytes: number;
+  // Recording stopped itself at `maxFrames`
+  limitReached: boolean;
+}
+
+export const DEFAULT_MAX_FRAMES = 1000;
+
+const INITIAL_STATE: RecorderState = { isRecording: false, frameCount: 0, durationMs: 0, bytes: 0, limitReached: false };
+
+const encodePng = (frame: InitImage) => new Promise<Blob>((resolve, reject) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = frame.width;
+  canvas.height = frame.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    reject(new Error('Canvas 2D context unavailable'));
+    return;
+  }
+  ctx.putImageData(new ImageData(new Uint8ClampedArray(frame.data), frame.width, frame.height), 0, 0);
+  canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('PNG encoding failed'))), 'image/png');
+});
+
+export function createFrameRecorder({ maxFrames = DEFAULT_MAX_FRAMES } = {}) {
+  const listeners = new Set<(state: RecorderState) => void>();
+  let frames: RecordedFrame[] = [];
+  let state = INITIAL_STATE;
+  // Recording clock: time banked from earlier stretches plus the current one
+  let bankedMs = 0;
+  let resumedAt: number | null = null;
+  // Frames are encoded one after another so they land in capture order
+  let encoding = Promise.resolve();
+  // Bumped by clear() so frames still encoding from before are dropped
+  let generation = 0;
+
+  const setState = (changes: Partial<RecorderState>) => {
+    state = { ...state, ...changes };
+    listeners.forEach(listener => listener(state));
+  };
+
+  const now = () => bankedMs + (resumedAt === null ? 0 : performance.now() - resumedAt);
+
+  const stop = () => {
+    if (resumedAt !== null) bankedMs += performance.now() - resumedAt;
+    resumedAt = null;
+    setState({ isRecording: false });
+  };
+
+  return {
+    start: () => {
+      if (state.isRecording || frames.length >= maxFrames) return;
+      resumedAt = performance.now();
+      setState({ isRecording: true, limitReached: false });
+    },
+
+    stop,
+
+    addFrame: (frame: InitImage, metadata: Omit<RecordedFrameMetadata, 'timestamp'>) => {
+      if (!state.isRecording) return;
+      const time = now();
+      const timestamp = new Date().toISOString();
+      const frameGeneration = generation;
+      encoding = encoding
+        .then(() => encodePng(frame))
+        .then(png => {
+          // Frames queued before the limit stopped recording are dropped
+          if (frameGeneration !== generation || frames.length >= maxFrames) return;
+          frames.push({ index: frames.length, time, png, metadata: { ...metadata, timestamp } });
+          setState({ frameCount: frames.length, durationMs: time, bytes: state.bytes + png.size });
+          if (frames.length >= maxFrames && state.isRecording) {
+            stop();
+            setState({ limitReached: true });
+          }
+        })
+        .catch(error => console.error('❌ Could not record frame:', error));
+    },
+
+    clear: () => {
+      generation++;
+      frames = [];
+      bankedMs = 0;
+      if (resumedAt !== null) resumedAt = performance.now();
+      setState({ frameCount: 0, durationMs: 0, bytes: 0, limitReached: false });
+    },
+
+    // Resolves once frames captured so far are encoded
+    getFrames: async () => {
+      await encoding;
+      return [...frames];
+    },
+
+    isRecording: () => state.isRecording,
+
+    subscribe: (listener: (state: RecorderState) => void) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    getState: () => state
+  };
+}
+
+export type FrameRecorder = ReturnType<typeof createFrameRecorder>;
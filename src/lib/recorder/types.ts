@@ -0,0 +1,26 @@
+// Frames captured by the recorder. Each frame keeps its PNG and the settings
+// that produced it; `time` is measured on the recording clock, which stops
+// while recording is paused, so exports play back without the gaps.
+
+export interface RecordedFrameMetadata {
+  prompt: string;
+  negativePrompt: string;
+  seed: number;
+  steps: number;
+  cfgScale: number;
+  width: number;
+  height: number;
+  modelId: string | null;
+  // Wall-clock capture time
+  timestamp: string;
+}
+
+export interface RecordedFrame {
+  index: number;
+  // ms since the recording started
+  time: number;
+  png: Blob;
+  metadata: RecordedFrameMetadata;
+}
+
+export type RecordingExportFormat = 'png' | 'gif' | 'webp' | 'webm';
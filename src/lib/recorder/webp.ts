@@ -0,0 +1,91 @@
+// Animated WebP muxer. The browser can only encode still WebPs, so each frame
+// is encoded with canvas.toBlob('image/webp') and its bitstream chunks (VP8 or
+// VP8L, plus ALPH when present) are rewrapped as ANMF frames in a VP8X file.
+
+export interface WebpFrame {
+  // A still WebP file as produced by canvas.toBlob
+  data: Uint8Array;
+  delayMs: number;
+}
+
+interface Chunk {
+  id: string;
+  data: Uint8Array;
+}
+
+// VP8X feature flags
+const ANIMATION_FLAG = 0x02;
+const ALPHA_FLAG = 0x10;
+// ANMF: don't alpha-blend a frame onto the previous one
+const NO_BLEND = 0x02;
+// Frame durations are 24-bit milliseconds
+const MAX_DURATION = 0xffffff;
+
+const readId = (data: Uint8Array, offset: number) => String.fromCharCode(...data.subarray(offset, offset + 4));
+
+const ascii = (text: string) => Array.from(text, char => char.charCodeAt(0));
+
+const uint24 = (value: number) => [value & 0xff, (value >> 8) & 0xff, (value >> 16) & 0xff];
+
+function readChunks(file: Uint8Array): Chunk[] {
+  if (readId(file, 0) !== 'RIFF' || readId(file, 8) !== 'WEBP') {
+    throw new Error('Not a WebP image');
+  }
+  const view = new DataView(file.buffer, file.byteOffset, file.byteLength);
+  const chunks: Chunk[] = [];
+  let offset = 12;
+  while (offset + 8 <= file.length) {
+    const size = view.getUint32(offset + 4, true);
+    chunks.push({ id: readId(file, offset), data: file.subarray(offset + 8, offset + 8 + size) });
+    offset += 8 + size + (size % 2);
+  }
+  return chunks;
+}
+
+function writeChunk(id: string, data: Uint8Array | number[]): Uint8Array {
+  const chunk = new Uint8Array(8 + data.length + (data.length % 2));
+  chunk.set(ascii(id));
+  new DataView(chunk.buffer).setUint32(4, data.length, true);
+  chunk.set(data, 8);
+  return chunk;
+}
+
+const concat = (parts: Uint8Array[]) => {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  parts.forEach(part => {
+    result.set(part, offset);
+    offset += part.length;
+  });
+  return result;
+};
+
+// `frames` must all be `width` x `height`
+export function muxAnimatedWebp(frames: WebpFrame[], width: number, height: number): Blob {
+  let hasAlpha = false;
+  const anmf = frames.map(frame => {
+    const bitstream = readChunks(frame.data).filter(chunk => ['ALPH', 'VP8 ', 'VP8L'].includes(chunk.id));
+    if (!bitstream.some(chunk => chunk.id !== 'ALPH')) {
+      throw new Error('WebP frame has no image data');
+    }
+    if (bitstream.some(chunk => chunk.id === 'ALPH' || chunk.id === 'VP8L')) hasAlpha = true;
+    const header = [
+      ...uint24(0), ...uint24(0),
+      ...uint24(width - 1), ...uint24(height - 1),
+      ...uint24(Math.min(MAX_DURATION, Math.max(1, Math.round(frame.delayMs)))),
+      NO_BLEND
+    ];
+    return writeChunk('ANMF', concat([new Uint8Array(header), ...bitstream.map(chunk => writeChunk(chunk.id, chunk.data))]));
+  });
+
+  const vp8x = writeChunk('VP8X', [ANIMATION_FLAG | (hasAlpha ? ALPHA_FLAG : 0), 0, 0, 0, ...uint24(width - 1), ...uint24(height - 1)]);
+  // Black background, loop forever
+  const anim = writeChunk('ANIM', [0, 0, 0, 0xff, 0, 0]);
+  const body = concat([vp8x, anim, ...anmf]);
+
+  const header = new Uint8Array(12);
+  header.set(ascii('RIFF'));
+  new DataView(header.buffer).setUint32(4, 4 + body.length, true);
+  header.set(ascii('WEBP'), 8);
+  return new Blob([header, body], { type: 'image/webp' });
+}
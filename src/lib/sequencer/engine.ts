@@ -0,0 +1,254 @@
+import type { Scene, SceneSequence, ScenePrompt, SceneTransitionType } from './types';
+
+// Scene sequencer engine.
+// `tick` advances a beat position at the current BPM and steps through the
+// arrangement, calling `onSceneStart` as each scene begins. Transitions
+// overlap the start of the incoming scene: `getFrame` reports how far the
+// current one has progressed, and the workspace blends prompts or seeds
+// from the previous scene until it reaches 1.
+
+export const BEATS_PER_BAR = 4;
+
+export const SCENE_TRANSITIONS: { type: SceneTransitionType; label: string }[] = [
+  { type: 'cut', label: 'Cut' },
+  { type: 'morph', label: 'Morph' },
+  { type: 'seed-travel', label: 'Seed Travel' }
+];
+
+export interface SequencerState {
+  sequence: SceneSequence;
+  // Drive the workspace from the sequence while playing
+  enabled: boolean;
+  // Arrangement step playing now; null when stopped
+  stepIndex: number | null;
+}
+
+export interface SequencerFrame {
+  stepIndex: number;
+  scene: Scene;
+  previousScene: Scene | null;
+  beatInScene: number;
+  // 0..1 through the entering transition; 1 once it's done or for a cut
+  transitionProgress: number;
+}
+
+const EMPTY_SEQUENCE: SceneSequence = { scenes: [], arrangement: [], loop: true };
+
+let nextSceneId = 1;
+
+// A scene from a workspace snapshot: 8 bars, entered with a cut
+export const createScene = (
+  snapshot: Pick<Scene, 'prompts' | 'seed' | 'effects' | 'resolution'>,
+  changes: Partial<Scene> = {}
+): Scene => ({
+  id: `scene-${Date.now().toString(36)}-${nextSceneId++}`,
+  name: 'Scene',
+  bars: 8,
+  transition: { type: 'cut', beats: 4 },
+  ...snapshot,
+  ...changes
+});
+
+// Scenes in play order; arrangement entries for deleted scenes are skipped
+export const getSteps = (sequence: SceneSequence): Scene[] =>
+  sequence.arrangement.length === 0
+    ? sequence.scenes
+    : sequence.arrangement
+      .map(id => sequence.scenes.find(scene => scene.id === id))
+      .filter((scene): scene is Scene => !!scene);
+
+// Scenes are lettered A, B, C... for the arrangement field
+export const getSceneLetter = (index: number) =>
+  index < 26 ? String.fromCharCode(65 + index) : `${index + 1}`;
+
+export const formatArrangement = (sequence: SceneSequence) =>
+  sequence.arrangement
+    .map(id => sequence.scenes.findIndex(scene => scene.id === id))
+    .filter(index => index >= 0)
+    .map(getSceneLetter)
+    .join(' ');
+
+// "A A B A C" → scene ids; tokens that match no scene are returned separately
+export function parseArrangement(text: string, scenes: Scene[]): { ids: string[]; unknown: string[] } {
+  const ids: string[] = [];
+  const unknown: string[] = [];
+  text.split(/[\s,]+/).filter(Boolean).forEach(token => {
+    const index = scenes.findIndex((_, i) => getSceneLetter(i) === token.toUpperCase());
+    if (index >= 0) ids.push(scenes[index].id);
+    else unknown.push(token);
+  });
+  return { ids, unknown };
+}
+
+const normalizePrompts = (prompts: ScenePrompt[]) => {
+  const active = prompts.filter(p => p.active && p.text.trim() && p.weight > 0);
+  const total = active.reduce((sum, p) => sum + p.weight, 0) || 1;
+  return active.map(p => ({ id: p.id, text: p.text.trim(), weight: p.weight / total }));
+};
+
+// Weighted prompt list part way from one scene's prompts to the next; the
+// pipeline blends the embeddings, so this is a morph in embedding space
+export function morphPrompts(from: ScenePrompt[], to: ScenePrompt[], progress: number) {
+  const t = Math.max(0, Math.min(1, progress));
+  const blended: { id: number; text: string; weight: number }[] = [];
+  const add = (prompt: { id: number; text: string; weight: number }, amount: number) => {
+    if (amount <= 0) return;
+    const existing = blended.find(p => p.text === prompt.text);
+    if (existing) existing.weight += prompt.weight * amount;
+    else blended.push({ ...prompt, weight: prompt.weight * amount });
+  };
+  normalizePrompts(from).forEach(prompt => add(prompt, 1 - t));
+  normalizePrompts(to).forEach(prompt => add(prompt, t));
+  return blended.map(p => ({ ...p, weight: p.weight * 100 }));
+}
+
+export function createSceneSequencer(onSceneStart: (scene: Scene, previousScene: Scene | null) => void) {
+  const listeners = new Set<(state: SequencerState) => void>();
+  let state: SequencerState = { sequence: EMPTY_SEQUENCE, enabled: false, stepIndex: null };
+  let position = 0;
+  let stepStart = 0;
+  let previousScene: Scene | null = null;
+  let lastTickAt: number | null = null;
+  let isRunning = false;
+  // Where stop left off, for resume
+  let paused: { stepIndex: number | null; previousScene: Scene | null } | null = null;
+
+  const setState = (changes: Partial<SequencerState>) => {
+    state = { ...state, ...changes };
+    listeners.forEach(listener => listener(state));
+  };
+
+  const setSequence = (changes: Partial<SceneSequence>) =>
+    setState({ sequence: { ...state.sequence, ...changes } });
+
+  const enterStep = (stepIndex: number, from: Scene | null, startBeat = position) => {
+    const scene = getSteps(state.sequence)[stepIndex];
+    if (!scene) return;
+    previousScene = from;
+    stepStart = startBeat;
+    setState({ stepIndex });
+    onSceneStart(scene, from);
+  };
+
+  const currentScene = () =>
+    state.stepIndex === null ? undefined : getSteps(state.sequence)[state.stepIndex];
+
+  return {
+    start: () => {
+      position = 0;
+      lastTickAt = null;
+      isRunning = true;
+      if (getSteps(state.sequence).length > 0) enterStep(0, null);
+    },
+
+    stop: () => {
+      if (isRunning) paused = { stepIndex: state.stepIndex, previousScene };
+      isRunning = false;
+      lastTickAt = null;
+      previousScene = null;
+      setState({ stepIndex: null });
+    },
+
+    // Transport continue: carries on from the step and beat stop left off at
+    resume: () => {
+      if (isRunning) return;
+      lastTickAt = null;
+      isRunning = true;
+      previousScene = paused?.previousScene ?? null;
+      setState({ stepIndex: paused?.stepIndex ?? null });
+    },
+
+    tick: (now: number, bpm: number) => {
+      if (!isRunning) return;
+      if (lastTickAt !== null) {
+        position += ((now - lastTickAt) / 60000) * bpm;
+      }
+      lastTickAt = now;
+
+      const steps = getSteps(state.sequence);
+      if (steps.length === 0) return;
+      if (state.stepIndex === null || state.stepIndex >= steps.length) {
+        enterStep(0, null);
+        return;
+      }
+
+      const scene = steps[state.stepIndex];
+      // Scene boundaries stay on the bar grid however late the tick is
+      const end = stepStart + scene.bars * BEATS_PER_BAR;
+      if (position < end) return;
+      const next = state.stepIndex + 1;
+      if (next < steps.length) {
+        enterStep(next, scene, end);
+      } else if (state.sequence.loop) {
+        enterStep(0, scene, end);
+      }
+      // Without loop the last scene holds
+    },
+
+    // Cue a step now, entering it through its transition
+    jumpTo: (stepIndex: number) => {
+      if (!isRunning) return;
+      enterStep(stepIndex, currentScene() ?? null);
+    },
+
+    getFrame: (): SequencerFrame | null => {
+      const scene = currentScene();
+      if (!isRunning || !scene || state.stepIndex === null) return null;
+      const beatInScene = position - stepStart;
+      const { type, beats } = scene.transition;
+      const transitionProgress = !previousScene || type === 'cut' || beats <= 0
+        ? 1
+        : Math.min(1, beatInScene / beats);
+      return { stepIndex: state.stepIndex, scene, previousScene, beatInScene, transitionProgress };
+    },
+
+    addScene: (scene: Scene) => setSequence({ scenes: [...state.sequence.scenes, scene] }),
+
+    updateScene: (id: string, changes: Partial<Scene>) => setSequence({
+      scenes: state.sequence.scenes.map(scene => (scene.id === id ? { ...scene, ...changes } : scene))
+    }),
+
+    removeScene: (id: string) => setSequence({
+      scenes: state.sequence.scenes.filter(scene => scene.id !== id),
+      arrangement: state.sequence.arrangement.filter(sceneId => sceneId !== id)
+    }),
+
+    moveScene: (id: string, offset: number) => {
+      const scenes = [...state.sequence.scenes];
+      const index = scenes.findIndex(scene => scene.id === id);
+      const target = index + offset;
+      if (index < 0 || target < 0 || target >= scenes.length) return;
+      [scenes[index], scenes[target]] = [scenes[target], scenes[index]];
+      setSequence({ scenes });
+    },
+
+    setArrangement: (arrangement: string[]) => setSequence({ arrangement }),
+
+    setLoop: (loop: boolean) => setSequence({ loop }),
+
+    setEnabled: (enabled: boolean) => setState({ enabled }),
+
+    load: (sequence: SceneSequence) => {
+      setState({ sequence, stepIndex: isRunning ? 0 : null });
+      if (isRunning) {
+        position = 0;
+        enterStep(0, null);
+      }
+    },
+
+    getPosition: () => position - stepStart,
+
+    isRunning: () => isRunning,
+
+    subscribe: (listener: (state: SequencerState) => void) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    getState: () => state
+  };
+}
+
+export type SceneSequencer = ReturnType<typeof createSceneSequencer>;
@@ -0,0 +1,30 @@
+import type { Scene, SceneEffect, ScenePrompt } from './types';
+
+// Checks for scene data read back from disk (session files and preset
+// banks), so a hand-edited file is rejected before it reaches the workspace.
+
+const TRANSITION_TYPES = ['cut', 'morph', 'seed-travel'];
+
+export const isScenePrompt = (prompt: any): prompt is ScenePrompt =>
+  typeof prompt?.id === 'number' &&
+  typeof prompt.text === 'string' &&
+  typeof prompt.weight === 'number' &&
+  typeof prompt.active === 'boolean';
+
+export const isSceneEffect = (effect: any): effect is SceneEffect =>
+  typeof effect?.id === 'string' &&
+  typeof effect.enabled === 'boolean' &&
+  typeof effect.intensity === 'number' &&
+  typeof effect.speed === 'number' &&
+  !!effect.params && typeof effect.params === 'object';
+
+export const isScene = (scene: any): scene is Scene =>
+  typeof scene?.id === 'string' &&
+  typeof scene.name === 'string' &&
+  typeof scene.bars === 'number' && scene.bars > 0 &&
+  typeof scene.seed === 'number' &&
+  typeof scene.resolution === 'string' &&
+  Array.isArray(scene.prompts) && scene.prompts.every(isScenePrompt) &&
+  Array.isArray(scene.effects) && scene.effects.every(isSceneEffect) &&
+  TRANSITION_TYPES.includes(scene.transition?.type) &&
+  typeof scene.transition.beats === 'number' && scene.transition.beats >= 0;
@@ -0,0 +1,47 @@
+// Scene sequencer: an ordered list of workspace snapshots, each held for a
+// number of bars and entered through a transition.
+
+export type SceneTransitionType = 'cut' | 'morph' | 'seed-travel';
+
+export interface SceneTransition {
+  type: SceneTransitionType;
+  // Length of a morph or seed travel from the start of the scene; ignored for cuts
+  beats: number;
+}
+
+export interface ScenePrompt {
+  id: number;
+  text: string;
+  weight: number;
+  active: boolean;
+}
+
+// The serializable part of an effect; icons and descriptions stay with the workspace
+export interface SceneEffect {
+  id: string;
+  enabled: boolean;
+  intensity: number;
+  speed: number;
+  params: Record<string, any>;
+}
+
+export interface Scene {
+  id: string;
+  name: string;
+  bars: number;
+  prompts: ScenePrompt[];
+  seed: number;
+  effects: SceneEffect[];
+  // Resolution option name
+  resolution: string;
+  // How this scene is entered from the one before it
+  transition: SceneTransition;
+}
+
+export interface SceneSequence {
+  scenes: Scene[];
+  // Scene ids in play order, repeats allowed (e.g. intro, verse, chorus, verse);
+  // empty plays the scene list top to bottom
+  arrangement: string[];
+  loop: boolean;
+}
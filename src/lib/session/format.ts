@@ -0,0 +1,143 @@
+import { isLane, normalizeLane } from '../automation/format';
+import { isMidiBinding } from '../midi/profiles';
+import { isModulationRoute } from '../modulation/matrix';
+import { isPreset } from '../presets/storage';
+import { isScene, isSceneEffect, isScenePrompt } from '../sequencer/format';
+import type { SessionData } from './types';
+
+// Versioned session file format. Bump SESSION_FORMAT_VERSION when the shape
+// of SessionData changes and add a migration from the previous version, so
+// every older file is upgraded step by step before it's validated.
+
+export const SESSION_FORMAT = 'sdxl-dj-session';
+export const SESSION_FORMAT_VERSION = 1;
+export const SESSION_FILE_EXTENSION = '.sdxldj';
+
+interface SessionFile extends SessionData {
+  format: typeof SESSION_FORMAT;
+  version: number;
+  savedAt: string;
+}
+
+// Keyed by the version each one upgrades from
+const MIGRATIONS: Record<number, (session: any) => any> = {};
+
+export function serializeSession(session: SessionData): string {
+  const file: SessionFile = {
+    format: SESSION_FORMAT,
+    version: SESSION_FORMAT_VERSION,
+    savedAt: new Date().toISOString(),
+    ...session
+  };
+  return JSON.stringify(file);
+}
+
+// `migrations` and `latestVersion` are only overridden by tests
+export function migrateSession(
+  file: any,
+  migrations: Record<number, (session: any) => any> = MIGRATIONS,
+  latestVersion = SESSION_FORMAT_VERSION
+): any {
+  let session = file;
+  for (let version = file.version; version < latestVersion; version++) {
+    const migrate = migrations[version];
+    if (!migrate) {
+      throw new Error(`No migration for session version ${version}`);
+    }
+    session = { ...migrate(session), version: version + 1 };
+  }
+  return session;
+}
+
+const ENUMS = {
+  promptBlend: ['linear', 'slerp'],
+  seedMode: ['jump', 'travel'],
+  imageToImageMode: ['off', 'feedback']
+};
+
+// Adds `path` for a non-array, or `path[i]` for each element that fails `isValid`
+const checkList = (problems: string[], list: unknown, isValid: (item: any) => boolean, path: string) => {
+  if (!Array.isArray(list)) {
+    problems.push(path);
+    return;
+  }
+  list.forEach((item, index) => {
+    if (!isValid(item)) problems.push(`${path}[${index}]`);
+  });
+};
+
+// Throws with every problem found, like the other file formats
+export function parseSession(text: string): SessionData {
+  let file: any;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new Error('Session file is not valid JSON');
+  }
+
+  if (!file || typeof file !== 'object' || file.format !== SESSION_FORMAT) {
+    throw new Error('Not a session file');
+  }
+  if (!Number.isInteger(file.version) || file.version < 1 || file.version > SESSION_FORMAT_VERSION) {
+    throw new Error(`Session file version ${file.version} is not supported (this app reads up to ${SESSION_FORMAT_VERSION})`);
+  }
+
+  const session = migrateSession(file);
+  const { workspace, modulation, scenes, automation } = session;
+  const problems: string[] = [];
+  if (!workspace || typeof workspace !== 'object') {
+    problems.push('workspace');
+  } else {
+    checkList(problems, workspace.prompts, isScenePrompt, 'workspace.prompts');
+    checkList(problems, workspace.effects, isSceneEffect, 'workspace.effects');
+    ['seed', 'steps', 'cfgScale', 'strength', 'bpm'].forEach(key => {
+      if (typeof workspace[key] !== 'number') problems.push(`workspace.${key}`);
+    });
+    ['negativePrompt', 'resolution'].forEach(key => {
+      if (typeof workspace[key] !== 'string') problems.push(`workspace.${key}`);
+    });
+    (Object.keys(ENUMS) as (keyof typeof ENUMS)[]).forEach(key => {
+      if (!ENUMS[key].includes(workspace[key])) problems.push(`workspace.${key}`);
+    });
+    if (typeof workspace.beatSync !== 'boolean') problems.push('workspace.beatSync');
+  }
+  if (session.modelId !== null && typeof session.modelId !== 'string') problems.push('modelId');
+  // Empty pads are null
+  checkList(problems, session.presets?.workspace, preset => preset === null || isPreset(preset), 'presets.workspace');
+  checkList(problems, session.presets?.decks, preset => preset === null || isPreset(preset), 'presets.decks');
+  if (typeof session.midi?.profile !== 'string') problems.push('midi.profile');
+  checkList(problems, session.midi?.bindings, isMidiBinding, 'midi.bindings');
+  checkList(problems, modulation?.routes, isModulationRoute, 'modulation.routes');
+  if (typeof modulation?.envelope?.attackMs !== 'number' || typeof modulation.envelope.decayMs !== 'number') {
+    problems.push('modulation.envelope');
+  }
+  if (!scenes || typeof scenes !== 'object') {
+    problems.push('scenes');
+  } else {
+    checkList(problems, scenes.scenes, isScene, 'scenes.scenes');
+    if (!Array.isArray(scenes.arrangement) || !scenes.arrangement.every((id: unknown) => typeof id === 'string')) {
+      problems.push('scenes.arrangement');
+    }
+    if (typeof scenes.loop !== 'boolean') problems.push('scenes.loop');
+  }
+  if (!automation || typeof automation !== 'object') {
+    problems.push('automation');
+  } else {
+    if (typeof automation.bpm !== 'number' || automation.bpm <= 0) problems.push('automation.bpm');
+    if (typeof automation.lengthBeats !== 'number' || automation.lengthBeats < 0) problems.push('automation.lengthBeats');
+    checkList(problems, automation.lanes, isLane, 'automation.lanes');
+  }
+  if (problems.length > 0) {
+    throw new Error(`Invalid session file, missing or bad: ${problems.join(', ')}`);
+  }
+
+  return {
+    workspace: session.workspace,
+    modelId: session.modelId,
+    presets: session.presets,
+    midi: session.midi,
+    modulation: session.modulation,
+    scenes: session.scenes,
+    automation: { bpm: automation.bpm, lengthBeats: automation.lengthBeats, lanes: automation.lanes.map(normalizeLane) }
+  };
+}
@@ -0,0 +1,48 @@
+import type { PromptBlendMode } from '../../types/electron.d.ts';
+import type { AutomationRecording } from '../automation/types';
+import type { MidiBinding } from '../midi/types';
+import type { EnvelopeSettings } from '../modulation/envelope';
+import type { ModulationRoute } from '../modulation/types';
+import type { PresetSlots } from '../presets/types';
+import type { SceneEffect, ScenePrompt, SceneSequence } from '../sequencer/types';
+
+// Everything a `.sdxldj` session file restores. The shape is the latest
+// schema version; older files are migrated up to it on load (see format.ts).
+
+export interface SessionWorkspace {
+  prompts: ScenePrompt[];
+  negativePrompt: string;
+  promptBlend: PromptBlendMode;
+  effects: SceneEffect[];
+  seed: number;
+  seedMode: 'jump' | 'travel';
+  steps: number;
+  cfgScale: number;
+  // Resolution option name
+  resolution: string;
+  // A loaded init image isn't saved, so 'image' mode comes back as 'off'
+  imageToImageMode: 'off' | 'feedback';
+  strength: number;
+  bpm: number;
+  beatSync: boolean;
+}
+
+export interface SessionData {
+  workspace: SessionWorkspace;
+  // Null leaves the current model selected
+  modelId: string | null;
+  presets: {
+    workspace: PresetSlots;
+    decks: PresetSlots;
+  };
+  midi: {
+    profile: string;
+    bindings: MidiBinding[];
+  };
+  modulation: {
+    routes: ModulationRoute[];
+    envelope: EnvelopeSettings;
+  };
+  scenes: SceneSequence;
+  automation: AutomationRecording;
+}
@@ -1,11 +1,34 @@
 export interface ElectronAPI {
   // Model operations
-  loadModel: (config: { backend: string; modelPath: string }) => Promise<{ success: boolean; error?: string }>;
-  generateImage: (config: GenerationConfig) => Promise<{ success: boolean; imageData?: ArrayBuffer; metadata?: any; error?: string }>;
+  loadModel: (config: { backend: string; modelId?: string }) => Promise<{ success: boolean; modelId?: string; error?: string }>;
+  generateImage: (config: GenerationConfig) => Promise<GenerationResult>;
+  // Cancels the generation sent with this request_id, or all of them without one
+  cancelGeneration: (requestId?: number) => Promise<{ success: boolean }>;
   disposeModel: () => Promise<{ success: boolean; error?: string }>;
+  listModels: () => Promise<{ success: boolean; models: ModelManifest[]; activeModelId?: string | null; error?: string }>;
+  // Accepts a manifest (.json) or the UNet .onnx of an export
+  registerModel: (filePath: string) => Promise<{ success: boolean; model?: ModelManifest; error?: string }>;
+  // Defaults to the first available model
+  verifyModels: (modelId?: string) => Promise<{
+    success: boolean;
+    modelId?: string;
+    files: ModelFileStatus[];
+    // Human-readable, one per missing or corrupt file
+    problems: string[];
+    error?: string;
+  }>;
+  // Stats the files and reads each ONNX header without loading the model
+  probeModels: (modelId?: string) => Promise<ModelProbeResult>;
   
   // File operations
   selectModelFile: () => Promise<{ success: boolean; filePath?: string }>;
+  // Session files (.sdxldj) hold serialized session JSON; no filePath opens a save dialog
+  saveSession: (content: string, filePath?: string) => Promise<{ success: boolean; filePath?: string; canceled?: boolean; error?: string }>;
+  openSession: () => Promise<{ success: boolean; filePath?: string; content?: string; canceled?: boolean; error?: string }>;
+  autosaveSession: (content: string) => Promise<{ success: boolean; error?: string }>;
+  // Last autosave of a run that crashed; success is false when there is none
+  getSessionRecovery: () => Promise<{ success: boolean; content?: string; savedAt?: string; error?: string }>;
+  clearSessionRecovery: () => Promise<{ success: boolean }>;
   
   // Window operations
   minimize: () => Promise<void>;
@@ -15,20 +38,163 @@ export interface ElectronAPI {
   // System monitoring
   getSystemStats: () => Promise<{ success: boolean; stats?: SystemStats; error?: string }>;
   
-  // Event listeners
-  onModelProgress: (callback: (event: any, data: any) => void) => void;
-  onModelLoaded: (callback: (event: any, data: any) => void) => void;
-  onModelError: (callback: (event: any, data: any) => void) => void;
+  // Event listeners; each returns an unsubscribe function
+  onModelProgress: (callback: (event: any, data: ModelLoadProgress) => void) => () => void;
+  onModelLoaded: (callback: (event: any, data: { modelId: string; message?: string }) => void) => () => void;
+  onModelError: (callback: (event: any, data: { modelId?: string; error?: string }) => void) => () => void;
+  // Hashing progress of a verify-models run; checkedBytes reaches totalBytes at the end
+  onModelVerificationProgress: (callback: (event: any, data: { modelId: string; checkedBytes: number; totalBytes: number }) => void) => () => void;
+  onGenerationPreview: (callback: (event: any, data: GenerationPreview) => void) => () => void;
+}
+
+export type ModelArchitecture = 'sd15' | 'sdxl';
+
+export interface ModelManifest {
+  id: string;
+  name: string;
+  architecture: ModelArchitecture;
+  // Directory component paths are relative to; built-in models use public/models
+  root?: string;
+  components: {
+    unet: string;
+    text_encoder: string;
+    text_encoder_2?: string;
+    vae_decoder: string;
+    vae_encoder?: string;
+    tokenizer: string;
+    tokenizer_2?: string;
+  };
+  latent_channels: number;
+  vae_scale_factor: number;
+  // VAE latent scaling (0.18215 for SD 1.5, 0.13025 for SDXL)
+  scaling_factor: number;
+  native_resolutions: [number, number][];
+  scheduler: 'lcm';
+  // Dual text encoders and SDXL added conditioning; always architecture === 'sdxl'
+  sdxl: boolean;
+  // Download source and per-file checksums (see scripts/download-model.js)
+  source_url?: string;
+  files?: Array<{ component: string; path: string; url: string; sha256?: string; size?: number; optional?: boolean }>;
+  source?: 'builtin' | 'user';
+  // All required component files are present
+  available?: boolean;
+}
+
+export interface ModelFileStatus {
+  component: string;
+  path: string;
+  optional: boolean;
+  status: 'ok' | 'unverified' | 'missing' | 'size-mismatch' | 'hash-mismatch';
+  size?: number;
+}
+
+export interface OnnxValueInfo {
+  name: string;
+  type: string;
+  // Fixed sizes, symbolic names (e.g. 'batch') or null when unknown
+  shape: Array<number | string | null> | null;
+}
+
+export interface ModelComponentProbe {
+  component: string;
+  path: string;
+  optional: boolean;
+  exists: boolean;
+  // Bytes, including any external .onnx_data file
+  size?: number;
+  externalData?: boolean;
+  irVersion?: number | null;
+  producer?: string | null;
+  opset?: number | null;
+  inputs?: OnnxValueInfo[] | null;
+  outputs?: OnnxValueInfo[] | null;
+  // Header could not be parsed
+  error?: string;
+}
+
+export interface ModelProbeResult {
+  success: boolean;
+  modelId?: string;
+  name?: string;
+  architecture?: ModelArchitecture;
+  components: ModelComponentProbe[];
+  totalBytes: number;
+  // Human-readable, one per missing, resized or unreadable component
+  problems: string[];
+  error?: string;
+}
+
+export interface ModelLoadProgress {
+  modelId: string;
+  component: string;
+  stage: 'loading' | 'loaded';
+  loadedBytes: number;
+  totalBytes: number;
+  // 0-100, weighted by component size
+  progress: number;
+}
+
+export type PromptBlendMode = 'linear' | 'slerp';
+
+export interface WeightedPrompt {
+  text: string;
+  weight: number;
+}
+
+export interface SeedTravel {
+  // Seeds along the path; position 0 is seeds[0], 1 is seeds[1], and so on
+  seeds: number[];
+  position: number;
+}
+
+export interface InitImage {
+  // Raw RGBA pixels, row-major
+  data: ArrayBuffer;
+  width: number;
+  height: number;
 }
 
 export interface GenerationConfig {
   prompt: string;
+  prompts?: WeightedPrompt[];
+  prompt_blend?: PromptBlendMode;
   negative_prompt?: string;
   width?: number;
   height?: number;
   steps?: number;
   cfg_scale?: number;
   seed?: number;
+  seed_travel?: SeedTravel;
+  init_image?: InitImage;
+  // 0-1; how far the init image is noised before denoising (1 ignores it)
+  strength?: number;
+  // SDXL micro-conditioning; original size defaults to [height, width]
+  original_size?: [number, number];
+  crop_coords?: [number, number];
+  // Renderer-side id, echoed back on step previews
+  request_id?: number;
+}
+
+export interface GenerationPreview {
+  requestId?: number;
+  step: number;
+  totalSteps: number;
+  // Latent resolution (1/8 of the output)
+  width: number;
+  height: number;
+  // RGBA bytes
+  imageData: ArrayBuffer;
+}
+
+export interface GenerationResult {
+  success: boolean;
+  imageData?: ArrayBuffer;
+  metadata?: any;
+  error?: string;
+  // Aborted by an explicit cancel while queued or running
+  cancelled?: boolean;
+  // Superseded by a newer request on the same channel before it started
+  dropped?: boolean;
 }
 
 export interface SystemStats {
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { validateManifest } from '../../electron/model-registry.js';
+
+const manifest = (overrides = {}) => ({
+  id: 'test-model',
+  name: 'Test model',
+  architecture: 'sd15',
+  components: {
+    unet: 'unet.onnx',
+    text_encoder: 'text_encoder.onnx',
+    vae_decoder: 'vae_decoder.onnx',
+    tokenizer: 'tokenizer'
+  },
+  latent_channels: 4,
+  vae_scale_factor: 8,
+  scaling_factor: 0.18215,
+  native_resolutions: [[512, 512]],
+  scheduler: 'lcm',
+  ...overrides
+});
+
+describe('validateManifest', () => {
+  it('derives sdxl from the architecture', () => {
+    expect(validateManifest(manifest()).sdxl).toBe(false);
+    expect(validateManifest(manifest({ architecture: 'sdxl' })).sdxl).toBe(true);
+  });
+
+  it('accepts an sdxl flag that matches the architecture', () => {
+    expect(validateManifest(manifest({ architecture: 'sdxl', sdxl: true })).sdxl).toBe(true);
+    expect(validateManifest(manifest({ sdxl: false })).sdxl).toBe(false);
+  });
+
+  it('rejects an sdxl flag that contradicts the architecture', () => {
+    expect(() => validateManifest(manifest({ sdxl: true }))).toThrow('sdxl (must match architecture)');
+    expect(() => validateManifest(manifest({ architecture: 'sdxl', sdxl: false }))).toThrow('sdxl (must match architecture)');
+  });
+
+  it('lists every missing or bad field', () => {
+    expect(() => validateManifest(manifest({ architecture: 'sd3', components: {} })))
+      .toThrow('Invalid model manifest, missing or bad: architecture (sd15 | sdxl), components.unet');
+  });
+});
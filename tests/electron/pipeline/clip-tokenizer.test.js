@@ -0,0 +1,91 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import ReferenceTokenizer from 'clip-bpe-js';
+import { CONTEXT_LENGTH, createCLIPTokenizer, loadCLIPTokenizer } from '../../../electron/pipeline/clip-tokenizer.js';
+
+// clip-bpe-js ships OpenAI's bpe_simple_vocab_16e6 and builds the same 49408
+// entry vocabulary that HF's vocab.json / merges.txt hold for CLIP ViT-L/14
+const reference = new ReferenceTokenizer();
+const VOCAB = reference.encoder;
+const MERGES = Object.keys(reference.bpeRanks).map(pair => pair.split('·😎·').join(' '));
+
+const START = 49406;
+const END = 49407;
+
+// Token ids from OpenAI's SimpleTokenizer (UTF-8 bytes through byte_encoder,
+// then BPE), without the start and end tokens
+const GOLDEN = [
+  ['a photo of a cat', [320, 1125, 539, 320, 2368]],
+  ['An astronaut riding a horse on Mars, highly detailed, 8k', [550, 18376, 6765, 320, 4558, 525, 7496, 267, 5302, 12609, 267, 279, 330]],
+  ["don't stop believin'", [847, 713, 1691, 4972, 530, 262]],
+  ['café crème brûlée', [15304, 1075, 12138, 614, 711, 127, 119, 75, 13489]],
+  ['東京 night 🌃', [48338, 21078, 361, 930, 1576, 481]],
+  ['<3 rock & roll', [283, 274, 2172, 261, 3341]]
+];
+
+describe('CLIP tokenizer', () => {
+  let tokenizer;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    tokenizer = createCLIPTokenizer(VOCAB, MERGES);
+  });
+
+  it.each(GOLDEN)('matches the reference ids for %j', (prompt, ids) => {
+    expect(tokenizer.tokenize(prompt)).toEqual(ids);
+  });
+
+  it('lowercases and collapses whitespace like basic_clean/whitespace_clean', () => {
+    expect(tokenizer.tokenize('  A   Photo\tOF a\nCAT  ')).toEqual(tokenizer.tokenize('a photo of a cat'));
+  });
+
+  it('unescapes double-escaped HTML entities', () => {
+    expect(tokenizer.tokenize('&amp;lt;3 rock &amp;amp; roll')).toEqual(tokenizer.tokenize('<3 rock & roll'));
+  });
+
+  it('normalizes decomposed unicode to NFC before taking UTF-8 bytes', () => {
+    expect(tokenizer.tokenize('cafe\u0301')).toEqual(tokenizer.tokenize('caf\u00e9'));
+  });
+
+  it('wraps in start/end tokens and pads to 77 with <|endoftext|>', () => {
+    const { input_ids } = tokenizer.encode('a photo of a cat');
+
+    expect(input_ids).toHaveLength(CONTEXT_LENGTH);
+    expect(Array.from(input_ids.slice(0, 8))).toEqual([START, 320, 1125, 539, 320, 2368, END, END]);
+    expect(input_ids.every((id, i) => i < 6 || id === END)).toBe(true);
+  });
+
+  it('truncates long prompts to 75 tokens plus start and end', () => {
+    const { input_ids } = tokenizer.encode('cat '.repeat(100));
+
+    expect(input_ids).toHaveLength(CONTEXT_LENGTH);
+    expect(input_ids[0]).toBe(START);
+    expect(Array.from(input_ids.slice(1, 76)).every(id => id === 2368)).toBe(true);
+    expect(input_ids[76]).toBe(END);
+  });
+
+  it('keeps a prompt of exactly 75 tokens whole', () => {
+    const { input_ids } = tokenizer.encode('cat '.repeat(75));
+
+    expect(input_ids[75]).toBe(2368);
+    expect(input_ids[76]).toBe(END);
+  });
+
+  it('pads with the token from special_tokens_map.json (SDXL tokenizer_2 uses "!")', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sdxl-dj-tokenizer-'));
+    try {
+      fs.writeFileSync(path.join(dir, 'vocab.json'), JSON.stringify(VOCAB));
+      fs.writeFileSync(path.join(dir, 'merges.txt'), `#version: 0.2\n${MERGES.join('\n')}\n`);
+      fs.writeFileSync(path.join(dir, 'special_tokens_map.json'), JSON.stringify({ pad_token: '!' }));
+
+      const { input_ids } = loadCLIPTokenizer(dir).encode('a photo of a cat');
+
+      expect(Array.from(input_ids.slice(0, 8))).toEqual([START, 320, 1125, 539, 320, 2368, END, 0]);
+      expect(input_ids.slice(7).every(id => id === 0)).toBe(true);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
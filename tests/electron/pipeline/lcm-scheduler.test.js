@@ -0,0 +1,136 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  createLCMScheduler,
+  getGuidanceScaleEmbedding,
+  DEFAULT_LCM_GUIDANCE_SCALE
+} from '../../../electron/pipeline/lcm-scheduler.js';
+import { createTorchGenerator } from '../../../electron/pipeline/random.js';
+
+// diffusers LCMScheduler(original_inference_steps=50).set_timesteps(n).timesteps
+const DIFFUSERS_TIMESTEPS = {
+  1: [999],
+  2: [999, 499],
+  3: [999, 679, 339],
+  4: [999, 759, 499, 259],
+  5: [999, 799, 599, 399, 199],
+  6: [999, 839, 679, 499, 339, 179],
+  7: [999, 859, 719, 579, 439, 299, 159],
+  8: [999, 879, 759, 639, 499, 379, 259, 139]
+};
+
+// Same betas as the scheduler, to build an oracle noise prediction
+const alphasCumprod = (() => {
+  const values = [];
+  let product = 1;
+  for (let i = 0; i < 1000; i++) {
+    const betaSqrt = Math.sqrt(0.00085) + (Math.sqrt(0.012) - Math.sqrt(0.00085)) * (i / 999);
+    product *= 1 - betaSqrt * betaSqrt;
+    values.push(product);
+  }
+  return values;
+})();
+
+// Tiny stand-in for the UNet ONNX session: predicts exactly the noise that
+// separates `sample` from a known clean latent, and records its feeds
+const createStubUnet = (clean) => {
+  const calls = [];
+  return {
+    calls,
+    inputNames: ['sample', 'timestep', 'encoder_hidden_states', 'timestep_cond'],
+    run: async (feeds) => {
+      calls.push(feeds);
+      const t = Number(feeds.timestep.data[0]);
+      const sample = feeds.sample.data;
+      const noise = new Float32Array(sample.length);
+      for (let i = 0; i < sample.length; i++) {
+        noise[i] = (sample[i] - Math.sqrt(alphasCumprod[t]) * clean[i]) / Math.sqrt(1 - alphasCumprod[t]);
+      }
+      return { out_sample: { data: noise, dims: feeds.sample.dims } };
+    }
+  };
+};
+
+// The pipeline's denoising loop, minus ONNX tensors
+const denoise = async (unet, scheduler, timesteps, sample, generator) => {
+  const timestepCond = { data: getGuidanceScaleEmbedding(DEFAULT_LCM_GUIDANCE_SCALE, 256), dims: [1, 256] };
+  const denoisedSteps = [];
+  for (let i = 0; i < timesteps.length; i++) {
+    const outputs = await unet.run({
+      sample: { data: sample, dims: [1, 4, 4, 4] },
+      timestep: { data: new BigInt64Array([BigInt(timesteps[i])]), dims: [1] },
+      timestep_cond: timestepCond
+    });
+    const noisePred = outputs[Object.keys(outputs)[0]].data;
+    const stepNoise = i < timesteps.length - 1 ? generator.randn(sample.length) : null;
+    const { prevSample, denoised } = scheduler.step(noisePred, i, sample, stepNoise);
+    denoisedSteps.push(denoised);
+    sample = prevSample;
+  }
+  return { sample, denoisedSteps };
+};
+
+describe('LCM scheduler', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it.each(Object.entries(DIFFUSERS_TIMESTEPS))('matches diffusers timesteps for %s steps', (steps, expected) => {
+    expect(createLCMScheduler().setTimesteps(Number(steps))).toEqual(expected);
+  });
+
+  it('clamps the step count to 1..8', () => {
+    const scheduler = createLCMScheduler();
+    expect(scheduler.setTimesteps(0)).toEqual([999]);
+    expect(scheduler.setTimesteps(20)).toEqual(DIFFUSERS_TIMESTEPS[8]);
+  });
+
+  it('starts part-way down the schedule for image-to-image strength', () => {
+    // diffusers: int(50 * 0.5) = 25 origin steps, 499 downwards
+    expect(createLCMScheduler().setTimesteps(4, 0.5)).toEqual([499, 379, 259, 139]);
+  });
+
+  it('embeds the guidance scale like get_guidance_scale_embedding', () => {
+    const embedding = getGuidanceScaleEmbedding(8.5, 256);
+    const w = 7.5 * 1000;
+
+    expect(embedding).toHaveLength(256);
+    expect(embedding[0]).toBeCloseTo(Math.sin(w), 5);
+    expect(embedding[128]).toBeCloseTo(Math.cos(w), 5);
+    // Last frequency is w / 10000
+    expect(embedding[127]).toBeCloseTo(Math.sin(0.75), 6);
+    expect(embedding[255]).toBeCloseTo(Math.cos(0.75), 6);
+
+    const unguided = getGuidanceScaleEmbedding(1, 256);
+    expect(Array.from(unguided.slice(0, 128)).every(value => value === 0)).toBe(true);
+    expect(Array.from(unguided.slice(128)).every(value => value === 1)).toBe(true);
+  });
+
+  it('recovers the clean latent with a stub UNet in the denoising loop', async () => {
+    const clean = createTorchGenerator(1).randn(64).map(value => value * 0.5);
+    const unet = createStubUnet(clean);
+    const scheduler = createLCMScheduler();
+    const timesteps = scheduler.setTimesteps(4);
+    const generator = createTorchGenerator(42);
+
+    const { sample, denoisedSteps } = await denoise(unet, scheduler, timesteps, generator.randn(64), generator);
+
+    expect(unet.calls.map(feeds => Number(feeds.timestep.data[0]))).toEqual(timesteps);
+    expect(unet.calls[0].timestep_cond.data).toEqual(getGuidanceScaleEmbedding(DEFAULT_LCM_GUIDANCE_SCALE, 256));
+    denoisedSteps.forEach(denoised => {
+      denoised.forEach((value, i) => expect(value).toBeCloseTo(clean[i], 3));
+    });
+    sample.forEach((value, i) => expect(value).toBeCloseTo(clean[i], 3));
+  });
+
+  it('re-noises between steps and requires the noise buffer to do so', () => {
+    const scheduler = createLCMScheduler();
+    scheduler.setTimesteps(2);
+    const sample = new Float32Array(4).fill(1);
+    const modelOutput = new Float32Array(4);
+
+    expect(() => scheduler.step(modelOutput, 0, sample, null)).toThrow(/noise buffer/);
+    const { prevSample, denoised } = scheduler.step(modelOutput, 0, sample, new Float32Array(4).fill(1));
+    const alphaPrev = alphasCumprod[499];
+    expect(prevSample[0]).toBeCloseTo(Math.sqrt(alphaPrev) * denoised[0] + Math.sqrt(1 - alphaPrev), 5);
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { createMT19937, createTorchGenerator } from '../../../electron/pipeline/random.js';
+
+const expectCloseTo = (actual, expected) => {
+  expect(actual).toHaveLength(expected.length);
+  expected.forEach((value, i) => expect(actual[i]).toBeCloseTo(value, 4));
+};
+
+describe('MT19937', () => {
+  it('matches the reference output for the default seed 5489', () => {
+    const mt = createMT19937(5489);
+    expect(Array.from({ length: 5 }, () => mt.nextUint32())).toEqual([3499211612, 581869302, 3890346734, 3586334585, 545404204]);
+  });
+});
+
+describe('torch generator', () => {
+  it('is deterministic for a seed and differs between seeds', () => {
+    const first = createTorchGenerator(1234).randn(4 * 64 * 64);
+    const second = createTorchGenerator(1234).randn(4 * 64 * 64);
+    const other = createTorchGenerator(1235).randn(4 * 64 * 64);
+
+    expect(second).toEqual(first);
+    expect(other).not.toEqual(first);
+  });
+
+  // torch.manual_seed(s); torch.randn(4, 4).flatten()
+  it.each([
+    [0, [-1.1258, -1.1524, -0.2506, -0.4339, 0.8487, 0.6920, -0.3160, -2.1152, 0.3223, -1.2633, 0.3500, 0.3081, 0.1198, 1.2377, 1.1168, -0.2473]],
+    [42, [1.9269, 1.4873, 0.9007, -2.1055, 0.6784, -1.2345, -0.0431, -1.6047, -0.7521, 1.6487, -0.3925, -1.4036, -0.7279, -0.5594, -0.7688, 0.7624]]
+  ])('matches torch.randn(4, 4) for seed %i', (seed, expected) => {
+    expectCloseTo(createTorchGenerator(seed).randn(16), expected);
+  });
+
+  // torch.manual_seed(s); torch.randn(5) takes the scalar path
+  it.each([
+    [0, [1.5410, -0.2934, -2.1788, 0.5684, -1.0845]],
+    [42, [0.3367, 0.1288, 0.2345, 0.2303, -1.1229]]
+  ])('matches torch.randn(5) for seed %i', (seed, expected) => {
+    expectCloseTo(createTorchGenerator(seed).randn(5), expected);
+  });
+
+  it('draws unit Gaussian noise for a latent-sized tensor', () => {
+    // Not a multiple of 16, so the redrawn tail block is included
+    const noise = createTorchGenerator(7).randn(4 * 64 * 64 + 5);
+    const mean = noise.reduce((sum, value) => sum + value, 0) / noise.length;
+    const variance = noise.reduce((sum, value) => sum + (value - mean) ** 2, 0) / noise.length;
+
+    expect(Math.abs(mean)).toBeLessThan(0.03);
+    expect(Math.abs(Math.sqrt(variance) - 1)).toBeLessThan(0.03);
+    expect(noise.every(Number.isFinite)).toBe(true);
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeAudioBuffer, AudioBufferLike, estimateBpm } from '../../../src/lib/audio/analysis';
+
+// Node has no OfflineAudioContext, so signals are rendered straight into
+// AudioBuffer-shaped objects
+const SAMPLE_RATE = 44100;
+
+const toBuffer = (...channels: Float32Array[]): AudioBufferLike => ({
+  sampleRate: SAMPLE_RATE,
+  length: channels[0].length,
+  numberOfChannels: channels.length,
+  getChannelData: channel => channels[channel]
+});
+
+const sine = (hz: number, seconds: number, amplitude = 0.5) =>
+  Float32Array.from({ length: Math.round(SAMPLE_RATE * seconds) }, (_, i) => amplitude * Math.sin((2 * Math.PI * hz * i) / SAMPLE_RATE));
+
+// Short decaying broadband clicks starting at `times` (seconds)
+const clicks = (times: number[], seconds: number) => {
+  const data = new Float32Array(Math.round(SAMPLE_RATE * seconds));
+  times.forEach(time => {
+    const start = Math.round(time * SAMPLE_RATE);
+    for (let i = 0; i < 200; i++) data[start + i] = (1 - i / 200) * (i % 2 ? -0.8 : 0.8);
+  });
+  return data;
+};
+
+const pulseTrain = (bpm: number, count: number, offset = 0.25) =>
+  Array.from({ length: count }, (_, i) => offset + (i * 60) / bpm);
+
+const concat = (...parts: Float32Array[]) => {
+  const data = new Float32Array(parts.reduce((sum, part) => sum + part.length, 0));
+  parts.reduce((offset, part) => {
+    data.set(part, offset);
+    return offset + part.length;
+  }, 0);
+  return data;
+};
+
+describe('audio analysis', () => {
+  it('puts a sine in its own band', () => {
+    const bands = [100, 1000, 8000].map(hz => {
+      const { bass, mid, high, level } = analyzeAudioBuffer(toBuffer(sine(hz, 1))).at(-1)!;
+      expect(level).toBeGreaterThan(0.95);
+      return [bass, mid, high];
+    });
+
+    bands.forEach((values, band) => {
+      values.forEach((value, other) => {
+        if (other === band) expect(value).toBeGreaterThan(0.95);
+        else expect(value).toBeLessThan(0.25);
+      });
+    });
+  });
+
+  it('stays silent on silence and releases after a tone stops', () => {
+    const silent = analyzeAudioBuffer(toBuffer(new Float32Array(SAMPLE_RATE)));
+    expect(silent.every(frame => frame.level === 0 && frame.bass === 0 && !frame.isOnset)).toBe(true);
+
+    const frames = analyzeAudioBuffer(toBuffer(concat(sine(100, 1), new Float32Array(SAMPLE_RATE))));
+    expect(frames[99].bass).toBeGreaterThan(0.95);
+    expect(frames.at(-1)!.bass).toBeLessThan(0.05);
+  });
+
+  it('mixes channels down to mono', () => {
+    const left = sine(1000, 0.5);
+    const frames = analyzeAudioBuffer(toBuffer(left, Float32Array.from(left, sample => -sample)));
+    expect(frames.at(-1)!.level).toBe(0);
+  });
+
+  it('detects an onset at every click', () => {
+    const times = pulseTrain(120, 16);
+    const frames = analyzeAudioBuffer(toBuffer(clicks(times, 8.5)));
+    const onsets = frames.filter(frame => frame.isOnset).map(frame => frame.time);
+
+    expect(onsets).toHaveLength(times.length);
+    onsets.forEach((onset, i) => {
+      expect(onset).toBeGreaterThanOrEqual(times[i]);
+      expect(onset - times[i]).toBeLessThan(0.02);
+    });
+    // Decays between hits
+    const beforeSecond = frames.find(frame => frame.time >= times[1] - 0.01)!;
+    expect(beforeSecond.onset).toBeLessThan(0.1);
+  });
+
+  it('estimates the tempo of a pulse train and locks the beat phase onto it', () => {
+    [100, 120, 140].forEach(bpm => {
+      const times = pulseTrain(bpm, 16);
+      const frames = analyzeAudioBuffer(toBuffer(clicks(times, times.at(-1)! + 0.5)));
+      const onsets = frames.filter(frame => frame.isOnset);
+
+      expect(frames.at(-1)!.bpm).toBeCloseTo(bpm, 0);
+      onsets.slice(4).forEach(frame => expect(frame.beatPhase).toBe(0));
+      // Halfway between beats
+      const between = frames.find(frame => frame.time >= times.at(-2)! + 30 / bpm)!;
+      expect(between.beatPhase).toBeCloseTo(0.5, 1);
+    });
+  });
+});
+
+describe('estimateBpm', () => {
+  it('needs a few onsets first', () => {
+    expect(estimateBpm([])).toBeNull();
+    expect(estimateBpm([0, 0.5, 1])).toBeNull();
+    expect(estimateBpm([0, 0.5, 1, 1.5])).toBe(120);
+  });
+
+  it('folds tempos into one octave', () => {
+    expect(estimateBpm(pulseTrain(60, 8))).toBe(120);
+    expect(estimateBpm(pulseTrain(180, 16))).toBe(90);
+  });
+
+  it('ignores the odd off-beat onset', () => {
+    const times = [...pulseTrain(128, 16), 2.1, 4.3].sort((a, b) => a - b);
+    expect(estimateBpm(times)).toBeCloseTo(128, 0);
+  });
+});
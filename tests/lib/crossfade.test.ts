@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { createMixConfig, getCrossfadeGains, getFrameMixWeights } from '../../src/lib/crossfade';
+
+const deckA = { prompt: 'forest at dawn', seed: 1 };
+const deckB = { prompt: 'city at night', seed: 2 };
+const empty = { prompt: '  ', seed: 3 };
+
+describe('getCrossfadeGains', () => {
+  it('fades linearly and clamps the position', () => {
+    expect(getCrossfadeGains(0.25, 'linear')).toEqual({ a: 0.75, b: 0.25 });
+    expect(getCrossfadeGains(-1, 'linear')).toEqual({ a: 1, b: 0 });
+    expect(getCrossfadeGains(2, 'linear')).toEqual({ a: 0, b: 1 });
+  });
+
+  it('keeps constant power across the throw', () => {
+    [0, 0.2, 0.5, 0.9, 1].forEach(position => {
+      const { a, b } = getCrossfadeGains(position, 'constant-power');
+      expect(a * a + b * b).toBeCloseTo(1);
+    });
+    expect(getCrossfadeGains(0.5, 'constant-power').a).toBeCloseTo(Math.SQRT1_2);
+  });
+
+  it('cuts over at the centre', () => {
+    expect(getCrossfadeGains(0.49, 'cut')).toEqual({ a: 1, b: 0 });
+    expect(getCrossfadeGains(0.5, 'cut')).toEqual({ a: 0, b: 1 });
+  });
+});
+
+describe('getFrameMixWeights', () => {
+  it('scales every curve to a total of 1 so frames never overexpose', () => {
+    (['linear', 'constant-power', 'cut'] as const).forEach(curve => {
+      [0, 0.25, 0.5, 0.75, 1].forEach(position => {
+        const { a, b } = getFrameMixWeights(getCrossfadeGains(position, curve));
+        expect(a + b).toBeCloseTo(1);
+      });
+    });
+    const centre = getFrameMixWeights(getCrossfadeGains(0.5, 'constant-power'));
+    expect(centre.a).toBeCloseTo(0.5);
+    expect(centre.b).toBeCloseTo(0.5);
+  });
+
+  it('stays silent when both gains are zero', () => {
+    expect(getFrameMixWeights({ a: 0, b: 0 })).toEqual({ a: 0, b: 0 });
+  });
+});
+
+describe('createMixConfig', () => {
+  it('returns null only when neither deck has a prompt', () => {
+    expect(createMixConfig(empty, { ...empty, seed: 4 }, 0.5)).toBeNull();
+  });
+
+  it('plays the prompted deck alone wherever the fader is', () => {
+    [0, 0.5, 1].forEach(position => {
+      expect(createMixConfig(empty, deckB, position)).toEqual({ prompt: 'city at night', seed: 2 });
+      expect(createMixConfig(deckA, empty, position)).toEqual({ prompt: 'forest at dawn', seed: 1 });
+    });
+  });
+
+  it('blends both decks across the throw', () => {
+    expect(createMixConfig(deckA, deckB, 0.25)).toEqual({
+      prompt: 'forest at dawn',
+      prompts: [{ text: 'forest at dawn', weight: 0.75 }, { text: 'city at night', weight: 0.25 }],
+      prompt_blend: 'slerp',
+      seed: 1,
+      seed_travel: { seeds: [1, 2], position: 0.25 }
+    });
+    expect(createMixConfig(deckA, deckB, 1)).toMatchObject({ prompt: 'city at night', prompts: [{ text: 'city at night', weight: 1 }], seed: 2 });
+  });
+});
@@ -0,0 +1,234 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createMidiMappingEngine } from '../../../src/lib/midi/mappingEngine';
+import { connectMidiInputs, MidiAccessLike, MidiInputLike } from '../../../src/lib/midi/access';
+import { loadMidiProfiles, saveMidiProfile, deleteMidiProfile, getActiveProfileName, setActiveProfileName } from '../../../src/lib/midi/profiles';
+import type { MidiControl } from '../../../src/lib/midi/types';
+
+// Stands in for the browser's MIDIAccess with one input
+const createFakeAccess = () => {
+  const input: MidiInputLike = { id: 'input-1', name: 'Fake Controller', onmidimessage: null };
+  const access: MidiAccessLike = {
+    inputs: { forEach: callback => callback(input) },
+    onstatechange: null
+  };
+  const send = (...data: number[]) => input.onmidimessage?.({ data: new Uint8Array(data) });
+  return { access, input, send };
+};
+
+const cc = (number: number, value: number, channel = 0) => [0xb0 | channel, number, value];
+const noteOn = (number: number, velocity = 100) => [0x90, number, velocity];
+
+// Engine wired to a fake device, with one continuous control in [0, 10]
+const setup = (control: Partial<MidiControl> = {}) => {
+  const engine = createMidiMappingEngine();
+  const device = createFakeAccess();
+  connectMidiInputs(device.access, data => engine.handleRawMessage(data));
+  let value = 5;
+  const setValue = vi.fn((next: number) => {
+    value = next;
+  });
+  engine.registerControl('intensity', () => ({
+    id: 'intensity',
+    label: 'Intensity',
+    kind: 'continuous',
+    min: 0,
+    max: 10,
+    getValue: () => value,
+    setValue,
+    ...control
+  }));
+  const learn = (...data: number[]) => {
+    engine.startLearn('intensity');
+    device.send(...data);
+  };
+  return {
+    engine,
+    device,
+    setValue,
+    learn,
+    getValue: () => value,
+    setCurrent: (next: number) => {
+      value = next;
+    }
+  };
+};
+
+const createMemoryStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => {
+      items.set(key, value);
+    }
+  };
+};
+
+describe('MIDI mapping engine', () => {
+  it('binds the next message to the armed control', () => {
+    const { engine, device, learn, getValue } = setup();
+
+    learn(...cc(21, 0, 2));
+
+    expect(engine.getState().learnTarget).toBeNull();
+    expect(engine.getState().bindings).toEqual([
+      expect.objectContaining({ controlId: 'intensity', source: { type: 'cc', channel: 2, number: 21 } })
+    ]);
+    device.send(...cc(21, 127, 2));
+    expect(getValue()).toBe(10);
+    // Other channels and controllers are ignored
+    device.send(...cc(21, 0, 3));
+    device.send(...cc(22, 0, 2));
+    expect(getValue()).toBe(10);
+  });
+
+  it('ignores note-off while learning and rebinding keeps the binding options', () => {
+    const { engine, learn } = setup();
+
+    learn(0x80, 60, 0);
+    expect(engine.getState().learnTarget).toBe('intensity');
+    engine.cancelLearn();
+
+    learn(...cc(21, 0));
+    engine.updateBinding('intensity', { invert: true, rangeMin: 0.2 });
+    learn(...noteOn(60));
+
+    expect(engine.getState().bindings).toEqual([
+      expect.objectContaining({ source: { type: 'note', channel: 0, number: 60 }, invert: true, rangeMin: 0.2 })
+    ]);
+  });
+
+  it('maps the hardware sweep onto the binding range', () => {
+    const { engine, device, learn, getValue } = setup();
+    learn(...cc(21, 0));
+    engine.updateBinding('intensity', { rangeMin: 0.2, rangeMax: 0.6 });
+
+    device.send(...cc(21, 0));
+    expect(getValue()).toBeCloseTo(2);
+    device.send(...cc(21, 127));
+    expect(getValue()).toBeCloseTo(6);
+  });
+
+  it('inverts absolute controls', () => {
+    const { engine, device, learn, getValue } = setup();
+    learn(...cc(21, 0));
+    engine.updateBinding('intensity', { invert: true });
+
+    device.send(...cc(21, 127));
+    expect(getValue()).toBe(0);
+    device.send(...cc(21, 0));
+    expect(getValue()).toBe(10);
+  });
+
+  it('steps relative encoders in two’s complement within the range', () => {
+    const { engine, device, learn, getValue } = setup({ step: 0.01 });
+    learn(...cc(30, 1));
+    engine.updateBinding('intensity', { encoding: 'relative', rangeMin: 0, rangeMax: 0.6 });
+
+    device.send(...cc(30, 3));
+    expect(getValue()).toBeCloseTo(5 + (3 / 127) * 10, 2);
+    device.send(...cc(30, 125));
+    expect(getValue()).toBeCloseTo(5, 2);
+    // Clamped to the top of the binding range
+    device.send(...cc(30, 63));
+    expect(getValue()).toBeCloseTo(6, 2);
+
+    engine.updateBinding('intensity', { invert: true });
+    device.send(...cc(30, 1));
+    expect(getValue()).toBeLessThan(6);
+  });
+
+  it('waits for soft takeover until the knob reaches the on-screen value', () => {
+    const { engine, device, learn, getValue, setCurrent, setValue } = setup();
+    learn(...cc(21, 0));
+    engine.updateBinding('intensity', { softTakeover: true });
+
+    // On screen at 5 (0.5); knob starts low and moves up
+    device.send(...cc(21, 10));
+    device.send(...cc(21, 40));
+    expect(setValue).not.toHaveBeenCalled();
+
+    // Crossing 0.5 picks the control up
+    device.send(...cc(21, 70));
+    expect(getValue()).toBeCloseTo((70 / 127) * 10);
+    device.send(...cc(21, 80));
+    expect(getValue()).toBeCloseTo((80 / 127) * 10);
+
+    // Moved elsewhere (e.g. a preset); the knob has to catch up again
+    setCurrent(1);
+    setValue.mockClear();
+    device.send(...cc(21, 90));
+    expect(setValue).not.toHaveBeenCalled();
+    device.send(...cc(21, 12));
+    expect(getValue()).toBeCloseTo((12 / 127) * 10);
+  });
+
+  it('fires triggers on note-on and on a CC press, not on release', () => {
+    const engine = createMidiMappingEngine();
+    const device = createFakeAccess();
+    connectMidiInputs(device.access, data => engine.handleRawMessage(data));
+    const trigger = vi.fn();
+    engine.registerControl('play', () => ({ id: 'play', label: 'Play', kind: 'trigger', trigger }));
+
+    engine.startLearn('play');
+    device.send(...cc(40, 127));
+    device.send(...cc(40, 127));
+    device.send(...cc(40, 0));
+    device.send(...cc(40, 127));
+    expect(trigger).toHaveBeenCalledTimes(2);
+
+    engine.startLearn('play');
+    device.send(...noteOn(36));
+    device.send(...noteOn(36, 0));
+    device.send(...noteOn(36));
+    expect(trigger).toHaveBeenCalledTimes(3);
+  });
+
+  it('detaches from the device when disconnected', () => {
+    const engine = createMidiMappingEngine();
+    const device = createFakeAccess();
+    const onDevicesChange = vi.fn();
+    const disconnect = connectMidiInputs(device.access, data => engine.handleRawMessage(data), onDevicesChange);
+
+    expect(onDevicesChange).toHaveBeenCalledWith(['Fake Controller']);
+    disconnect();
+    expect(device.input.onmidimessage).toBeNull();
+    expect(device.access.onstatechange).toBeNull();
+  });
+});
+
+describe('MIDI profiles', () => {
+  it('saves, replaces, loads and deletes profiles in the given storage', () => {
+    const storage = createMemoryStorage();
+    const { engine, learn } = setup();
+    learn(...cc(21, 0));
+    engine.updateBinding('intensity', { invert: true, softTakeover: true });
+
+    saveMidiProfile('Launch Control', engine.getState().bindings, storage);
+    saveMidiProfile('APC', [], storage);
+    saveMidiProfile('Launch Control', engine.getState().bindings, storage);
+
+    const profiles = loadMidiProfiles(storage);
+    expect(profiles.map(profile => profile.name)).toEqual(['APC', 'Launch Control']);
+
+    // A fresh engine restores the same behaviour from the stored bindings
+    const restored = createMidiMappingEngine(profiles[1].bindings);
+    expect(restored.getState().bindings).toEqual(engine.getState().bindings);
+
+    expect(deleteMidiProfile('APC', storage).map(profile => profile.name)).toEqual(['Launch Control']);
+    expect(loadMidiProfiles(storage)).toHaveLength(1);
+  });
+
+  it('remembers the active profile and ignores unreadable data', () => {
+    const storage = createMemoryStorage();
+    expect(getActiveProfileName(storage)).toBe('Default');
+    setActiveProfileName('APC', storage);
+    expect(getActiveProfileName(storage)).toBe('APC');
+
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    storage.setItem('sdxl-dj-midi-profiles', '{not json');
+    expect(loadMidiProfiles(storage)).toEqual([]);
+    storage.setItem('sdxl-dj-midi-profiles', JSON.stringify([{ name: 'ok', bindings: [] }, { name: 3 }]));
+    expect(loadMidiProfiles(storage).map(profile => profile.name)).toEqual(['ok']);
+    warn.mockRestore();
+  });
+});
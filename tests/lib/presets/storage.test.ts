@@ -0,0 +1,138 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  PRESETS_PER_BANK,
+  PRESET_SLOT_COUNT,
+  WORKSPACE_PRESETS_KEY,
+  createEmptySlots,
+  isPreset,
+  loadPresets,
+  savePresets
+} from '../../../src/lib/presets/storage';
+import { PRESET_BANK_FORMAT, parsePresetBank, serializePresetBank } from '../../../src/lib/presets/format';
+import type { Preset } from '../../../src/lib/presets/types';
+
+const workspacePreset: Preset = {
+  name: 'Intro',
+  state: {
+    kind: 'workspace',
+    prompts: [{ id: 1, text: 'neon city', weight: 100, active: true }],
+    effects: [{ id: 'zoom', enabled: true, intensity: 0.5, speed: 1, params: {} }],
+    seed: 7,
+    steps: 2,
+    resolution: '512x512'
+  },
+  thumbnail: 'data:image/jpeg;base64,AAAA',
+  savedAt: '2024-01-01T00:00:00.000Z'
+};
+
+const deckPreset: Preset = {
+  name: 'Drop',
+  state: { kind: 'deck', prompt: 'neon city', seed: 3, speedFader: 0.5, seedJitter: 0.1 },
+  thumbnail: null,
+  savedAt: '2024-01-01T00:00:00.000Z'
+};
+
+// Copy of `preset` with its state fields replaced
+const withState = (preset: Preset, state: Record<string, unknown>) => ({
+  ...preset,
+  state: { ...preset.state, ...state }
+});
+
+const createMemoryStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => {
+      items.set(key, value);
+    }
+  };
+};
+
+describe('isPreset', () => {
+  it('accepts full workspace and deck snapshots', () => {
+    expect(isPreset(workspacePreset)).toBe(true);
+    expect(isPreset(deckPreset)).toBe(true);
+  });
+
+  it('checks the workspace state field by field', () => {
+    expect(isPreset(withState(workspacePreset, { prompts: [{ id: 1, text: 'no weight', active: true }] }))).toBe(false);
+    expect(isPreset(withState(workspacePreset, { effects: [{ id: 'zoom', enabled: true, intensity: 0.5, speed: 1 }] }))).toBe(false);
+    expect(isPreset(withState(workspacePreset, { steps: '2' }))).toBe(false);
+    expect(isPreset(withState(workspacePreset, { resolution: undefined }))).toBe(false);
+  });
+
+  it('checks the deck state field by field', () => {
+    expect(isPreset(withState(deckPreset, { prompt: null }))).toBe(false);
+    expect(isPreset(withState(deckPreset, { speedFader: undefined }))).toBe(false);
+    expect(isPreset(withState(deckPreset, { seedJitter: '0' }))).toBe(false);
+  });
+
+  it('rejects seed-only presets from before full-state snapshots', () => {
+    expect(isPreset({ name: 'Old', state: { kind: 'deck', seed: 3 }, thumbnail: null, savedAt: '' })).toBe(false);
+    expect(isPreset({ ...deckPreset, state: { ...deckPreset.state, kind: 'mixer' } })).toBe(false);
+  });
+});
+
+describe('preset storage', () => {
+  it('round-trips slots and pads them to every bank', () => {
+    const storage = createMemoryStorage();
+    const slots = createEmptySlots();
+    slots[0] = workspacePreset;
+    slots[PRESETS_PER_BANK + 1] = deckPreset;
+
+    expect(savePresets(WORKSPACE_PRESETS_KEY, slots, storage)).toBe(true);
+    const loaded = loadPresets(WORKSPACE_PRESETS_KEY, storage);
+    expect(loaded).toHaveLength(PRESET_SLOT_COUNT);
+    expect(loaded).toEqual(slots);
+  });
+
+  it('turns unreadable entries into empty pads', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const storage = createMemoryStorage();
+    storage.setItem(WORKSPACE_PRESETS_KEY, JSON.stringify([withState(deckPreset, { speedFader: 'fast' }), deckPreset]));
+    expect(loadPresets(WORKSPACE_PRESETS_KEY, storage).slice(0, 2)).toEqual([null, deckPreset]);
+
+    storage.setItem(WORKSPACE_PRESETS_KEY, '{not json');
+    expect(loadPresets(WORKSPACE_PRESETS_KEY, storage)).toEqual(createEmptySlots());
+    vi.restoreAllMocks();
+  });
+
+  it('reports a full quota instead of throwing', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const storage = {
+      getItem: () => null,
+      setItem: () => {
+        throw new Error('QuotaExceededError');
+      }
+    };
+    expect(savePresets(WORKSPACE_PRESETS_KEY, createEmptySlots(), storage)).toBe(false);
+    vi.restoreAllMocks();
+  });
+});
+
+describe('preset bank files', () => {
+  it('round-trips one bank', () => {
+    const presets = [workspacePreset, null, deckPreset];
+    const parsed = parsePresetBank(serializePresetBank(presets));
+    expect(parsed).toHaveLength(PRESETS_PER_BANK);
+    expect(parsed.slice(0, 3)).toEqual(presets);
+    expect(parsed.slice(3).every(preset => preset === null)).toBe(true);
+  });
+
+  it('rejects files that are not preset banks', () => {
+    expect(() => parsePresetBank('{')).toThrow('not valid JSON');
+    expect(() => parsePresetBank(JSON.stringify({ format: 'other' }))).toThrow('Not a preset bank file');
+    expect(() => parsePresetBank(JSON.stringify({ format: PRESET_BANK_FORMAT, version: 99, presets: [] })))
+      .toThrow('newer than this app supports');
+  });
+
+  it('reports every bad pad', () => {
+    const text = JSON.stringify({
+      format: PRESET_BANK_FORMAT,
+      version: 1,
+      savedAt: '2024-01-01T00:00:00.000Z',
+      presets: [workspacePreset, withState(workspacePreset, { steps: null }), null, withState(deckPreset, { prompt: 1 })]
+    });
+    expect(() => parsePresetBank(text)).toThrow('Invalid preset bank file, missing or bad: presets[1], presets[3]');
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import { GIF_TRAILER, encodeGifFrame, encodeGifHeader } from '../../../src/lib/recorder/gif';
+
+// Graphic control extension, then the image descriptor and its local palette
+const GCE_LENGTH = 8;
+const DESCRIPTOR_LENGTH = 10;
+const PALETTE_LENGTH = 256 * 3;
+
+// Reference LZW decoder for a GIF image data block (code size byte, then sub-blocks)
+const decodeImageData = (data: Uint8Array) => {
+  const minCodeSize = data[0];
+  const bytes: number[] = [];
+  let offset = 1;
+  while (data[offset] !== 0) {
+    bytes.push(...data.subarray(offset + 1, offset + 1 + data[offset]));
+    offset += data[offset] + 1;
+  }
+
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const output: number[] = [];
+  let table: number[][] = [];
+  let codeSize = minCodeSize + 1;
+  let previous: number[] | null = null;
+  let bitOffset = 0;
+
+  const reset = () => {
+    table = Array.from({ length: endCode + 1 }, (_, code) => [code]);
+    codeSize = minCodeSize + 1;
+    previous = null;
+  };
+  reset();
+
+  for (;;) {
+    let code = 0;
+    for (let bit = 0; bit < codeSize; bit++, bitOffset++) {
+      code |= ((bytes[bitOffset >> 3] >> (bitOffset & 7)) & 1) << bit;
+    }
+    if (code === clearCode) {
+      reset();
+      continue;
+    }
+    if (code === endCode) break;
+
+    const entry: number[] = code < table.length ? table[code] : [...previous!, previous![0]];
+    output.push(...entry);
+    if (previous) table.push([...previous, entry[0]]);
+    previous = entry;
+    if (table.length === 1 << codeSize && codeSize < 12) codeSize++;
+  }
+  return { output, length: offset + 1 };
+};
+
+const decodeFrame = (frame: Uint8Array) => {
+  const view = new DataView(frame.buffer, frame.byteOffset, frame.byteLength);
+  const descriptor = GCE_LENGTH;
+  const palette = frame.subarray(descriptor + DESCRIPTOR_LENGTH, descriptor + DESCRIPTOR_LENGTH + PALETTE_LENGTH);
+  const { output, length } = decodeImageData(frame.subarray(descriptor + DESCRIPTOR_LENGTH + PALETTE_LENGTH));
+  return {
+    delay: view.getUint16(4, true),
+    width: view.getUint16(descriptor + 5, true),
+    height: view.getUint16(descriptor + 7, true),
+    // RGB of each decoded pixel
+    colors: output.map(index => Array.from(palette.subarray(index * 3, index * 3 + 3))),
+    length: descriptor + DESCRIPTOR_LENGTH + PALETTE_LENGTH + length
+  };
+};
+
+// `width` x `height` RGBA frame coloured by `colorAt(x, y)`
+const createFrame = (width: number, height: number, colorAt: (x: number, y: number) => number[], delayMs = 100) => {
+  const pixels = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      pixels.set([...colorAt(x, y), 255], (y * width + x) * 4);
+    }
+  }
+  return { pixels, width, height, delayMs };
+};
+
+const expectRoundTrip = (frame: ReturnType<typeof createFrame>) => {
+  const encoded = encodeGifFrame(frame);
+  const decoded = decodeFrame(encoded);
+  expect(decoded.length).toBe(encoded.length);
+  expect(decoded.width).toBe(frame.width);
+  expect(decoded.height).toBe(frame.height);
+  expect(decoded.colors).toEqual(
+    Array.from({ length: frame.width * frame.height }, (_, i) => Array.from(frame.pixels.subarray(i * 4, i * 4 + 3)))
+  );
+  return decoded;
+};
+
+describe('GIF encoder', () => {
+  it('writes the header with the canvas size and a looping extension', () => {
+    const header = encodeGifHeader(320, 200);
+    expect(String.fromCharCode(...header.subarray(0, 6))).toBe('GIF89a');
+    expect(new DataView(header.buffer).getUint16(6, true)).toBe(320);
+    expect(new DataView(header.buffer).getUint16(8, true)).toBe(200);
+    expect(String.fromCharCode(...header.subarray(16, 27))).toBe('NETSCAPE2.0');
+    expect(GIF_TRAILER).toEqual(new Uint8Array([0x3b]));
+  });
+
+  it('encodes a small frame that decodes back to its pixels', () => {
+    const colors = [[255, 0, 0], [0, 128, 255], [24, 24, 24]];
+    const decoded = expectRoundTrip(createFrame(5, 3, (x, y) => colors[(x + y) % 3], 120));
+    expect(decoded.delay).toBe(12);
+  });
+
+  it('clamps very short delays', () => {
+    expect(decodeFrame(encodeGifFrame(createFrame(2, 2, () => [0, 0, 0], 0))).delay).toBe(2);
+  });
+
+  // Enough distinct runs to fill the 4096-entry code table and force a clear
+  it('keeps decoding across code size changes and table resets', () => {
+    let seed = 1;
+    const next = () => {
+      seed = (seed * 1103515245 + 12345) % 2147483648;
+      return seed >> 16;
+    };
+    expectRoundTrip(createFrame(120, 100, () => [(next() % 16) * 16 + 8, (next() % 4) * 64 + 8, 8]));
+  });
+});
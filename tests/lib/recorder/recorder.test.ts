@@ -0,0 +1,32 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createFrameRecorder } from '../../../src/lib/recorder/recorder';
+
+const frame = { data: new Uint8Array(4), width: 1, height: 1 };
+const metadata = { prompt: 'neon city', negativePrompt: '', seed: 1, steps: 2, cfgScale: 1, width: 1, height: 1, modelId: null };
+
+describe('frame recorder', () => {
+  // PNG encoding goes through a canvas; a 1-byte blob stands in for it
+  beforeEach(() => {
+    vi.stubGlobal('ImageData', class {});
+    vi.stubGlobal('document', {
+      createElement: () => ({
+        getContext: () => ({ putImageData: () => {} }),
+        toBlob: (callback: (blob: Blob) => void) => setTimeout(() => callback(new Blob([new Uint8Array(1)])))
+      })
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('stops at maxFrames even when more frames were queued before the limit', async () => {
+    const recorder = createFrameRecorder({ maxFrames: 3 });
+    recorder.start();
+    for (let i = 0; i < 5; i++) recorder.addFrame(frame, metadata);
+
+    const frames = await recorder.getFrames();
+    expect(frames.map(({ index }) => index)).toEqual([0, 1, 2]);
+    expect(recorder.getState()).toMatchObject({ isRecording: false, frameCount: 3, bytes: 3, limitReached: true });
+  });
+});
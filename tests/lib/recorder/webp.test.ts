@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { muxAnimatedWebp } from '../../../src/lib/recorder/webp';
+
+const ascii = (text: string) => Array.from(text, char => char.charCodeAt(0));
+
+const chunk = (id: string, data: number[]) => {
+  const size = new Uint8Array(4);
+  new DataView(size.buffer).setUint32(0, data.length, true);
+  return [...ascii(id), ...size, ...data, ...(data.length % 2 ? [0] : [])];
+};
+
+// A still WebP file holding `chunks`
+const stillWebp = (...chunks: number[][]) => {
+  const body = chunks.flat();
+  const size = new Uint8Array(4);
+  new DataView(size.buffer).setUint32(0, 4 + body.length, true);
+  return new Uint8Array([...ascii('RIFF'), ...size, ...ascii('WEBP'), ...body]);
+};
+
+interface ParsedChunk {
+  id: string;
+  data: Uint8Array;
+}
+
+const readChunks = (data: Uint8Array, offset: number, end: number) => {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const chunks: ParsedChunk[] = [];
+  while (offset < end) {
+    const size = view.getUint32(offset + 4, true);
+    chunks.push({ id: String.fromCharCode(...data.subarray(offset, offset + 4)), data: data.subarray(offset + 8, offset + 8 + size) });
+    offset += 8 + size + (size % 2);
+  }
+  expect(offset).toBe(end);
+  return chunks;
+};
+
+const uint24 = (data: Uint8Array, offset: number) => data[offset] | (data[offset + 1] << 8) | (data[offset + 2] << 16);
+
+describe('animated WebP muxer', () => {
+  it('wraps each frame bitstream in an ANMF chunk of a VP8X file', async () => {
+    const lossy = [1, 2, 3];
+    const alpha = [9, 8, 7, 6];
+    const frames = [
+      { data: stillWebp(chunk('VP8 ', lossy), chunk('EXIF', [0, 0])), delayMs: 40 },
+      { data: stillWebp(chunk('ALPH', alpha), chunk('VP8 ', lossy)), delayMs: 0x1000000 }
+    ];
+    const file = new Uint8Array(await muxAnimatedWebp(frames, 640, 360).arrayBuffer());
+    const view = new DataView(file.buffer);
+
+    expect(String.fromCharCode(...file.subarray(0, 4))).toBe('RIFF');
+    expect(view.getUint32(4, true)).toBe(file.length - 8);
+    expect(String.fromCharCode(...file.subarray(8, 12))).toBe('WEBP');
+
+    const chunks = readChunks(file, 12, file.length);
+    expect(chunks.map(({ id }) => id)).toEqual(['VP8X', 'ANIM', 'ANMF', 'ANMF']);
+
+    const [vp8x, anim, ...anmf] = chunks;
+    // Animation and alpha flags, then the canvas size minus one
+    expect(vp8x.data[0]).toBe(0x12);
+    expect(uint24(vp8x.data, 4)).toBe(639);
+    expect(uint24(vp8x.data, 7)).toBe(359);
+    expect(Array.from(anim.data)).toEqual([0, 0, 0, 0xff, 0, 0]);
+
+    anmf.forEach(frame => {
+      expect(uint24(frame.data, 6)).toBe(639);
+      expect(uint24(frame.data, 9)).toBe(359);
+      expect(frame.data[15]).toBe(0x02);
+    });
+    expect(uint24(anmf[0].data, 12)).toBe(40);
+    expect(uint24(anmf[1].data, 12)).toBe(0xffffff);
+
+    // Only the bitstream chunks are carried over, odd sizes padded
+    const first = readChunks(anmf[0].data, 16, anmf[0].data.length);
+    expect(first.map(({ id }) => id)).toEqual(['VP8 ']);
+    expect(Array.from(first[0].data)).toEqual(lossy);
+    const second = readChunks(anmf[1].data, 16, anmf[1].data.length);
+    expect(second.map(({ id, data }) => [id, Array.from(data)])).toEqual([['ALPH', alpha], ['VP8 ', lossy]]);
+  });
+
+  it('leaves the alpha flag off for opaque lossy frames', async () => {
+    const file = new Uint8Array(await muxAnimatedWebp([{ data: stillWebp(chunk('VP8 ', [1, 2])), delayMs: 100 }], 2, 2).arrayBuffer());
+    expect(file[20]).toBe(0x02);
+  });
+
+  it('rejects frames without image data', () => {
+    expect(() => muxAnimatedWebp([{ data: new Uint8Array(16), delayMs: 100 }], 2, 2)).toThrow('Not a WebP image');
+    expect(() => muxAnimatedWebp([{ data: stillWebp(chunk('EXIF', [0])), delayMs: 100 }], 2, 2)).toThrow('no image data');
+  });
+});
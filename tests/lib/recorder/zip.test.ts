@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { createZip, crc32 } from '../../../src/lib/recorder/zip';
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+describe('ZIP writer', () => {
+  it('computes the standard CRC-32 check value', () => {
+    expect(crc32(encoder.encode('123456789'))).toBe(0xcbf43926);
+    expect(crc32(new Uint8Array(0))).toBe(0);
+  });
+
+  it('stores entries behind a central directory that points back at them', async () => {
+    const entries = [
+      { name: 'frames/frame_0000.png', data: new Uint8Array([1, 2, 3, 4, 5]) },
+      { name: 'metadata.json', data: encoder.encode('{"frames":1}') }
+    ];
+    const zip = new Uint8Array(await createZip(entries, new Date(2024, 5, 15, 12, 30, 10)).arrayBuffer());
+    const view = new DataView(zip.buffer);
+
+    // End of central directory record
+    const end = zip.length - 22;
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+    expect(view.getUint16(end + 10, true)).toBe(2);
+    const centralSize = view.getUint32(end + 12, true);
+    const centralOffset = view.getUint32(end + 16, true);
+    expect(centralOffset + centralSize).toBe(end);
+
+    let central = centralOffset;
+    entries.forEach(entry => {
+      expect(view.getUint32(central, true)).toBe(0x02014b50);
+      expect(view.getUint16(central + 14, true)).toBe(((2024 - 1980) << 9) | (6 << 5) | 15);
+      expect(view.getUint32(central + 16, true)).toBe(crc32(entry.data));
+      expect(view.getUint32(central + 24, true)).toBe(entry.data.length);
+      const nameLength = view.getUint16(central + 28, true);
+      expect(decoder.decode(zip.subarray(central + 46, central + 46 + nameLength))).toBe(entry.name);
+
+      const local = view.getUint32(central + 42, true);
+      expect(view.getUint32(local, true)).toBe(0x04034b50);
+      expect(view.getUint16(local + 8, true)).toBe(0);
+      expect(view.getUint32(local + 14, true)).toBe(crc32(entry.data));
+      const dataStart = local + 30 + view.getUint16(local + 26, true);
+      expect(zip.subarray(dataStart, dataStart + entry.data.length)).toEqual(entry.data);
+
+      central += 46 + nameLength;
+    });
+  });
+});
@@ -0,0 +1,208 @@
+import { describe, expect, it } from 'vitest';
+import { migrateSession, parseSession, serializeSession } from '../../../src/lib/session/format';
+import type { SessionData } from '../../../src/lib/session/types';
+
+const prompt = { id: 1, text: 'neon city', weight: 100, active: true };
+const effect = { id: 'zoom', enabled: true, intensity: 0.5, speed: 1, params: {} };
+const binding = {
+  controlId: 'workspace.bpm',
+  source: { type: 'cc' as const, channel: 0, number: 21 },
+  rangeMin: 0,
+  rangeMax: 1,
+  invert: false,
+  encoding: 'absolute' as const,
+  softTakeover: true
+};
+const route = {
+  id: 'route-1',
+  sourceId: 'audio.bass',
+  destination: 'prompt.1.weight' as const,
+  depth: 0.5,
+  offset: 0,
+  polarity: 'unipolar' as const,
+  curve: 's-curve' as const,
+  enabled: true
+};
+
+const createSession = (): SessionData => ({
+  workspace: {
+    prompts: [prompt],
+    negativePrompt: '',
+    promptBlend: 'linear',
+    effects: [effect],
+    seed: 42,
+    seedMode: 'jump',
+    steps: 2,
+    cfgScale: 1,
+    resolution: '512x512',
+    imageToImageMode: 'off',
+    strength: 0.5,
+    bpm: 120,
+    beatSync: false
+  },
+  modelId: null,
+  presets: { workspace: [], decks: [] },
+  midi: { profile: 'Default', bindings: [binding] },
+  modulation: { routes: [route], envelope: { attackMs: 10, decayMs: 400 } },
+  scenes: {
+    scenes: [{
+      id: 'intro',
+      name: 'Intro',
+      bars: 4,
+      prompts: [prompt],
+      seed: 7,
+      effects: [effect],
+      resolution: '512x512',
+      transition: { type: 'morph', beats: 4 }
+    }],
+    arrangement: ['intro', 'intro'],
+    loop: true
+  },
+  automation: {
+    bpm: 120,
+    lengthBeats: 16,
+    lanes: [{ parameterId: 'workspace.bpm', label: 'BPM', events: [{ beat: 0, value: 120 }, { beat: 8, value: 128 }], muted: false }]
+  }
+});
+
+// Serializes the session after `change` has broken part of it
+const withChange = (change: (session: any) => void) => {
+  const session: any = createSession();
+  change(session);
+  return serializeSession(session);
+};
+
+describe('session format', () => {
+  it('round-trips a session', () => {
+    const session = createSession();
+    expect(parseSession(serializeSession(session))).toEqual(session);
+  });
+
+  it('rejects files that are not sessions', () => {
+    expect(() => parseSession('{')).toThrow('not valid JSON');
+    expect(() => parseSession(JSON.stringify({ format: 'sdxl-dj-automation' }))).toThrow('Not a session file');
+    expect(() => parseSession(withChange(session => {
+      session.version = 99;
+    }))).toThrow('version 99 is not supported');
+  });
+
+  it('reports every bad scene field', () => {
+    const text = withChange(session => {
+      session.scenes.scenes.push({ ...session.scenes.scenes[0], bars: 0 });
+      session.scenes.scenes.push({ ...session.scenes.scenes[0], transition: { type: 'wipe', beats: 4 } });
+      session.scenes.scenes.push({ ...session.scenes.scenes[0], prompts: [{ id: 1, text: 'x' }] });
+      session.scenes.arrangement = ['intro', 3];
+      session.scenes.loop = 'yes';
+    });
+    expect(() => parseSession(text)).toThrow(
+      'missing or bad: scenes.scenes[1], scenes.scenes[2], scenes.scenes[3], scenes.arrangement, scenes.loop'
+    );
+  });
+
+  it('checks automation lanes like an automation file', () => {
+    const text = withChange(session => {
+      session.automation.bpm = 0;
+      session.automation.lanes.push({ parameterId: 'workspace.seed', label: 'Seed', events: [{ beat: -1, value: 3 }] });
+      session.automation.lanes.push({ parameterId: 'workspace.steps', events: [] });
+    });
+    expect(() => parseSession(text)).toThrow('missing or bad: automation.bpm, automation.lanes[1], automation.lanes[2]');
+
+    expect(() => parseSession(withChange(session => {
+      delete session.automation;
+      session.scenes = [];
+    }))).toThrow('missing or bad: scenes.scenes, scenes.arrangement, scenes.loop, automation');
+  });
+
+  it('reports bad workspace fields', () => {
+    const text = withChange(session => {
+      session.workspace.prompts.push({ id: 2, weight: 50, active: true });
+      session.workspace.effects.push({ id: 'blur', enabled: 'yes', intensity: 1, speed: 1, params: {} });
+      session.workspace.negativePrompt = null;
+      session.workspace.promptBlend = 'average';
+      session.workspace.seedMode = 'random';
+      session.workspace.imageToImageMode = 'image';
+      session.workspace.beatSync = 1;
+    });
+    expect(() => parseSession(text)).toThrow(
+      'missing or bad: workspace.prompts[1], workspace.effects[1], workspace.negativePrompt, ' +
+      'workspace.promptBlend, workspace.seedMode, workspace.imageToImageMode, workspace.beatSync'
+    );
+  });
+
+  it('reports bad MIDI bindings and modulation routes', () => {
+    const text = withChange(session => {
+      session.midi.bindings.push({ ...binding, source: { type: 'pitch-bend', channel: 0, number: 0 } });
+      session.midi.bindings.push({ ...binding, encoding: 'signed' });
+      session.modulation.routes.push({ ...route, curve: 'bounce' });
+      session.modulation.routes.push({ ...route, destination: 'hue' });
+      session.modulation.routes.push({ ...route, polarity: undefined });
+      delete session.modulation.envelope.decayMs;
+    });
+    expect(() => parseSession(text)).toThrow(
+      'missing or bad: midi.bindings[1], midi.bindings[2], modulation.routes[1], modulation.routes[2], ' +
+      'modulation.routes[3], modulation.envelope'
+    );
+  });
+
+  it('reports bad presets and keeps empty pads', () => {
+    const workspacePreset = {
+      name: 'Intro',
+      state: { kind: 'workspace', prompts: [prompt], effects: [effect], seed: 7, steps: 2, resolution: '512x512' },
+      thumbnail: null,
+      savedAt: '2024-01-01T00:00:00.000Z'
+    };
+    const deckPreset = {
+      name: 'Drop',
+      state: { kind: 'deck', prompt: 'neon city', seed: 3, speedFader: 0.5, seedJitter: 0 },
+      thumbnail: null,
+      savedAt: '2024-01-01T00:00:00.000Z'
+    };
+    expect(parseSession(withChange(session => {
+      session.presets = { workspace: [workspacePreset, null], decks: [null, deckPreset] };
+    })).presets).toEqual({ workspace: [workspacePreset, null], decks: [null, deckPreset] });
+
+    const text = withChange(session => {
+      session.presets = {
+        workspace: [null, { ...workspacePreset, state: { ...workspacePreset.state, prompts: [{ text: 'no id' }] } }],
+        decks: [{ ...deckPreset, state: { ...deckPreset.state, speedFader: undefined } }]
+      };
+    });
+    expect(() => parseSession(text)).toThrow('missing or bad: presets.workspace[1], presets.decks[0]');
+  });
+
+  it('sorts lane events and settles muted like an automation file', () => {
+    const text = withChange(session => {
+      session.automation.lanes = [{
+        parameterId: 'workspace.cfgScale',
+        label: 'CFG',
+        events: [{ beat: 8, value: 2 }, { beat: 0, value: 1 }, { beat: 4, value: 1.5 }]
+      }];
+    });
+    expect(parseSession(text).automation.lanes).toEqual([{
+      parameterId: 'workspace.cfgScale',
+      label: 'CFG',
+      events: [{ beat: 0, value: 1 }, { beat: 4, value: 1.5 }, { beat: 8, value: 2 }],
+      muted: false
+    }]);
+  });
+
+  it('migrates older files step by step', () => {
+    // A made-up v2 that renamed `bpm` to `tempo`, and a v3 that added a tag list
+    const migrations = {
+      1: ({ workspace: { bpm, ...workspace }, ...session }: any) => ({ ...session, workspace: { ...workspace, tempo: bpm } }),
+      2: (session: any) => ({ ...session, tags: [] })
+    };
+    const file = { ...JSON.parse(serializeSession(createSession())), version: 1 };
+
+    const migrated = migrateSession(file, migrations, 3);
+    expect(migrated.version).toBe(3);
+    expect(migrated.workspace.tempo).toBe(120);
+    expect(migrated.workspace.bpm).toBeUndefined();
+    expect(migrated.tags).toEqual([]);
+    // The file itself is left alone
+    expect(file.workspace.bpm).toBe(120);
+
+    expect(migrateSession(file, migrations, 1)).toBe(file);
+    expect(() => migrateSession(file, { 1: migrations[1] }, 3)).toThrow('No migration for session version 2');
+  });
+});
@@ -0,0 +1,237 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import http from 'http';
+import crypto from 'crypto';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { downloadFile, downloadModel } from '../../scripts/download-model.js';
+import { verifyModelFiles } from '../../electron/model-integrity.js';
+
+// Local stand-in for the model host. Routes:
+//   /file       honours Range requests with 206
+//   /redirect   302s to /file
+//   /no-range   always answers 200 with the whole file
+//   /truncated  announces the full length, then drops the connection halfway
+//   /bad-range  answers a Range request from the wrong offset
+//   /models/unet/*  serves the file; other model paths are 404
+const CONTENT = crypto.randomBytes(64 * 1024);
+const CONTENT_SHA256 = crypto.createHash('sha256').update(CONTENT).digest('hex');
+
+const sendFile = (req, res, { honourRange = true, startOffset } = {}) => {
+  const range = /^bytes=(\d+)-$/.exec(req.headers.range || '');
+  if (range && honourRange) {
+    const requested = parseInt(range[1], 10);
+    if (requested >= CONTENT.length) {
+      res.writeHead(416, { 'Content-Range': `bytes */${CONTENT.length}` });
+      res.end();
+      return;
+    }
+    const start = startOffset ?? requested;
+    res.writeHead(206, {
+      'Content-Length': CONTENT.length - start,
+      'Content-Range': `bytes ${start}-${CONTENT.length - 1}/${CONTENT.length}`
+    });
+    res.end(CONTENT.subarray(start));
+    return;
+  }
+  res.writeHead(200, { 'Content-Length': CONTENT.length });
+  res.end(CONTENT);
+};
+
+let server;
+let baseUrl;
+let tempDir;
+const requests = [];
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    requests.push({ url: req.url, range: req.headers.range });
+    switch (req.url) {
+      case '/file':
+        sendFile(req, res);
+        break;
+      case '/redirect':
+        res.writeHead(302, { Location: '/file', 'X-Linked-Etag': `"${CONTENT_SHA256}"` });
+        res.end();
+        break;
+      case '/no-range':
+        sendFile(req, res, { honourRange: false });
+        break;
+      case '/bad-range':
+        sendFile(req, res, { startOffset: 0 });
+        break;
+      case '/truncated':
+        res.writeHead(200, { 'Content-Length': CONTENT.length });
+        res.write(CONTENT.subarray(0, CONTENT.length / 2), () => res.socket.destroy());
+        break;
+      default:
+        if (req.url.startsWith('/models/unet/')) {
+          sendFile(req, res);
+          break;
+        }
+        res.writeHead(404);
+        res.end();
+    }
+  });
+  await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${server.address().port}`;
+});
+
+afterAll(() => new Promise(resolve => server.close(resolve)));
+
+beforeEach(() => {
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sdxl-dj-download-'));
+  requests.length = 0;
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+const target = () => path.join(tempDir, 'model.onnx');
+const writePart = (bytes) => fs.writeFileSync(`${target()}.part`, CONTENT.subarray(0, bytes));
+
+describe('downloadFile', () => {
+  it('follows redirects and verifies against the hash seen on the redirect', async () => {
+    const sha256 = await downloadFile(`${baseUrl}/redirect`, target());
+
+    expect(sha256).toBe(CONTENT_SHA256);
+    expect(fs.readFileSync(target()).equals(CONTENT)).toBe(true);
+    expect(requests.map(request => request.url)).toEqual(['/redirect', '/file']);
+  });
+
+  it('resumes a partial download with a 206 response', async () => {
+    writePart(1000);
+
+    await downloadFile(`${baseUrl}/file`, target(), { sha256: CONTENT_SHA256, size: CONTENT.length });
+
+    expect(requests[0].range).toBe('bytes=1000-');
+    expect(fs.readFileSync(target()).equals(CONTENT)).toBe(true);
+    expect(fs.existsSync(`${target()}.part`)).toBe(false);
+  });
+
+  it('restarts from scratch when the server ignores the range with a 200', async () => {
+    writePart(1000);
+
+    await downloadFile(`${baseUrl}/no-range`, target(), { sha256: CONTENT_SHA256 });
+
+    expect(requests[0].range).toBe('bytes=1000-');
+    expect(fs.readFileSync(target()).equals(CONTENT)).toBe(true);
+  });
+
+  it('rejects a 206 that starts at the wrong offset and keeps the part file', async () => {
+    writePart(1000);
+
+    await expect(downloadFile(`${baseUrl}/bad-range`, target())).rejects.toThrow(/resumed at byte 0 instead of 1000/);
+    expect(fs.statSync(`${target()}.part`).size).toBe(1000);
+    expect(fs.existsSync(target())).toBe(false);
+  });
+
+  it('accepts a complete part file on 416 and restarts an oversized one', async () => {
+    writePart(CONTENT.length);
+    await downloadFile(`${baseUrl}/file`, target(), { sha256: CONTENT_SHA256 });
+    expect(fs.readFileSync(target()).equals(CONTENT)).toBe(true);
+
+    fs.rmSync(target());
+    fs.writeFileSync(`${target()}.part`, Buffer.concat([CONTENT, Buffer.alloc(10)]));
+    requests.length = 0;
+    await downloadFile(`${baseUrl}/file`, target(), { sha256: CONTENT_SHA256 });
+
+    expect(requests.map(request => request.range)).toEqual([`bytes=${CONTENT.length + 10}-`, undefined]);
+    expect(fs.readFileSync(target()).equals(CONTENT)).toBe(true);
+  });
+
+  it('deletes the part file on a checksum mismatch', async () => {
+    await expect(downloadFile(`${baseUrl}/file`, target(), { sha256: '0'.repeat(64) })).rejects.toThrow(/SHA-256 mismatch/);
+
+    expect(fs.existsSync(`${target()}.part`)).toBe(false);
+    expect(fs.existsSync(target())).toBe(false);
+  });
+
+  it('keeps a truncated download as a part file instead of installing it', async () => {
+    await expect(downloadFile(`${baseUrl}/truncated`, target())).rejects.toThrow();
+
+    expect(fs.existsSync(target())).toBe(false);
+    expect(fs.statSync(`${target()}.part`).size).toBeLessThan(CONTENT.length);
+
+    // The next attempt picks up where it stopped
+    await downloadFile(`${baseUrl}/file`, target(), { sha256: CONTENT_SHA256, size: CONTENT.length });
+    expect(fs.readFileSync(target()).equals(CONTENT)).toBe(true);
+  });
+
+  it('rejects a file whose size differs from the manifest', async () => {
+    await expect(downloadFile(`${baseUrl}/file`, target(), { size: CONTENT.length + 1 })).rejects.toThrow(/manifest expects/);
+    expect(fs.existsSync(target())).toBe(false);
+  });
+});
+
+describe('downloadModel', () => {
+  it('pins downloaded sizes and hashes into the manifest with updateManifest', async () => {
+    const manifestPath = path.join(tempDir, 'manifest.json');
+    const modelsDir = path.join(tempDir, 'models');
+    fs.writeFileSync(manifestPath, JSON.stringify({
+      name: 'Test model',
+      components: { unet: 'unet.onnx' },
+      files: [
+        { component: 'unet', path: 'unet.onnx', url: 'unet/model.onnx' },
+        { component: 'vae_encoder', path: 'vae_encoder.onnx', url: 'missing', optional: true }
+      ]
+    }));
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    await downloadModel({ baseUrl: `${baseUrl}/models`, modelsDir, manifestPath, updateManifest: true });
+
+    const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf-8'));
+    expect(manifest.files[0]).toMatchObject({ size: CONTENT.length, sha256: CONTENT_SHA256 });
+    expect(manifest.files[1]).not.toHaveProperty('sha256');
+
+    // A changed file of the same size now fails against the pinned hash
+    fs.writeFileSync(path.join(modelsDir, 'unet.onnx'), Buffer.alloc(CONTENT.length));
+    const [unet] = await verifyModelFiles(manifest, modelsDir);
+    expect(unet.status).toBe('hash-mismatch');
+  });
+
+  it('completes a truncated file that has no known checksum', async () => {
+    const manifestPath = path.join(tempDir, 'manifest.json');
+    const modelsDir = path.join(tempDir, 'models');
+    fs.mkdirSync(modelsDir);
+    fs.writeFileSync(manifestPath, JSON.stringify({
+      name: 'Test model',
+      components: { unet: 'unet.onnx', text_encoder: 'text_encoder.onnx' },
+      files: [
+        { component: 'unet', path: 'unet.onnx', url: 'unet/model.onnx' },
+        { component: 'text_encoder', path: 'text_encoder.onnx', url: 'unet/text_encoder.onnx' }
+      ]
+    }));
+    // Left behind by a downloader that didn't check sizes
+    fs.writeFileSync(path.join(modelsDir, 'unet.onnx'), CONTENT.subarray(0, 1000));
+    fs.writeFileSync(path.join(modelsDir, 'text_encoder.onnx'), CONTENT);
+
+    await downloadModel({ baseUrl: `${baseUrl}/models`, modelsDir, manifestPath });
+
+    expect(fs.readFileSync(path.join(modelsDir, 'unet.onnx')).equals(CONTENT)).toBe(true);
+    expect(fs.readFileSync(path.join(modelsDir, 'text_encoder.onnx')).equals(CONTENT)).toBe(true);
+    expect(requests).toEqual([
+      { url: '/models/unet/model.onnx', range: 'bytes=1000-' },
+      { url: '/models/unet/text_encoder.onnx', range: `bytes=${CONTENT.length}-` }
+    ]);
+  });
+
+  it('keeps an unchecked file when the server cannot be reached', async () => {
+    const manifestPath = path.join(tempDir, 'manifest.json');
+    const modelsDir = path.join(tempDir, 'models');
+    fs.mkdirSync(modelsDir);
+    fs.writeFileSync(manifestPath, JSON.stringify({
+      name: 'Test model',
+      components: { unet: 'unet.onnx' },
+      files: [{ component: 'unet', path: 'unet.onnx', url: 'gone/model.onnx' }]
+    }));
+    fs.writeFileSync(path.join(modelsDir, 'unet.onnx'), CONTENT);
+
+    await expect(downloadModel({ baseUrl: `${baseUrl}/models`, modelsDir, manifestPath })).rejects.toThrow(/HTTP 404/);
+    expect(fs.readFileSync(path.join(modelsDir, 'unet.onnx')).equals(CONTENT)).toBe(true);
+  });
+});
@@ -0,0 +1,10 @@
+import { defineConfig } from 'vitest/config';
+
+// Kept apart from vite.config.ts so the renderer build settings (React
+// plugin, `global` define) don't apply to main-process and script tests
+export default defineConfig({
+  test: {
+    include: ['tests/**/*.test.{js,ts}'],
+    environment: 'node'
+  }
+});